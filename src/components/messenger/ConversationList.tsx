@@ -1,13 +1,17 @@
 import React from 'react';
-import { ScrollArea, Avatar, AvatarFallback, AvatarImage, Badge, Input, Button } from '@/lib/design-system';
-import { MessageSquare, Search, UserPlus, Archive, Pin, Bell, BellOff, ChevronLeft, ChevronRight, X, Video } from 'lucide-react';
-import { formatDistanceToNow } from 'date-fns';
+import { ScrollArea, Input, Button } from '@/lib/design-system';
+import { MessageSquare, Search, UserPlus, Archive, ArchiveRestore, Pin, PinOff, Mail, MailOpen, CheckSquare, ChevronLeft, ChevronRight, X, Users } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getConversationDisplayName } from '@/lib/messenger/conversationUtils';
+import { stripMarkdown } from '@/lib/messenger/markdown';
+import type { ConversationFlags } from '@/services/shared/messagingService';
+import { ConversationListItem } from './ConversationListItem';
 
-interface Conversation {
+export interface Conversation {
   id: string;
   type: string;
   name?: string;
+  avatar_url?: string;
   last_message_at?: string;
   participants: ConversationParticipant[];
   last_message?: {
@@ -16,13 +20,18 @@ interface Conversation {
     created_at: string;
   };
   unread_count: number;
+  unread_mention_count?: number;
 }
 
-interface ConversationParticipant {
+export interface ConversationParticipant {
   profile_universe_id: string;
   is_archived: boolean;
   is_muted: boolean;
+  notify_mentions_when_muted?: boolean;
   is_pinned: boolean;
+  pin_order?: number | null;
+  marked_unread?: boolean;
+  role?: 'owner' | 'admin' | 'member';
   profile_universe?: {
     id: string;
     handle: string;
@@ -31,22 +40,31 @@ interface ConversationParticipant {
   };
 }
 
+export type ConversationFilter = 'all' | 'unread' | 'mentions' | 'pinned' | 'archived';
+
 interface ConversationListProps {
   conversations: Conversation[];
   selectedConversationId?: string;
   onSelectConversation: (conversation: Conversation) => void;
   onNewMessage: () => void;
+  onNewGroup?: () => void;
   currentUniverseId?: string;
   searchQuery: string;
   onSearchChange: (query: string) => void;
-  filter: 'all' | 'unread' | 'pinned' | 'archived';
-  onFilterChange: (filter: 'all' | 'unread' | 'pinned' | 'archived') => void;
+  filter: ConversationFilter;
+  onFilterChange: (filter: ConversationFilter) => void;
   isLoading?: boolean;
+  hasMore?: boolean; // older conversations exist beyond the loaded pages
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  onUpdateFlags?: (conversationIds: string[], flags: ConversationFlags) => void;
+  onReorderPinned?: (conversationIds: string[]) => void; // every pinned conversation, top first
   isCollapsed?: boolean;
   onToggleCollapse?: () => void;
   showSidebar?: boolean;
   onCloseSidebar?: () => void;
   activeCallConversationId?: string | null; // ID of conversation with active call
+  drafts?: Record<string, string>; // unsent text by conversation ID
 }
 
 export function ConversationList({
@@ -54,18 +72,35 @@ export function ConversationList({
   selectedConversationId,
   onSelectConversation,
   onNewMessage,
+  onNewGroup,
   currentUniverseId,
   searchQuery,
   onSearchChange,
   filter,
   onFilterChange,
   isLoading = false,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  onUpdateFlags,
+  onReorderPinned,
   isCollapsed = false,
   onToggleCollapse,
   showSidebar = true,
   onCloseSidebar,
-  activeCallConversationId
+  activeCallConversationId,
+  drafts
 }: ConversationListProps) {
+  const [isSelectionMode, setIsSelectionMode] = React.useState(false);
+  const [checkedIds, setCheckedIds] = React.useState<Set<string>>(new Set());
+  const [draggingId, setDraggingId] = React.useState<string | null>(null);
+  const [dragOverId, setDragOverId] = React.useState<string | null>(null);
+
+  const getOwnParticipant = React.useCallback(
+    (conv: Conversation) => conv.participants.find(p => p.profile_universe_id === currentUniverseId),
+    [currentUniverseId]
+  );
+
   // Filter conversations based on active filter
   const filteredConversations = React.useMemo(() => {
     let filtered = conversations;
@@ -88,48 +123,123 @@ export function ConversationList({
       });
     }
 
-    // Apply filter tabs
+    // Apply filter tabs; archived conversations only show in their own tab (or when searching)
     switch (filter) {
       case 'unread':
-        filtered = filtered.filter(c => c.unread_count > 0);
+        filtered = filtered.filter(c => c.unread_count > 0 || getOwnParticipant(c)?.marked_unread);
+        break;
+      case 'mentions':
+        filtered = filtered.filter(c => (c.unread_mention_count || 0) > 0);
         break;
       case 'pinned':
-        filtered = filtered.filter(c => 
-          c.participants.some(p => p.profile_universe_id === currentUniverseId && p.is_pinned)
-        );
+        filtered = filtered.filter(c => getOwnParticipant(c)?.is_pinned);
         break;
       case 'archived':
-        filtered = filtered.filter(c => 
-          c.participants.some(p => p.profile_universe_id === currentUniverseId && p.is_archived)
-        );
+        filtered = filtered.filter(c => getOwnParticipant(c)?.is_archived);
         break;
     }
+    if (filter !== 'archived' && !searchQuery) {
+      filtered = filtered.filter(c => !getOwnParticipant(c)?.is_archived);
+    }
 
-    // Sort by last message time or pinned status
-    return filtered.sort((a, b) => {
-      const aPinned = a.participants.some(p => p.profile_universe_id === currentUniverseId && p.is_pinned);
-      const bPinned = b.participants.some(p => p.profile_universe_id === currentUniverseId && p.is_pinned);
+    // Pinned first in their saved order, then by last message time
+    return [...filtered].sort((a, b) => {
+      const aOwn = getOwnParticipant(a);
+      const bOwn = getOwnParticipant(b);
+      const aPinned = aOwn?.is_pinned || false;
+      const bPinned = bOwn?.is_pinned || false;
       
       if (aPinned && !bPinned) return -1;
       if (!aPinned && bPinned) return 1;
+      if (aPinned && bPinned) {
+        const orderDiff = (aOwn?.pin_order ?? Number.MAX_SAFE_INTEGER) - (bOwn?.pin_order ?? Number.MAX_SAFE_INTEGER);
+        if (orderDiff !== 0) return orderDiff;
+      }
       
       const aTime = a.last_message_at ? new Date(a.last_message_at).getTime() : 0;
       const bTime = b.last_message_at ? new Date(b.last_message_at).getTime() : 0;
       return bTime - aTime;
     });
-  }, [conversations, searchQuery, filter, currentUniverseId]);
+  }, [conversations, searchQuery, filter, currentUniverseId, getOwnParticipant]);
 
-  const getConversationDisplayName = (conv: Conversation) => {
-    if (conv.name) return conv.name;
-    const otherParticipants = conv.participants.filter(p => p.profile_universe_id !== currentUniverseId);
-    if (otherParticipants.length === 0) return 'You';
-    if (otherParticipants.length === 1) {
-      return otherParticipants[0].profile_universe?.display_name || otherParticipants[0].profile_universe?.handle || 'Unknown';
-    }
-    return `${otherParticipants.length} participants`;
+  // Selection is per view; switching tabs starts over
+  React.useEffect(() => {
+    setIsSelectionMode(false);
+    setCheckedIds(new Set());
+  }, [filter]);
+
+  const canReorderPins = !!onReorderPinned && !searchQuery && !isSelectionMode && (filter === 'all' || filter === 'pinned');
+
+  const toggleChecked = (conversationId: string) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(conversationId)) {
+        next.delete(conversationId);
+      } else {
+        next.add(conversationId);
+      }
+      return next;
+    });
+  };
+
+  const startSelection = (conversationId?: string) => {
+    setIsSelectionMode(true);
+    setCheckedIds(conversationId ? new Set([conversationId]) : new Set());
+  };
+
+  const exitSelection = () => {
+    setIsSelectionMode(false);
+    setCheckedIds(new Set());
+  };
+
+  // Bulk actions toggle towards whatever not every selected conversation already is
+  const checkedConversations = filteredConversations.filter(c => checkedIds.has(c.id));
+  const allChecked = (predicate: (c: Conversation) => boolean) =>
+    checkedConversations.length > 0 && checkedConversations.every(predicate);
+  const bulkUnpin = allChecked(c => !!getOwnParticipant(c)?.is_pinned);
+  const bulkMarkRead = allChecked(c => c.unread_count > 0 || !!getOwnParticipant(c)?.marked_unread);
+  const bulkUnarchive = allChecked(c => !!getOwnParticipant(c)?.is_archived);
+
+  const applyBulk = (flags: ConversationFlags) => {
+    if (!onUpdateFlags || checkedConversations.length === 0) return;
+    onUpdateFlags(checkedConversations.map(c => c.id), flags);
+    exitSelection();
+  };
+
+  // Move the dragged pin to the drop target's position
+  const handleDropOn = (targetId: string) => {
+    const sourceId = draggingId;
+    setDraggingId(null);
+    setDragOverId(null);
+    if (!onReorderPinned || !sourceId || sourceId === targetId) return;
+
+    // Reordering is only offered unfiltered, so this is the whole pinned list in display order
+    const pinnedIds = filteredConversations
+      .filter(c => getOwnParticipant(c)?.is_pinned)
+      .map(c => c.id);
+    const targetIndex = pinnedIds.indexOf(targetId);
+    if (targetIndex === -1 || !pinnedIds.includes(sourceId)) return;
+
+    const reordered = pinnedIds.filter(id => id !== sourceId);
+    reordered.splice(targetIndex, 0, sourceId);
+    onReorderPinned(reordered);
+  };
+
+  const getLastMessagePreview = (conv: Conversation) => {
+    if (!conv.last_message) return 'No messages yet';
+    const { sender_profile_universe_id } = conv.last_message;
+    const content = stripMarkdown(conv.last_message.content);
+    if (conv.type !== 'group') return content;
+
+    // In groups, prefix the preview with the sender's name
+    if (sender_profile_universe_id === currentUniverseId) return `You: ${content}`;
+    const sender = conv.participants.find(p => p.profile_universe_id === sender_profile_universe_id);
+    const senderName = sender?.profile_universe?.display_name || sender?.profile_universe?.handle;
+    return senderName ? `${senderName}: ${content}` : content;
   };
 
   const getConversationAvatar = (conv: Conversation) => {
+    if (conv.type === 'group') return conv.avatar_url;
     const otherParticipants = conv.participants.filter(p => p.profile_universe_id !== currentUniverseId);
     if (otherParticipants.length > 0) {
       return otherParticipants[0].profile_universe?.avatar_url;
@@ -185,11 +295,34 @@ export function ConversationList({
             </div>
           </div>
           <div className="flex items-center gap-1">
+            {onUpdateFlags && !isSelectionMode && filteredConversations.length > 0 && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => startSelection()}
+                className="h-8 w-8 md:h-9 md:w-9"
+                title="Select conversations"
+              >
+                <CheckSquare className="h-4 w-4" />
+              </Button>
+            )}
+            {onNewGroup && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onNewGroup}
+                className="h-8 w-8 md:h-9 md:w-9"
+                title="New group"
+              >
+                <Users className="h-4 w-4" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="icon"
               onClick={onNewMessage}
               className="h-8 w-8 md:h-9 md:w-9"
+              title="New message"
             >
               <UserPlus className="h-4 w-4" />
             </Button>
@@ -219,13 +352,13 @@ export function ConversationList({
       </div>
 
       {/* Filter Tabs */}
-      <div className="flex border-b border-border px-2">
-          {(['all', 'unread', 'pinned', 'archived'] as const).map((tab) => (
+      <div className="flex border-b border-border px-2 overflow-x-auto">
+          {(['all', 'unread', 'mentions', 'pinned', 'archived'] as const).map((tab) => (
             <button
               key={tab}
               onClick={() => onFilterChange(tab)}
               className={cn(
-                "px-dv-4 py-dv-2 text-dv-sm font-dv-semibold border-b-2 transition-dv-base",
+                "px-dv-3 py-dv-2 text-dv-sm font-dv-semibold border-b-2 transition-dv-base whitespace-nowrap",
                 filter === tab
                   ? "border-dv-pink-500 text-dv-pink-500"
                   : "border-transparent text-muted-foreground hover:text-foreground"
@@ -236,6 +369,52 @@ export function ConversationList({
           ))}
       </div>
 
+      {/* Bulk actions */}
+      {isSelectionMode && (
+        <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-border bg-muted/50">
+          <div className="flex items-center gap-2 min-w-0">
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={exitSelection} title="Cancel selection">
+              <X className="h-4 w-4" />
+            </Button>
+            <span className="text-dv-sm font-dv-semibold truncate">{checkedIds.size} selected</span>
+          </div>
+          <div className="flex items-center gap-1">
+            {!bulkUnarchive && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={checkedIds.size === 0}
+                onClick={() => applyBulk({ is_pinned: !bulkUnpin })}
+                title={bulkUnpin ? 'Unpin' : 'Pin'}
+              >
+                {bulkUnpin ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              disabled={checkedIds.size === 0}
+              onClick={() => applyBulk({ marked_unread: !bulkMarkRead })}
+              title={bulkMarkRead ? 'Mark as read' : 'Mark as unread'}
+            >
+              {bulkMarkRead ? <MailOpen className="h-4 w-4" /> : <Mail className="h-4 w-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              disabled={checkedIds.size === 0}
+              onClick={() => applyBulk({ is_archived: !bulkUnarchive })}
+              title={bulkUnarchive ? 'Unarchive' : 'Archive'}
+            >
+              {bulkUnarchive ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Conversation List */}
       <ScrollArea className="flex-1">
         {isLoading ? (
@@ -263,68 +442,45 @@ export function ConversationList({
         ) : (
           <div className="p-2">
             {filteredConversations.map((conversation) => {
-              const isSelected = conversation.id === selectedConversationId;
-              const participant = conversation.participants.find(
-                p => p.profile_universe_id === currentUniverseId
-              );
-              const isMuted = participant?.is_muted || false;
-              const isPinned = participant?.is_pinned || false;
+              const isPinned = getOwnParticipant(conversation)?.is_pinned || false;
+              const isDraggable = canReorderPins && isPinned;
 
               return (
-                <button
+                <ConversationListItem
                   key={conversation.id}
-                  type="button"
-                  onClick={() => onSelectConversation(conversation)}
-                  className={cn(
-                    "w-full p-dv-3 rounded-dv-lg text-left transition-dv-base mb-dv-1",
-                    "hover:bg-accent overflow-hidden min-w-0",
-                    isSelected && "bg-accent"
-                  )}
-                >
-                  <div className="flex items-start gap-3 min-w-0 w-full">
-                    <Avatar className="h-dv-12 w-dv-12 flex-shrink-0">
-                      <AvatarImage src={getConversationAvatar(conversation)} />
-                      <AvatarFallback>
-                        {getConversationDisplayName(conversation).charAt(0).toUpperCase()}
-                      </AvatarFallback>
-                    </Avatar>
-
-                    <div className="flex-1 min-w-0 overflow-hidden w-full">
-                      <div className="flex items-center justify-between mb-dv-1 gap-2 min-w-0 w-full">
-                        <div className="flex items-center gap-dv-2 min-w-0 flex-1 overflow-hidden">
-                          <span className="font-dv-semibold text-dv-sm truncate flex-1 min-w-0">
-                            {getConversationDisplayName(conversation)}
-                          </span>
-                          {activeCallConversationId === conversation.id && (
-                            <div className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-dv-primary/10 border border-dv-primary/20 flex-shrink-0">
-                              <Video className="h-3 w-3 text-dv-primary animate-pulse" />
-                            </div>
-                          )}
-                          {isPinned && <Pin className="h-dv-3 w-dv-3 text-muted-foreground flex-shrink-0" />}
-                          {isMuted && <BellOff className="h-dv-3 w-dv-3 text-muted-foreground flex-shrink-0" />}
-                        </div>
-                        {conversation.last_message_at && (
-                          <span className="text-dv-xs text-muted-foreground flex-shrink-0 whitespace-nowrap ml-2">
-                            {formatDistanceToNow(new Date(conversation.last_message_at), { addSuffix: true })}
-                          </span>
-                        )}
-                      </div>
-
-                      <div className="flex items-center justify-between gap-dv-2 min-w-0 w-full">
-                        <p className="text-dv-sm text-muted-foreground truncate flex-1 min-w-0 overflow-hidden text-ellipsis whitespace-nowrap">
-                          {conversation.last_message?.content || 'No messages yet'}
-                        </p>
-                        {conversation.unread_count > 0 && (
-                          <Badge variant="default" className="flex-shrink-0 bg-dv-pink-500 ml-2">
-                            {conversation.unread_count}
-                          </Badge>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                </button>
+                  conversation={conversation}
+                  displayName={getConversationDisplayName(conversation, currentUniverseId)}
+                  avatarUrl={getConversationAvatar(conversation)}
+                  preview={getLastMessagePreview(conversation)}
+                  draft={conversation.id !== selectedConversationId ? drafts?.[conversation.id] : undefined}
+                  currentUniverseId={currentUniverseId}
+                  isSelected={conversation.id === selectedConversationId}
+                  hasActiveCall={activeCallConversationId === conversation.id}
+                  onSelect={() => onSelectConversation(conversation)}
+                  onUpdateFlags={onUpdateFlags ? (flags) => onUpdateFlags([conversation.id], flags) : undefined}
+                  isSelectionMode={isSelectionMode}
+                  isChecked={checkedIds.has(conversation.id)}
+                  onToggleChecked={() => toggleChecked(conversation.id)}
+                  onStartSelection={onUpdateFlags ? () => startSelection(conversation.id) : undefined}
+                  isDraggable={isDraggable}
+                  isDragOver={isDraggable && dragOverId === conversation.id && draggingId !== conversation.id}
+                  onDragStart={() => setDraggingId(conversation.id)}
+                  onDragOver={() => setDragOverId(conversation.id)}
+                  onDrop={() => handleDropOn(conversation.id)}
+                  onDragEnd={() => {
+                    setDraggingId(null);
+                    setDragOverId(null);
+                  }}
+                />
               );
             })}
+            {hasMore && onLoadMore && (
+              <div className="p-dv-2 flex justify-center">
+                <Button variant="ghost" size="sm" onClick={onLoadMore} disabled={isLoadingMore}>
+                  {isLoadingMore ? 'Loading...' : 'Load more'}
+                </Button>
+              </div>
+            )}
           </div>
         )}
       </ScrollArea>
@@ -0,0 +1,315 @@
+import React, { useRef, useState } from 'react';
+import { Avatar, AvatarFallback, AvatarImage, Badge, DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/lib/design-system';
+import { Archive, ArchiveRestore, BellOff, Check, CheckSquare, GripVertical, Mail, MailOpen, MoreHorizontal, Pin, PinOff, Users, Video } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { stripMarkdown } from '@/lib/messenger/markdown';
+import type { ConversationFlags } from '@/services/shared/messagingService';
+import type { Conversation } from './ConversationList';
+
+// How far a row has to be swiped before letting go triggers its action
+const SWIPE_TRIGGER_PX = 72;
+const SWIPE_MAX_PX = 96;
+
+interface ConversationListItemProps {
+  conversation: Conversation;
+  displayName: string;
+  avatarUrl?: string;
+  preview: string;
+  draft?: string; // unsent text, shown instead of the last message
+  currentUniverseId?: string;
+  isSelected: boolean;
+  hasActiveCall: boolean;
+  onSelect: () => void;
+  onUpdateFlags?: (flags: ConversationFlags) => void;
+  // Multi-select
+  isSelectionMode?: boolean;
+  isChecked?: boolean;
+  onToggleChecked?: () => void;
+  onStartSelection?: () => void;
+  // Drag-to-reorder, offered on pinned rows only
+  isDraggable?: boolean;
+  isDragOver?: boolean;
+  onDragStart?: () => void;
+  onDragOver?: () => void;
+  onDrop?: () => void;
+  onDragEnd?: () => void;
+}
+
+export function ConversationListItem({
+  conversation,
+  displayName,
+  avatarUrl,
+  preview,
+  draft,
+  currentUniverseId,
+  isSelected,
+  hasActiveCall,
+  onSelect,
+  onUpdateFlags,
+  isSelectionMode = false,
+  isChecked = false,
+  onToggleChecked,
+  onStartSelection,
+  isDraggable = false,
+  isDragOver = false,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd
+}: ConversationListItemProps) {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [swipeOffset, setSwipeOffset] = useState(0);
+  const touchStartRef = useRef<{ x: number; y: number } | null>(null);
+  const isSwipingRef = useRef(false);
+
+  const participant = conversation.participants.find(p => p.profile_universe_id === currentUniverseId);
+  const isMuted = participant?.is_muted || false;
+  const isPinned = participant?.is_pinned || false;
+  const isArchived = participant?.is_archived || false;
+  const isMarkedUnread = participant?.marked_unread || false;
+  const isUnread = conversation.unread_count > 0 || isMarkedUnread;
+
+  const handleClick = () => {
+    // The tap that ends a swipe isn't a selection
+    if (isSwipingRef.current) {
+      isSwipingRef.current = false;
+      return;
+    }
+    if (isSelectionMode) {
+      onToggleChecked?.();
+    } else {
+      onSelect();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      handleClick();
+    }
+  };
+
+  const handleContextMenu = (e: React.MouseEvent) => {
+    if (!onUpdateFlags || isSelectionMode) return;
+    e.preventDefault();
+    setIsMenuOpen(true);
+  };
+
+  // Swipe left to archive, right to toggle unread
+  const handleTouchStart = (e: React.TouchEvent) => {
+    if (!onUpdateFlags || isSelectionMode) return;
+    const touch = e.touches[0];
+    touchStartRef.current = { x: touch.clientX, y: touch.clientY };
+    isSwipingRef.current = false;
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    if (!touchStartRef.current) return;
+    const touch = e.touches[0];
+    const dx = touch.clientX - touchStartRef.current.x;
+    const dy = touch.clientY - touchStartRef.current.y;
+
+    if (!isSwipingRef.current) {
+      // Leave vertical drags to the list's scrolling
+      if (Math.abs(dx) < 10 || Math.abs(dx) < Math.abs(dy)) return;
+      isSwipingRef.current = true;
+    }
+    setSwipeOffset(Math.max(-SWIPE_MAX_PX, Math.min(SWIPE_MAX_PX, dx)));
+  };
+
+  const handleTouchEnd = () => {
+    if (!touchStartRef.current) return;
+    touchStartRef.current = null;
+
+    if (swipeOffset <= -SWIPE_TRIGGER_PX) {
+      onUpdateFlags?.({ is_archived: !isArchived });
+    } else if (swipeOffset >= SWIPE_TRIGGER_PX) {
+      onUpdateFlags?.({ marked_unread: !isUnread });
+    }
+    setSwipeOffset(0);
+  };
+
+  return (
+    <div
+      className={cn(
+        "group relative mb-dv-1 overflow-hidden rounded-dv-lg",
+        isDragOver && "ring-2 ring-dv-pink-500"
+      )}
+      draggable={isDraggable}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', conversation.id);
+        onDragStart?.();
+      }}
+      onDragOver={(e) => {
+        if (!isDraggable) return;
+        e.preventDefault();
+        onDragOver?.();
+      }}
+      onDrop={(e) => {
+        if (!isDraggable) return;
+        e.preventDefault();
+        onDrop?.();
+      }}
+      onDragEnd={onDragEnd}
+    >
+      {/* Swipe actions, revealed underneath the row */}
+      {swipeOffset !== 0 && (
+        <div
+          className={cn(
+            "absolute inset-0 flex items-center justify-between px-dv-4 text-white text-dv-xs font-dv-semibold",
+            swipeOffset > 0 ? "bg-dv-pink-500" : "bg-muted-foreground"
+          )}
+        >
+          <span className={cn("flex items-center gap-1", swipeOffset > 0 ? "opacity-100" : "opacity-0")}>
+            {isUnread ? <MailOpen className="h-4 w-4" /> : <Mail className="h-4 w-4" />}
+            {isUnread ? 'Read' : 'Unread'}
+          </span>
+          <span className={cn("flex items-center gap-1", swipeOffset < 0 ? "opacity-100" : "opacity-0")}>
+            {isArchived ? 'Unarchive' : 'Archive'}
+            {isArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+          </span>
+        </div>
+      )}
+
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={handleClick}
+        onKeyDown={handleKeyDown}
+        onContextMenu={handleContextMenu}
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+        onTouchCancel={() => {
+          touchStartRef.current = null;
+          setSwipeOffset(0);
+        }}
+        style={swipeOffset ? { transform: `translateX(${swipeOffset}px)` } : undefined}
+        className={cn(
+          "relative w-full p-dv-3 text-left transition-dv-base cursor-pointer touch-pan-y bg-background",
+          "hover:bg-accent overflow-hidden min-w-0",
+          (isSelected || isChecked) && "bg-accent",
+          swipeOffset === 0 && "transition-transform"
+        )}
+      >
+        <div className="flex items-start gap-3 min-w-0 w-full">
+          {isSelectionMode && (
+            <span
+              className={cn(
+                "mt-dv-3 flex h-5 w-5 flex-shrink-0 items-center justify-center rounded-full border",
+                isChecked ? "border-dv-pink-500 bg-dv-pink-500 text-white" : "border-muted-foreground"
+              )}
+            >
+              {isChecked && <Check className="h-3 w-3" />}
+            </span>
+          )}
+          {isDraggable && (
+            <GripVertical className="mt-dv-3 h-4 w-4 flex-shrink-0 text-muted-foreground cursor-grab hidden md:block" />
+          )}
+          <Avatar className="h-dv-12 w-dv-12 flex-shrink-0">
+            <AvatarImage src={avatarUrl} />
+            <AvatarFallback>
+              {conversation.type === 'group' && !conversation.name ? (
+                <Users className="h-5 w-5 text-muted-foreground" />
+              ) : (
+                displayName.charAt(0).toUpperCase()
+              )}
+            </AvatarFallback>
+          </Avatar>
+
+          <div className="flex-1 min-w-0 overflow-hidden w-full">
+            <div className="flex items-center justify-between mb-dv-1 gap-2 min-w-0 w-full">
+              <div className="flex items-center gap-dv-2 min-w-0 flex-1 overflow-hidden">
+                <span className={cn("text-dv-sm truncate flex-1 min-w-0", isUnread ? "font-dv-bold" : "font-dv-semibold")}>
+                  {displayName}
+                </span>
+                {hasActiveCall && (
+                  <div className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-dv-primary/10 border border-dv-primary/20 flex-shrink-0">
+                    <Video className="h-3 w-3 text-dv-primary animate-pulse" />
+                  </div>
+                )}
+                {isPinned && <Pin className="h-dv-3 w-dv-3 text-muted-foreground flex-shrink-0" />}
+                {isMuted && <BellOff className="h-dv-3 w-dv-3 text-muted-foreground flex-shrink-0" />}
+              </div>
+              {conversation.last_message_at && (
+                <span className="text-dv-xs text-muted-foreground flex-shrink-0 whitespace-nowrap ml-2">
+                  {formatDistanceToNow(new Date(conversation.last_message_at), { addSuffix: true })}
+                </span>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between gap-dv-2 min-w-0 w-full">
+              <p className="text-dv-sm text-muted-foreground truncate flex-1 min-w-0 overflow-hidden text-ellipsis whitespace-nowrap">
+                {draft?.trim() ? (
+                  <>
+                    <span className="font-dv-semibold text-destructive">Draft: </span>
+                    {stripMarkdown(draft)}
+                  </>
+                ) : preview}
+              </p>
+              {(conversation.unread_mention_count || 0) > 0 && (
+                <span
+                  className="ml-2 flex h-5 w-5 flex-shrink-0 items-center justify-center rounded-full bg-dv-pink-500 text-[11px] font-dv-bold text-white"
+                  title="You were mentioned"
+                >
+                  @
+                </span>
+              )}
+              {conversation.unread_count > 0 ? (
+                <Badge variant="default" className="flex-shrink-0 bg-dv-pink-500 ml-2">
+                  {conversation.unread_count}
+                </Badge>
+              ) : isMarkedUnread && (
+                <span className="ml-2 h-2.5 w-2.5 flex-shrink-0 rounded-full bg-dv-pink-500" title="Marked as unread" />
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {onUpdateFlags && !isSelectionMode && (
+        <DropdownMenu open={isMenuOpen} onOpenChange={setIsMenuOpen}>
+          <DropdownMenuTrigger asChild>
+            <button
+              type="button"
+              className={cn(
+                "absolute right-2 bottom-2 rounded-full p-1 bg-background/90 text-muted-foreground hover:text-foreground",
+                "opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+              )}
+              title="Conversation options"
+            >
+              <MoreHorizontal className="h-4 w-4" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {!isArchived && (
+              <DropdownMenuItem onClick={() => onUpdateFlags({ is_pinned: !isPinned })}>
+                {isPinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+                {isPinned ? 'Unpin' : 'Pin'}
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem onClick={() => onUpdateFlags({ marked_unread: !isUnread })}>
+              {isUnread ? <MailOpen className="h-4 w-4 mr-2" /> : <Mail className="h-4 w-4 mr-2" />}
+              {isUnread ? 'Mark as read' : 'Mark as unread'}
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onUpdateFlags({ is_archived: !isArchived })}>
+              {isArchived ? <ArchiveRestore className="h-4 w-4 mr-2" /> : <Archive className="h-4 w-4 mr-2" />}
+              {isArchived ? 'Unarchive' : 'Archive'}
+            </DropdownMenuItem>
+            {onStartSelection && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={onStartSelection}>
+                  <CheckSquare className="h-4 w-4 mr-2" />
+                  Select
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+}
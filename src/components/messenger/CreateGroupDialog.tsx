@@ -0,0 +1,218 @@
+import { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Avatar, AvatarFallback, AvatarImage, Button, Input, ScrollArea } from '@/lib/design-system';
+import { Loader2, Search, Users, Camera, Check, X } from 'lucide-react';
+import { useUniverseSearch, type UniverseSearchResult } from '@/hooks/shared/useUniverseSearch';
+import { cn } from '@/lib/utils';
+
+export interface CreateGroupData {
+  name: string;
+  avatarFile: File | null;
+  memberUniverseIds: string[];
+}
+
+interface CreateGroupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUniverseId: string;
+  onCreate: (data: CreateGroupData) => Promise<void>;
+}
+
+export function CreateGroupDialog({
+  open,
+  onOpenChange,
+  currentUniverseId,
+  onCreate
+}: CreateGroupDialogProps) {
+  const [name, setName] = useState('');
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [members, setMembers] = useState<UniverseSearchResult[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { results, isSearching } = useUniverseSearch(searchQuery, [currentUniverseId]);
+
+  // Reset the form each time the dialog closes
+  useEffect(() => {
+    if (!open) {
+      setName('');
+      setAvatarFile(null);
+      setSearchQuery('');
+      setMembers([]);
+    }
+  }, [open]);
+
+  // Keep the avatar preview object URL in sync with the chosen file
+  useEffect(() => {
+    if (!avatarFile) {
+      setAvatarPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(avatarFile);
+    setAvatarPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [avatarFile]);
+
+  const toggleMember = (universe: UniverseSearchResult) => {
+    setMembers(prev =>
+      prev.some(m => m.id === universe.id)
+        ? prev.filter(m => m.id !== universe.id)
+        : [...prev, universe]
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim() || members.length === 0) return;
+
+    setIsCreating(true);
+    try {
+      await onCreate({
+        name: name.trim(),
+        avatarFile,
+        memberUniverseIds: members.map(m => m.id)
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // The caller reports the error; keep the dialog open so the user can retry
+      console.error('[CreateGroupDialog] Error creating group:', error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isCreating && onOpenChange(next)}>
+      <DialogContent className="max-w-md" onOpenAutoFocus={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-4 w-4" />
+            New Group
+          </DialogTitle>
+          <DialogDescription>
+            Name your group and add the people who should be in it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Title and avatar */}
+          <div className="flex items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => setAvatarFile(e.target.files?.[0] || null)}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="relative flex-shrink-0 rounded-full"
+              title="Choose group photo"
+            >
+              <Avatar className="h-12 w-12">
+                <AvatarImage src={avatarPreview || undefined} />
+                <AvatarFallback>
+                  <Camera className="h-5 w-5 text-muted-foreground" />
+                </AvatarFallback>
+              </Avatar>
+            </button>
+            <Input
+              placeholder="Group name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+            />
+          </div>
+
+          {/* Selected members */}
+          {members.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {members.map(member => (
+                <span
+                  key={member.id}
+                  className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-muted text-xs"
+                >
+                  {member.display_name || member.handle}
+                  <button
+                    type="button"
+                    onClick={() => toggleMember(member)}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {/* Member search */}
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Add people by name or handle..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+
+          <ScrollArea className="h-[240px]">
+            {isSearching ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : results.length > 0 ? (
+              <div className="space-y-1 pr-2">
+                {results.map(universe => {
+                  const checked = members.some(m => m.id === universe.id);
+                  return (
+                    <button
+                      key={universe.id}
+                      type="button"
+                      onClick={() => toggleMember(universe)}
+                      className={cn(
+                        "w-full flex items-center gap-3 p-2 rounded-lg transition-colors text-left",
+                        checked ? "bg-accent" : "hover:bg-accent"
+                      )}
+                    >
+                      <Avatar className="h-9 w-9 flex-shrink-0">
+                        <AvatarImage src={universe.avatar_url} />
+                        <AvatarFallback>
+                          {universe.display_name?.charAt(0) || universe.handle?.charAt(0) || '?'}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          {universe.display_name || universe.handle || 'Unknown User'}
+                        </p>
+                        {universe.handle && (
+                          <p className="text-xs text-muted-foreground truncate">@{universe.handle}</p>
+                        )}
+                      </div>
+                      {checked && <Check className="h-4 w-4 text-dv-pink-500 flex-shrink-0" />}
+                    </button>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="text-center py-8 text-sm text-muted-foreground">
+                {searchQuery.trim() ? `No users found matching "${searchQuery}"` : 'Start typing to search for users...'}
+              </div>
+            )}
+          </ScrollArea>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={isCreating}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={!name.trim() || members.length === 0 || isCreating}>
+              {isCreating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create Group
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+import { Button } from '@/lib/design-system';
+import { Bold, Code, Italic, Link, List, ListOrdered, Quote, SquareCode, Strikethrough, type LucideIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MARKDOWN_FORMATS, type MarkdownFormat } from '@/lib/messenger/markdown';
+
+interface FormattingToolbarProps {
+  onFormat: (format: MarkdownFormat) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const FORMAT_ICONS: Record<MarkdownFormat, LucideIcon> = {
+  bold: Bold,
+  italic: Italic,
+  strike: Strikethrough,
+  code: Code,
+  code_block: SquareCode,
+  quote: Quote,
+  bullet_list: List,
+  numbered_list: ListOrdered,
+  link: Link
+};
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const describeShortcut = ({ code, shift }: { code: string; shift: boolean }) =>
+  [isMac ? '⌘' : 'Ctrl', shift && 'Shift', code.replace(/^(Key|Digit)/, '')]
+    .filter(Boolean)
+    .join('+');
+
+export function FormattingToolbar({ onFormat, disabled = false, className }: FormattingToolbarProps) {
+  return (
+    <div className={cn("flex flex-wrap items-center gap-0.5", className)} role="toolbar" aria-label="Formatting">
+      {MARKDOWN_FORMATS.map(option => {
+        const Icon = FORMAT_ICONS[option.format];
+        return (
+          <Button
+            key={option.format}
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title={`${option.label} (${describeShortcut(option)})`}
+            aria-label={option.label}
+            disabled={disabled}
+            // Keep the textarea's selection while clicking
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onFormat(option.format)}
+          >
+            <Icon className="h-3.5 w-3.5" />
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
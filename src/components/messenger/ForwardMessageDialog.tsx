@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Avatar, AvatarFallback, AvatarImage, Button, Input, ScrollArea } from '@/lib/design-system';
+import { Loader2, Search, Forward, Check, X } from 'lucide-react';
+import { useUniverseSearch } from '@/hooks/shared/useUniverseSearch';
+import { cn } from '@/lib/utils';
+import { getConversationDisplayName } from '@/lib/messenger/conversationUtils';
+import type { ForwardTargets, MessageAttachment } from '@/services/shared/messagingService';
+import { stripMarkdown } from '@/lib/messenger/markdown';
+
+interface ForwardConversation {
+  id: string;
+  type?: string;
+  name?: string;
+  participants: {
+    profile_universe_id: string;
+    profile_universe?: {
+      id: string;
+      handle: string;
+      display_name: string;
+      avatar_url?: string;
+    };
+  }[];
+}
+
+interface ForwardMessageDialogProps {
+  message: {
+    id: string;
+    content: string;
+    attachments?: MessageAttachment[] | null;
+  } | null;
+  conversations: ForwardConversation[];
+  currentUniverseId: string;
+  onClose: () => void;
+  onForward: (targets: ForwardTargets) => Promise<void>;
+}
+
+type Target =
+  | { kind: 'conversation'; id: string; label: string; avatarUrl?: string }
+  | { kind: 'universe'; id: string; label: string; avatarUrl?: string };
+
+export function ForwardMessageDialog({
+  message,
+  conversations,
+  currentUniverseId,
+  onClose,
+  onForward
+}: ForwardMessageDialogProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selected, setSelected] = useState<Map<string, Target>>(new Map());
+  const [isForwarding, setIsForwarding] = useState(false);
+
+  // Reset state whenever a different message is being forwarded
+  useEffect(() => {
+    setSearchQuery('');
+    setSelected(new Map());
+  }, [message?.id]);
+
+  const getConversationAvatar = (conv: ForwardConversation) =>
+    conv.participants.find(p => p.profile_universe_id !== currentUniverseId)?.profile_universe?.avatar_url;
+
+  const filteredConversations = useMemo(() => {
+    const query = searchQuery.toLowerCase().trim();
+    if (!query) return conversations;
+    return conversations.filter(conv => getConversationDisplayName(conv, currentUniverseId).toLowerCase().includes(query));
+  }, [conversations, searchQuery, currentUniverseId]);
+
+  // Universes that already share a direct conversation with us are listed as conversations
+  const excludedUniverseIds = useMemo(() => {
+    const ids = [currentUniverseId];
+    conversations.forEach(conv => {
+      const others = conv.participants.filter(p => p.profile_universe_id !== currentUniverseId);
+      if (others.length === 1) ids.push(others[0].profile_universe_id);
+    });
+    return ids;
+  }, [conversations, currentUniverseId]);
+
+  const { results: universeResults, isSearching } = useUniverseSearch(searchQuery, excludedUniverseIds);
+
+  const toggleTarget = (target: Target) => {
+    setSelected(prev => {
+      const next = new Map(prev);
+      const key = `${target.kind}:${target.id}`;
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.set(key, target);
+      }
+      return next;
+    });
+  };
+
+  const isSelected = (kind: Target['kind'], id: string) => selected.has(`${kind}:${id}`);
+
+  const handleForward = async () => {
+    if (selected.size === 0) return;
+
+    const targets = Array.from(selected.values());
+    setIsForwarding(true);
+    try {
+      await onForward({
+        conversationIds: targets.filter(t => t.kind === 'conversation').map(t => t.id),
+        universeIds: targets.filter(t => t.kind === 'universe').map(t => t.id)
+      });
+      onClose();
+    } catch (error) {
+      // The caller reports the error; keep the dialog open so the user can retry
+      console.error('[ForwardMessageDialog] Error forwarding message:', error);
+    } finally {
+      setIsForwarding(false);
+    }
+  };
+
+  const renderRow = (target: Target) => {
+    const checked = isSelected(target.kind, target.id);
+    return (
+      <button
+        key={`${target.kind}:${target.id}`}
+        type="button"
+        onClick={() => toggleTarget(target)}
+        className={cn(
+          "w-full flex items-center gap-3 p-2 rounded-lg transition-colors text-left",
+          checked ? "bg-accent" : "hover:bg-accent"
+        )}
+      >
+        <Avatar className="h-9 w-9 flex-shrink-0">
+          <AvatarImage src={target.avatarUrl} />
+          <AvatarFallback>{target.label.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <span className="flex-1 min-w-0 text-sm truncate">{target.label}</span>
+        <div className={cn(
+          "h-5 w-5 rounded-full border flex items-center justify-center flex-shrink-0",
+          checked ? "bg-dv-pink-500 border-dv-pink-500 text-white" : "border-border"
+        )}>
+          {checked && <Check className="h-3 w-3" />}
+        </div>
+      </button>
+    );
+  };
+
+  return (
+    <Dialog open={!!message} onOpenChange={(open) => !open && !isForwarding && onClose()}>
+      <DialogContent className="max-w-md" onOpenAutoFocus={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Forward className="h-4 w-4" />
+            Forward message
+          </DialogTitle>
+          <DialogDescription className="line-clamp-2">
+            {stripMarkdown(message?.content || '')}
+            {message?.attachments && message.attachments.length > 0 && (
+              ` (${message.attachments.length} attachment${message.attachments.length === 1 ? '' : 's'})`
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search conversations or users..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+
+          {/* Selected recipients */}
+          {selected.size > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {Array.from(selected.values()).map(target => (
+                <span
+                  key={`${target.kind}:${target.id}`}
+                  className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-muted text-xs"
+                >
+                  {target.label}
+                  <button
+                    type="button"
+                    onClick={() => toggleTarget(target)}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <ScrollArea className="h-[320px]">
+            <div className="space-y-1 pr-2">
+              {filteredConversations.length > 0 && (
+                <p className="text-xs font-medium text-muted-foreground px-2 pt-1">Conversations</p>
+              )}
+              {filteredConversations.map(conv => renderRow({
+                kind: 'conversation',
+                id: conv.id,
+                label: getConversationDisplayName(conv, currentUniverseId),
+                avatarUrl: getConversationAvatar(conv)
+              }))}
+
+              {isSearching && (
+                <div className="flex items-center justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              )}
+
+              {!isSearching && universeResults.length > 0 && (
+                <p className="text-xs font-medium text-muted-foreground px-2 pt-3">Other people</p>
+              )}
+              {!isSearching && universeResults.map(universe => renderRow({
+                kind: 'universe',
+                id: universe.id,
+                label: universe.display_name || universe.handle || 'Unknown User',
+                avatarUrl: universe.avatar_url
+              }))}
+
+              {!isSearching && filteredConversations.length === 0 && universeResults.length === 0 && (
+                <div className="text-center py-8 text-sm text-muted-foreground">
+                  {searchQuery.trim() ? `No matches for "${searchQuery}"` : 'No conversations yet'}
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={onClose} disabled={isForwarding}>
+              Cancel
+            </Button>
+            <Button onClick={handleForward} disabled={selected.size === 0 || isForwarding}>
+              {isForwarding ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Forward className="h-4 w-4 mr-2" />
+              )}
+              Forward{selected.size > 1 ? ` to ${selected.size}` : ''}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
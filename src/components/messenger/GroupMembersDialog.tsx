@@ -0,0 +1,301 @@
+import { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Avatar, AvatarFallback, AvatarImage, Badge, Button, Input, ScrollArea, DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/lib/design-system';
+import { Loader2, Search, Users, UserPlus, LogOut, MoreVertical, Shield, ShieldOff, Crown, UserMinus, Camera } from 'lucide-react';
+import { useUniverseSearch } from '@/hooks/shared/useUniverseSearch';
+import type { ConversationRole } from '@/lib/messenger/conversationUtils';
+
+interface GroupMember {
+  profile_universe_id: string;
+  role?: ConversationRole;
+  profile_universe?: {
+    id: string;
+    handle: string;
+    display_name: string;
+    avatar_url?: string;
+  };
+}
+
+interface GroupMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversation: {
+    id: string;
+    name?: string;
+    avatar_url?: string;
+    participants: GroupMember[];
+  };
+  currentUniverseId: string;
+  onUpdateDetails: (name: string, avatarFile: File | null) => Promise<void>;
+  onAddMembers: (universeIds: string[]) => Promise<void>;
+  onRemoveMember: (universeId: string) => Promise<void>;
+  onChangeRole: (universeId: string, role: ConversationRole) => Promise<void>;
+  onLeave: () => Promise<void>;
+}
+
+const ROLE_ORDER: Record<ConversationRole, number> = { owner: 0, admin: 1, member: 2 };
+
+export function GroupMembersDialog({
+  open,
+  onOpenChange,
+  conversation,
+  currentUniverseId,
+  onUpdateDetails,
+  onAddMembers,
+  onRemoveMember,
+  onChangeRole,
+  onLeave
+}: GroupMembersDialogProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [name, setName] = useState(conversation.name || '');
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const memberIds = conversation.participants.map(p => p.profile_universe_id);
+  const { results, isSearching } = useUniverseSearch(isAdding ? searchQuery : '', memberIds);
+
+  const myRole = conversation.participants.find(p => p.profile_universe_id === currentUniverseId)?.role || 'member';
+  const canManage = myRole === 'owner' || myRole === 'admin';
+  const detailsChanged = name.trim() !== (conversation.name || '') || !!avatarFile;
+
+  useEffect(() => {
+    if (open) {
+      setName(conversation.name || '');
+      setAvatarFile(null);
+    } else {
+      setIsAdding(false);
+      setSearchQuery('');
+    }
+  }, [open, conversation.name]);
+
+  const runAction = async (key: string, action: () => Promise<void>) => {
+    setBusyAction(key);
+    try {
+      await action();
+    } catch (error) {
+      // The caller reports the error
+      console.error('[GroupMembersDialog] Action failed:', key, error);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const sortedMembers = [...conversation.participants].sort((a, b) =>
+    ROLE_ORDER[a.role || 'member'] - ROLE_ORDER[b.role || 'member'] ||
+    (a.profile_universe?.display_name || '').localeCompare(b.profile_universe?.display_name || '')
+  );
+
+  const canRemove = (member: GroupMember) =>
+    member.profile_universe_id !== currentUniverseId &&
+    (myRole === 'owner' || (myRole === 'admin' && (member.role || 'member') === 'member'));
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !busyAction && onOpenChange(next)}>
+      <DialogContent className="max-w-md" onOpenAutoFocus={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-4 w-4" />
+            Group Members
+          </DialogTitle>
+          <DialogDescription>
+            {conversation.participants.length} {conversation.participants.length === 1 ? 'member' : 'members'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Group details (owners and admins) */}
+          {canManage && (
+            <div className="flex items-center gap-3">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => setAvatarFile(e.target.files?.[0] || null)}
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="flex-shrink-0 rounded-full"
+                title="Change group photo"
+              >
+                <Avatar className="h-10 w-10">
+                  <AvatarImage src={avatarFile ? undefined : conversation.avatar_url} />
+                  <AvatarFallback>
+                    <Camera className="h-4 w-4 text-muted-foreground" />
+                  </AvatarFallback>
+                </Avatar>
+              </button>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Group name"
+                maxLength={100}
+              />
+              <Button
+                size="sm"
+                disabled={!detailsChanged || !name.trim() || !!busyAction}
+                onClick={() => runAction('details', async () => {
+                  await onUpdateDetails(name.trim(), avatarFile);
+                  setAvatarFile(null);
+                })}
+              >
+                {busyAction === 'details' ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+              </Button>
+            </div>
+          )}
+
+          {/* Add members */}
+          {canManage && (
+            isAdding ? (
+              <div className="space-y-2">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search users to add..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="pl-9"
+                    autoFocus
+                  />
+                </div>
+                {isSearching && (
+                  <div className="flex items-center justify-center py-2">
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  </div>
+                )}
+                {!isSearching && results.map(universe => (
+                  <button
+                    key={universe.id}
+                    type="button"
+                    disabled={!!busyAction}
+                    onClick={() => runAction(`add:${universe.id}`, () => onAddMembers([universe.id]))}
+                    className="w-full flex items-center gap-3 p-2 rounded-lg hover:bg-accent transition-colors text-left"
+                  >
+                    <Avatar className="h-8 w-8 flex-shrink-0">
+                      <AvatarImage src={universe.avatar_url} />
+                      <AvatarFallback>{universe.display_name?.charAt(0) || '?'}</AvatarFallback>
+                    </Avatar>
+                    <span className="flex-1 min-w-0 text-sm truncate">
+                      {universe.display_name || universe.handle}
+                    </span>
+                    {busyAction === `add:${universe.id}` ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <UserPlus className="h-4 w-4 text-muted-foreground" />
+                    )}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <Button variant="outline" size="sm" className="w-full" onClick={() => setIsAdding(true)}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Add Members
+              </Button>
+            )
+          )}
+
+          {/* Member list */}
+          <ScrollArea className="h-[260px]">
+            <div className="space-y-1 pr-2">
+              {sortedMembers.map(member => {
+                const role = member.role || 'member';
+                const isMe = member.profile_universe_id === currentUniverseId;
+                const showMenu = !isMe && (myRole === 'owner' || canRemove(member));
+
+                return (
+                  <div key={member.profile_universe_id} className="flex items-center gap-3 p-2 rounded-lg">
+                    <Avatar className="h-9 w-9 flex-shrink-0">
+                      <AvatarImage src={member.profile_universe?.avatar_url} />
+                      <AvatarFallback>{member.profile_universe?.display_name?.charAt(0) || '?'}</AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {member.profile_universe?.display_name || member.profile_universe?.handle || 'Unknown'}
+                        {isMe && <span className="text-muted-foreground font-normal"> (you)</span>}
+                      </p>
+                      {member.profile_universe?.handle && (
+                        <p className="text-xs text-muted-foreground truncate">@{member.profile_universe.handle}</p>
+                      )}
+                    </div>
+                    {role !== 'member' && (
+                      <Badge variant="secondary" className="capitalize flex-shrink-0">{role}</Badge>
+                    )}
+                    {showMenu && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={!!busyAction}>
+                            {busyAction?.endsWith(member.profile_universe_id) ? (
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                            ) : (
+                              <MoreVertical className="h-3 w-3" />
+                            )}
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {myRole === 'owner' && role === 'member' && (
+                            <DropdownMenuItem onClick={() => runAction(`role:${member.profile_universe_id}`, () => onChangeRole(member.profile_universe_id, 'admin'))}>
+                              <Shield className="h-4 w-4 mr-2" />
+                              Make admin
+                            </DropdownMenuItem>
+                          )}
+                          {myRole === 'owner' && role === 'admin' && (
+                            <DropdownMenuItem onClick={() => runAction(`role:${member.profile_universe_id}`, () => onChangeRole(member.profile_universe_id, 'member'))}>
+                              <ShieldOff className="h-4 w-4 mr-2" />
+                              Remove admin
+                            </DropdownMenuItem>
+                          )}
+                          {myRole === 'owner' && (
+                            <DropdownMenuItem onClick={() => {
+                              if (window.confirm('Transfer group ownership? You will become an admin.')) {
+                                runAction(`role:${member.profile_universe_id}`, () => onChangeRole(member.profile_universe_id, 'owner'));
+                              }
+                            }}>
+                              <Crown className="h-4 w-4 mr-2" />
+                              Make owner
+                            </DropdownMenuItem>
+                          )}
+                          {canRemove(member) && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                onClick={() => runAction(`remove:${member.profile_universe_id}`, () => onRemoveMember(member.profile_universe_id))}
+                                className="text-destructive focus:text-destructive"
+                              >
+                                <UserMinus className="h-4 w-4 mr-2" />
+                                Remove from group
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+
+          <Button
+            variant="ghost"
+            className="w-full text-destructive hover:text-destructive"
+            disabled={!!busyAction}
+            onClick={() => {
+              if (window.confirm('Leave this group? You will stop receiving its messages.')) {
+                runAction('leave', onLeave);
+              }
+            }}
+          >
+            {busyAction === 'leave' ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <LogOut className="h-4 w-4 mr-2" />
+            )}
+            Leave Group
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { X, Globe } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { normalizePreviewUrl, type LinkPreview } from '@/lib/messenger/linkPreview';
+
+interface LinkPreviewCardProps {
+  preview: LinkPreview;
+  onRemove?: () => void;
+  className?: string;
+}
+
+export function LinkPreviewCard({ preview, onRemove, className }: LinkPreviewCardProps) {
+  const [imageFailed, setImageFailed] = useState(false);
+
+  // Previews are written by the sender's client: only follow http(s) links, and label the card
+  // with the host it really opens rather than the site name it claims
+  const href = normalizePreviewUrl(preview.url);
+  const image = preview.image ? normalizePreviewUrl(preview.image) : null;
+  const showImage = !!image && !imageFailed;
+
+  if (!href) return null;
+  const host = new URL(href).hostname.replace(/^www\./, '');
+
+  return (
+    <div className={cn("relative flex overflow-hidden rounded-dv-lg border border-border bg-background text-foreground", className)}>
+      <a
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer nofollow"
+        className="flex flex-1 min-w-0 hover:bg-muted/50 transition-colors"
+      >
+        {showImage && (
+          <img
+            src={image}
+            alt=""
+            loading="lazy"
+            referrerPolicy="no-referrer"
+            onError={() => setImageFailed(true)}
+            className="w-20 h-20 sm:w-24 sm:h-24 object-cover flex-shrink-0"
+          />
+        )}
+        <div className="flex-1 min-w-0 p-dv-2 pr-8">
+          <p className="flex items-center gap-1 text-xs text-muted-foreground truncate">
+            <Globe className="h-3 w-3 flex-shrink-0" />
+            {host}
+          </p>
+          {preview.title && (
+            <p className="text-sm font-medium line-clamp-2">{preview.title}</p>
+          )}
+          {preview.description && (
+            <p className="text-xs text-muted-foreground line-clamp-2">{preview.description}</p>
+          )}
+        </div>
+      </a>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="absolute top-1 right-1 rounded-full p-1 text-muted-foreground hover:text-foreground hover:bg-muted"
+          title="Remove preview"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+}
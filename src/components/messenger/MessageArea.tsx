@@ -1,9 +1,19 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { ScrollArea, Avatar, AvatarFallback, AvatarImage, Popover, PopoverContent, PopoverTrigger, Button, DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/lib/design-system';
-import { Loader2, MessageSquare, Smile, CornerUpLeft, Copy, Trash2, Forward, Edit, MoreVertical } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Avatar, AvatarFallback, AvatarImage, Popover, PopoverContent, PopoverTrigger, Button, Textarea, DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/lib/design-system';
+import { Loader2, MessageSquare, Smile, CornerUpLeft, Copy, Trash2, Forward, Edit, MoreVertical, History, Check, X, Clock, AlertCircle, RotateCw, MessagesSquare, Pin, PinOff } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { EmojiPicker } from '@/components/shared/EmojiPicker';
+import { VirtualizedMessageList } from '@/components/shared/VirtualizedMessageList';
+import { PinnedMessagesBar } from './PinnedMessagesBar';
+import { LinkPreviewCard } from './LinkPreviewCard';
+import { MessageMarkdown } from './MessageMarkdown';
+import { MessageAttachments } from './MessageAttachments';
+import { splitByMentions } from '@/lib/messenger/mentions';
+import { stripMarkdown } from '@/lib/messenger/markdown';
+import { getVoiceNote } from '@/lib/messenger/voiceNotes';
+import type { MessageAttachment } from '@/lib/messenger/attachments';
+import type { PinnedMessage, ReadReceipt } from '@/services/shared/messagingService';
 
 interface Message {
   id: string;
@@ -19,7 +29,7 @@ interface Message {
   reply_to_message_id?: string;
   read_at?: string;
   metadata?: any;
-  attachments?: any[];
+  attachments?: MessageAttachment[] | null;
   sender_profile?: {
     id: string;
     handle: string;
@@ -29,6 +39,18 @@ interface Message {
   };
   reactions?: any[];
   reply_to_message?: any;
+  thread_root_id?: string | null;
+  thread_reply_count?: number;
+  thread_last_reply_at?: string | null;
+  thread_participants?: {
+    id: string;
+    handle?: string;
+    display_name?: string;
+    avatar_url?: string;
+  }[];
+  // Set while the message is still in the offline outbox
+  delivery_status?: 'pending' | 'sending' | 'failed';
+  delivery_error?: string;
 }
 
 interface TypingUser {
@@ -42,14 +64,33 @@ interface MessageAreaProps {
   currentUniverseId?: string;
   isLoading?: boolean;
   selectedConversationName?: string;
+  isGroupConversation?: boolean;
+  highlightedMessageId?: string | null;
+  hasOlderMessages?: boolean;
+  hasNewerMessages?: boolean;
+  isLoadingOlderMessages?: boolean;
+  isLoadingNewerMessages?: boolean;
+  onLoadOlderMessages?: () => void;
+  onLoadNewerMessages?: () => void;
+  onJumpToLatest?: () => void;
   typingUsers?: TypingUser[];
   onAddReaction?: (messageId: string, emoji: string) => void;
   onReplyToMessage?: (message: Message) => void;
-  onEditMessage?: (message: Message) => void;
+  onOpenThread?: (message: Message) => void;
+  threadUnreadCounts?: Record<string, number>;
+  pinnedMessages?: PinnedMessage[];
+  readReceipts?: ReadReceipt[];
+  onSelectPinnedMessage?: (messageId: string) => void;
+  onShowAllPinned?: () => void;
+  onTogglePinMessage?: (messageId: string, pinned: boolean) => void;
+  onEditMessage?: (messageId: string, content: string) => Promise<void> | void;
+  onViewEditHistory?: (message: Message) => void;
   onDeleteMessage?: (messageId: string) => void;
   onForwardMessage?: (message: Message) => void;
   onCopyMessage?: (content: string) => void;
   onImageClick?: (url: string, name?: string) => void;
+  onRetryMessage?: (messageId: string) => void;
+  onDiscardMessage?: (messageId: string) => void;
 }
 
 export function MessageArea({
@@ -57,346 +98,733 @@ export function MessageArea({
   currentUniverseId,
   isLoading = false,
   selectedConversationName,
+  isGroupConversation = false,
+  highlightedMessageId = null,
+  hasOlderMessages = false,
+  hasNewerMessages = false,
+  isLoadingOlderMessages = false,
+  isLoadingNewerMessages = false,
+  onLoadOlderMessages,
+  onLoadNewerMessages,
+  onJumpToLatest,
   typingUsers = [],
   onAddReaction,
   onReplyToMessage,
+  onOpenThread,
+  threadUnreadCounts = {},
+  pinnedMessages = [],
+  readReceipts,
+  onSelectPinnedMessage,
+  onShowAllPinned,
+  onTogglePinMessage,
   onEditMessage,
+  onViewEditHistory,
   onDeleteMessage,
   onForwardMessage,
   onCopyMessage,
-  onImageClick
+  onImageClick,
+  onRetryMessage,
+  onDiscardMessage
 }: MessageAreaProps) {
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const pinnedMessageIds = useMemo(
+    () => new Set(pinnedMessages.map(p => p.message_id)),
+    [pinnedMessages]
+  );
 
-  // Auto-scroll to bottom when new messages arrive
-  useEffect(() => {
-    if (messagesEndRef.current) {
-      messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
+  // Everyone else's cursors; ticks and "Seen by" compare them against each message's timestamp
+  const otherReceipts = useMemo(
+    () => (readReceipts || []).filter(r => r.profile_universe_id !== currentUniverseId),
+    [readReceipts, currentUniverseId]
+  );
+
+  // "Seen by" goes under the newest message we've sent
+  const lastOwnMessageId = useMemo(() => {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i];
+      if (message.sender_profile_universe_id === currentUniverseId && !message.delivery_status && message.message_type !== 'system') {
+        return message.id;
+      }
     }
-  }, [messages]);
+    return null;
+  }, [messages, currentUniverseId]);
 
-  if (isLoading) {
-    return (
-      <div className="flex flex-col items-center justify-center h-full w-full">
-        <Loader2 className="h-6 w-6 animate-spin text-primary mb-3" />
-        <p className="text-sm text-muted-foreground">Loading messages...</p>
-      </div>
+  const getSeenBy = (message: Message) => {
+    const createdAt = new Date(message.created_at).getTime();
+    return otherReceipts.filter(r => r.last_read_at && new Date(r.last_read_at).getTime() >= createdAt);
+  };
+
+  const getReceiptStatus = (message: Message): 'sent' | 'delivered' | 'read' => {
+    // Without cursors (e.g. inside a thread) fall back to the per-message flag
+    if (!readReceipts) return message.read_at ? 'read' : 'sent';
+    if (otherReceipts.length === 0) return 'sent';
+
+    const createdAt = new Date(message.created_at).getTime();
+    if (getSeenBy(message).length === otherReceipts.length) return 'read';
+    const deliveredToAll = otherReceipts.every(r =>
+      r.last_delivered_at && new Date(r.last_delivered_at).getTime() >= createdAt
     );
-  }
+    return deliveredToAll ? 'delivered' : 'sent';
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditDraft(message.content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditDraft('');
+  };
+
+  const saveEdit = async (message: Message) => {
+    const content = editDraft.trim();
+    if (!content || !onEditMessage) return;
+
+    // Nothing changed - just close the editor
+    if (content === message.content) {
+      cancelEditing();
+      return;
+    }
+
+    setIsSavingEdit(true);
+    try {
+      await onEditMessage(message.id, content);
+      cancelEditing();
+    } catch (error) {
+      // Keep the editor open so the user can retry
+      console.error('[MessageArea] Error saving edit:', error);
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
+  // Highlight @mentions, and mentions of the current universe most of all
+  const renderMentions = (text: string, message: Message, isMe: boolean) =>
+    splitByMentions(text, message.metadata?.mentions).map((segment, i) => {
+      if (!segment.mention) return <React.Fragment key={i}>{segment.text}</React.Fragment>;
+      const isSelf = segment.mention.profile_universe_id === currentUniverseId;
+      return (
+        <span
+          key={i}
+          className={cn(
+            "font-semibold",
+            isMe ? "underline decoration-primary-foreground/50" : "text-dv-pink-500",
+            isSelf && "rounded bg-dv-pink-500/15 px-0.5"
+          )}
+        >
+          {segment.text}
+        </span>
+      );
+    });
+
+  const renderMessage = (message: Message, index: number) => {
+    const prevMessage = index > 0 ? messages[index - 1] : null;
+    const isMe = message.sender_profile_universe_id === currentUniverseId;
+    const showAvatar = !prevMessage ||
+      prevMessage.sender_profile_universe_id !== message.sender_profile_universe_id ||
+      prevMessage.message_type === 'system';
+    const showTime = !prevMessage ||
+      (new Date(message.created_at).getTime() - new Date(prevMessage.created_at).getTime()) > 300000; // 5 minutes
+    // Queued messages don't exist on the server yet, so they can't be reacted to, replied to, etc.
+    const isQueued = !!message.delivery_status;
+    const receiptStatus = isMe && !isQueued ? getReceiptStatus(message) : null;
+    const seenBy = isGroupConversation && message.id === lastOwnMessageId ? getSeenBy(message) : [];
+    const seenByNames = seenBy.map(r => r.profile_universe?.display_name || r.profile_universe?.handle || 'Someone');
+
+    // Group membership notices (created, added, removed, left)
+    if (message.message_type === 'system') {
+      return (
+        <div key={message.id} className="flex items-center justify-center my-2">
+          <span className="text-xs text-muted-foreground text-center px-3">
+            <span className="font-medium">
+              {isMe ? 'You' : message.sender_profile?.display_name || message.sender_profile?.handle || 'Someone'}
+            </span>{' '}
+            {message.content}
+          </span>
+        </div>
+      );
+    }
 
-  if (messages.length === 0) {
     return (
-      <div className="flex flex-col items-center justify-center h-full w-full">
-        <MessageSquare className="h-12 w-12 text-muted-foreground mb-4" />
-        <p className="text-sm text-muted-foreground">
-          {selectedConversationName 
-            ? `No messages yet. Start the conversation with ${selectedConversationName}!`
-            : 'No messages yet. Start the conversation!'
-          }
-        </p>
-      </div>
-    );
-  }
+      <div
+        key={message.id}
+        id={`message-${message.id}`}
+        className={cn(
+          "rounded-dv-lg transition-colors duration-700",
+          highlightedMessageId === message.id && "bg-dv-pink-500/10"
+        )}
+      >
+        {showTime && (
+          <div className="flex items-center justify-center my-4">
+            <span className="text-xs text-muted-foreground bg-muted px-3 py-1 rounded-full">
+              {formatDistanceToNow(new Date(message.created_at), {
+                addSuffix: false
+              })}
+            </span>
+          </div>
+        )}
 
-  return (
-    <ScrollArea className="flex-1 h-full w-full overflow-hidden" ref={scrollAreaRef}>
-      <div className="p-4 md:p-6 space-y-4 w-full max-w-full">
-        {messages.map((message, index) => {
-          const prevMessage = index > 0 ? messages[index - 1] : null;
-          const isMe = message.sender_profile_universe_id === currentUniverseId;
-          const showAvatar = !prevMessage || prevMessage.sender_profile_universe_id !== message.sender_profile_universe_id;
-          const showTime = !prevMessage ||
-            (new Date(message.created_at).getTime() - new Date(prevMessage.created_at).getTime()) > 300000; // 5 minutes
-
-          return (
-            <div key={message.id}>
-              {showTime && (
-                <div className="flex items-center justify-center my-4">
-                  <span className="text-xs text-muted-foreground bg-muted px-3 py-1 rounded-full">
-                    {formatDistanceToNow(new Date(message.created_at), {
-                      addSuffix: false
-                    })}
+        <div
+          className={cn(
+            "flex gap-3 group",
+            isMe && "flex-row-reverse"
+          )}
+        >
+          {showAvatar ? (
+            <Avatar className="h-8 w-8 flex-shrink-0 ring-2 ring-background">
+              <AvatarImage src={message.sender_profile?.avatar_url} />
+              <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/10 text-primary text-xs font-semibold">
+                {message.sender_profile?.display_name?.charAt(0) || '?'}
+              </AvatarFallback>
+            </Avatar>
+          ) : (
+            <div className="w-8" />
+          )}
+
+          <div className={cn("flex flex-col max-w-[70%]", isMe && "items-end")}>
+            {showAvatar && !isMe && (
+              <span className="text-xs text-muted-foreground mb-1 px-1">
+                {message.sender_profile?.display_name || 'Unknown'}
+                {isGroupConversation && message.sender_profile?.handle && (
+                  <span className="opacity-70"> @{message.sender_profile.handle}</span>
+                )}
+              </span>
+            )}
+
+            <div
+              className={cn(
+                "rounded-dv-2xl px-dv-4 py-dv-2.5 shadow-dv-sm transition-dv-base relative",
+                "group-hover:shadow-dv-md",
+                isMe
+                  ? "bg-dv-pink-500 text-white rounded-br-dv-md"
+                  : "bg-card border border-border rounded-bl-dv-md"
+              )}
+            >
+              {/* Forwarded Header */}
+              {message.metadata?.forwarded_from && (
+                <div className={cn(
+                  "mb-1 flex items-center gap-1 text-xs italic opacity-70",
+                  isMe ? "text-white/80" : "text-muted-foreground"
+                )}>
+                  <Forward className="h-3 w-3" />
+                  <span className="truncate">
+                    Forwarded from {message.metadata.forwarded_from.sender_handle
+                      ? `@${message.metadata.forwarded_from.sender_handle}`
+                      : message.metadata.forwarded_from.sender_display_name || 'a message'}
                   </span>
                 </div>
               )}
 
-              <div
-                className={cn(
-                  "flex gap-3 group",
-                  isMe && "flex-row-reverse"
-                )}
-              >
-                {showAvatar ? (
-                  <Avatar className="h-8 w-8 flex-shrink-0 ring-2 ring-background">
-                    <AvatarImage src={message.sender_profile?.avatar_url} />
-                    <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/10 text-primary text-xs font-semibold">
-                      {message.sender_profile?.display_name?.charAt(0) || '?'}
-                    </AvatarFallback>
-                  </Avatar>
-                ) : (
-                  <div className="w-8" />
-                )}
+              {/* Reply Preview */}
+              {message.reply_to_message_id && message.reply_to_message && (
+                <div className={cn(
+                  "mb-2 pb-2 border-l-2 pl-2 text-xs opacity-70",
+                  isMe ? "border-primary-foreground/30" : "border-border"
+                )}>
+                  <p className="font-medium">
+                    Replying to {message.reply_to_message.sender_profile?.display_name || 'message'}
+                  </p>
+                  <p className="truncate">{stripMarkdown(message.reply_to_message.content)}</p>
+                </div>
+              )}
 
-                <div className={cn("flex flex-col max-w-[70%]", isMe && "items-end")}>
-                  {showAvatar && !isMe && (
-                    <span className="text-xs text-muted-foreground mb-1 px-1">
-                      {message.sender_profile?.display_name || 'Unknown'}
-                    </span>
-                  )}
-
-                  <div
-                    className={cn(
-                      "rounded-dv-2xl px-dv-4 py-dv-2.5 shadow-dv-sm transition-dv-base relative",
-                      "group-hover:shadow-dv-md",
-                      isMe
-                        ? "bg-dv-pink-500 text-white rounded-br-dv-md"
-                        : "bg-card border border-border rounded-bl-dv-md"
-                    )}
-                  >
-                    {/* Reply Preview */}
-                    {message.reply_to_message_id && message.reply_to_message && (
-                      <div className={cn(
-                        "mb-2 pb-2 border-l-2 pl-2 text-xs opacity-70",
-                        isMe ? "border-primary-foreground/30" : "border-border"
-                      )}>
-                        <p className="font-medium">
-                          Replying to {message.reply_to_message.sender_profile?.display_name || 'message'}
-                        </p>
-                        <p className="truncate">{message.reply_to_message.content}</p>
-                      </div>
-                    )}
+              {/* Message Content */}
+              {editingMessageId === message.id ? (
+                <div className="flex flex-col gap-2 min-w-[200px]">
+                  <Textarea
+                    value={editDraft}
+                    onChange={(e) => setEditDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        saveEdit(message);
+                      } else if (e.key === 'Escape') {
+                        e.preventDefault();
+                        cancelEditing();
+                      }
+                    }}
+                    disabled={isSavingEdit}
+                    autoFocus
+                    rows={2}
+                    className="min-h-[60px] max-h-[200px] resize-none text-dv-sm text-foreground bg-background"
+                  />
+                  <div className="flex items-center justify-end gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={cancelEditing}
+                      disabled={isSavingEdit}
+                    >
+                      <X className="h-3 w-3 mr-1" />
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => saveEdit(message)}
+                      disabled={isSavingEdit || !editDraft.trim()}
+                    >
+                      {isSavingEdit ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <Check className="h-3 w-3 mr-1" />
+                      )}
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <MessageMarkdown
+                  content={message.content}
+                  renderText={(text) => renderMentions(text, message, isMe)}
+                  className="text-dv-sm"
+                />
+              )}
 
-                    {/* Message Content */}
-                    <p className="text-dv-sm whitespace-pre-wrap break-words">
-                      {message.content}
-                    </p>
-
-                    {/* Attachments */}
-                    {message.attachments && message.attachments.length > 0 && (
-                      <div className="mt-2 space-y-2">
-                        {message.attachments.map((attachment: any, idx: number) => (
-                          <div key={idx} className="rounded-lg overflow-hidden">
-                            {attachment.type?.startsWith('image/') ? (
-                              <img
-                                src={attachment.url}
-                                alt={attachment.name || 'Attachment'}
-                                className="max-w-full h-auto rounded-lg cursor-pointer hover:opacity-90 transition-opacity"
-                                onClick={() => onImageClick?.(attachment.url, attachment.name)}
-                              />
-                            ) : (
-                              <a
-                                href={attachment.url}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="flex items-center gap-2 p-2 bg-muted rounded-lg hover:bg-muted/80"
-                              >
-                                <span className="text-sm">{attachment.name || 'File'}</span>
-                              </a>
-                            )}
-                          </div>
-                        ))}
-                      </div>
-                    )}
+              {/* Link Preview */}
+              {message.metadata?.link_preview?.url && editingMessageId !== message.id && (
+                <LinkPreviewCard
+                  preview={message.metadata.link_preview}
+                  className="mt-2 max-w-sm"
+                />
+              )}
 
-                    {/* Message Reactions */}
-                    <div className="mt-2 flex items-center gap-2 flex-wrap">
-                      {message.reactions && message.reactions.length > 0 && (
-                        <div className="flex flex-wrap gap-1">
-                          {Object.entries(
-                            message.reactions.reduce((acc: any, reaction: any) => {
-                              const emoji = reaction.emoji;
-                              if (!acc[emoji]) {
-                                acc[emoji] = [];
-                              }
-                              acc[emoji].push(reaction);
-                              return acc;
-                            }, {})
-                          ).map(([emoji, reactions]: [string, any]) => {
-                            const hasUserReaction = reactions.some((r: any) => r.profile_universe_id === currentUniverseId);
-                            return (
-                              <button
-                                key={emoji}
-                                onClick={() => onAddReaction?.(message.id, emoji)}
-                                className={cn(
-                                  "px-2 py-1 rounded-full text-xs flex items-center gap-1",
-                                  "bg-muted hover:bg-muted/80 transition-colors cursor-pointer",
-                                  hasUserReaction && "ring-2 ring-primary",
-                                  isMe ? "bg-primary/20" : "bg-muted"
-                                )}
-                                title={reactions.map((r: any) => r.profile_universes?.display_name || 'User').join(', ')}
-                              >
-                                <span>{emoji}</span>
-                                <span className="text-muted-foreground">{reactions.length}</span>
-                              </button>
-                            );
-                          })}
-                        </div>
-                      )}
-                      
-                      {/* Add Reaction Button */}
-                      {onAddReaction && (
-                        <EmojiPicker
-                          onEmojiSelect={(emoji) => {
-                            onAddReaction(message.id, emoji);
-                          }}
-                          trigger={
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              className={cn(
-                                "h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity",
-                                isMe ? "text-white/70 hover:text-white" : "text-muted-foreground"
-                              )}
-                              title="Add reaction"
-                            >
-                              <Smile className="h-3 w-3" />
-                            </Button>
-                          }
-                        />
-                      )}
-                    </div>
+              {/* Attachments */}
+              {message.attachments && message.attachments.length > 0 && (
+                <MessageAttachments
+                  attachments={message.attachments}
+                  messageId={message.id}
+                  voice={getVoiceNote(message.metadata)}
+                  isOwn={isMe}
+                  onImageClick={onImageClick}
+                />
+              )}
 
-                    {/* Timestamp and Read Receipt */}
-                    <div className={cn(
-                      "mt-dv-1 flex items-center gap-1 text-dv-xs opacity-70",
-                      isMe ? "text-white/70" : "text-muted-foreground"
-                    )}>
-                      <span>
-                        {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
-                        {message.edited_at && ' (edited)'}
-                      </span>
-                      {isMe && message.read_at && (
-                        <span className="ml-1" title="Read">
-                          ✓✓
-                        </span>
-                      )}
-                      {isMe && !message.read_at && (
-                        <span className="ml-1" title="Sent">
-                          ✓
-                        </span>
-                      )}
-                    </div>
+              {/* Message Reactions */}
+              <div className="mt-2 flex items-center gap-2 flex-wrap">
+                {message.reactions && message.reactions.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {Object.entries(
+                      message.reactions.reduce((acc: any, reaction: any) => {
+                        const emoji = reaction.emoji;
+                        if (!acc[emoji]) {
+                          acc[emoji] = [];
+                        }
+                        acc[emoji].push(reaction);
+                        return acc;
+                      }, {})
+                    ).map(([emoji, reactions]: [string, any]) => {
+                      const hasUserReaction = reactions.some((r: any) => r.profile_universe_id === currentUniverseId);
+                      return (
+                        <button
+                          key={emoji}
+                          onClick={() => onAddReaction?.(message.id, emoji)}
+                          className={cn(
+                            "px-2 py-1 rounded-full text-xs flex items-center gap-1",
+                            "bg-muted hover:bg-muted/80 transition-colors cursor-pointer",
+                            hasUserReaction && "ring-2 ring-primary",
+                            isMe ? "bg-primary/20" : "bg-muted"
+                          )}
+                          title={reactions.map((r: any) => r.profile_universes?.display_name || 'User').join(', ')}
+                        >
+                          <span>{emoji}</span>
+                          <span className="text-muted-foreground">{reactions.length}</span>
+                        </button>
+                      );
+                    })}
                   </div>
-                  
-                  {/* Message Actions */}
-                  <div className={cn(
-                    "absolute opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-1",
-                    isMe ? "left-0 -translate-x-full pr-2" : "right-0 translate-x-full pl-2"
-                  )}>
-                    {onReplyToMessage && (
+                )}
+                
+                {/* Add Reaction Button */}
+                {onAddReaction && !isQueued && (
+                  <EmojiPicker
+                    onEmojiSelect={(emoji) => {
+                      onAddReaction(message.id, emoji);
+                    }}
+                    trigger={
                       <Button
                         variant="ghost"
                         size="sm"
-                        className="h-7 px-2 text-xs"
-                        onClick={() => onReplyToMessage(message)}
-                        title="Reply"
+                        className={cn(
+                          "h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity",
+                          isMe ? "text-white/70 hover:text-white" : "text-muted-foreground"
+                        )}
+                        title="Add reaction"
                       >
-                        <CornerUpLeft className="h-3 w-3 mr-1" />
-                        Reply
+                        <Smile className="h-3 w-3" />
                       </Button>
-                    )}
-                    
-                    {/* Context Menu */}
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="h-7 w-7 p-0"
-                          title="More options"
-                        >
-                          <MoreVertical className="h-3 w-3" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align={isMe ? "end" : "start"}>
-                        {onCopyMessage && (
-                          <DropdownMenuItem onClick={(e) => {
-                            e.preventDefault();
-                            e.stopPropagation();
-                            onCopyMessage(message.content);
-                          }}>
-                            <Copy className="h-4 w-4 mr-2" />
-                            Copy
-                          </DropdownMenuItem>
-                        )}
-                        {onReplyToMessage && (
-                          <DropdownMenuItem onClick={(e) => {
-                            e.preventDefault();
-                            e.stopPropagation();
-                            onReplyToMessage(message);
-                          }}>
-                            <CornerUpLeft className="h-4 w-4 mr-2" />
-                            Reply
-                          </DropdownMenuItem>
-                        )}
-                        {onForwardMessage && (
-                          <DropdownMenuItem onClick={(e) => {
-                            e.preventDefault();
-                            e.stopPropagation();
-                            onForwardMessage(message);
-                          }}>
-                            <Forward className="h-4 w-4 mr-2" />
-                            Forward
-                          </DropdownMenuItem>
+                    }
+                  />
+                )}
+              </div>
+
+              {/* Timestamp and Read Receipt */}
+              <div className={cn(
+                "mt-dv-1 flex items-center gap-1 text-dv-xs opacity-70",
+                isMe ? "text-white/70" : "text-muted-foreground"
+              )}>
+                {pinnedMessageIds.has(message.id) && (
+                  <span title="Pinned">
+                    <Pin className="h-3 w-3" />
+                  </span>
+                )}
+                <span>
+                  {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+                </span>
+                {message.edited_at && (
+                  onViewEditHistory ? (
+                    <button
+                      type="button"
+                      onClick={() => onViewEditHistory(message)}
+                      className="underline-offset-2 hover:underline"
+                      title={`Edited ${formatDistanceToNow(new Date(message.edited_at), { addSuffix: true })} - view history`}
+                    >
+                      (edited)
+                    </button>
+                  ) : (
+                    <span>(edited)</span>
+                  )
+                )}
+                {isMe && message.delivery_status === 'failed' && (
+                  <span className="ml-1" title={message.delivery_error || 'Not sent'}>
+                    <AlertCircle className="h-3 w-3" />
+                  </span>
+                )}
+                {isMe && (message.delivery_status === 'pending' || message.delivery_status === 'sending') && (
+                  <span className="ml-1" title="Sending">
+                    <Clock className="h-3 w-3" />
+                  </span>
+                )}
+                {receiptStatus && (
+                  <span
+                    className={cn("ml-1", receiptStatus === 'read' && "text-sky-200")}
+                    title={receiptStatus === 'read' ? 'Seen' : receiptStatus === 'delivered' ? 'Delivered' : 'Sent'}
+                  >
+                    {receiptStatus === 'sent' ? '✓' : '✓✓'}
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {/* Seen By */}
+            {seenBy.length > 0 && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <button
+                    type="button"
+                    className="mt-1 flex items-center gap-1 rounded-md px-1 py-0.5 text-xs text-muted-foreground hover:bg-accent transition-colors"
+                  >
+                    <div className="flex -space-x-1.5">
+                      {seenBy.slice(0, 3).map(r => (
+                        <Avatar key={r.profile_universe_id} className="h-4 w-4 ring-1 ring-background">
+                          <AvatarImage src={r.profile_universe?.avatar_url} />
+                          <AvatarFallback className="text-[8px]">
+                            {r.profile_universe?.display_name?.charAt(0) || '?'}
+                          </AvatarFallback>
+                        </Avatar>
+                      ))}
+                    </div>
+                    <span>
+                      {seenBy.length === otherReceipts.length
+                        ? 'Seen by everyone'
+                        : `Seen by ${seenByNames.slice(0, 2).join(', ')}${seenByNames.length > 2 ? ` +${seenByNames.length - 2}` : ''}`}
+                    </span>
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-60 p-2">
+                  <p className="px-1 pb-1 text-xs font-medium text-muted-foreground">Seen by</p>
+                  <div className="max-h-60 overflow-y-auto">
+                    {seenBy.map(r => (
+                      <div key={r.profile_universe_id} className="flex items-center gap-2 rounded-md px-1 py-1">
+                        <Avatar className="h-6 w-6">
+                          <AvatarImage src={r.profile_universe?.avatar_url} />
+                          <AvatarFallback className="text-xs">
+                            {r.profile_universe?.display_name?.charAt(0) || '?'}
+                          </AvatarFallback>
+                        </Avatar>
+                        <span className="flex-1 min-w-0 truncate text-sm">
+                          {r.profile_universe?.display_name || r.profile_universe?.handle || 'Someone'}
+                        </span>
+                        {r.last_read_at && (
+                          <span className="text-xs text-muted-foreground flex-shrink-0">
+                            {formatDistanceToNow(new Date(r.last_read_at), { addSuffix: true })}
+                          </span>
                         )}
-                        {isMe && onEditMessage && !message.deleted_at && (
+                      </div>
+                    ))}
+                  </div>
+                </PopoverContent>
+              </Popover>
+            )}
+
+            {/* Failed Send */}
+            {message.delivery_status === 'failed' && (
+              <div className="mt-1 flex items-center gap-1 text-xs text-destructive">
+                <span>Not sent</span>
+                {onRetryMessage && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => onRetryMessage(message.id)}
+                  >
+                    <RotateCw className="h-3 w-3 mr-1" />
+                    Retry
+                  </Button>
+                )}
+                {onDiscardMessage && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs text-muted-foreground"
+                    onClick={() => onDiscardMessage(message.id)}
+                  >
+                    <Trash2 className="h-3 w-3 mr-1" />
+                    Discard
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {/* Thread Summary */}
+            {onOpenThread && !!message.thread_reply_count && (
+              <button
+                type="button"
+                onClick={() => onOpenThread(message)}
+                className="mt-1 flex items-center gap-2 rounded-md px-1 py-0.5 text-xs hover:bg-accent transition-colors"
+              >
+                <div className="flex -space-x-1.5">
+                  {(message.thread_participants || []).slice(0, 3).map(participant => (
+                    <Avatar key={participant.id} className="h-5 w-5 ring-2 ring-background">
+                      <AvatarImage src={participant.avatar_url} />
+                      <AvatarFallback className="text-[10px]">
+                        {participant.display_name?.charAt(0) || '?'}
+                      </AvatarFallback>
+                    </Avatar>
+                  ))}
+                </div>
+                <span className="font-medium text-dv-pink-500">
+                  {message.thread_reply_count} {message.thread_reply_count === 1 ? 'reply' : 'replies'}
+                </span>
+                {!!threadUnreadCounts[message.id] && (
+                  <span className="rounded-full bg-dv-pink-500 px-1.5 text-[10px] font-semibold text-white">
+                    {threadUnreadCounts[message.id]} new
+                  </span>
+                )}
+                {message.thread_last_reply_at && (
+                  <span className="text-muted-foreground">
+                    Last reply {formatDistanceToNow(new Date(message.thread_last_reply_at), { addSuffix: true })}
+                  </span>
+                )}
+              </button>
+            )}
+            
+            {/* Message Actions */}
+            {!isQueued && (
+              <div className={cn(
+                "absolute opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-1",
+                isMe ? "left-0 -translate-x-full pr-2" : "right-0 translate-x-full pl-2"
+              )}>
+                {onReplyToMessage && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => onReplyToMessage(message)}
+                    title="Reply"
+                  >
+                    <CornerUpLeft className="h-3 w-3 mr-1" />
+                    Reply
+                  </Button>
+                )}
+              
+                {/* Context Menu */}
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      title="More options"
+                    >
+                      <MoreVertical className="h-3 w-3" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align={isMe ? "end" : "start"}>
+                    {onCopyMessage && (
+                      <DropdownMenuItem onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        onCopyMessage(message.content);
+                      }}>
+                        <Copy className="h-4 w-4 mr-2" />
+                        Copy
+                      </DropdownMenuItem>
+                    )}
+                    {onReplyToMessage && (
+                      <DropdownMenuItem onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        onReplyToMessage(message);
+                      }}>
+                        <CornerUpLeft className="h-4 w-4 mr-2" />
+                        Reply
+                      </DropdownMenuItem>
+                    )}
+                    {onOpenThread && (
+                      <DropdownMenuItem onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        onOpenThread(message);
+                      }}>
+                        <MessagesSquare className="h-4 w-4 mr-2" />
+                        Reply in thread
+                      </DropdownMenuItem>
+                    )}
+                    {onTogglePinMessage && !message.thread_root_id && (
+                      <DropdownMenuItem onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        onTogglePinMessage(message.id, !pinnedMessageIds.has(message.id));
+                      }}>
+                        {pinnedMessageIds.has(message.id) ? (
                           <>
-                            <DropdownMenuSeparator />
-                            <DropdownMenuItem onClick={(e) => {
-                              e.preventDefault();
-                              e.stopPropagation();
-                              onEditMessage(message);
-                            }}>
-                              <Edit className="h-4 w-4 mr-2" />
-                              Edit
-                            </DropdownMenuItem>
+                            <PinOff className="h-4 w-4 mr-2" />
+                            Unpin
                           </>
-                        )}
-                        {isMe && onDeleteMessage && (
+                        ) : (
                           <>
-                            <DropdownMenuSeparator />
-                            <DropdownMenuItem 
-                              onClick={(e) => {
-                                e.preventDefault();
-                                e.stopPropagation();
-                                onDeleteMessage(message.id);
-                              }}
-                              className="text-destructive focus:text-destructive"
-                            >
-                              <Trash2 className="h-4 w-4 mr-2" />
-                              Delete
-                            </DropdownMenuItem>
+                            <Pin className="h-4 w-4 mr-2" />
+                            Pin
                           </>
                         )}
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  </div>
-                </div>
+                      </DropdownMenuItem>
+                    )}
+                    {onForwardMessage && (
+                      <DropdownMenuItem onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        onForwardMessage(message);
+                      }}>
+                        <Forward className="h-4 w-4 mr-2" />
+                        Forward
+                      </DropdownMenuItem>
+                    )}
+                    {isMe && onEditMessage && !message.deleted_at && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          startEditing(message);
+                        }}>
+                          <Edit className="h-4 w-4 mr-2" />
+                          Edit
+                        </DropdownMenuItem>
+                      </>
+                    )}
+                    {message.edited_at && onViewEditHistory && (
+                      <DropdownMenuItem onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        onViewEditHistory(message);
+                      }}>
+                        <History className="h-4 w-4 mr-2" />
+                        Edit history
+                      </DropdownMenuItem>
+                    )}
+                    {isMe && onDeleteMessage && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem 
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            onDeleteMessage(message.id);
+                          }}
+                          className="text-destructive focus:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
-            </div>
-          );
-        })}
-        {/* Typing Indicators */}
-        {typingUsers.length > 0 && (
-          <div className="flex items-center gap-2 px-4 py-2">
-            <div className="flex gap-1">
-              <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
-              <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
-              <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
-            </div>
-            <span className="text-sm text-muted-foreground">
-              {typingUsers.map(u => u.display_name).join(', ')} {typingUsers.length === 1 ? 'is' : 'are'} typing...
-            </span>
+            )}
           </div>
-        )}
-        <div ref={messagesEndRef} />
+        </div>
       </div>
-    </ScrollArea>
-  );
-}
-
-
+    );
+  };
 
+  if (isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full w-full">
+        <Loader2 className="h-6 w-6 animate-spin text-primary mb-3" />
+        <p className="text-sm text-muted-foreground">Loading messages...</p>
+      </div>
+    );
+  }
 
+  if (messages.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full w-full">
+        <MessageSquare className="h-12 w-12 text-muted-foreground mb-4" />
+        <p className="text-sm text-muted-foreground">
+          {selectedConversationName 
+            ? `No messages yet. Start the conversation with ${selectedConversationName}!`
+            : 'No messages yet. Start the conversation!'
+          }
+        </p>
+      </div>
+    );
+  }
 
+  return (
+    <div className="flex-1 min-h-0 flex flex-col w-full">
+      <PinnedMessagesBar
+        pinnedMessages={pinnedMessages}
+        onSelectPinnedMessage={onSelectPinnedMessage}
+        onShowAllPinned={onShowAllPinned}
+      />
+      <VirtualizedMessageList
+        className="flex-1 w-full"
+        messages={messages}
+        renderMessage={(message, index) => (
+          <div className="px-4 md:px-6 py-2 w-full max-w-full">
+            {renderMessage(message as Message, index)}
+          </div>
+        )}
+        hasOlder={hasOlderMessages}
+        hasNewer={hasNewerMessages}
+        isLoadingOlder={isLoadingOlderMessages}
+        isLoadingNewer={isLoadingNewerMessages}
+        onLoadOlder={onLoadOlderMessages}
+        onLoadNewer={onLoadNewerMessages}
+        onJumpToLatest={onJumpToLatest}
+        scrollToMessageId={highlightedMessageId}
+        footer={
+          /* Typing Indicators */
+          typingUsers.length > 0 && (
+            <div className="flex items-center gap-2 px-4 md:px-6 py-2">
+              <div className="flex gap-1">
+                <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
+                <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
+                <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+              </div>
+              <span className="text-sm text-muted-foreground">
+                {typingUsers.map(u => u.display_name).join(', ')} {typingUsers.length === 1 ? 'is' : 'are'} typing...
+              </span>
+            </div>
+          )
+        }
+      />
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useMemo } from 'react';
+import { FileText } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAttachmentUrls } from '@/hooks/shared/useAttachmentUrls';
+import { formatFileSize, getAttachmentDirectUrl, normalizeAttachments } from '@/lib/messenger/attachments';
+import type { VoiceNoteMetadata } from '@/lib/messenger/voiceNotes';
+import { VoiceMessagePlayer } from './VoiceMessagePlayer';
+
+interface MessageAttachmentsProps {
+  // messages.attachments as stored, including rows from before the typed schema
+  attachments: unknown;
+  messageId: string;
+  // Set for voice notes: their audio gets the waveform player
+  voice?: VoiceNoteMetadata | null;
+  isOwn?: boolean;
+  onImageClick?: (url: string, name?: string) => void;
+  className?: string;
+}
+
+/**
+ * A message's attachments: thumbnails for images, posters for video, players for audio
+ */
+export function MessageAttachments({ attachments, messageId, voice, isOwn, onImageClick, className }: MessageAttachmentsProps) {
+  const items = useMemo(() => normalizeAttachments(attachments), [attachments]);
+  const urls = useAttachmentUrls(useMemo(
+    () => items.flatMap(item => [item.path, item.thumbnail?.path || '']),
+    [items]
+  ));
+  if (items.length === 0) return null;
+
+  return (
+    <div className={cn("mt-2 space-y-2", className)}>
+      {items.map((attachment, idx) => {
+        // Reserve the space up front so the list doesn't jump when media loads
+        const aspectRatio = attachment.width && attachment.height
+          ? `${attachment.width} / ${attachment.height}`
+          : undefined;
+        // Local previews and legacy rows carry a url; stored attachments are signed by path
+        const url = getAttachmentDirectUrl(attachment) || urls[attachment.path];
+        const thumbnailUrl = attachment.thumbnail ? urls[attachment.thumbnail.path] : undefined;
+
+        if (!url) {
+          return (
+            <div
+              key={attachment.path || idx}
+              style={{ aspectRatio }}
+              className={cn(
+                "rounded-lg bg-muted animate-pulse",
+                attachment.type === 'image' || attachment.type === 'video' ? "w-60 max-w-full" : "h-10 w-48"
+              )}
+            />
+          );
+        }
+
+        return (
+          <div key={attachment.path || idx} className="rounded-lg overflow-hidden">
+            {attachment.type === 'image' ? (
+              <img
+                src={thumbnailUrl || url}
+                alt={attachment.name}
+                loading="lazy"
+                style={{ aspectRatio }}
+                className="max-w-full max-h-80 h-auto rounded-lg object-cover cursor-pointer hover:opacity-90 transition-opacity"
+                onClick={() => onImageClick?.(url, attachment.name)}
+              />
+            ) : attachment.type === 'video' ? (
+              <video
+                src={url}
+                poster={thumbnailUrl}
+                controls
+                preload="metadata"
+                style={{ aspectRatio }}
+                className="max-w-full max-h-80 rounded-lg bg-black"
+              />
+            ) : attachment.type === 'audio' && voice ? (
+              <VoiceMessagePlayer messageId={messageId} url={url} voice={voice} isOwn={isOwn} />
+            ) : attachment.type === 'audio' ? (
+              <audio src={url} controls preload="metadata" className="max-w-full" />
+            ) : (
+              <a
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-2 p-2 bg-muted rounded-lg hover:bg-muted/80"
+              >
+                <FileText className="h-4 w-4 flex-shrink-0" />
+                <span className="text-sm truncate">{attachment.name}</span>
+                {attachment.size > 0 && (
+                  <span className="text-xs text-muted-foreground flex-shrink-0">{formatFileSize(attachment.size)}</span>
+                )}
+              </a>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, ScrollArea } from '@/lib/design-system';
+import { Loader2, History } from 'lucide-react';
+import { format } from 'date-fns';
+import { messagingService, type MessageEdit } from '@/services/shared/messagingService';
+import { MessageMarkdown } from './MessageMarkdown';
+
+interface MessageEditHistoryDialogProps {
+  message: {
+    id: string;
+    content: string;
+    created_at: string;
+    edited_at?: string;
+  } | null;
+  onClose: () => void;
+}
+
+export function MessageEditHistoryDialog({ message, onClose }: MessageEditHistoryDialogProps) {
+  const [edits, setEdits] = useState<MessageEdit[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!message?.id) {
+      setEdits([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    messagingService.getMessageEditHistory(message.id)
+      .then((data) => {
+        if (!cancelled) setEdits(data);
+      })
+      .catch((err: any) => {
+        console.error('[MessageEditHistoryDialog] Error loading edit history:', err);
+        if (!cancelled) setError('Failed to load edit history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message?.id, message?.edited_at]);
+
+  // Each edit row holds the content as it was *before* that edit, so the
+  // revision timeline is: current content, then each previous_content in turn,
+  // with the oldest one being the original message.
+  const revisions = message
+    ? [
+        { key: 'current', content: message.content, timestamp: message.edited_at || message.created_at, label: 'Current' },
+        ...edits.map((edit, index) => ({
+          key: edit.id,
+          content: edit.previous_content,
+          timestamp: edits[index + 1]?.edited_at || message.created_at,
+          label: index === edits.length - 1 ? 'Original' : `Revision ${edits.length - index - 1}`
+        }))
+      ]
+    : [];
+
+  return (
+    <Dialog open={!!message} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md" onOpenAutoFocus={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Edit history
+          </DialogTitle>
+          <DialogDescription>
+            Every version of this message, newest first.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-8 text-sm text-destructive">{error}</div>
+        ) : (
+          <ScrollArea className="max-h-[400px]">
+            <div className="space-y-3 pr-2">
+              {revisions.map((revision) => (
+                <div key={revision.key} className="rounded-lg border border-border p-3">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs font-medium text-muted-foreground">{revision.label}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(revision.timestamp), 'MMM d, yyyy h:mm a')}
+                    </span>
+                  </div>
+                  <MessageMarkdown content={revision.content} className="text-sm" />
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
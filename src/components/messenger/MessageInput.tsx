@@ -1,43 +1,257 @@
-import React, { useState, useRef, Suspense } from 'react';
-import { Button, Textarea } from '@/lib/design-system';
-import { Paperclip, Send, Smile, Loader2, Mic } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo, Suspense } from 'react';
+import { Avatar, AvatarFallback, AvatarImage, Button, Textarea, Input, Popover, PopoverContent, PopoverTrigger } from '@/lib/design-system';
+import { Paperclip, Send, Smile, Loader2, Mic, CalendarClock, Type, RotateCw, FileText, Film, Music } from 'lucide-react';
+import { addHours, addDays, format, setHours, startOfHour } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { useLinkPreview } from '@/hooks/shared/useLinkPreview';
+import { useMentionSuggestions } from '@/hooks/shared/useMentionSuggestions';
+import { useDebounce } from '@/hooks/shared/useDebounce';
+import { useAttachmentUploads, type ComposerAttachment } from '@/hooks/shared/useAttachmentUploads';
+import type { ComposerDraft } from '@/hooks/shared/useMessageDrafts';
+import type { LinkPreview } from '@/lib/messenger/linkPreview';
+import {
+  collectMentions,
+  findMentionQuery,
+  insertMention,
+  type MentionCandidate,
+  type MessageMention
+} from '@/lib/messenger/mentions';
+import { applyMarkdownFormat, getFormatForShortcut, type MarkdownFormat } from '@/lib/messenger/markdown';
+import { formatFileSize } from '@/lib/messenger/attachments';
+import { LinkPreviewCard } from './LinkPreviewCard';
+import { FormattingToolbar } from './FormattingToolbar';
 const EmojiPicker = React.lazy(() => import('@/components/shared/EmojiPicker').then(module => ({ default: module.EmojiPicker })));
 
+/**
+ * What the composer attaches to a message's metadata; omitted when there's nothing to attach
+ */
+export interface ComposedMessageMetadata {
+  link_preview?: LinkPreview;
+  mentions?: MessageMention[];
+}
+
 interface MessageInputProps {
-  onSendMessage: (content: string, attachments?: File[]) => void;
+  onSendMessage: (content: string, attachments?: ComposerAttachment[], metadata?: ComposedMessageMetadata) => void;
   onTyping?: () => void;
+  onScheduleMessage?: (content: string, sendAt: Date, metadata?: ComposedMessageMetadata) => Promise<void>;
   isSending?: boolean;
   disabled?: boolean;
   placeholder?: string;
+  // @mention autocomplete: participants are offered first, then the universe directory
+  mentionCandidates?: MentionCandidate[];
+  currentUniverseId?: string;
+  // Picked files start uploading into this conversation before the message is sent
+  conversationId?: string;
+  // Drafts: the composer starts from initialDraft and reports changes, debounced and on unmount
+  initialDraft?: ComposerDraft;
+  onDraftChange?: (draft: ComposerDraft) => void;
 }
 
+const DRAFT_SAVE_DELAY_MS = 1000;
+
 export function MessageInput({
   onSendMessage,
   onTyping,
+  onScheduleMessage,
   isSending = false,
   disabled = false,
-  placeholder = "Type a message..."
+  placeholder = "Type a message...",
+  mentionCandidates = [],
+  currentUniverseId,
+  conversationId,
+  initialDraft,
+  onDraftChange
 }: MessageInputProps) {
-  const [message, setMessage] = useState('');
+  const [message, setMessage] = useState(initialDraft?.content || '');
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
-  const [attachments, setAttachments] = useState<File[]>([]);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [showFormatting, setShowFormatting] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const linkPreview = useLinkPreview(message);
+  const {
+    attachments,
+    rejections,
+    addFiles,
+    removeAttachment,
+    retryAttachment,
+    clearAttachments,
+    dismissRejections,
+    getPreviewUrl
+  } = useAttachmentUploads(currentUniverseId, conversationId, initialDraft?.attachments);
+  const [mentionQuery, setMentionQuery] = useState<{ query: string; start: number } | null>(null);
+  const [dismissedMentionStart, setDismissedMentionStart] = useState<number | null>(null);
+  const [activeMentionIndex, setActiveMentionIndex] = useState(0);
+  const [pickedMentions, setPickedMentions] = useState<MentionCandidate[]>(
+    () => (initialDraft?.mentions || []).map(m => ({ id: m.profile_universe_id, handle: m.handle }))
+  );
+  const isMentionOpen = !!mentionQuery && mentionQuery.start !== dismissedMentionStart;
+  const { suggestions: mentionSuggestions } = useMentionSuggestions(
+    isMentionOpen ? mentionQuery!.query : null,
+    mentionCandidates,
+    currentUniverseId ? [currentUniverseId] : []
+  );
+  const showMentionSuggestions = isMentionOpen && mentionSuggestions.length > 0;
 
-  const handleSend = () => {
-    if (!message.trim() && attachments.length === 0) return;
-    if (isSending) return;
+  // datetime-local inputs work in local time without seconds
+  const toLocalInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
 
-    onSendMessage(message.trim(), attachments.length > 0 ? attachments : undefined);
+  const openSchedule = (open: boolean) => {
+    setIsScheduleOpen(open);
+    if (open && !scheduleAt) {
+      setScheduleAt(toLocalInputValue(startOfHour(addHours(new Date(), 2))));
+    }
+  };
+
+  // Report the draft once typing pauses, and whatever is left when the composer closes.
+  // An untouched composer reports nothing, so it can't wipe a draft saved elsewhere.
+  const draft = useMemo<ComposerDraft>(() => ({
+    content: message,
+    attachments,
+    mentions: collectMentions(message, pickedMentions)
+  }), [message, attachments, pickedMentions]);
+  const debouncedDraft = useDebounce(draft, DRAFT_SAVE_DELAY_MS);
+  const initialDraftRef = useRef(draft);
+  const latestDraftRef = useRef(draft);
+  latestDraftRef.current = draft;
+  const onDraftChangeRef = useRef(onDraftChange);
+  onDraftChangeRef.current = onDraftChange;
+
+  useEffect(() => {
+    if (debouncedDraft === initialDraftRef.current) return;
+    onDraftChangeRef.current?.(debouncedDraft);
+  }, [debouncedDraft]);
+
+  useEffect(() => {
+    const flush = () => {
+      if (latestDraftRef.current === initialDraftRef.current) return;
+      onDraftChangeRef.current?.(latestDraftRef.current);
+    };
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, []);
+
+  const buildMetadata = (content: string): ComposedMessageMetadata | undefined => {
+    const metadata: ComposedMessageMetadata = {};
+    if (linkPreview.preview) metadata.link_preview = linkPreview.preview;
+    const mentions = collectMentions(content, pickedMentions);
+    if (mentions.length > 0) metadata.mentions = mentions;
+    return Object.keys(metadata).length > 0 ? metadata : undefined;
+  };
+
+  const resetComposer = (keepAttachments = false) => {
     setMessage('');
-    setAttachments([]);
+    setPickedMentions([]);
+    setMentionQuery(null);
+    linkPreview.reset();
+    // Clear the saved draft right away rather than after the debounce
+    onDraftChangeRef.current?.({ content: '', attachments: keepAttachments ? attachments : [] });
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto';
     }
   };
 
+  const handleSchedule = async () => {
+    if (!onScheduleMessage || !message.trim() || !scheduleAt) return;
+
+    setIsScheduling(true);
+    try {
+      await onScheduleMessage(message.trim(), new Date(scheduleAt), buildMetadata(message));
+      // Attachments can't be scheduled, so they stay
+      resetComposer(true);
+      setScheduleAt('');
+      setIsScheduleOpen(false);
+    } catch (error) {
+      // The caller reports the error; keep the draft so the user can adjust the time
+      console.error('[MessageInput] Error scheduling message:', error);
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
+  const handleSend = () => {
+    if (!message.trim() && attachments.length === 0) return;
+    if (isSending) return;
+
+    onSendMessage(message.trim(), attachments.length > 0 ? attachments : undefined, buildMetadata(message));
+    clearAttachments();
+    resetComposer();
+  };
+
+  // Follow the caret so the suggestions track the mention being typed
+  const syncMentionQuery = (textarea: HTMLTextAreaElement) => {
+    const next = findMentionQuery(textarea.value, textarea.selectionStart);
+    if (next?.start !== mentionQuery?.start) setActiveMentionIndex(0);
+    if (!next) setDismissedMentionStart(null);
+    setMentionQuery(next);
+  };
+
+  const pickMention = (candidate: MentionCandidate) => {
+    if (!mentionQuery || !textareaRef.current) return;
+
+    const caret = textareaRef.current.selectionStart;
+    const result = insertMention(message, mentionQuery.start, caret, candidate.handle);
+    setMessage(result.text);
+    setPickedMentions(prev => prev.some(p => p.id === candidate.id) ? prev : [...prev, candidate]);
+    setMentionQuery(null);
+
+    const textarea = textareaRef.current;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.caret, result.caret);
+    });
+  };
+
+  const resizeTextarea = (textarea: HTMLTextAreaElement) => {
+    textarea.style.height = 'auto';
+    textarea.style.height = `${Math.min(textarea.scrollHeight, 120)}px`;
+  };
+
+  const applyFormat = (format: MarkdownFormat) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const result = applyMarkdownFormat(message, textarea.selectionStart, textarea.selectionEnd, format);
+    setMessage(result.text);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.selectionStart, result.selectionEnd);
+      resizeTextarea(textarea);
+    });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const shortcutFormat = getFormatForShortcut(e);
+    if (shortcutFormat) {
+      e.preventDefault();
+      applyFormat(shortcutFormat);
+      return;
+    }
+
+    if (showMentionSuggestions) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveMentionIndex(prev => (prev + step + mentionSuggestions.length) % mentionSuggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        pickMention(mentionSuggestions[Math.min(activeMentionIndex, mentionSuggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setDismissedMentionStart(mentionQuery!.start);
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -46,10 +260,10 @@ export function MessageInput({
 
   const handleInput = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setMessage(e.target.value);
+    syncMentionQuery(e.target);
     
     // Auto-resize textarea
-    e.target.style.height = 'auto';
-    e.target.style.height = `${Math.min(e.target.scrollHeight, 120)}px`;
+    resizeTextarea(e.target);
 
     // Trigger typing indicator
     if (onTyping && e.target.value.trim()) {
@@ -59,7 +273,9 @@ export function MessageInput({
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
-    setAttachments(prev => [...prev, ...files]);
+    // Let the same file be picked again after it's removed
+    e.target.value = '';
+    addFiles(files);
   };
 
   const handleEmojiSelect = (emoji: string) => {
@@ -70,32 +286,100 @@ export function MessageInput({
     }
   };
 
-  const removeAttachment = (index: number) => {
-    setAttachments(prev => prev.filter((_, i) => i !== index));
-  };
-
   return (
     <div className="border-t border-border bg-background p-dv-4">
       {/* Attachments Preview */}
       {attachments.length > 0 && (
         <div className="flex gap-dv-2 mb-dv-2 flex-wrap">
-          {attachments.map((file, index) => (
-            <div
-              key={index}
-              className="relative inline-flex items-center gap-dv-2 p-dv-2 bg-muted rounded-dv-lg"
-            >
-              <span className="text-dv-sm truncate max-w-[200px]">{file.name}</span>
-              <button
-                onClick={() => removeAttachment(index)}
-                className="text-muted-foreground hover:text-foreground"
+          {attachments.map(entry => {
+            const previewUrl = getPreviewUrl(entry);
+            const KindIcon = entry.kind === 'video' ? Film : entry.kind === 'audio' ? Music : FileText;
+            return (
+              <div
+                key={entry.id}
+                className={cn(
+                  "relative inline-flex items-center gap-dv-2 p-dv-2 bg-muted rounded-dv-lg overflow-hidden",
+                  entry.status === 'failed' && "ring-1 ring-destructive"
+                )}
+                title={entry.error}
               >
-                ×
-              </button>
-            </div>
-          ))}
+                {previewUrl ? (
+                  <img src={previewUrl} alt="" className="h-8 w-8 rounded object-cover" />
+                ) : (
+                  <KindIcon className="h-4 w-4 text-muted-foreground" />
+                )}
+                <div className="min-w-0">
+                  <span className="block text-dv-sm truncate max-w-[200px]">{entry.file.name}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {entry.status === 'failed'
+                      ? 'Upload failed'
+                      : entry.status === 'uploading'
+                        ? `${Math.round(entry.progress * 100)}% of ${formatFileSize(entry.file.size)}`
+                        : formatFileSize(entry.file.size)}
+                  </span>
+                </div>
+                {entry.status === 'failed' && (
+                  <button
+                    onClick={() => retryAttachment(entry.id)}
+                    className="text-muted-foreground hover:text-foreground"
+                    aria-label={`Retry uploading ${entry.file.name}`}
+                  >
+                    <RotateCw className="h-3.5 w-3.5" />
+                  </button>
+                )}
+                <button
+                  onClick={() => removeAttachment(entry.id)}
+                  className="text-muted-foreground hover:text-foreground"
+                  aria-label={`Remove ${entry.file.name}`}
+                >
+                  ×
+                </button>
+                {entry.status === 'uploading' && (
+                  <div
+                    className="absolute inset-x-0 bottom-0 h-0.5 bg-primary transition-[width]"
+                    style={{ width: `${entry.progress * 100}%` }}
+                    role="progressbar"
+                    aria-valuenow={Math.round(entry.progress * 100)}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                  />
+                )}
+              </div>
+            );
+          })}
         </div>
       )}
 
+      {/* Rejected Files */}
+      {rejections.length > 0 && (
+        <div className="mb-dv-2 flex items-start justify-between gap-2 text-xs text-destructive">
+          <ul className="space-y-0.5">
+            {rejections.map((rejection, index) => <li key={index}>{rejection}</li>)}
+          </ul>
+          <button onClick={dismissRejections} className="hover:opacity-80" aria-label="Dismiss">
+            ×
+          </button>
+        </div>
+      )}
+
+      {/* Link Preview */}
+      {linkPreview.preview && (
+        <LinkPreviewCard
+          preview={linkPreview.preview}
+          onRemove={linkPreview.dismiss}
+          className="mb-dv-2"
+        />
+      )}
+
+      {/* Formatting Toolbar */}
+      {showFormatting && (
+        <FormattingToolbar
+          onFormat={applyFormat}
+          disabled={disabled || isSending}
+          className="mb-dv-2"
+        />
+      )}
+
       <div className="flex items-end gap-2">
         {/* File Attachment */}
         <input
@@ -114,14 +398,62 @@ export function MessageInput({
         >
           <Paperclip className="h-4 w-4" />
         </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setShowFormatting(!showFormatting)}
+          disabled={disabled || isSending}
+          className={cn("h-9 w-9 flex-shrink-0", showFormatting && "bg-accent")}
+          title={showFormatting ? 'Hide formatting' : 'Show formatting'}
+        >
+          <Type className="h-4 w-4" />
+        </Button>
 
         {/* Message Input */}
         <div className="flex-1 relative">
+          {/* Mention Suggestions */}
+          {showMentionSuggestions && (
+            <div
+              role="listbox"
+              className="absolute bottom-full left-0 mb-1 w-64 max-w-full rounded-md border border-border bg-popover p-1 shadow-md z-50"
+            >
+              {mentionSuggestions.map((candidate, index) => (
+                <button
+                  key={candidate.id}
+                  type="button"
+                  role="option"
+                  aria-selected={index === activeMentionIndex}
+                  // Keep focus (and the caret) in the textarea
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => pickMention(candidate)}
+                  onMouseEnter={() => setActiveMentionIndex(index)}
+                  className={cn(
+                    "flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left",
+                    index === activeMentionIndex ? "bg-accent" : "hover:bg-accent"
+                  )}
+                >
+                  <Avatar className="h-6 w-6">
+                    <AvatarImage src={candidate.avatar_url} />
+                    <AvatarFallback className="text-xs">
+                      {(candidate.display_name || candidate.handle).charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="min-w-0 flex-1 truncate text-sm">
+                    {candidate.display_name || candidate.handle}
+                    <span className="ml-1 text-xs text-muted-foreground">@{candidate.handle}</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+
           <Textarea
             ref={textareaRef}
             value={message}
             onChange={handleInput}
             onKeyDown={handleKeyDown}
+            onSelect={(e) => syncMentionQuery(e.currentTarget)}
+            onBlur={() => setMentionQuery(null)}
             placeholder={placeholder}
             disabled={disabled || isSending}
             className="min-h-[44px] max-h-[120px] resize-none pr-10"
@@ -149,6 +481,64 @@ export function MessageInput({
           </div>
         </div>
 
+        {/* Schedule Message */}
+        {onScheduleMessage && (
+          <Popover open={isScheduleOpen} onOpenChange={openSchedule}>
+            <PopoverTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={disabled || isSending || !message.trim()}
+                className="h-9 w-9 flex-shrink-0"
+                title="Schedule message"
+              >
+                <CalendarClock className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-72 space-y-3">
+              <p className="text-sm font-medium">Schedule message</p>
+              <div className="flex flex-wrap gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setScheduleAt(toLocalInputValue(addHours(new Date(), 1)))}
+                >
+                  In 1 hour
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setScheduleAt(toLocalInputValue(startOfHour(setHours(addDays(new Date(), 1), 9))))}
+                >
+                  Tomorrow 9:00
+                </Button>
+              </div>
+              <Input
+                type="datetime-local"
+                value={scheduleAt}
+                min={toLocalInputValue(new Date())}
+                onChange={(e) => setScheduleAt(e.target.value)}
+              />
+              {attachments.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Attachments can't be scheduled and will stay in the composer.
+                </p>
+              )}
+              <Button
+                className="w-full"
+                size="sm"
+                onClick={handleSchedule}
+                disabled={isScheduling || !scheduleAt || new Date(scheduleAt).getTime() <= Date.now()}
+              >
+                {isScheduling && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Schedule for {scheduleAt ? format(new Date(scheduleAt), 'MMM d, h:mm a') : '...'}
+              </Button>
+            </PopoverContent>
+          </Popover>
+        )}
+
         {/* Send Button */}
         <Button
           onClick={handleSend}
@@ -170,4 +560,3 @@ export function MessageInput({
 
 
 
-
@@ -0,0 +1,110 @@
+import React, { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { parseMarkdown, type BlockNode, type InlineNode } from '@/lib/messenger/markdown';
+
+interface MessageMarkdownProps {
+  content: string;
+  // Flatten to a single run of text, e.g. for search results; links aren't clickable
+  inline?: boolean;
+  // Renders each plain text run, e.g. to highlight mentions or search matches
+  renderText?: (text: string) => React.ReactNode;
+  className?: string;
+}
+
+const codeClassName = "rounded bg-black/10 dark:bg-white/10 px-1 py-0.5 font-mono text-[0.85em]";
+
+/**
+ * Renders message markdown as React elements only; content is never injected as HTML
+ */
+export function MessageMarkdown({ content, inline = false, renderText, className }: MessageMarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  const renderInline = (nodes: InlineNode[]): React.ReactNode[] =>
+    nodes.map((node, index) => {
+      switch (node.type) {
+        case 'text':
+          return <React.Fragment key={index}>{renderText ? renderText(node.text) : node.text}</React.Fragment>;
+        case 'code':
+          return <code key={index} className={codeClassName}>{node.text}</code>;
+        case 'bold':
+          return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+        case 'italic':
+          return <em key={index}>{renderInline(node.children)}</em>;
+        case 'strike':
+          return <s key={index}>{renderInline(node.children)}</s>;
+        case 'link':
+          return inline ? (
+            <span key={index} className="underline">{renderInline(node.children)}</span>
+          ) : (
+            <a
+              key={index}
+              href={node.href}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className="underline underline-offset-2 break-all hover:opacity-80"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {renderInline(node.children)}
+            </a>
+          );
+      }
+    });
+
+  const renderBlock = (block: BlockNode, index: number): React.ReactNode => {
+    if (inline) {
+      const separator = index > 0 ? ' ' : null;
+      switch (block.type) {
+        case 'paragraph':
+          return <React.Fragment key={index}>{separator}{renderInline(block.children)}</React.Fragment>;
+        case 'code_block':
+          return <React.Fragment key={index}>{separator}<code className={codeClassName}>{block.text}</code></React.Fragment>;
+        case 'quote':
+          return <React.Fragment key={index}>{separator}{block.children.map(renderBlock)}</React.Fragment>;
+        case 'list':
+          return (
+            <React.Fragment key={index}>
+              {block.items.map((item, itemIndex) => (
+                <React.Fragment key={itemIndex}>
+                  {index > 0 || itemIndex > 0 ? ' ' : null}
+                  {block.ordered ? `${block.start + itemIndex}. ` : '• '}
+                  {renderInline(item)}
+                </React.Fragment>
+              ))}
+            </React.Fragment>
+          );
+      }
+    }
+
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index} className="whitespace-pre-wrap break-words">{renderInline(block.children)}</p>;
+      case 'code_block':
+        return (
+          <pre key={index} className="overflow-x-auto rounded-md bg-black/10 dark:bg-white/10 p-2 font-mono text-xs">
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'quote':
+        return (
+          <blockquote key={index} className="space-y-1 border-l-2 border-current pl-2 opacity-70">
+            {block.children.map(renderBlock)}
+          </blockquote>
+        );
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex} className="break-words">{renderInline(item)}</li>
+        ));
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal space-y-0.5 pl-5">{items}</ol>
+        ) : (
+          <ul key={index} className="list-disc space-y-0.5 pl-5">{items}</ul>
+        );
+      }
+    }
+  };
+
+  if (inline) {
+    return <span className={className}>{blocks.map(renderBlock)}</span>;
+  }
+  return <div className={cn("space-y-1", className)}>{blocks.map(renderBlock)}</div>;
+}
@@ -0,0 +1,313 @@
+import { useMemo, useState } from 'react';
+import { Avatar, AvatarFallback, AvatarImage, Button, Input, ScrollArea } from '@/lib/design-system';
+import { Loader2, Search, X, SlidersHorizontal, Paperclip } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { useMessageSearch } from '@/hooks/shared/useMessageSearch';
+import { getConversationDisplayName } from '@/lib/messenger/conversationUtils';
+import { createSnippetParser } from '@/lib/messenger/searchSnippets';
+import { MessageMarkdown } from './MessageMarkdown';
+import type { MessageSearchResult } from '@/services/shared/messagingService';
+
+interface SearchConversation {
+  id: string;
+  type?: string;
+  name?: string;
+  participants: {
+    profile_universe_id: string;
+    profile_universe?: {
+      id: string;
+      handle: string;
+      display_name: string;
+      avatar_url?: string;
+    };
+  }[];
+}
+
+interface MessageSearchPanelProps {
+  universeId: string;
+  conversations: SearchConversation[];
+  onSelectResult: (result: MessageSearchResult) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+const MESSAGE_TYPES = [
+  { value: '', label: 'Any type' },
+  { value: 'text', label: 'Text' },
+  { value: 'image', label: 'Images' },
+  { value: 'video', label: 'Videos' },
+  { value: 'audio', label: 'Audio' },
+  { value: 'voice', label: 'Voice messages' },
+  { value: 'file', label: 'Files' }
+];
+
+const selectClassName = "h-9 w-full rounded-md border border-input bg-background px-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
+// A result's snippet with its formatting applied and the matched words highlighted
+function SnippetText({ snippet }: { snippet: string }) {
+  const parseSnippetText = createSnippetParser();
+
+  return (
+    <MessageMarkdown
+      inline
+      content={snippet}
+      renderText={(text) => parseSnippetText(text).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-dv-pink-500/20 text-foreground rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    />
+  );
+}
+
+export function MessageSearchPanel({
+  universeId,
+  conversations,
+  onSelectResult,
+  onClose,
+  className
+}: MessageSearchPanelProps) {
+  const {
+    searchQuery,
+    setSearchQuery,
+    filters,
+    setFilters,
+    results,
+    isSearching,
+    hasMore,
+    error,
+    loadMore,
+    clearSearch
+  } = useMessageSearch(universeId);
+  const [showFilters, setShowFilters] = useState(false);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  // Everyone we share a conversation with can be picked as a sender
+  const senderOptions = useMemo(() => {
+    const senders = new Map<string, { id: string; label: string }>();
+    conversations.forEach(conv => {
+      conv.participants.forEach(p => {
+        if (!senders.has(p.profile_universe_id)) {
+          senders.set(p.profile_universe_id, {
+            id: p.profile_universe_id,
+            label: p.profile_universe_id === universeId
+              ? 'You'
+              : p.profile_universe?.display_name || p.profile_universe?.handle || 'Unknown'
+          });
+        }
+      });
+    });
+    return Array.from(senders.values()).sort((a, b) => a.label.localeCompare(b.label));
+  }, [conversations, universeId]);
+
+  const conversationsById = useMemo(
+    () => new Map(conversations.map(conv => [conv.id, conv])),
+    [conversations]
+  );
+
+  const activeFilterCount = [
+    filters.senderUniverseId,
+    filters.from,
+    filters.to,
+    filters.hasAttachment,
+    filters.messageType
+  ].filter(value => value !== undefined && value !== null && value !== '').length;
+
+  // Date inputs are local days; the range end is exclusive so add one day
+  const applyDateRange = (from: string, to: string) => {
+    setFromDate(from);
+    setToDate(to);
+    setFilters(prev => ({
+      ...prev,
+      from: from ? new Date(`${from}T00:00:00`).toISOString() : null,
+      to: to ? new Date(new Date(`${to}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString() : null
+    }));
+  };
+
+  const handleClose = () => {
+    clearSearch();
+    setFromDate('');
+    setToDate('');
+    onClose();
+  };
+
+  return (
+    <div className={cn("flex flex-col h-full bg-background border-l border-border", className)}>
+      {/* Header */}
+      <div className="p-3 border-b border-border space-y-2">
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search all messages..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+              autoFocus
+            />
+          </div>
+          <Button
+            variant={showFilters || activeFilterCount > 0 ? 'secondary' : 'ghost'}
+            size="icon"
+            className="h-9 w-9 flex-shrink-0"
+            title="Filters"
+            onClick={() => setShowFilters(!showFilters)}
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-9 w-9 flex-shrink-0" title="Close search" onClick={handleClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {/* Filters */}
+        {showFilters && (
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              className={cn(selectClassName, "col-span-2")}
+              value={filters.senderUniverseId || ''}
+              onChange={(e) => setFilters(prev => ({ ...prev, senderUniverseId: e.target.value || null }))}
+            >
+              <option value="">Anyone</option>
+              {senderOptions.map(sender => (
+                <option key={sender.id} value={sender.id}>{sender.label}</option>
+              ))}
+            </select>
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>From</span>
+              <input
+                type="date"
+                className={selectClassName}
+                value={fromDate}
+                max={toDate || undefined}
+                onChange={(e) => applyDateRange(e.target.value, toDate)}
+              />
+            </label>
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>To</span>
+              <input
+                type="date"
+                className={selectClassName}
+                value={toDate}
+                min={fromDate || undefined}
+                onChange={(e) => applyDateRange(fromDate, e.target.value)}
+              />
+            </label>
+            <select
+              className={selectClassName}
+              value={filters.messageType || ''}
+              onChange={(e) => setFilters(prev => ({ ...prev, messageType: e.target.value || null }))}
+            >
+              {MESSAGE_TYPES.map(type => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={!!filters.hasAttachment}
+                onChange={(e) => setFilters(prev => ({ ...prev, hasAttachment: e.target.checked ? true : null }))}
+              />
+              Has attachment
+            </label>
+            {activeFilterCount > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="col-span-2 h-7 text-xs"
+                onClick={() => {
+                  setFilters({});
+                  setFromDate('');
+                  setToDate('');
+                }}
+              >
+                Clear filters
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Results */}
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {results.map(result => {
+            const conversation = conversationsById.get(result.conversation_id);
+            return (
+              <button
+                key={result.id}
+                type="button"
+                onClick={() => onSelectResult(result)}
+                className="w-full flex items-start gap-3 p-2 rounded-lg hover:bg-accent transition-colors text-left"
+              >
+                <Avatar className="h-8 w-8 flex-shrink-0">
+                  <AvatarImage src={result.sender_avatar_url} />
+                  <AvatarFallback className="text-xs">
+                    {result.sender_display_name?.charAt(0) || '?'}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium truncate">
+                      {result.sender_profile_universe_id === universeId
+                        ? 'You'
+                        : result.sender_display_name || result.sender_handle || 'Unknown'}
+                    </span>
+                    <span className="text-xs text-muted-foreground flex-shrink-0">
+                      {format(new Date(result.created_at), 'MMM d, yyyy')}
+                    </span>
+                  </div>
+                  {conversation && (
+                    <p className="text-xs text-muted-foreground truncate">
+                      in {getConversationDisplayName(conversation, universeId)}
+                    </p>
+                  )}
+                  <p className="text-sm text-muted-foreground line-clamp-2 break-words">
+                    <SnippetText snippet={result.snippet || result.content} />
+                    {result.has_attachment && (
+                      <Paperclip className="inline h-3 w-3 ml-1" />
+                    )}
+                  </p>
+                </div>
+              </button>
+            );
+          })}
+
+          {isSearching && (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!isSearching && hasMore && (
+            <Button variant="ghost" size="sm" className="w-full" onClick={loadMore}>
+              Load more results
+            </Button>
+          )}
+
+          {!isSearching && error && (
+            <div className="text-center py-8 text-sm text-destructive">{error}</div>
+          )}
+
+          {!isSearching && !error && searchQuery.trim() && results.length === 0 && (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              No messages found matching "{searchQuery}"
+            </div>
+          )}
+
+          {!searchQuery.trim() && (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              Search across all of your conversations
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
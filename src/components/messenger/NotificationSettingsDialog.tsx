@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Button } from '@/lib/design-system';
+import { Bell, Loader2, Play } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import type { NotificationPreferences } from '@/services/shared/messagingService';
+import {
+  MUTE_DURATIONS,
+  NOTIFICATION_LEVELS,
+  getMutedUntil,
+  isMuteActive,
+  type MuteDuration,
+  type NotificationLevel
+} from '@/lib/messenger/notificationPreferences';
+import {
+  MESSAGE_SOUNDS,
+  RINGTONES,
+  DEFAULT_MESSAGE_SOUND,
+  DEFAULT_RINGTONE,
+  playMessageSound,
+  previewRingtone
+} from '@/lib/audio/ringtone';
+
+interface NotificationSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  preferences: NotificationPreferences;
+  onSave: (preferences: NotificationPreferences) => Promise<void>;
+}
+
+type MuteChoice = 'off' | MuteDuration | 'until';
+
+const selectClassName = "h-9 w-full rounded-md border border-input bg-background px-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
+const toLocalInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export function NotificationSettingsDialog({
+  open,
+  onOpenChange,
+  preferences,
+  onSave
+}: NotificationSettingsDialogProps) {
+  const [muteChoice, setMuteChoice] = useState<MuteChoice>('off');
+  const [mutedUntilInput, setMutedUntilInput] = useState('');
+  const [level, setLevel] = useState<NotificationLevel>('all');
+  const [notifyMentionsWhenMuted, setNotifyMentionsWhenMuted] = useState(false);
+  const [sound, setSound] = useState<string>(DEFAULT_MESSAGE_SOUND);
+  const [ringtone, setRingtone] = useState<string>(DEFAULT_RINGTONE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved settings each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    const isMuted = isMuteActive(preferences);
+    setMuteChoice(!isMuted ? 'off' : preferences.muted_until ? 'until' : 'forever');
+    setMutedUntilInput(toLocalInputValue(
+      isMuted && preferences.muted_until ? new Date(preferences.muted_until) : new Date(Date.now() + 24 * 60 * 60 * 1000)
+    ));
+    setLevel(preferences.notification_level || 'all');
+    setNotifyMentionsWhenMuted(preferences.notify_mentions_when_muted || false);
+    setSound(preferences.notification_sound || DEFAULT_MESSAGE_SOUND);
+    setRingtone(preferences.ringtone || DEFAULT_RINGTONE);
+  }, [open, preferences]);
+
+  const mutedUntilDate = mutedUntilInput ? new Date(mutedUntilInput) : null;
+  const isUntilInvalid = muteChoice === 'until' && (!mutedUntilDate || mutedUntilDate.getTime() <= Date.now());
+
+  const handleSave = async () => {
+    if (isUntilInvalid) return;
+
+    const isMuted = muteChoice !== 'off';
+    let mutedUntil: string | null = null;
+    if (muteChoice === 'until') {
+      mutedUntil = mutedUntilDate!.toISOString();
+    } else if (muteChoice !== 'off') {
+      mutedUntil = getMutedUntil(muteChoice);
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        is_muted: isMuted,
+        muted_until: mutedUntil,
+        notification_level: level,
+        notify_mentions_when_muted: notifyMentionsWhenMuted,
+        notification_sound: sound === DEFAULT_MESSAGE_SOUND ? null : sound,
+        ringtone: ringtone === DEFAULT_RINGTONE ? null : ringtone
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // The caller reports the error
+      console.error('[NotificationSettingsDialog] Save failed:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" onOpenAutoFocus={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bell className="h-4 w-4" />
+            Notification Settings
+          </DialogTitle>
+          <DialogDescription>
+            These settings only affect you. Calls still ring while a conversation is muted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {/* Mute */}
+          <div className="space-y-2">
+            <p className="text-sm font-semibold">Mute</p>
+            <select
+              className={selectClassName}
+              value={muteChoice}
+              onChange={(e) => setMuteChoice(e.target.value as MuteChoice)}
+            >
+              <option value="off">Not muted</option>
+              {MUTE_DURATIONS.map(duration => (
+                <option key={duration.value} value={duration.value}>{duration.label}</option>
+              ))}
+              <option value="until">Until a date...</option>
+            </select>
+            {muteChoice === 'until' && (
+              <input
+                type="datetime-local"
+                className={selectClassName}
+                value={mutedUntilInput}
+                min={toLocalInputValue(new Date())}
+                onChange={(e) => setMutedUntilInput(e.target.value)}
+              />
+            )}
+            {isUntilInvalid && (
+              <p className="text-xs text-destructive">Pick a time in the future</p>
+            )}
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-dv-pink-500"
+                checked={notifyMentionsWhenMuted}
+                disabled={level === 'none'}
+                onChange={(e) => setNotifyMentionsWhenMuted(e.target.checked)}
+              />
+              Notify me when I'm mentioned, even while muted
+            </label>
+          </div>
+
+          {/* Level */}
+          <div className="space-y-2">
+            <p className="text-sm font-semibold">Notify me about</p>
+            <div className="space-y-1">
+              {NOTIFICATION_LEVELS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setLevel(option.value)}
+                  className={cn(
+                    "w-full rounded-md border px-3 py-2 text-left transition-colors",
+                    level === option.value ? "border-dv-pink-500 bg-dv-pink-500/10" : "border-border hover:bg-muted"
+                  )}
+                >
+                  <p className="text-sm font-medium">{option.label}</p>
+                  <p className="text-xs text-muted-foreground">{option.description}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Sounds */}
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>Message sound</span>
+              <div className="flex gap-1">
+                <select className={selectClassName} value={sound} onChange={(e) => setSound(e.target.value)}>
+                  {Object.entries(MESSAGE_SOUNDS).map(([id, option]) => (
+                    <option key={id} value={id}>{option.label}</option>
+                  ))}
+                </select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9 flex-shrink-0"
+                  title="Play message sound"
+                  onClick={() => playMessageSound(sound)}
+                >
+                  <Play className="h-4 w-4" />
+                </Button>
+              </div>
+            </label>
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>Ringtone</span>
+              <div className="flex gap-1">
+                <select className={selectClassName} value={ringtone} onChange={(e) => setRingtone(e.target.value)}>
+                  {Object.entries(RINGTONES).map(([id, option]) => (
+                    <option key={id} value={id}>{option.label}</option>
+                  ))}
+                </select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9 flex-shrink-0"
+                  title="Play ringtone"
+                  onClick={() => previewRingtone(ringtone)}
+                >
+                  <Play className="h-4 w-4" />
+                </Button>
+              </div>
+            </label>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || isUntilInvalid}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/lib/design-system';
+import { Pin, List } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { PinnedMessage } from '@/services/shared/messagingService';
+import { stripMarkdown } from '@/lib/messenger/markdown';
+
+interface PinnedMessagesBarProps {
+  pinnedMessages: PinnedMessage[];
+  onSelectPinnedMessage?: (messageId: string) => void;
+  onShowAllPinned?: () => void;
+  className?: string;
+}
+
+const MAX_SEGMENTS = 4;
+
+export function PinnedMessagesBar({
+  pinnedMessages,
+  onSelectPinnedMessage,
+  onShowAllPinned,
+  className
+}: PinnedMessagesBarProps) {
+  const [index, setIndex] = useState(0);
+
+  // Pins can disappear under us when someone else unpins
+  useEffect(() => {
+    if (index >= pinnedMessages.length) {
+      setIndex(0);
+    }
+  }, [index, pinnedMessages.length]);
+
+  if (pinnedMessages.length === 0) return null;
+
+  const current = pinnedMessages[Math.min(index, pinnedMessages.length - 1)];
+  const preview = stripMarkdown(current.message.content) || (current.message.attachments?.length ? '📎 Attachment' : 'Message');
+  const segmentCount = Math.min(pinnedMessages.length, MAX_SEGMENTS);
+  const activeSegment = Math.floor((index / pinnedMessages.length) * segmentCount);
+
+  // Jump to the shown pin, then move on to the next one so repeated clicks walk through them all
+  const handleClick = () => {
+    onSelectPinnedMessage?.(current.message_id);
+    setIndex(prev => (prev + 1) % pinnedMessages.length);
+  };
+
+  return (
+    <div className={cn("flex items-center gap-2 px-4 md:px-6 py-2 border-b border-border bg-background/95", className)}>
+      {segmentCount > 1 && (
+        <div className="flex flex-col gap-0.5 self-stretch py-0.5">
+          {Array.from({ length: segmentCount }).map((_, i) => (
+            <div
+              key={i}
+              className={cn(
+                "w-0.5 flex-1 rounded-full",
+                i === activeSegment ? "bg-primary" : "bg-primary/25"
+              )}
+            />
+          ))}
+        </div>
+      )}
+
+      <button
+        type="button"
+        className="flex-1 min-w-0 text-left"
+        onClick={handleClick}
+        title="Go to pinned message"
+      >
+        <p className="flex items-center gap-1 text-xs font-medium text-primary">
+          <Pin className="h-3 w-3" />
+          {pinnedMessages.length > 1
+            ? `Pinned message ${index + 1} of ${pinnedMessages.length}`
+            : 'Pinned message'}
+        </p>
+        <p className="text-sm text-muted-foreground truncate">{preview}</p>
+      </button>
+
+      {onShowAllPinned && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 flex-shrink-0"
+          title="All pinned messages"
+          onClick={onShowAllPinned}
+        >
+          <List className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
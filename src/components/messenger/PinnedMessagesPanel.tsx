@@ -0,0 +1,107 @@
+import { Avatar, AvatarFallback, AvatarImage, Button, ScrollArea } from '@/lib/design-system';
+import { Loader2, Pin, PinOff, X } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import type { PinnedMessage } from '@/services/shared/messagingService';
+import { stripMarkdown } from '@/lib/messenger/markdown';
+
+interface PinnedMessagesPanelProps {
+  pinnedMessages: PinnedMessage[];
+  isLoading?: boolean;
+  onSelectPinnedMessage: (messageId: string) => void;
+  onUnpinMessage?: (messageId: string) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+export function PinnedMessagesPanel({
+  pinnedMessages,
+  isLoading = false,
+  onSelectPinnedMessage,
+  onUnpinMessage,
+  onClose,
+  className
+}: PinnedMessagesPanelProps) {
+  return (
+    <div className={cn("flex flex-col h-full bg-background border-l border-border", className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2 p-3 border-b border-border">
+        <div className="flex items-center gap-2 min-w-0">
+          <Pin className="h-4 w-4 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm font-semibold">Pinned messages</p>
+            <p className="text-xs text-muted-foreground">
+              {pinnedMessages.length} {pinnedMessages.length === 1 ? 'message' : 'messages'}
+            </p>
+          </div>
+        </div>
+        <Button variant="ghost" size="icon" className="h-9 w-9 flex-shrink-0" title="Close pinned messages" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        {isLoading && pinnedMessages.length === 0 ? (
+          <div className="flex items-center justify-center py-10">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : pinnedMessages.length === 0 ? (
+          <div className="px-6 py-10 text-center">
+            <Pin className="h-8 w-8 text-muted-foreground mx-auto mb-3" />
+            <p className="text-sm text-muted-foreground">
+              Nothing pinned yet. Pin set times, addresses or agreed rates so everyone can find them.
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y divide-border">
+            {pinnedMessages.map(pin => {
+              const sender = pin.message.sender_profile;
+              return (
+                <div key={pin.message_id} className="group flex gap-3 p-3 hover:bg-muted/50">
+                  <Avatar className="h-8 w-8 flex-shrink-0">
+                    <AvatarImage src={sender?.avatar_url} />
+                    <AvatarFallback className="text-xs">
+                      {sender?.display_name?.charAt(0) || '?'}
+                    </AvatarFallback>
+                  </Avatar>
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left"
+                    onClick={() => onSelectPinnedMessage(pin.message_id)}
+                  >
+                    <div className="flex items-baseline justify-between gap-2">
+                      <span className="text-sm font-medium truncate">
+                        {sender?.display_name || sender?.handle || 'Unknown'}
+                      </span>
+                      <span className="text-xs text-muted-foreground flex-shrink-0">
+                        {format(new Date(pin.message.created_at), 'MMM d')}
+                      </span>
+                    </div>
+                    <p className="text-sm text-muted-foreground line-clamp-3 whitespace-pre-wrap break-words">
+                      {stripMarkdown(pin.message.content) || (pin.message.attachments?.length ? '📎 Attachment' : 'Message')}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Pinned by {pin.pinned_by?.display_name || pin.pinned_by?.handle || 'someone'}{' '}
+                      {formatDistanceToNow(new Date(pin.pinned_at), { addSuffix: true })}
+                    </p>
+                  </button>
+                  {onUnpinMessage && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 flex-shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                      title="Unpin"
+                      onClick={() => onUnpinMessage(pin.message_id)}
+                    >
+                      <PinOff className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
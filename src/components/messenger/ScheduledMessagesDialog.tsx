@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Badge, Button, Input, Textarea, ScrollArea } from '@/lib/design-system';
+import { Loader2, CalendarClock, Edit, Trash2, Check, X } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import type { ScheduledMessage } from '@/services/shared/messagingService';
+import { MessageMarkdown } from './MessageMarkdown';
+
+interface ScheduledMessagesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scheduledMessages: ScheduledMessage[];
+  isLoading?: boolean;
+  onUpdate: (id: string, updates: { content?: string; sendAt?: Date }) => Promise<void>;
+  onCancel: (id: string) => Promise<void>;
+}
+
+const toLocalInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export function ScheduledMessagesDialog({
+  open,
+  onOpenChange,
+  scheduledMessages,
+  isLoading = false,
+  onUpdate,
+  onCancel
+}: ScheduledMessagesDialogProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftContent, setDraftContent] = useState('');
+  const [draftSendAt, setDraftSendAt] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setEditingId(null);
+    }
+  }, [open]);
+
+  // The message was delivered or cancelled elsewhere while being edited
+  useEffect(() => {
+    if (editingId && !scheduledMessages.some(m => m.id === editingId)) {
+      setEditingId(null);
+    }
+  }, [editingId, scheduledMessages]);
+
+  const startEditing = (message: ScheduledMessage) => {
+    setEditingId(message.id);
+    setDraftContent(message.content);
+    setDraftSendAt(toLocalInputValue(new Date(message.send_at)));
+  };
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch (error) {
+      // The caller reports the error
+      console.error('[ScheduledMessagesDialog] Action failed:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const saveEdit = (message: ScheduledMessage) => runAction(message.id, async () => {
+    await onUpdate(message.id, {
+      content: draftContent.trim(),
+      sendAt: new Date(draftSendAt)
+    });
+    setEditingId(null);
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" onOpenAutoFocus={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" />
+            Scheduled Messages
+          </DialogTitle>
+          <DialogDescription>
+            Messages you've scheduled in this conversation. Only you can see them until they're sent.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[400px]">
+          {isLoading && scheduledMessages.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : scheduledMessages.length === 0 ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              No scheduled messages
+            </div>
+          ) : (
+            <div className="space-y-2 pr-2">
+              {scheduledMessages.map(message => {
+                const isEditing = editingId === message.id;
+                const isBusy = busyId === message.id;
+
+                return (
+                  <div key={message.id} className="rounded-lg border border-border p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs text-muted-foreground" title={format(new Date(message.send_at), 'PPpp')}>
+                        {format(new Date(message.send_at), 'MMM d, h:mm a')} · {formatDistanceToNow(new Date(message.send_at), { addSuffix: true })}
+                      </span>
+                      {message.status === 'failed' && (
+                        <Badge variant="destructive" title={message.last_error || undefined}>Failed</Badge>
+                      )}
+                    </div>
+
+                    {isEditing ? (
+                      <div className="space-y-2">
+                        <Textarea
+                          value={draftContent}
+                          onChange={(e) => setDraftContent(e.target.value)}
+                          rows={3}
+                          className="resize-none"
+                          disabled={isBusy}
+                        />
+                        <Input
+                          type="datetime-local"
+                          value={draftSendAt}
+                          min={toLocalInputValue(new Date())}
+                          onChange={(e) => setDraftSendAt(e.target.value)}
+                          disabled={isBusy}
+                        />
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setEditingId(null)} disabled={isBusy}>
+                            <X className="h-3 w-3 mr-1" />
+                            Cancel
+                          </Button>
+                          <Button
+                            size="sm"
+                            className="h-7 px-2 text-xs"
+                            onClick={() => saveEdit(message)}
+                            disabled={isBusy || !draftContent.trim() || !draftSendAt || new Date(draftSendAt).getTime() <= Date.now()}
+                          >
+                            {isBusy ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Check className="h-3 w-3 mr-1" />}
+                            Save
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <>
+                        <MessageMarkdown content={message.content} className="text-sm" />
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => startEditing(message)} disabled={isBusy}>
+                            <Edit className="h-3 w-3 mr-1" />
+                            Edit
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-xs text-destructive hover:text-destructive"
+                            onClick={() => runAction(message.id, () => onCancel(message.id))}
+                            disabled={isBusy}
+                          >
+                            {isBusy ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Trash2 className="h-3 w-3 mr-1" />}
+                            Cancel message
+                          </Button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,95 @@
+import type { ComponentProps } from 'react';
+import { Button } from '@/lib/design-system';
+import { MessagesSquare, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MessageArea } from './MessageArea';
+import { MessageInput, type ComposedMessageMetadata } from './MessageInput';
+import type { MentionCandidate } from '@/lib/messenger/mentions';
+import type { ComposerAttachment } from '@/hooks/shared/useAttachmentUploads';
+
+type ThreadMessage = ComponentProps<typeof MessageArea>['messages'][number];
+
+interface ThreadPanelProps {
+  rootMessage: ThreadMessage;
+  replies: ThreadMessage[];
+  currentUniverseId?: string;
+  isLoading?: boolean;
+  isGroupConversation?: boolean;
+  mentionCandidates?: MentionCandidate[];
+  onSendReply: (content: string, attachments?: ComposerAttachment[], metadata?: ComposedMessageMetadata) => void;
+  onClose: () => void;
+  onAddReaction?: (messageId: string, emoji: string) => void;
+  onEditMessage?: (messageId: string, content: string) => Promise<void> | void;
+  onDeleteMessage?: (messageId: string) => void;
+  onCopyMessage?: (content: string) => void;
+  onImageClick?: (url: string, name?: string) => void;
+  onRetryMessage?: (messageId: string) => void;
+  onDiscardMessage?: (messageId: string) => void;
+  className?: string;
+}
+
+export function ThreadPanel({
+  rootMessage,
+  replies,
+  currentUniverseId,
+  isLoading = false,
+  isGroupConversation = false,
+  mentionCandidates,
+  onSendReply,
+  onClose,
+  onAddReaction,
+  onEditMessage,
+  onDeleteMessage,
+  onCopyMessage,
+  onImageClick,
+  onRetryMessage,
+  onDiscardMessage,
+  className
+}: ThreadPanelProps) {
+  const replyCount = replies.filter(r => !r.delivery_status).length;
+
+  return (
+    <div className={cn("flex flex-col h-full bg-background border-l border-border", className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2 p-3 border-b border-border">
+        <div className="flex items-center gap-2 min-w-0">
+          <MessagesSquare className="h-4 w-4 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm font-semibold">Thread</p>
+            <p className="text-xs text-muted-foreground truncate">
+              {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+            </p>
+          </div>
+        </div>
+        <Button variant="ghost" size="icon" className="h-9 w-9 flex-shrink-0" title="Close thread" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Root message and replies */}
+      <div className="flex-1 min-h-0 flex flex-col">
+        <MessageArea
+          messages={[rootMessage, ...replies]}
+          currentUniverseId={currentUniverseId}
+          isLoading={isLoading && replies.length === 0}
+          isGroupConversation={isGroupConversation}
+          onAddReaction={onAddReaction}
+          onEditMessage={onEditMessage}
+          onDeleteMessage={onDeleteMessage}
+          onCopyMessage={onCopyMessage}
+          onImageClick={onImageClick}
+          onRetryMessage={onRetryMessage}
+          onDiscardMessage={onDiscardMessage}
+        />
+      </div>
+
+      <MessageInput
+        onSendMessage={onSendReply}
+        mentionCandidates={mentionCandidates}
+        currentUniverseId={currentUniverseId}
+        conversationId={rootMessage.conversation_id}
+        placeholder="Reply in thread..."
+      />
+    </div>
+  );
+}
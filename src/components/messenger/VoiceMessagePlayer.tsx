@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pause, Play } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  VOICE_PLAYBACK_RATES,
+  formatVoiceDuration,
+  hasPlayedVoiceNote,
+  isTranscriptPending,
+  markVoiceNotePlayed,
+  type VoiceNoteMetadata,
+  type VoicePlaybackRate
+} from '@/lib/messenger/voiceNotes';
+
+interface VoiceMessagePlayerProps {
+  messageId: string;
+  url: string;
+  voice: VoiceNoteMetadata;
+  // Your own notes never show as unplayed
+  isOwn?: boolean;
+  className?: string;
+}
+
+const SEEK_STEP_SECONDS = 5;
+
+// Starting one voice note pauses whichever was playing
+let activeAudio: HTMLAudioElement | null = null;
+
+/**
+ * Voice note player: waveform with scrubbing, playback speed, unplayed marker and transcript
+ */
+export function VoiceMessagePlayer({ messageId, url, voice, isOwn = false, className }: VoiceMessagePlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [rate, setRate] = useState<VoicePlaybackRate>(1);
+  const [isPlayed, setIsPlayed] = useState(() => isOwn || hasPlayedVoiceNote(messageId));
+  const isScrubbingRef = useRef(false);
+
+  const duration = voice.duration > 0 ? voice.duration : audioRef.current?.duration || 0;
+  const progress = duration > 0 ? Math.min(1, currentTime / duration) : 0;
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    return () => {
+      audio?.pause();
+      if (activeAudio === audio) activeAudio = null;
+    };
+  }, []);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (!audio.paused) {
+      audio.pause();
+      return;
+    }
+    if (activeAudio && activeAudio !== audio) {
+      activeAudio.pause();
+    }
+    activeAudio = audio;
+    audio.playbackRate = rate;
+    audio.play().catch(error => console.error('[VoiceMessagePlayer] Playback failed:', error));
+    if (!isPlayed) {
+      markVoiceNotePlayed(messageId);
+      setIsPlayed(true);
+    }
+  };
+
+  const seekTo = (time: number) => {
+    const clamped = Math.max(0, Math.min(duration, time));
+    if (audioRef.current) {
+      audioRef.current.currentTime = clamped;
+    }
+    setCurrentTime(clamped);
+  };
+
+  const seekToPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    seekTo(((e.clientX - rect.left) / rect.width) * duration);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const targets: Record<string, number> = {
+      ArrowLeft: currentTime - SEEK_STEP_SECONDS,
+      ArrowRight: currentTime + SEEK_STEP_SECONDS,
+      Home: 0,
+      End: duration
+    };
+    if (e.key in targets) {
+      e.preventDefault();
+      seekTo(targets[e.key]);
+    }
+  };
+
+  const cycleRate = () => {
+    const next = VOICE_PLAYBACK_RATES[(VOICE_PLAYBACK_RATES.indexOf(rate) + 1) % VOICE_PLAYBACK_RATES.length];
+    setRate(next);
+    if (audioRef.current) {
+      audioRef.current.playbackRate = next;
+    }
+  };
+
+  const transcript = voice.transcript;
+
+  return (
+    <div className={cn("w-64 max-w-full", className)}>
+      <audio
+        ref={audioRef}
+        src={url}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onTimeUpdate={(e) => {
+          if (!isScrubbingRef.current) setCurrentTime(e.currentTarget.currentTime);
+        }}
+        onEnded={() => {
+          setIsPlaying(false);
+          setCurrentTime(0);
+        }}
+      />
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={togglePlay}
+          className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full bg-black/10 dark:bg-white/10 hover:opacity-80"
+          aria-label={isPlaying ? 'Pause voice message' : 'Play voice message'}
+        >
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </button>
+
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label="Voice message position"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(currentTime)}
+          aria-valuetext={`${formatVoiceDuration(currentTime)} of ${formatVoiceDuration(duration)}`}
+          className="flex h-8 flex-1 cursor-pointer touch-none items-center gap-px"
+          onPointerDown={(e) => {
+            isScrubbingRef.current = true;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            seekToPointer(e);
+          }}
+          onPointerMove={(e) => {
+            if (isScrubbingRef.current) seekToPointer(e);
+          }}
+          onPointerUp={() => {
+            isScrubbingRef.current = false;
+          }}
+          onPointerCancel={() => {
+            isScrubbingRef.current = false;
+          }}
+          onKeyDown={handleKeyDown}
+        >
+          {voice.peaks.map((peak, index) => (
+            <div
+              key={index}
+              className={cn(
+                "flex-1 rounded-full bg-current transition-opacity",
+                (index + 0.5) / voice.peaks.length <= progress ? "opacity-100" : "opacity-40"
+              )}
+              style={{ height: `${Math.max(12, peak * 100)}%` }}
+            />
+          ))}
+        </div>
+
+        <button
+          type="button"
+          onClick={cycleRate}
+          className="w-9 flex-shrink-0 rounded-full bg-black/10 dark:bg-white/10 px-1 py-0.5 text-[10px] font-semibold tabular-nums hover:opacity-80"
+          aria-label={`Playback speed ${rate}x`}
+        >
+          {rate}x
+        </button>
+      </div>
+
+      <div className="mt-0.5 flex items-center gap-1 pl-10 text-[10px] tabular-nums opacity-70">
+        <span>{formatVoiceDuration(isPlaying || currentTime > 0 ? currentTime : duration)}</span>
+        {!isPlayed && <span className="h-1.5 w-1.5 rounded-full bg-dv-pink-500" aria-label="Not played yet" />}
+      </div>
+
+      {transcript?.status === 'completed' && transcript.text && (
+        <p className="mt-1 text-xs italic opacity-80 whitespace-pre-wrap break-words">{transcript.text}</p>
+      )}
+      {isTranscriptPending(transcript) && (
+        <p className="mt-1 text-xs italic opacity-60">Transcribing…</p>
+      )}
+    </div>
+  );
+}
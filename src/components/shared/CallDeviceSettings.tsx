@@ -0,0 +1,134 @@
+/**
+ * Call Device Settings Component
+ * Picks the camera, microphone and speaker for calls, with a camera preview and a mic level test
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/lib/design-system';
+import { watchAudioLevel } from '@/lib/audio/levelMeter';
+import { canSelectSpeaker, type CallDeviceSelection } from '@/hooks/shared/useMediaDevices';
+
+interface CallDeviceSettingsProps {
+  // The camera and microphone currently in use: the call's own, or the preview before it starts
+  stream: MediaStream | null;
+  voiceOnly?: boolean;
+  cameras: MediaDeviceInfo[];
+  microphones: MediaDeviceInfo[];
+  speakers: MediaDeviceInfo[];
+  selection: CallDeviceSelection;
+  onSelect: (kind: keyof CallDeviceSelection, deviceId: string) => void;
+  onClose: () => void;
+}
+
+const selectClassName = "h-9 w-full rounded-md border border-input bg-background px-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
+function DeviceSelect({ label, fallbackLabel, devices, value, onChange }: {
+  label: string;
+  fallbackLabel: string;
+  devices: MediaDeviceInfo[];
+  value: string;
+  onChange: (deviceId: string) => void;
+}) {
+  return (
+    <label className="block text-xs text-muted-foreground space-y-1">
+      <span>{label}</span>
+      <select className={selectClassName} value={value} onChange={(e) => onChange(e.target.value)}>
+        <option value="">System default</option>
+        {devices
+          .filter(device => device.deviceId && device.deviceId !== 'default')
+          .map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || `${fallbackLabel} ${index + 1}`}
+            </option>
+          ))}
+      </select>
+    </label>
+  );
+}
+
+export function CallDeviceSettings({
+  stream,
+  voiceOnly = false,
+  cameras,
+  microphones,
+  speakers,
+  selection,
+  onSelect,
+  onClose
+}: CallDeviceSettingsProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [level, setLevel] = useState(0);
+
+  const hasVideo = !!stream && stream.getVideoTracks().length > 0;
+  const hasAudio = !!stream && stream.getAudioTracks().length > 0;
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = hasVideo ? stream : null;
+    }
+  }, [stream, hasVideo]);
+
+  // Mic test: the meter moves while you talk
+  useEffect(() => {
+    setLevel(0);
+    if (!stream || !hasAudio) return;
+    return watchAudioLevel(stream, setLevel);
+  }, [stream, hasAudio]);
+
+  return (
+    <div className="w-80 rounded-lg bg-background p-4 shadow-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Devices</h3>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} title="Close">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {!voiceOnly && (
+        <>
+          <div className="aspect-video w-full overflow-hidden rounded-md bg-gray-900">
+            {hasVideo ? (
+              <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+            ) : (
+              <div className="flex h-full items-center justify-center text-xs text-dv-gray-400">
+                Camera preview unavailable
+              </div>
+            )}
+          </div>
+          <DeviceSelect
+            label="Camera"
+            fallbackLabel="Camera"
+            devices={cameras}
+            value={selection.cameraId}
+            onChange={(deviceId) => onSelect('cameraId', deviceId)}
+          />
+        </>
+      )}
+
+      <DeviceSelect
+        label="Microphone"
+        fallbackLabel="Microphone"
+        devices={microphones}
+        value={selection.microphoneId}
+        onChange={(deviceId) => onSelect('microphoneId', deviceId)}
+      />
+      <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted" title="Microphone level">
+        <div className="h-full bg-dv-green-500 transition-[width] duration-75" style={{ width: `${level * 100}%` }} />
+      </div>
+      {!hasAudio && (
+        <p className="text-xs text-muted-foreground">Your microphone level shows here once it is on.</p>
+      )}
+
+      {canSelectSpeaker && speakers.length > 0 && (
+        <DeviceSelect
+          label="Speaker"
+          fallbackLabel="Speaker"
+          devices={speakers}
+          value={selection.speakerId}
+          onChange={(deviceId) => onSelect('speakerId', deviceId)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,20 @@
 /**
  * Video Call Dialog Component
- * Full-screen video call interface with invitation flow
+ * Full-screen video call interface with invitation flow, for 1-on-1 and group calls
  */
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Dialog, DialogContent, DialogTitle, DialogDescription, Button } from '@/lib/design-system';
-import { Phone, PhoneOff, Video, VideoOff, Mic, MicOff, X } from 'lucide-react';
+import { Phone, PhoneOff, Video, VideoOff, Mic, MicOff, X, LayoutGrid, User, ScreenShare, ScreenShareOff, Settings } from 'lucide-react';
 import { useVideoCall } from '@/hooks/shared/useVideoCall';
 import { useVideoCallInvitations, type VideoCall } from '@/hooks/shared/useVideoCallInvitations';
+import { useVideoCallParticipants } from '@/hooks/shared/useVideoCallParticipants';
+import { useMediaDevices, getDeviceConstraint } from '@/hooks/shared/useMediaDevices';
+import { useUniverse } from '@/hooks/shared/useUniverse';
 import { toast } from '@/hooks/shared/use-toast';
-import { supabase } from '@/integrations/supabase/client';
 import { playRingtone, stopRingtone } from '@/lib/audio/ringtone';
+import { VideoCallGrid, type VideoCallLayout, type VideoCallScreenShare, type VideoCallTile } from './VideoCallGrid';
+import { CallDeviceSettings } from './CallDeviceSettings';
 
 interface ProfileUniverse {
   id: string;
@@ -20,16 +24,35 @@ interface ProfileUniverse {
   user_id?: string;
 }
 
+interface CallParticipantProfile {
+  profile_universe_id: string;
+  profile_universe?: ProfileUniverse;
+}
+
 interface VideoCallDialogProps {
   isOpen: boolean;
   onClose: () => void;
   conversationId: string;
   voiceOnly?: boolean; // If true, this is a voice-only call
-  otherParticipant?: {
-    profile_universe_id: string;
-    profile_universe?: ProfileUniverse;
-  };
-  incomingCall?: VideoCall;
+  // Everyone else in the conversation, for names and avatars
+  participants: CallParticipantProfile[];
+  // Conversation name, shown before the call connects
+  title?: string;
+  isGroup?: boolean;
+  // A call ringing for this user
+  incomingCall?: VideoCall | null;
+  // A call already going on in the conversation, to join late
+  ongoingCall?: VideoCall | null;
+}
+
+// An unanswered incoming call stops ringing after this long
+const RING_TIMEOUT_MS = 30000;
+
+// Mobile browsers can't share their screen
+const canShareScreen = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
+
+function getProfileName(profile?: ProfileUniverse) {
+  return profile?.display_name || profile?.handle || 'Unknown User';
 }
 
 export function VideoCallDialog({
@@ -37,55 +60,82 @@ export function VideoCallDialog({
   onClose,
   conversationId,
   voiceOnly = false,
-  otherParticipant,
-  incomingCall
+  participants,
+  title,
+  isGroup = false,
+  incomingCall,
+  ongoingCall
 }: VideoCallDialogProps) {
-  const [remoteUserId, setRemoteUserId] = useState<string | null>(null);
-  const [isLoadingUserId, setIsLoadingUserId] = useState(false);
+  const { universe } = useUniverse();
   const [error, setError] = useState<string | null>(null);
-  const [callId, setCallId] = useState<string | null>(null);
+  const [callId, setCallId] = useState<string | null>(incomingCall?.id || ongoingCall?.id || null);
   const [isInitiating, setIsInitiating] = useState(false);
   const [previewStream, setPreviewStream] = useState<MediaStream | null>(null);
+  const [layout, setLayout] = useState<VideoCallLayout>(isGroup ? 'grid' : 'speaker');
+  const [showDeviceSettings, setShowDeviceSettings] = useState(false);
+  const mediaDevices = useMediaDevices();
+  const { cameraId, microphoneId, speakerId } = mediaDevices.selection;
+  const refreshDevices = mediaDevices.refresh;
+
+  const profiles = useMemo(
+    () => new Map(participants.map(p => [p.profile_universe_id, p.profile_universe])),
+    [participants]
+  );
+  const callTitle = title || participants.map(p => getProfileName(p.profile_universe)).join(', ') || 'Call';
+  const soloParticipant = !isGroup ? participants[0]?.profile_universe : undefined;
 
-  const remoteUniverseId = otherParticipant?.profile_universe_id || '';
-  const remoteUserName = otherParticipant?.profile_universe?.display_name || 
-                        otherParticipant?.profile_universe?.handle || 
-                        'Unknown User';
-  const remoteUserAvatar = otherParticipant?.profile_universe?.avatar_url;
-
-  const { acceptCall: acceptInvitation, rejectCall: rejectInvitation, endCall: endVideoCall, initiateCall } = useVideoCallInvitations({
-    onIncomingCall: (call) => {
-      setCallId(call.id);
-    },
+  const { acceptCall: acceptInvitation, rejectCall: rejectInvitation, endCall: leaveCall, initiateCall } = useVideoCallInvitations({
     onCallStatusChange: (call) => {
-      if (call.status === 'accepted' && call.id === callId) {
-        startCall();
+      if (call.id !== callId) return;
+      // Declined, rang out, or everyone else hung up
+      if (call.status === 'rejected' || call.status === 'missed' || call.status === 'ended') {
+        stopRingtone();
+        if (callState === 'idle') {
+          onClose();
+        } else {
+          endCall();
+        }
       }
     }
   });
 
+  const callParticipants = useVideoCallParticipants(callId);
+
+  const stopPreview = () => {
+    setPreviewStream(prev => {
+      prev?.getTracks().forEach(track => track.stop());
+      return null;
+    });
+  };
+
   const {
     localStream,
-    remoteStream,
+    remoteParticipants,
+    dominantSpeakerIdentity,
     callState,
     startCall,
     endCall,
     toggleVideo,
     toggleAudio,
     videoEnabled,
-    audioEnabled
+    audioEnabled,
+    localScreenStream,
+    isScreenSharing,
+    startScreenShare,
+    stopScreenShare
   } = useVideoCall({
     conversationId: (isOpen && conversationId) ? conversationId : '',
-    remoteUserId: (isOpen && remoteUserId) ? remoteUserId : '',
-    remoteUniverseId: (isOpen && remoteUniverseId) ? remoteUniverseId : '',
-    voiceOnly: voiceOnly || (incomingCall ? false : voiceOnly), // Use voiceOnly prop, or check incoming call
+    voiceOnly,
+    devices: { cameraId, microphoneId },
+    pendingInviteCount: callParticipants.filter(
+      p => p.status === 'ringing' && p.profile_universe_id !== universe?.id
+    ).length,
     onCallEnded: () => {
-      // Stop preview stream when call ends
-      if (previewStream) {
-        previewStream.getTracks().forEach(track => track.stop());
-        setPreviewStream(null);
+      stopPreview();
+      stopRingtone();
+      if (callId) {
+        leaveCall(callId);
       }
-      endVideoCall(callId || '');
       onClose();
     },
     onError: (errorMessage: string) => {
@@ -98,57 +148,43 @@ export function VideoCallDialog({
   useEffect(() => {
     if (localStream && previewStream) {
       console.log('[VideoCallDialog] Call connected, stopping preview stream');
-      previewStream.getTracks().forEach(track => track.stop());
-      setPreviewStream(null);
+      stopPreview();
     }
   }, [localStream, previewStream]);
 
-  useEffect(() => {
-    if (!isOpen || !remoteUniverseId || remoteUserId) return;
-
-    const fetchUserId = async () => {
-      setIsLoadingUserId(true);
-      try {
-        const { data, error } = await supabase
-          .from('profile_universes')
-          .select('user_id')
-          .eq('id', remoteUniverseId)
-          .single();
-
-        if (data?.user_id) {
-          setRemoteUserId(data.user_id);
-        } else if (error) {
-          setError('Could not find user. Please try again.');
-        }
-      } catch (error) {
-        setError('Failed to start video call. Please try again.');
-      } finally {
-        setIsLoadingUserId(false);
-      }
-    };
-
-    fetchUserId();
-  }, [isOpen, remoteUniverseId, remoteUserId]);
-
   useEffect(() => {
     if (incomingCall) {
       setCallId(incomingCall.id);
       // Ringing sound is handled by RealtimeMessenger when incoming call is received
+    } else if (ongoingCall) {
+      setCallId(ongoingCall.id);
     }
-  }, [incomingCall]);
+  }, [incomingCall, ongoingCall]);
 
-  // Start video preview when dialog opens for outgoing calls
+  // Start preview when dialog opens for calls we place or join, again whenever a device is picked,
+  // so the device settings can show the camera and test the mic before the call starts
+  const isIdle = callState === 'idle';
   useEffect(() => {
-    if (!isOpen || incomingCall || voiceOnly) return;
+    if (!isOpen || incomingCall || !isIdle) return;
 
+    let cancelled = false;
     const startPreview = async () => {
       try {
         // Request camera and microphone access
         const stream = await navigator.mediaDevices.getUserMedia({
-          video: true,
-          audio: true
+          video: voiceOnly ? false : (getDeviceConstraint(cameraId) || true),
+          audio: getDeviceConstraint(microphoneId) || true
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        setPreviewStream(prev => {
+          prev?.getTracks().forEach(track => track.stop());
+          return stream;
         });
-        setPreviewStream(stream);
+        // Device names are only readable once access has been granted
+        refreshDevices();
         console.log('[VideoCallDialog] Started video preview');
       } catch (error: any) {
         console.error('[VideoCallDialog] Error starting preview:', error);
@@ -166,13 +202,11 @@ export function VideoCallDialog({
 
     // Cleanup preview when dialog closes
     return () => {
-      if (previewStream) {
-        previewStream.getTracks().forEach(track => track.stop());
-        setPreviewStream(null);
-        console.log('[VideoCallDialog] Stopped video preview');
-      }
+      cancelled = true;
+      stopPreview();
+      console.log('[VideoCallDialog] Stopped video preview');
     };
-  }, [isOpen, incomingCall, voiceOnly]);
+  }, [isOpen, incomingCall, voiceOnly, isIdle, cameraId, microphoneId, refreshDevices]);
 
   // Stop ringing when dialog closes
   useEffect(() => {
@@ -181,29 +215,41 @@ export function VideoCallDialog({
     }
   }, [isOpen]);
 
-  // Stop ringing when call status changes to accepted
+  // Stop ringing once somebody answers
   useEffect(() => {
     if (callId && callState === 'connected') {
       stopRingtone();
     }
   }, [callId, callState]);
 
+  // Let an unanswered incoming call ring out
+  const isRinging = Boolean(incomingCall && callState === 'idle');
+  const ringOutRef = useRef<(callId: string) => void>();
+  ringOutRef.current = (ringingCallId: string) => {
+    stopRingtone();
+    rejectInvitation(ringingCallId, 'missed');
+    onClose();
+  };
+  useEffect(() => {
+    if (!isRinging || !callId) return;
+
+    const timeout = setTimeout(() => ringOutRef.current?.(callId), RING_TIMEOUT_MS);
+    return () => clearTimeout(timeout);
+  }, [isRinging, callId]);
+
   const handleStartCall = async () => {
-    if (!remoteUserId || isInitiating) return;
+    if (isInitiating) return;
 
     setIsInitiating(true);
-    
+
     // Play ringing sound for outgoing call
     playRingtone();
-    
+
     // Stop preview stream (it will be replaced by the actual call stream)
-    if (previewStream) {
-      previewStream.getTracks().forEach(track => track.stop());
-      setPreviewStream(null);
-    }
-    
-    const result = await initiateCall(conversationId, remoteUserId, remoteUniverseId);
-    
+    stopPreview();
+
+    const result = await initiateCall(conversationId);
+
     if (result.success) {
       setCallId(result.callId || null);
       // Start the actual call connection
@@ -215,24 +261,29 @@ export function VideoCallDialog({
     setIsInitiating(false);
   };
 
-  const handleAcceptCall = async () => {
-    if (!callId) return;
-    
-    // Stop ringing when call is accepted
+  // Answering a ringing call and joining one late are the same: join, then connect
+  const handleJoinCall = async () => {
+    if (!callId || isInitiating) return;
+
+    setIsInitiating(true);
     stopRingtone();
-    
+    stopPreview();
+
     const result = await acceptInvitation(callId);
-    if (!result.success) {
-      setError(result.error || 'Failed to accept call');
+    if (result.success) {
+      startCall();
+    } else {
+      setError(result.error || 'Failed to join call');
     }
+    setIsInitiating(false);
   };
 
   const handleRejectCall = async () => {
     if (!callId) return;
-    
+
     // Stop ringing when call is rejected
     stopRingtone();
-    
+
     const result = await rejectInvitation(callId);
     if (result.success) {
       onClose();
@@ -244,44 +295,108 @@ export function VideoCallDialog({
   const handleEndCall = () => {
     // Stop ringing when call ends
     stopRingtone();
-    
-    if (callId) {
-      endVideoCall(callId);
+
+    if (callState === 'idle') {
+      stopPreview();
+      onClose();
+      return;
     }
+    // Leaves the call through onCallEnded
     endCall();
-    onClose();
   };
 
-  const localVideoRef = useRef<HTMLVideoElement>(null);
-  const remoteVideoRef = useRef<HTMLVideoElement>(null);
   const previewVideoRef = useRef<HTMLVideoElement>(null);
 
-  // Use preview stream or local stream for local video
-  const displayLocalStream = localStream || previewStream;
-
-  useEffect(() => {
-    if (localVideoRef.current && localStream) {
-      localVideoRef.current.srcObject = localStream;
-    }
-  }, [localStream]);
-
   useEffect(() => {
     if (previewVideoRef.current && previewStream) {
       previewVideoRef.current.srcObject = previewStream;
     }
   }, [previewStream]);
 
-  useEffect(() => {
-    if (remoteVideoRef.current && remoteStream) {
-      remoteVideoRef.current.srcObject = remoteStream;
+  const tiles = useMemo<VideoCallTile[]>(() => {
+    if (!localStream) return [];
+
+    const inRoom = new Set(remoteParticipants.map(p => p.identity));
+    const remoteTiles = remoteParticipants.map((participant): VideoCallTile => {
+      const profile = profiles.get(participant.identity);
+      return {
+        id: participant.identity,
+        name: getProfileName(profile),
+        avatarUrl: profile?.avatar_url,
+        stream: participant.stream,
+        videoEnabled: participant.videoEnabled,
+        audioEnabled: participant.audioEnabled
+      };
+    });
+    // People still being rung get a placeholder until they pick up
+    const ringingTiles = callParticipants
+      .filter(p => p.status === 'ringing' && p.profile_universe_id !== universe?.id && !inRoom.has(p.profile_universe_id))
+      .map((p): VideoCallTile => {
+        const profile = profiles.get(p.profile_universe_id);
+        return {
+          id: p.profile_universe_id,
+          name: getProfileName(profile),
+          avatarUrl: profile?.avatar_url,
+          stream: null,
+          videoEnabled: false,
+          audioEnabled: false,
+          status: 'Ringing...'
+        };
+      });
+
+    return [
+      ...remoteTiles,
+      ...ringingTiles,
+      {
+        id: universe?.id || 'local',
+        name: universe?.display_name || 'You',
+        avatarUrl: universe?.avatar_url || undefined,
+        stream: localStream,
+        videoEnabled: !voiceOnly && videoEnabled,
+        audioEnabled,
+        isLocal: true
+      }
+    ];
+  }, [localStream, remoteParticipants, callParticipants, profiles, universe, voiceOnly, videoEnabled, audioEnabled]);
+
+  // Someone else's share wins over our own, so we see what they're presenting
+  const screenShare = useMemo<VideoCallScreenShare | null>(() => {
+    const presenter = remoteParticipants.find(p => p.screenStream);
+    if (presenter?.screenStream) {
+      const name = getProfileName(profiles.get(presenter.identity));
+      return {
+        presenterId: presenter.identity,
+        tile: {
+          id: `${presenter.identity}:screen`,
+          name: `${name}'s screen`,
+          stream: presenter.screenStream,
+          videoEnabled: true,
+          audioEnabled: true,
+          isScreen: true
+        }
+      };
+    }
+    if (localScreenStream) {
+      return {
+        presenterId: universe?.id || 'local',
+        tile: {
+          id: 'local:screen',
+          name: 'Your screen',
+          stream: localScreenStream,
+          videoEnabled: true,
+          audioEnabled: true,
+          isScreen: true
+        }
+      };
     }
-  }, [remoteStream]);
+    return null;
+  }, [remoteParticipants, localScreenStream, profiles, universe?.id]);
 
   if (!isOpen) {
     return null;
   }
 
-  if (!remoteUniverseId) {
+  if (participants.length === 0) {
     return (
       <Dialog open={isOpen} onOpenChange={(open) => {
         if (!open) {
@@ -302,36 +417,11 @@ export function VideoCallDialog({
     );
   }
 
-  if (isLoadingUserId || !remoteUserId) {
-    return (
-      <Dialog open={isOpen} onOpenChange={(open) => {
-        if (!open) {
-          onClose();
-        }
-      }}>
-        <DialogContent className="max-w-full w-full h-full p-0 bg-black border-none" onPointerDownOutside={(e) => e.preventDefault()}>
-          <DialogTitle className="sr-only">{voiceOnly ? 'Voice Call' : 'Video Call'} - Loading</DialogTitle>
-          <DialogDescription className="sr-only">Loading {voiceOnly ? 'voice' : 'video'} call connection</DialogDescription>
-          <div className="flex items-center justify-center h-full">
-            <div className="text-center text-white">
-              <p>Loading...</p>
-              {error && (
-                <div className="mt-4">
-                  <p className="text-sm text-red-400 mb-2">{error}</p>
-                  <Button onClick={onClose} variant="outline">Cancel</Button>
-                </div>
-              )}
-            </div>
-          </div>
-        </DialogContent>
-      </Dialog>
-    );
-  }
-
-  const isOutgoingCall = !incomingCall;
-  const showCallControls = callState === 'connected' || (isOutgoingCall && callState === 'idle');
-  const showIncomingControls = incomingCall && callState === 'idle';
-  const showCallingState = isOutgoingCall && callState === 'idle' && !showCallControls;
+  const isOutgoingCall = !incomingCall && !ongoingCall;
+  const isInCall = callState !== 'idle' && callState !== 'ended';
+  const showIncomingControls = isRinging;
+  const showJoinControls = !incomingCall && !!ongoingCall && callState === 'idle';
+  const showCallingState = isOutgoingCall && callState === 'calling';
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => {
@@ -340,56 +430,50 @@ export function VideoCallDialog({
       }
     }}>
       <DialogContent className="max-w-full w-full h-full p-0 bg-black border-none" onPointerDownOutside={(e) => e.preventDefault()} onEscapeKeyDown={(e) => e.preventDefault()}>
-        <DialogTitle className="sr-only">{voiceOnly ? 'Voice Call' : 'Video Call'} with {remoteUserName}</DialogTitle>
+        <DialogTitle className="sr-only">{voiceOnly ? 'Voice Call' : 'Video Call'} with {callTitle}</DialogTitle>
         <DialogDescription className="sr-only">{voiceOnly ? 'Voice' : 'Video'} call in progress</DialogDescription>
         <div className="relative w-full h-full flex items-center justify-center">
-          {/* Remote Video (Main) or Preview Video - Only show for video calls */}
-          <div className="absolute inset-0 w-full h-full">
-            {!voiceOnly && (remoteStream?.getVideoTracks().length > 0 || previewStream?.getVideoTracks().length > 0) ? (
-              <>
-                {/* Show remote video when connected */}
-                {remoteStream && remoteStream.getVideoTracks().length > 0 && (
-                  <video
-                    ref={remoteVideoRef}
-                    autoPlay
-                    playsInline
-                    className="w-full h-full object-cover"
-                    muted={false}
-                  />
-                )}
-                {/* Show preview video when calling (before remote video is available) */}
-                {(!remoteStream || remoteStream.getVideoTracks().length === 0) && previewStream && previewStream.getVideoTracks().length > 0 && (
-                  <video
-                    ref={previewVideoRef}
-                    autoPlay
-                    playsInline
-                    className="w-full h-full object-cover"
-                    muted={true}
-                  />
-                )}
-              </>
+          <div className="absolute inset-0 w-full h-full pb-20">
+            {tiles.length > 0 ? (
+              <VideoCallGrid
+                tiles={tiles}
+                layout={layout}
+                spotlightId={dominantSpeakerIdentity}
+                dominantSpeakerId={remoteParticipants.length > 1 ? dominantSpeakerIdentity : null}
+                screenShare={screenShare}
+                speakerId={speakerId}
+              />
+            ) : !voiceOnly && previewStream && previewStream.getVideoTracks().length > 0 ? (
+              // Show preview video before the call starts
+              <video
+                ref={previewVideoRef}
+                autoPlay
+                playsInline
+                className="w-full h-full object-cover"
+                muted={true}
+              />
             ) : (
               <div className="w-full h-full flex items-center justify-center bg-gray-900">
                 <div className="text-center text-white">
                   <div className="w-32 h-32 rounded-full bg-dv-gray-700 flex items-center justify-center mx-auto mb-4">
-                    {remoteUserAvatar ? (
-                      <img src={remoteUserAvatar} alt={remoteUserName} className="w-full h-full rounded-full object-cover" />
+                    {soloParticipant?.avatar_url ? (
+                      <img src={soloParticipant.avatar_url} alt={callTitle} className="w-full h-full rounded-full object-cover" />
                     ) : (
-                      <span className="text-4xl">{remoteUserName.charAt(0).toUpperCase()}</span>
+                      <span className="text-4xl">{callTitle.charAt(0).toUpperCase()}</span>
                     )}
                   </div>
-                  <p className="text-xl font-semibold">{remoteUserName}</p>
+                  <p className="text-xl font-semibold">{callTitle}</p>
                   <p className="text-sm text-dv-gray-400 mt-2">
                     {error ? (
                       <span className="text-dv-red-400">{error}</span>
-                    ) : showCallingState ? (
-                      'Calling...'
                     ) : showIncomingControls ? (
                       'Incoming call...'
-                    ) : showCallControls ? (
-                      'Connected'
-                    ) : (
+                    ) : showJoinControls ? (
+                      'Call in progress'
+                    ) : isInitiating ? (
                       'Starting call...'
+                    ) : (
+                      'Ready to call'
                     )}
                   </p>
                   {error && (
@@ -401,7 +485,7 @@ export function VideoCallDialog({
                         if (isOutgoingCall) {
                           handleStartCall();
                         } else {
-                          handleAcceptCall();
+                          handleJoinCall();
                         }
                       }}
                     >
@@ -413,16 +497,9 @@ export function VideoCallDialog({
             )}
           </div>
 
-          {/* Local Video (Picture-in-Picture) - Only show for video calls when connected */}
-          {!voiceOnly && localStream && localStream.getVideoTracks().length > 0 && (
-            <div className="absolute bottom-20 right-4 w-48 h-36 rounded-lg overflow-hidden bg-black border-2 border-white shadow-lg z-10">
-              <video
-                ref={localVideoRef}
-                autoPlay
-                playsInline
-                muted
-                className="w-full h-full object-cover"
-              />
+          {showCallingState && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 rounded-full bg-black/60 px-4 py-1.5 text-sm text-white">
+              Calling {callTitle}...
             </div>
           )}
 
@@ -434,7 +511,9 @@ export function VideoCallDialog({
                   variant="default"
                   size="icon"
                   className="h-14 w-14 rounded-full bg-dv-green-600 hover:bg-dv-green-700"
-                  onClick={handleAcceptCall}
+                  onClick={handleJoinCall}
+                  disabled={isInitiating}
+                  title="Answer"
                 >
                   <Phone className="h-7 w-7" />
                 </Button>
@@ -443,82 +522,147 @@ export function VideoCallDialog({
                   size="icon"
                   className="h-14 w-14 rounded-full"
                   onClick={handleRejectCall}
+                  title="Decline"
                 >
                   <PhoneOff className="h-7 w-7" />
                 </Button>
               </>
             )}
 
-            {(showCallControls || showCallingState) && (
+            {showJoinControls && (
+              <Button
+                className="h-14 rounded-full px-6 bg-dv-green-600 hover:bg-dv-green-700"
+                onClick={handleJoinCall}
+                disabled={isInitiating}
+              >
+                <Phone className="h-5 w-5 mr-2" />
+                Join call
+              </Button>
+            )}
+
+            {/* Start Call Button for outgoing calls */}
+            {isOutgoingCall && callState === 'idle' && (
+              <Button
+                variant="default"
+                size="icon"
+                className="h-14 w-14 rounded-full bg-dv-green-600 hover:bg-dv-green-700"
+                onClick={handleStartCall}
+                disabled={isInitiating}
+                title={voiceOnly ? 'Start voice call' : 'Start video call'}
+              >
+                <Phone className="h-7 w-7" />
+              </Button>
+            )}
+
+            {isInCall && (
               <>
-                {/* Start Call Button for outgoing calls */}
-                {isOutgoingCall && callState === 'idle' && !callId && (
+                {/* Only show video toggle for video calls */}
+                {!voiceOnly && (
                   <Button
-                    variant="default"
+                    variant="secondary"
                     size="icon"
-                    className="h-14 w-14 rounded-full bg-dv-green-600 hover:bg-dv-green-700"
-                    onClick={handleStartCall}
-                    disabled={isInitiating}
+                    className="h-12 w-12 rounded-full"
+                    onClick={toggleVideo}
+                    title={videoEnabled ? 'Turn camera off' : 'Turn camera on'}
                   >
-                    <Phone className="h-7 w-7" />
+                    {videoEnabled ? (
+                      <Video className="h-6 w-6" />
+                    ) : (
+                      <VideoOff className="h-6 w-6" />
+                    )}
                   </Button>
                 )}
 
-                {/* Video/Audio Controls */}
-                {callId && (
-                  <>
-                    {/* Only show video toggle for video calls */}
-                    {!voiceOnly && (
-                      <Button
-                        variant="secondary"
-                        size="icon"
-                        className="h-12 w-12 rounded-full"
-                        onClick={toggleVideo}
-                      >
-                        {videoEnabled ? (
-                          <Video className="h-6 w-6" />
-                        ) : (
-                          <VideoOff className="h-6 w-6" />
-                        )}
-                      </Button>
-                    )}
-
-                    <Button
-                      variant="secondary"
-                      size="icon"
-                      className="h-12 w-12 rounded-full"
-                      onClick={toggleAudio}
-                    >
-                      {audioEnabled ? (
-                        <Mic className="h-6 w-6" />
-                      ) : (
-                        <MicOff className="h-6 w-6" />
-                      )}
-                    </Button>
-                  </>
-                )}
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className="h-12 w-12 rounded-full"
+                  onClick={toggleAudio}
+                  title={audioEnabled ? 'Mute' : 'Unmute'}
+                >
+                  {audioEnabled ? (
+                    <Mic className="h-6 w-6" />
+                  ) : (
+                    <MicOff className="h-6 w-6" />
+                  )}
+                </Button>
 
-                {/* End Call */}
-                {callId && (
+                {canShareScreen && (
                   <Button
-                    variant="destructive"
+                    variant={isScreenSharing ? 'default' : 'secondary'}
                     size="icon"
-                    className="h-14 w-14 rounded-full"
-                    onClick={handleEndCall}
+                    className="h-12 w-12 rounded-full"
+                    onClick={isScreenSharing ? stopScreenShare : startScreenShare}
+                    title={isScreenSharing ? 'Stop sharing' : 'Share screen'}
                   >
-                    <PhoneOff className="h-7 w-7" />
+                    {isScreenSharing ? (
+                      <ScreenShareOff className="h-6 w-6" />
+                    ) : (
+                      <ScreenShare className="h-6 w-6" />
+                    )}
                   </Button>
                 )}
+
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className="h-12 w-12 rounded-full"
+                  onClick={() => setLayout(layout === 'grid' ? 'speaker' : 'grid')}
+                  disabled={!!screenShare}
+                  title={layout === 'grid' ? 'Speaker view' : 'Grid view'}
+                >
+                  {layout === 'grid' ? (
+                    <User className="h-6 w-6" />
+                  ) : (
+                    <LayoutGrid className="h-6 w-6" />
+                  )}
+                </Button>
+
+                {/* End Call */}
+                <Button
+                  variant="destructive"
+                  size="icon"
+                  className="h-14 w-14 rounded-full"
+                  onClick={handleEndCall}
+                  title="Leave call"
+                >
+                  <PhoneOff className="h-7 w-7" />
+                </Button>
               </>
             )}
           </div>
 
+          {showDeviceSettings && (
+            <div className="absolute top-16 right-4 z-20">
+              <CallDeviceSettings
+                stream={localStream || previewStream}
+                voiceOnly={voiceOnly}
+                cameras={mediaDevices.cameras}
+                microphones={mediaDevices.microphones}
+                speakers={mediaDevices.speakers}
+                selection={mediaDevices.selection}
+                onSelect={mediaDevices.selectDevice}
+                onClose={() => setShowDeviceSettings(false)}
+              />
+            </div>
+          )}
+
+          <Button
+            variant="ghost"
+            size="icon"
+            className="absolute top-4 right-16 h-10 w-10 rounded-full bg-black/50 hover:bg-black/70 text-white"
+            onClick={() => setShowDeviceSettings(!showDeviceSettings)}
+            title="Device settings"
+          >
+            <Settings className="h-5 w-5" />
+          </Button>
+
           {/* Close Button */}
           <Button
             variant="ghost"
             size="icon"
             className="absolute top-4 right-4 h-10 w-10 rounded-full bg-black/50 hover:bg-black/70 text-white"
-            onClick={onClose}
+            onClick={handleEndCall}
           >
             <X className="h-5 w-5" />
           </Button>
@@ -526,4 +670,4 @@ export function VideoCallDialog({
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
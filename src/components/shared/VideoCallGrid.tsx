@@ -0,0 +1,198 @@
+/**
+ * Video Call Grid Component
+ * Lays out everyone in a call, either as an even grid or with one speaker large.
+ * A screen share takes over the stage, with the presenter's camera picture-in-picture
+ */
+
+import { useEffect, useRef } from 'react';
+import { MicOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { canSelectSpeaker } from '@/hooks/shared/useMediaDevices';
+
+export type VideoCallLayout = 'grid' | 'speaker';
+
+export interface VideoCallTile {
+  id: string; // Profile universe id of the participant
+  name: string;
+  avatarUrl?: string;
+  stream: MediaStream | null;
+  videoEnabled: boolean;
+  audioEnabled: boolean;
+  isLocal?: boolean;
+  // Shown instead of media for people rung but not in the room yet ("Ringing...")
+  status?: string;
+  // A shared screen rather than a camera: fitted whole instead of cropped
+  isScreen?: boolean;
+}
+
+export interface VideoCallScreenShare {
+  tile: VideoCallTile;
+  presenterId: string;
+}
+
+interface VideoCallGridProps {
+  tiles: VideoCallTile[];
+  layout: VideoCallLayout;
+  // Large tile in the speaker layout
+  spotlightId: string | null;
+  dominantSpeakerId: string | null;
+  screenShare?: VideoCallScreenShare | null;
+  // Output device for everyone else's audio; empty for the system default
+  speakerId?: string;
+  className?: string;
+}
+
+interface CallTileProps {
+  tile: VideoCallTile;
+  isSpeaking: boolean;
+  compact?: boolean;
+  speakerId?: string;
+}
+
+function CallTile({ tile, isSpeaking, compact, speakerId }: CallTileProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = tile.stream;
+    }
+  }, [tile.stream]);
+
+  const hasStream = !!tile.stream;
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !hasStream || tile.isLocal || speakerId === undefined || !canSelectSpeaker) return;
+    video.setSinkId(speakerId).catch(error => {
+      console.error('[VideoCallGrid] Error switching speaker:', error);
+    });
+  }, [hasStream, tile.isLocal, speakerId]);
+
+  const showVideo = tile.stream && tile.videoEnabled && tile.stream.getVideoTracks().length > 0;
+
+  return (
+    <div
+      className={cn(
+        "relative w-full h-full overflow-hidden rounded-lg bg-gray-900 ring-2 transition-shadow",
+        isSpeaking ? "ring-dv-green-500" : "ring-transparent"
+      )}
+    >
+      {/* Kept mounted without video too: it still plays the participant's audio */}
+      {tile.stream && (
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted={tile.isLocal}
+          className={cn("w-full h-full", tile.isScreen ? "object-contain" : "object-cover", !showVideo && "hidden")}
+        />
+      )}
+
+      {!showVideo && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center text-white">
+          <div className={cn(
+            "rounded-full bg-dv-gray-700 flex items-center justify-center overflow-hidden",
+            compact ? "w-10 h-10" : "w-20 h-20"
+          )}>
+            {tile.avatarUrl ? (
+              <img src={tile.avatarUrl} alt={tile.name} className="w-full h-full object-cover" />
+            ) : (
+              <span className={compact ? "text-lg" : "text-3xl"}>{tile.name.charAt(0).toUpperCase()}</span>
+            )}
+          </div>
+          {tile.status && !compact && (
+            <p className="text-sm text-dv-gray-400 mt-2">{tile.status}</p>
+          )}
+        </div>
+      )}
+
+      <div className="absolute bottom-1.5 left-1.5 flex items-center gap-1 rounded bg-black/60 px-1.5 py-0.5 text-xs text-white max-w-[90%]">
+        {!tile.audioEnabled && !tile.status && !tile.isScreen && <MicOff className="h-3 w-3 flex-shrink-0 text-dv-red-400" />}
+        <span className="truncate">{tile.isLocal ? 'You' : tile.name}</span>
+      </div>
+    </div>
+  );
+}
+
+export function VideoCallGrid({ tiles, layout, spotlightId, dominantSpeakerId, screenShare, speakerId, className }: VideoCallGridProps) {
+  if (tiles.length === 0) return null;
+
+  if (screenShare) {
+    const presenter = tiles.find(tile => tile.id === screenShare.presenterId);
+    const others = tiles.filter(tile => tile !== presenter);
+
+    return (
+      <div className={cn("flex flex-col gap-2 w-full h-full p-2", className)}>
+        <div className="relative flex-1 min-h-0">
+          <CallTile tile={screenShare.tile} isSpeaking={false} />
+          {presenter && (
+            <div className="absolute bottom-4 right-4 w-48 h-36 z-10 rounded-lg border-2 border-white shadow-lg overflow-hidden">
+              <CallTile tile={presenter} isSpeaking={presenter.id === dominantSpeakerId} compact speakerId={speakerId} />
+            </div>
+          )}
+        </div>
+        {others.length > 0 && (
+          <div className="flex gap-2 h-24 flex-shrink-0 overflow-x-auto">
+            {others.map(tile => (
+              <div key={tile.id} className="w-32 h-full flex-shrink-0">
+                <CallTile tile={tile} isSpeaking={tile.id === dominantSpeakerId} compact speakerId={speakerId} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (layout === 'speaker') {
+    const spotlight = tiles.find(tile => tile.id === spotlightId)
+      || tiles.find(tile => !tile.isLocal && !tile.status)
+      || tiles[0];
+    const others = tiles.filter(tile => tile !== spotlight);
+
+    // One-on-one: the other person fills the screen with yourself picture-in-picture
+    if (others.length === 1 && others[0].isLocal) {
+      return (
+        <div className={cn("relative w-full h-full", className)}>
+          <CallTile tile={spotlight} isSpeaking={false} speakerId={speakerId} />
+          <div className="absolute bottom-20 right-4 w-48 h-36 z-10 rounded-lg border-2 border-white shadow-lg overflow-hidden">
+            <CallTile tile={others[0]} isSpeaking={false} compact speakerId={speakerId} />
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className={cn("flex flex-col gap-2 w-full h-full p-2", className)}>
+        <div className="flex-1 min-h-0">
+          <CallTile tile={spotlight} isSpeaking={spotlight.id === dominantSpeakerId} speakerId={speakerId} />
+        </div>
+        {others.length > 0 && (
+          <div className="flex gap-2 h-24 flex-shrink-0 overflow-x-auto">
+            {others.map(tile => (
+              <div key={tile.id} className="w-32 h-full flex-shrink-0">
+                <CallTile tile={tile} isSpeaking={tile.id === dominantSpeakerId} compact speakerId={speakerId} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const columns = Math.ceil(Math.sqrt(tiles.length));
+  const rows = Math.ceil(tiles.length / columns);
+
+  return (
+    <div
+      className={cn("grid gap-2 w-full h-full p-2", className)}
+      style={{
+        gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+        gridTemplateRows: `repeat(${rows}, minmax(0, 1fr))`
+      }}
+    >
+      {tiles.map(tile => (
+        <CallTile key={tile.id} tile={tile} isSpeaking={tile.id === dominantSpeakerId} compact={tiles.length > 6} speakerId={speakerId} />
+      ))}
+    </div>
+  );
+}
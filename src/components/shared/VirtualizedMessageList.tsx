@@ -1,5 +1,8 @@
 import { useVirtualizer } from '@tanstack/react-virtual';
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useLayoutEffect, useState, useCallback } from 'react';
+import { ArrowDown, Loader2 } from 'lucide-react';
+import { Button } from '@/lib/design-system';
+import { cn } from '@/lib/utils';
 
 interface Message {
   id: string;
@@ -13,51 +16,102 @@ interface VirtualizedMessageListProps {
   renderMessage: (message: Message, index: number) => React.ReactNode;
   onScrollToBottom?: () => void;
   autoScroll?: boolean;
+  // Older pages (scroll-back)
+  hasOlder?: boolean;
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void;
+  // Newer pages, when the window was opened around an older message
+  hasNewer?: boolean;
+  isLoadingNewer?: boolean;
+  onLoadNewer?: () => void;
+  onJumpToLatest?: () => void;
+  scrollToMessageId?: string | null;
+  footer?: React.ReactNode;
+  className?: string;
 }
 
-export function VirtualizedMessageList({ 
-  messages, 
+// How close (px) to an edge before the next page is requested
+const LOAD_THRESHOLD = 300;
+// How far (px) from the bottom before "jump to latest" is offered
+const JUMP_THRESHOLD = 600;
+
+export function VirtualizedMessageList({
+  messages,
   renderMessage,
   onScrollToBottom,
-  autoScroll = true
+  autoScroll = true,
+  hasOlder = false,
+  isLoadingOlder = false,
+  onLoadOlder,
+  hasNewer = false,
+  isLoadingNewer = false,
+  onLoadNewer,
+  onJumpToLatest,
+  scrollToMessageId = null,
+  footer,
+  className
 }: VirtualizedMessageListProps) {
   const parentRef = useRef<HTMLDivElement>(null);
-  
+  const [isAwayFromBottom, setIsAwayFromBottom] = useState(false);
+
   const virtualizer = useVirtualizer({
     count: messages.length,
     getScrollElement: () => parentRef.current,
+    getItemKey: (index) => messages[index]?.id ?? index,
     estimateSize: (index) => {
       // Estimate based on message content length
       const msg = messages[index];
       if (!msg) return 80;
-      
+
       const baseHeight = 60;
       const contentLength = msg.content?.length || 0;
       const hasAttachments = msg.attachments && msg.attachments.length > 0;
       const hasReactions = msg.reactions && msg.reactions.length > 0;
       const hasReply = !!msg.reply_to_message;
-      
+
       // Rough estimation: ~20px per 50 characters, min 40px, max 300px
       const contentHeight = Math.max(40, Math.min(300, Math.ceil(contentLength / 50) * 20));
-      
+
       // Add extra height for attachments, reactions, replies
       let extraHeight = 0;
       if (hasAttachments) extraHeight += 120;
       if (hasReactions) extraHeight += 30;
       if (hasReply) extraHeight += 50;
-      
+
       return Math.min(baseHeight + contentHeight + extraHeight, 500);
     },
     overscan: 5,
   });
 
+  // Keep the view anchored when older messages are prepended:
+  // the previous first message moves down by the height of the new page
+  const firstMessageIdRef = useRef<string | undefined>(messages[0]?.id);
+  const lastMessageIdRef = useRef<string | undefined>(messages[messages.length - 1]?.id);
+  useLayoutEffect(() => {
+    const previousFirstId = firstMessageIdRef.current;
+    firstMessageIdRef.current = messages[0]?.id;
+    if (!previousFirstId || previousFirstId === messages[0]?.id || !parentRef.current) return;
+
+    const prependedCount = messages.findIndex(m => m.id === previousFirstId);
+    if (prependedCount <= 0) return;
+
+    const offset = virtualizer.getOffsetForIndex(prependedCount, 'start')?.[0] ?? 0;
+    virtualizer.scrollToOffset(parentRef.current.scrollTop + offset);
+  }, [messages, virtualizer]);
+
   // Auto-scroll to bottom on new messages
   useEffect(() => {
-    if (autoScroll && messages.length > 0 && parentRef.current) {
+    const previousLastId = lastMessageIdRef.current;
+    lastMessageIdRef.current = messages[messages.length - 1]?.id;
+
+    // Only follow appended messages, and only when showing the latest window
+    if (!autoScroll || hasNewer || messages.length === 0 || previousLastId === lastMessageIdRef.current) return;
+
+    if (parentRef.current) {
       const scrollElement = parentRef.current;
-      const isNearBottom = 
+      const isNearBottom =
         scrollElement.scrollHeight - scrollElement.scrollTop - scrollElement.clientHeight < 100;
-      
+
       if (isNearBottom) {
         // Small delay to ensure DOM is updated
         setTimeout(() => {
@@ -66,50 +120,119 @@ export function VirtualizedMessageList({
         }, 50);
       }
     }
-  }, [messages.length, virtualizer, autoScroll, onScrollToBottom]);
+  }, [messages, virtualizer, autoScroll, hasNewer, onScrollToBottom]);
 
-  // Scroll to bottom on mount if autoScroll is enabled
+  // Scroll to the requested message once it is loaded, or to the bottom on mount if autoScroll is enabled
+  const scrolledToMessageIdRef = useRef<string | null>(null);
   useEffect(() => {
-    if (autoScroll && messages.length > 0) {
+    if (!scrollToMessageId) {
+      scrolledToMessageIdRef.current = null;
+      return;
+    }
+    if (scrolledToMessageIdRef.current === scrollToMessageId) return;
+
+    const index = messages.findIndex(m => m.id === scrollToMessageId);
+    if (index < 0) return;
+
+    scrolledToMessageIdRef.current = scrollToMessageId;
+    setTimeout(() => {
+      virtualizer.scrollToIndex(index, { align: 'center' });
+    }, 100);
+  }, [scrollToMessageId, messages, virtualizer]);
+
+  useEffect(() => {
+    if (autoScroll && messages.length > 0 && !scrollToMessageId) {
       setTimeout(() => {
         virtualizer.scrollToIndex(messages.length - 1, { align: 'end' });
       }, 100);
     }
   }, []); // Only on mount
 
+  const handleScroll = useCallback(() => {
+    const scrollElement = parentRef.current;
+    if (!scrollElement) return;
+
+    const distanceFromBottom = scrollElement.scrollHeight - scrollElement.scrollTop - scrollElement.clientHeight;
+    setIsAwayFromBottom(distanceFromBottom > JUMP_THRESHOLD);
+
+    if (scrollElement.scrollTop < LOAD_THRESHOLD && hasOlder && !isLoadingOlder) {
+      onLoadOlder?.();
+    }
+    if (distanceFromBottom < LOAD_THRESHOLD && hasNewer && !isLoadingNewer) {
+      onLoadNewer?.();
+    }
+  }, [hasOlder, isLoadingOlder, onLoadOlder, hasNewer, isLoadingNewer, onLoadNewer]);
+
+  const handleJumpToLatest = () => {
+    if (hasNewer && onJumpToLatest) {
+      // The latest messages aren't loaded; let the owner reset the window
+      onJumpToLatest();
+      return;
+    }
+    virtualizer.scrollToIndex(messages.length - 1, { align: 'end', behavior: 'smooth' });
+  };
+
   const virtualItems = virtualizer.getVirtualItems();
 
   return (
-    <div ref={parentRef} className="h-full overflow-auto" style={{ contain: 'strict' }}>
-      <div 
-        style={{ 
-          height: `${virtualizer.getTotalSize()}px`, 
-          position: 'relative',
-          width: '100%'
-        }}
-      >
-        {virtualItems.map((virtualItem) => {
-          const message = messages[virtualItem.index];
-          if (!message) return null;
-          
-          return (
-            <div
-              key={virtualItem.key}
-              data-index={virtualItem.index}
-              ref={virtualizer.measureElement}
-              style={{
-                position: 'absolute',
-                top: 0,
-                left: 0,
-                width: '100%',
-                transform: `translateY(${virtualItem.start}px)`,
-              }}
-            >
-              {renderMessage(message, virtualItem.index)}
-            </div>
-          );
-        })}
+    <div className={cn("relative h-full", className)}>
+      <div ref={parentRef} onScroll={handleScroll} className="h-full overflow-auto" style={{ contain: 'strict' }}>
+        <div
+          style={{
+            height: `${virtualizer.getTotalSize()}px`,
+            position: 'relative',
+            width: '100%'
+          }}
+        >
+          {virtualItems.map((virtualItem) => {
+            const message = messages[virtualItem.index];
+            if (!message) return null;
+
+            return (
+              <div
+                key={virtualItem.key}
+                data-index={virtualItem.index}
+                ref={virtualizer.measureElement}
+                style={{
+                  position: 'absolute',
+                  top: 0,
+                  left: 0,
+                  width: '100%',
+                  transform: `translateY(${virtualItem.start}px)`,
+                }}
+              >
+                {renderMessage(message, virtualItem.index)}
+              </div>
+            );
+          })}
+        </div>
+        {footer}
       </div>
+
+      {/* Page loading indicators float so they don't shift the scroll position */}
+      {isLoadingOlder && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 rounded-full bg-background p-1.5 shadow">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      {isLoadingNewer && (
+        <div className="absolute bottom-16 left-1/2 -translate-x-1/2 rounded-full bg-background p-1.5 shadow">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {/* Jump to latest */}
+      {(isAwayFromBottom || hasNewer) && (
+        <Button
+          variant="secondary"
+          size="sm"
+          className="absolute bottom-4 left-1/2 -translate-x-1/2 rounded-full shadow-md"
+          onClick={handleJumpToLatest}
+        >
+          <ArrowDown className="h-4 w-4 mr-1" />
+          Jump to latest
+        </Button>
+      )}
     </div>
   );
 }
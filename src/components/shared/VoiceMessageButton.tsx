@@ -1,6 +1,10 @@
-import { Mic, Square, X } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { ChevronLeft, ChevronUp, Loader2, Lock, Mic, Pause, Play, Send, Square, Trash2 } from 'lucide-react';
 import { Button } from '@/lib/design-system';
 import { useVoiceMessage } from '@/hooks/shared/useVoiceMessage';
+import { toast } from '@/hooks/shared/use-toast';
+import { VoiceMessagePlayer } from '@/components/messenger/VoiceMessagePlayer';
+import { formatVoiceDuration } from '@/lib/messenger/voiceNotes';
 import { cn } from '@/lib/utils';
 
 interface VoiceMessageButtonProps {
@@ -9,65 +13,254 @@ interface VoiceMessageButtonProps {
   className?: string;
 }
 
-export function VoiceMessageButton({ 
-  conversationId, 
+// How far (px) a held press has to slide to cancel, or up to lock into hands-free recording
+const CANCEL_SLIDE_DISTANCE = 100;
+const LOCK_SLIDE_DISTANCE = 80;
+// Shorter holds are taken as taps, not as recordings to send
+const MIN_HOLD_MS = 500;
+
+interface HoldGesture {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  startedAt: number;
+}
+
+function LevelMeter({ level }: { level: number }) {
+  return (
+    <div className="h-1.5 w-16 overflow-hidden rounded-full bg-destructive/20" aria-hidden="true">
+      <div className="h-full bg-destructive transition-[width] duration-75" style={{ width: `${level * 100}%` }} />
+    </div>
+  );
+}
+
+/**
+ * Voice note recorder. Click to record hands-free; on touch screens hold to record and release
+ * to send, slide left to cancel or up to lock.
+ */
+export function VoiceMessageButton({
+  conversationId,
   universeId,
   className
 }: VoiceMessageButtonProps) {
-  const { 
-    isRecording, 
-    recordingTime, 
-    startRecording, 
-    stopRecording, 
-    cancelRecording 
+  const {
+    status,
+    isRecording,
+    isPaused,
+    recordingTime,
+    maxDuration,
+    level,
+    preview,
+    startRecording,
+    pauseRecording,
+    resumeRecording,
+    stopRecording,
+    sendRecording,
+    discardRecording
   } = useVoiceMessage(conversationId, universeId);
+  const holdRef = useRef<HoldGesture | null>(null);
+  // Set by a touch press so the click that follows it doesn't also start a recording
+  const ignoreClickRef = useRef(false);
+  const [isHolding, setIsHolding] = useState(false);
+  const [slide, setSlide] = useState({ x: 0, y: 0 });
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  const endHold = () => {
+    holdRef.current = null;
+    setIsHolding(false);
+    setSlide({ x: 0, y: 0 });
   };
 
-  if (isRecording) {
-    return (
-      <div className={cn(
-        "flex items-center gap-2 px-4 py-2 bg-destructive/10 rounded-lg border border-destructive/20",
-        className
-      )}>
-        <div className="w-3 h-3 bg-destructive rounded-full animate-pulse" />
-        <span className="text-sm font-medium text-destructive">{formatTime(recordingTime)}</span>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={stopRecording}
-          className="ml-auto h-8 px-2"
-          title="Send voice message"
-        >
-          <Square className="h-4 w-4" />
-        </Button>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={cancelRecording}
-          className="h-8 px-2"
-          title="Cancel recording"
-        >
-          <X className="h-4 w-4" />
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'mouse' || status !== 'idle' || !conversationId || !universeId) return;
+    ignoreClickRef.current = true;
+    holdRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, startedAt: Date.now() };
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsHolding(true);
+    startRecording();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const hold = holdRef.current;
+    if (!hold || hold.pointerId !== e.pointerId) return;
+
+    const x = Math.max(0, hold.startX - e.clientX);
+    const y = Math.max(0, hold.startY - e.clientY);
+    if (x >= CANCEL_SLIDE_DISTANCE) {
+      endHold();
+      discardRecording();
+    } else if (y >= LOCK_SLIDE_DISTANCE) {
+      // Keeps recording; the full controls take over
+      endHold();
+    } else {
+      setSlide({ x, y });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const hold = holdRef.current;
+    if (!hold || hold.pointerId !== e.pointerId) return;
+    endHold();
+
+    if (Date.now() - hold.startedAt < MIN_HOLD_MS) {
+      discardRecording();
+      toast.info('Hold to record, release to send');
+      return;
+    }
+    sendRecording();
+  };
+
+  const handlePointerCancel = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (holdRef.current?.pointerId !== e.pointerId) return;
+    endHold();
+    discardRecording();
+  };
+
+  const handleMicClick = () => {
+    if (ignoreClickRef.current) {
+      ignoreClickRef.current = false;
+      return;
+    }
+    startRecording();
+  };
+
+  const renderContent = () => {
+    if (isHolding) {
+      return (
+        <div className="flex items-center gap-3 px-4 py-2 bg-destructive/10 rounded-lg border border-destructive/20 select-none">
+          <div className="w-3 h-3 bg-destructive rounded-full animate-pulse" />
+          <span className="text-sm font-medium text-destructive tabular-nums">{formatVoiceDuration(recordingTime)}</span>
+          <LevelMeter level={level} />
+          <span
+            className="flex items-center text-xs text-muted-foreground"
+            style={{
+              transform: `translateX(-${slide.x}px)`,
+              opacity: 1 - slide.x / CANCEL_SLIDE_DISTANCE
+            }}
+          >
+            <ChevronLeft className="h-3 w-3" />
+            Slide to cancel
+          </span>
+          <span
+            className="flex flex-col items-center text-muted-foreground"
+            style={{ transform: `translateY(-${slide.y}px)` }}
+            aria-label="Slide up to lock"
+          >
+            <ChevronUp className="h-3 w-3" />
+            <Lock className="h-4 w-4" />
+          </span>
+        </div>
+      );
+    }
+
+    if (isRecording) {
+      return (
+        <div className="flex items-center gap-2 px-4 py-2 bg-destructive/10 rounded-lg border border-destructive/20">
+          <div className={cn("w-3 h-3 bg-destructive rounded-full", !isPaused && "animate-pulse")} />
+          <span className="text-sm font-medium text-destructive tabular-nums">
+            {formatVoiceDuration(recordingTime)}
+            <span className="text-destructive/60"> / {formatVoiceDuration(maxDuration)}</span>
+          </span>
+          <LevelMeter level={level} />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={discardRecording}
+            className="ml-auto h-8 px-2"
+            title="Discard recording"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={isPaused ? resumeRecording : pauseRecording}
+            className="h-8 px-2"
+            title={isPaused ? 'Resume recording' : 'Pause recording'}
+          >
+            {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={stopRecording}
+            className="h-8 px-2"
+            title="Stop and preview"
+          >
+            <Square className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={sendRecording}
+            className="h-8 px-2"
+            title="Send voice message"
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      );
+    }
+
+    if (status === 'preview' && preview) {
+      return (
+        <div className="flex items-center gap-2 px-3 py-2 bg-muted rounded-lg border">
+          <VoiceMessagePlayer messageId="voice-preview" url={preview.url} voice={preview.voice} isOwn />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={discardRecording}
+            className="h-8 px-2"
+            title="Discard recording"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={sendRecording}
+            className="h-8 px-2"
+            title="Send voice message"
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      );
+    }
+
+    if (status === 'sending') {
+      return (
+        <Button variant="ghost" size="icon" disabled title="Sending voice message">
+          <Loader2 className="h-5 w-5 animate-spin" />
         </Button>
-      </div>
+      );
+    }
+
+    return (
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={handleMicClick}
+        title="Record voice message (hold to record on touch screens)"
+        disabled={!conversationId || !universeId}
+      >
+        <Mic className="h-5 w-5" />
+      </Button>
     );
-  }
+  };
 
+  // The wrapper keeps the pointer capture while the content swaps from the mic to the recorder
   return (
-    <Button
-      variant="ghost"
-      size="icon"
-      onClick={startRecording}
-      title="Record voice message"
-      className={className}
-      disabled={!conversationId || !universeId}
+    <div
+      className={cn("touch-none", className)}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+      onContextMenu={(e) => {
+        if (isHolding) e.preventDefault();
+      }}
     >
-      <Mic className="h-5 w-5" />
-    </Button>
+      {renderContent()}
+    </div>
   );
 }
@@ -0,0 +1,173 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { attachmentService } from '@/services/shared/attachmentService';
+import {
+  buildAttachmentPath,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  type AttachmentKind,
+  type MessageAttachment
+} from '@/lib/messenger/attachments';
+
+export type ComposerAttachmentStatus = 'queued' | 'uploading' | 'uploaded' | 'failed';
+
+/**
+ * A file in the composer. Uploads start as soon as it is picked; whatever hasn't finished
+ * when the message is sent is finished by the outbox.
+ */
+export interface ComposerAttachment {
+  id: string;
+  file: File;
+  kind: AttachmentKind;
+  // null when the composer has no conversation to upload into; the outbox picks the path
+  path: string | null;
+  status: ComposerAttachmentStatus;
+  progress: number; // 0 to 1
+  attachment?: MessageAttachment;
+  error?: string;
+}
+
+/**
+ * Validates picked files and uploads them ahead of sending, tracking progress per file
+ * @param universeId - The sending universe
+ * @param conversationId - The conversation the files are for
+ * @param initialAttachments - Attachments restored from a draft; unfinished uploads are picked up again
+ */
+export function useAttachmentUploads(
+  universeId: string | undefined,
+  conversationId: string | undefined,
+  initialAttachments: ComposerAttachment[] = []
+) {
+  const [attachments, setAttachments] = useState<ComposerAttachment[]>(initialAttachments);
+  const [rejections, setRejections] = useState<string[]>([]);
+  const attachmentsRef = useRef(attachments);
+  attachmentsRef.current = attachments;
+  const initialAttachmentsRef = useRef(initialAttachments);
+  const isMountedRef = useRef(true);
+  const previewUrlsRef = useRef(new Map<string, string>());
+
+  const updateAttachment = useCallback((id: string, changes: Partial<ComposerAttachment>) => {
+    // Uploads outlive the composer (and sending); their updates only matter while it shows them
+    if (!isMountedRef.current) return;
+    setAttachments(prev => (prev.some(a => a.id === id)
+      ? prev.map(a => (a.id === id ? { ...a, ...changes } : a))
+      : prev));
+  }, []);
+
+  const startUpload = useCallback((entry: ComposerAttachment) => {
+    if (!entry.path) return;
+    attachmentService.uploadAttachment(entry.file, entry.file.name, entry.path, progress => {
+      updateAttachment(entry.id, { progress });
+    })
+      .then(attachment => {
+        updateAttachment(entry.id, { status: 'uploaded', progress: 1, attachment, error: undefined });
+      })
+      .catch((error: Error) => {
+        if (error.name === 'AbortError') return;
+        console.error('[useAttachmentUploads] Upload failed:', error);
+        updateAttachment(entry.id, { status: 'failed', error: error.message });
+      });
+  }, [updateAttachment]);
+
+  const revokePreviewUrl = useCallback((id: string) => {
+    const url = previewUrlsRef.current.get(id);
+    if (url) {
+      URL.revokeObjectURL(url);
+      previewUrlsRef.current.delete(id);
+    }
+  }, []);
+
+  // Rejoin uploads a restored draft left running (or pick up where they stopped)
+  useEffect(() => {
+    isMountedRef.current = true;
+    initialAttachmentsRef.current
+      .filter(entry => entry.status === 'uploading')
+      .forEach(startUpload);
+
+    const previewUrls = previewUrlsRef.current;
+    return () => {
+      isMountedRef.current = false;
+      previewUrls.forEach(url => URL.revokeObjectURL(url));
+      previewUrls.clear();
+    };
+  }, [startUpload]);
+
+  /**
+   * Validate and start uploading picked files; rejected files are listed in rejections
+   */
+  const addFiles = useCallback(async (files: File[]) => {
+    const room = Math.max(0, MAX_ATTACHMENTS_PER_MESSAGE - attachmentsRef.current.length);
+    const rejected: string[] = [];
+    if (files.length > room) {
+      rejected.push(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files to a message`);
+    }
+
+    const checked = await Promise.all(files.slice(0, room).map(async (file): Promise<ComposerAttachment | null> => {
+      try {
+        const { kind } = await attachmentService.inspectFile(file, file.name);
+        const id = crypto.randomUUID();
+        const path = universeId && conversationId ? buildAttachmentPath(universeId, conversationId, id, file.name) : null;
+        return { id, file, kind, path, status: path ? 'uploading' : 'queued', progress: 0 };
+      } catch (error: any) {
+        rejected.push(error.message);
+        return null;
+      }
+    }));
+    if (!isMountedRef.current) return;
+
+    const accepted = checked.filter((entry): entry is ComposerAttachment => entry !== null);
+    setRejections(rejected);
+    setAttachments(prev => [...prev, ...accepted]);
+    accepted.forEach(startUpload);
+  }, [universeId, conversationId, startUpload]);
+
+  /**
+   * Take a file out of the composer, cancelling its upload
+   */
+  const removeAttachment = useCallback((id: string) => {
+    const entry = attachmentsRef.current.find(a => a.id === id);
+    if (!entry) return;
+    setAttachments(prev => prev.filter(a => a.id !== id));
+    revokePreviewUrl(id);
+    if (entry.path) {
+      attachmentService.discardUpload(entry.path)
+        .catch(error => console.error('[useAttachmentUploads] Error discarding upload:', error));
+    }
+  }, [revokePreviewUrl]);
+
+  const retryAttachment = useCallback((id: string) => {
+    const entry = attachmentsRef.current.find(a => a.id === id);
+    if (!entry || entry.status !== 'failed') return;
+    updateAttachment(id, { status: 'uploading', error: undefined });
+    startUpload(entry);
+  }, [updateAttachment, startUpload]);
+
+  /**
+   * Empty the composer once the message is sent; unfinished uploads carry on for the outbox
+   */
+  const clearAttachments = useCallback(() => {
+    attachmentsRef.current.forEach(entry => revokePreviewUrl(entry.id));
+    setAttachments([]);
+    setRejections([]);
+  }, [revokePreviewUrl]);
+
+  // Object URL for showing a picked image before it is uploaded
+  const getPreviewUrl = useCallback((entry: ComposerAttachment) => {
+    if (entry.kind !== 'image') return undefined;
+    let url = previewUrlsRef.current.get(entry.id);
+    if (!url) {
+      url = URL.createObjectURL(entry.file);
+      previewUrlsRef.current.set(entry.id, url);
+    }
+    return url;
+  }, []);
+
+  return {
+    attachments,
+    rejections,
+    addFiles,
+    removeAttachment,
+    retryAttachment,
+    clearAttachments,
+    dismissRejections: () => setRejections([]),
+    getPreviewUrl
+  };
+}
@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { attachmentService } from '@/services/shared/attachmentService';
+
+/**
+ * Signed URLs for stored attachment paths, re-signed before they expire so media that stays
+ * on screen keeps loading
+ * @param paths - Object paths in the message-attachments bucket
+ * @returns URLs by path; a path is missing until it has been signed
+ */
+export function useAttachmentUrls(paths: string[]) {
+  const key = paths.filter(Boolean).join('\n');
+  const [urls, setUrls] = useState<Record<string, string>>(() => {
+    const cached: Record<string, string> = {};
+    paths.forEach(path => {
+      const signed = path ? attachmentService.peekSignedUrl(path) : undefined;
+      if (signed) cached[path] = signed.url;
+    });
+    return cached;
+  });
+
+  useEffect(() => {
+    if (!key) return;
+
+    let cancelled = false;
+    let refreshTimer: NodeJS.Timeout | null = null;
+    const list = key.split('\n');
+
+    const resolve = () => {
+      Promise.all(list.map(path =>
+        attachmentService.getSignedUrl(path)
+          .then(signed => ({ path, signed }))
+          .catch(error => {
+            console.error('[useAttachmentUrls] Error signing attachment URL:', error);
+            return null;
+          })
+      )).then(results => {
+        if (cancelled) return;
+        const resolved = results.filter((result): result is NonNullable<typeof result> => result !== null);
+        setUrls(prev => {
+          const next = Object.fromEntries(resolved.map(({ path, signed }) => [path, signed.url]));
+          const unchanged = Object.keys(next).length === Object.keys(prev).length
+            && Object.entries(next).every(([path, url]) => prev[path] === url);
+          return unchanged ? prev : next;
+        });
+
+        if (resolved.length > 0) {
+          const refreshAt = Math.min(...resolved.map(({ signed }) => signed.refreshAt));
+          refreshTimer = setTimeout(resolve, Math.max(0, refreshAt - Date.now()));
+        }
+      });
+    };
+    resolve();
+
+    return () => {
+      cancelled = true;
+      if (refreshTimer) {
+        clearTimeout(refreshTimer);
+      }
+    };
+  }, [key]);
+
+  return urls;
+}
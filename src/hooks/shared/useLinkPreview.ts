@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useDebounce } from './useDebounce';
+import { messagingService } from '@/services/shared/messagingService';
+import { extractFirstUrl, type LinkPreview } from '@/lib/messenger/linkPreview';
+
+// Previews already looked up this session; the edge function caches across users
+const previewCache = new Map<string, LinkPreview | null>();
+
+/**
+ * Preview for the first link in a draft message.
+ * The sender can dismiss it; a dismissed link stays dismissed until the draft is reset.
+ * @param text - The draft being composed
+ */
+export function useLinkPreview(text: string) {
+  const debouncedText = useDebounce(text, 500);
+  const [preview, setPreview] = useState<LinkPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [dismissedUrl, setDismissedUrl] = useState<string | null>(null);
+
+  const url = extractFirstUrl(debouncedText);
+
+  useEffect(() => {
+    if (!url || url === dismissedUrl) {
+      setPreview(null);
+      setIsLoading(false);
+      return;
+    }
+
+    if (previewCache.has(url)) {
+      setPreview(previewCache.get(url) || null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    messagingService.getLinkPreview(url)
+      .then(result => {
+        previewCache.set(url, result);
+        if (!cancelled) setPreview(result);
+      })
+      .catch(error => {
+        console.error('[useLinkPreview] Error loading link preview:', error);
+        if (!cancelled) setPreview(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url, dismissedUrl]);
+
+  const dismiss = useCallback(() => {
+    setDismissedUrl(url);
+    setPreview(null);
+  }, [url]);
+
+  // Call after sending so the next message starts fresh
+  const reset = useCallback(() => {
+    setDismissedUrl(null);
+    setPreview(null);
+  }, []);
+
+  return {
+    // Only offer the preview while the draft still contains its link
+    preview: preview && extractFirstUrl(text) === url ? preview : null,
+    isLoading,
+    dismiss,
+    reset
+  };
+}
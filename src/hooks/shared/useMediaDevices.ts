@@ -0,0 +1,103 @@
+/**
+ * Media Devices Hook
+ * Lists cameras, microphones and speakers, and remembers which ones the user picked for calls.
+ * An empty id means "follow the system default".
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+
+const CALL_DEVICES_KEY = 'call-devices';
+
+export interface CallDeviceSelection {
+  cameraId: string;
+  microphoneId: string;
+  speakerId: string;
+}
+
+const DEFAULT_SELECTION: CallDeviceSelection = { cameraId: '', microphoneId: '', speakerId: '' };
+
+// Safari and Firefox on mobile can't route audio to a chosen speaker
+export const canSelectSpeaker = typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+function readSelection(): CallDeviceSelection {
+  try {
+    return { ...DEFAULT_SELECTION, ...JSON.parse(localStorage.getItem(CALL_DEVICES_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SELECTION;
+  }
+}
+
+function writeSelection(selection: CallDeviceSelection) {
+  try {
+    localStorage.setItem(CALL_DEVICES_KEY, JSON.stringify(selection));
+  } catch {
+    // Without storage the choice lasts until the page reloads
+  }
+}
+
+// A picked device that has been unplugged falls back to the default. Until camera or microphone
+// access is granted the browser lists devices without ids, so the pick can't be checked and is kept.
+function withAvailableDevices(selection: CallDeviceSelection, devices: MediaDeviceInfo[]): CallDeviceSelection {
+  const isAvailable = (kind: MediaDeviceKind, id: string) => {
+    const ofKind = devices.filter(device => device.kind === kind);
+    const idsHidden = ofKind.length > 0 && ofKind.every(device => !device.deviceId);
+    return !id || idsHidden || ofKind.some(device => device.deviceId === id);
+  };
+
+  return {
+    cameraId: isAvailable('videoinput', selection.cameraId) ? selection.cameraId : '',
+    microphoneId: isAvailable('audioinput', selection.microphoneId) ? selection.microphoneId : '',
+    speakerId: isAvailable('audiooutput', selection.speakerId) ? selection.speakerId : ''
+  };
+}
+
+/**
+ * Device constraints for getUserMedia and Twilio tracks; undefined leaves the choice to the browser
+ */
+export function getDeviceConstraint(deviceId: string): MediaTrackConstraints | undefined {
+  return deviceId ? { deviceId: { exact: deviceId } } : undefined;
+}
+
+export function useMediaDevices() {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [selection, setSelection] = useState<CallDeviceSelection>(readSelection);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+
+    try {
+      const found = await navigator.mediaDevices.enumerateDevices();
+      setDevices(found);
+      // Start from the stored pick every time, so a device that is plugged back in is used again
+      setSelection(withAvailableDevices(readSelection(), found));
+    } catch (error) {
+      console.error('[MediaDevices] Error listing devices:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+
+    // Headphones or webcams plugged in or out
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => {
+      navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+    };
+  }, [refresh]);
+
+  const selectDevice = useCallback((kind: keyof CallDeviceSelection, deviceId: string) => {
+    // Update the stored pick rather than the live one, which may stand in for an unplugged device
+    writeSelection({ ...readSelection(), [kind]: deviceId });
+    setSelection(prev => ({ ...prev, [kind]: deviceId }));
+  }, []);
+
+  return {
+    // Devices only have labels once camera or microphone access has been granted
+    cameras: devices.filter(device => device.kind === 'videoinput'),
+    microphones: devices.filter(device => device.kind === 'audioinput'),
+    speakers: devices.filter(device => device.kind === 'audiooutput'),
+    selection,
+    selectDevice,
+    refresh
+  };
+}
@@ -0,0 +1,75 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useDebounce } from './useDebounce';
+import { messagingService } from '@/services/shared/messagingService';
+import type { MentionCandidate } from '@/lib/messenger/mentions';
+
+const MAX_SUGGESTIONS = 8;
+
+const matchesQuery = (candidate: MentionCandidate, term: string) =>
+  candidate.handle.toLowerCase().startsWith(term) ||
+  (candidate.display_name || '').toLowerCase().includes(term);
+
+/**
+ * Suggestions for the @mention being typed: the conversation's participants first,
+ * topped up from a (debounced) universe search when they don't fill the list
+ * @param query - The partial handle after the @, or null when no mention is being typed
+ * @param participants - The conversation's other participants
+ * @param excludeIds - Universes never to suggest, e.g. the sender
+ */
+export function useMentionSuggestions(
+  query: string | null,
+  participants: MentionCandidate[],
+  excludeIds: string[] = []
+) {
+  const [directoryResults, setDirectoryResults] = useState<MentionCandidate[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const debouncedQuery = useDebounce(query, 250);
+  const term = (query || '').toLowerCase();
+
+  const participantMatches = useMemo(() => {
+    if (query === null) return [];
+    return participants
+      .filter(candidate => !excludeIds.includes(candidate.id) && matchesQuery(candidate, term))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [query, term, participants, excludeIds]);
+
+  const participantIds = participants.map(p => p.id);
+  const skipKey = [...participantIds, ...excludeIds].join(',');
+  const needsDirectory = query !== null && participantMatches.length < MAX_SUGGESTIONS;
+
+  useEffect(() => {
+    const searchTerm = (debouncedQuery || '').trim();
+    if (!needsDirectory || !searchTerm) {
+      setDirectoryResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    messagingService.searchMentionCandidates(searchTerm, skipKey ? skipKey.split(',') : [], MAX_SUGGESTIONS)
+      .then(results => {
+        if (!cancelled) setDirectoryResults(results);
+      })
+      .catch(error => {
+        console.error('[useMentionSuggestions] Error searching universes:', error);
+        if (!cancelled) setDirectoryResults([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsSearching(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery, needsDirectory, skipKey]);
+
+  const suggestions = useMemo(() => {
+    if (query === null) return [];
+    // Directory results can lag a keystroke behind; only keep the ones that still match
+    const extra = directoryResults.filter(candidate => matchesQuery(candidate, term));
+    return [...participantMatches, ...extra].slice(0, MAX_SUGGESTIONS);
+  }, [query, term, participantMatches, directoryResults]);
+
+  return { suggestions, isSearching };
+}
@@ -0,0 +1,174 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { messagingService, type MessageDraft } from '@/services/shared/messagingService';
+import type { MessageMention } from '@/lib/messenger/mentions';
+import type { ComposerAttachment } from './useAttachmentUploads';
+
+/**
+ * What the composer holds for a conversation
+ */
+export interface ComposerDraft {
+  content: string;
+  attachments?: ComposerAttachment[];
+  mentions?: MessageMention[];
+}
+
+const draftKey = (content: string, mentions?: MessageMention[]) =>
+  JSON.stringify([content.trim() ? content : '', mentions || []]);
+
+/**
+ * Per-conversation drafts for a universe, synced to the server so they follow the user between
+ * devices. Attachments can't be synced and are only kept for the current session.
+ * @param universeId - The active universe, or null before it has loaded
+ */
+export function useMessageDrafts(universeId: string | null) {
+  const [drafts, setDrafts] = useState<Record<string, MessageDraft>>({});
+  const [isLoaded, setIsLoaded] = useState(false);
+  const draftsRef = useRef<Record<string, MessageDraft>>({});
+  draftsRef.current = drafts;
+  const universeIdRef = useRef(universeId);
+  universeIdRef.current = universeId;
+  const attachmentsRef = useRef(new Map<string, ComposerAttachment[]>());
+  // What the server last heard per conversation, so repeats and echoes aren't saved again
+  const savedKeysRef = useRef(new Map<string, string>());
+  // Saves go out one at a time so a quick clear can't overtake the save before it
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    setDrafts({});
+    setIsLoaded(false);
+    attachmentsRef.current = new Map();
+    savedKeysRef.current = new Map();
+    if (!universeId) return;
+
+    let cancelled = false;
+    messagingService.getMessageDrafts(universeId)
+      .then(rows => {
+        if (cancelled) return;
+        const byConversation: Record<string, MessageDraft> = {};
+        rows.forEach(row => {
+          byConversation[row.conversation_id] = row;
+          savedKeysRef.current.set(row.conversation_id, draftKey(row.content, row.metadata?.mentions));
+        });
+        setDrafts(byConversation);
+      })
+      .catch(error => {
+        console.error('[useMessageDrafts] Error loading drafts:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [universeId]);
+
+  // Drafts saved or cleared on another device
+  useEffect(() => {
+    if (!universeId) return;
+
+    const channel = supabase
+      .channel(`drafts:${universeId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'message_drafts',
+        filter: `profile_universe_id=eq.${universeId}`
+      }, (payload) => {
+        if (payload.eventType === 'DELETE') {
+          const removed = payload.old as Partial<MessageDraft>;
+          if (!removed.conversation_id || removed.profile_universe_id !== universeId) return;
+          savedKeysRef.current.set(removed.conversation_id, draftKey(''));
+          setDrafts(prev => {
+            if (!prev[removed.conversation_id!]) return prev;
+            const next = { ...prev };
+            delete next[removed.conversation_id!];
+            return next;
+          });
+          return;
+        }
+
+        const row = payload.new as MessageDraft;
+        savedKeysRef.current.set(row.conversation_id, draftKey(row.content, row.metadata?.mentions));
+        setDrafts(prev => ({ ...prev, [row.conversation_id]: row }));
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [universeId]);
+
+  /**
+   * The draft to restore when a conversation's composer opens
+   */
+  const getDraft = useCallback((conversationId: string): ComposerDraft => {
+    const saved = draftsRef.current[conversationId];
+    return {
+      content: saved?.content || '',
+      mentions: saved?.metadata?.mentions,
+      attachments: attachmentsRef.current.get(conversationId)
+    };
+  }, []);
+
+  /**
+   * Record a conversation's draft; call it debounced while typing and once more on leaving
+   */
+  const updateDraft = useCallback((conversationId: string, draft: ComposerDraft) => {
+    if (!universeId) return;
+
+    // A composer closing after a universe switch still saves, but the local state is the new universe's
+    if (universeId !== universeIdRef.current) {
+      messagingService.saveMessageDraft(conversationId, universeId, draft.content, draft.mentions?.length ? { mentions: draft.mentions } : {})
+        .catch(error => console.error('[useMessageDrafts] Error saving draft:', error));
+      return;
+    }
+
+    if (draft.attachments?.length) {
+      attachmentsRef.current.set(conversationId, draft.attachments);
+    } else {
+      attachmentsRef.current.delete(conversationId);
+    }
+
+    const key = draftKey(draft.content, draft.mentions);
+    if (savedKeysRef.current.get(conversationId) === key) return;
+    savedKeysRef.current.set(conversationId, key);
+
+    const isEmpty = !draft.content.trim();
+    const metadata: MessageDraft['metadata'] = draft.mentions?.length ? { mentions: draft.mentions } : {};
+    setDrafts(prev => {
+      if (isEmpty) {
+        if (!prev[conversationId]) return prev;
+        const next = { ...prev };
+        delete next[conversationId];
+        return next;
+      }
+      return {
+        ...prev,
+        [conversationId]: {
+          conversation_id: conversationId,
+          profile_universe_id: universeId,
+          content: draft.content,
+          metadata,
+          updated_at: new Date().toISOString()
+        }
+      };
+    });
+
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => messagingService.saveMessageDraft(conversationId, universeId, isEmpty ? '' : draft.content, metadata))
+      .catch(error => {
+        console.error('[useMessageDrafts] Error saving draft:', error);
+        // Let the next change try again
+        savedKeysRef.current.delete(conversationId);
+      });
+  }, [universeId]);
+
+  return {
+    drafts,
+    isLoaded,
+    getDraft,
+    updateDraft
+  };
+}
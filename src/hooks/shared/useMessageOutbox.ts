@@ -0,0 +1,323 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { messagingService } from '@/services/shared/messagingService';
+import { attachmentService } from '@/services/shared/attachmentService';
+import { buildAttachmentPath } from '@/lib/messenger/attachments';
+import {
+  getOutboxItems,
+  putOutboxItem,
+  deleteOutboxItem,
+  type OutboxItem,
+  type OutboxMessageItem,
+  type OutboxReactionItem
+} from '@/lib/messenger/outboxStore';
+import type { ComposerAttachment } from './useAttachmentUploads';
+
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60000;
+
+interface UseMessageOutboxOptions {
+  // Called with the stored message row once a queued message is delivered
+  onMessageSent?: (row: any) => void;
+  // Called with the stored reaction row (null for removals) once a queued reaction is applied
+  onReactionSynced?: (item: OutboxReactionItem, row: any | null) => void;
+  // Reactions that the server rejects are dropped rather than kept for retry
+  onReactionFailed?: (item: OutboxReactionItem, error: Error) => void;
+}
+
+export interface EnqueueMessageOptions {
+  replyToMessageId?: string | null;
+  threadRootId?: string | null;
+  metadata?: Record<string, any> | null;
+}
+
+function isNetworkError(error: any): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+  const message = String(error?.message || error || '');
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+}
+
+function getRetryDelay(attempts: number): number {
+  const delay = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** Math.max(0, attempts - 1));
+  // Jitter so many clients coming back online don't retry in lockstep
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Persistent outbox for messages and reactions.
+ * Items are saved to IndexedDB before sending, retried with exponential backoff
+ * while the network is unavailable, and deduplicated on the server by their client id.
+ * @param universeId - The active universe; only its items are loaded and sent
+ */
+export function useMessageOutbox(universeId: string | null, options: UseMessageOutboxOptions = {}) {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const itemsRef = useRef<OutboxItem[]>([]);
+  const isProcessingRef = useRef(false);
+  const retryTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const previewUrlsRef = useRef<Map<string, string[]>>(new Map());
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const updateItems = useCallback((updater: (prev: OutboxItem[]) => OutboxItem[]) => {
+    itemsRef.current = updater(itemsRef.current);
+    setItems(itemsRef.current);
+  }, []);
+
+  // Persist an item change; the in-memory copy still drives the UI if IndexedDB is unavailable
+  const saveItem = useCallback(async (item: OutboxItem) => {
+    updateItems(prev => prev.some(i => i.id === item.id)
+      ? prev.map(i => (i.id === item.id ? item : i))
+      : [...prev, item]);
+    try {
+      await putOutboxItem(item);
+    } catch (error) {
+      console.error('[useMessageOutbox] Error saving outbox item:', error);
+    }
+  }, [updateItems]);
+
+  const revokePreviewUrls = useCallback((id?: string) => {
+    const ids = id ? [id] : Array.from(previewUrlsRef.current.keys());
+    ids.forEach(key => {
+      previewUrlsRef.current.get(key)?.forEach(url => URL.revokeObjectURL(url));
+      previewUrlsRef.current.delete(key);
+    });
+  }, []);
+
+  const removeItem = useCallback(async (id: string) => {
+    updateItems(prev => prev.filter(i => i.id !== id));
+    revokePreviewUrls(id);
+    try {
+      await deleteOutboxItem(id);
+    } catch (error) {
+      console.error('[useMessageOutbox] Error removing outbox item:', error);
+    }
+  }, [updateItems, revokePreviewUrls]);
+
+  const deliverMessage = useCallback(async (item: OutboxMessageItem) => {
+    // Deterministic paths: a retry joins or resumes the earlier attempt, including the composer's
+    const attachments = await Promise.all(item.attachments.map((attachment, index) =>
+      attachment.uploaded || attachmentService.uploadAttachment(
+        attachment.file,
+        attachment.name,
+        attachment.path || buildAttachmentPath(item.universeId, item.conversationId, `${item.id}-${index}`, attachment.name)
+      )
+    ));
+
+    const row = await messagingService.sendConversationMessage({
+      id: item.id,
+      conversationId: item.conversationId,
+      senderUniverseId: item.universeId,
+      content: item.content,
+      attachments,
+      replyToMessageId: item.replyToMessageId,
+      threadRootId: item.threadRootId,
+      metadata: item.metadata
+    });
+    optionsRef.current.onMessageSent?.(row);
+  }, []);
+
+  const deliverReaction = useCallback(async (item: OutboxReactionItem) => {
+    const row = await messagingService.setMessageReaction(item.messageId, item.universeId, item.emoji, item.action);
+    optionsRef.current.onReactionSynced?.(item, row);
+  }, []);
+
+  const processQueue = useCallback(async () => {
+    if (isProcessingRef.current) return;
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return; // Resumed by the online event
+
+    isProcessingRef.current = true;
+    try {
+      // Deliver in order, one at a time, so messages keep their sequence
+      for (;;) {
+        const now = Date.now();
+        const next = itemsRef.current.find(i => i.status === 'pending' && i.nextAttemptAt <= now);
+        if (!next) break;
+
+        await saveItem({ ...next, status: 'sending' });
+        try {
+          if (next.kind === 'message') {
+            await deliverMessage(next);
+          } else {
+            await deliverReaction(next);
+          }
+          await removeItem(next.id);
+        } catch (error: any) {
+          const attempts = next.attempts + 1;
+          if (isNetworkError(error)) {
+            await saveItem({
+              ...next,
+              status: 'pending',
+              attempts,
+              nextAttemptAt: Date.now() + getRetryDelay(attempts),
+              lastError: error.message
+            });
+          } else if (next.kind === 'reaction') {
+            console.error('[useMessageOutbox] Reaction rejected:', error);
+            await removeItem(next.id);
+            optionsRef.current.onReactionFailed?.(next, error);
+          } else {
+            console.error('[useMessageOutbox] Message rejected:', error);
+            await saveItem({ ...next, status: 'failed', attempts, lastError: error.message });
+          }
+        }
+      }
+    } finally {
+      isProcessingRef.current = false;
+    }
+
+    // Wake up for the next item that is waiting out its backoff
+    const waiting = itemsRef.current.filter(i => i.status === 'pending');
+    if (waiting.length > 0) {
+      const nextAttemptAt = Math.min(...waiting.map(i => i.nextAttemptAt));
+      retryTimerRef.current = setTimeout(() => {
+        processQueue();
+      }, Math.max(0, nextAttemptAt - Date.now()));
+    }
+  }, [saveItem, removeItem, deliverMessage, deliverReaction]);
+
+  // Restore the universe's queue (e.g. after a reload while offline) and start draining it
+  useEffect(() => {
+    updateItems(() => []);
+    revokePreviewUrls();
+    if (!universeId) return;
+
+    let cancelled = false;
+    getOutboxItems(universeId)
+      .then(stored => {
+        if (cancelled) return;
+        // Anything left mid-send by a closed tab is retried
+        updateItems(() => stored.map(i => (i.status === 'sending' ? { ...i, status: 'pending' } : i)));
+        processQueue();
+      })
+      .catch(error => console.error('[useMessageOutbox] Error loading outbox:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [universeId, updateItems, revokePreviewUrls, processQueue]);
+
+  // Retry immediately when the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      updateItems(prev => prev.map(i => (i.status === 'pending' ? { ...i, nextAttemptAt: Date.now() } : i)));
+      processQueue();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
+      }
+    };
+  }, [updateItems, processQueue]);
+
+  // Release attachment previews on unmount
+  useEffect(() => () => revokePreviewUrls(), [revokePreviewUrls]);
+
+  /**
+   * Queue a message; returns the client-generated id it will be stored under
+   */
+  const enqueueMessage = useCallback(async (
+    conversationId: string,
+    content: string,
+    attachments: ComposerAttachment[] = [],
+    options: EnqueueMessageOptions = {}
+  ) => {
+    if (!universeId) throw new Error('No active universe');
+
+    const item: OutboxMessageItem = {
+      kind: 'message',
+      id: crypto.randomUUID(),
+      universeId,
+      conversationId,
+      content,
+      attachments: attachments.map(({ file, path, attachment }) => ({
+        file,
+        name: file.name,
+        type: file.type,
+        size: file.size,
+        ...(path ? { path } : {}),
+        ...(attachment ? { uploaded: attachment } : {})
+      })),
+      replyToMessageId: options.replyToMessageId || null,
+      threadRootId: options.threadRootId || null,
+      metadata: options.metadata || null,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now()
+    };
+    await saveItem(item);
+    processQueue();
+    return item.id;
+  }, [universeId, saveItem, processQueue]);
+
+  /**
+   * Queue adding or removing a reaction
+   */
+  const enqueueReaction = useCallback(async (
+    conversationId: string,
+    messageId: string,
+    emoji: string,
+    action: 'add' | 'remove'
+  ) => {
+    if (!universeId) throw new Error('No active universe');
+
+    // A newer toggle of the same reaction supersedes one that hasn't been sent
+    const superseded = itemsRef.current.find(i =>
+      i.kind === 'reaction' && i.status === 'pending' && i.messageId === messageId && i.emoji === emoji
+    );
+    if (superseded) {
+      await removeItem(superseded.id);
+    }
+
+    await saveItem({
+      kind: 'reaction',
+      id: crypto.randomUUID(),
+      universeId,
+      conversationId,
+      messageId,
+      emoji,
+      action,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now()
+    });
+    processQueue();
+  }, [universeId, saveItem, removeItem, processQueue]);
+
+  // Send a failed message again
+  const retryItem = useCallback(async (id: string) => {
+    const item = itemsRef.current.find(i => i.id === id);
+    if (!item) return;
+    await saveItem({ ...item, status: 'pending', nextAttemptAt: Date.now(), lastError: undefined });
+    processQueue();
+  }, [saveItem, processQueue]);
+
+  const discardItem = useCallback((id: string) => removeItem(id), [removeItem]);
+
+  // Object URLs for showing a queued message's attachments before they are uploaded
+  const getPreviewUrls = useCallback((item: OutboxMessageItem) => {
+    let urls = previewUrlsRef.current.get(item.id);
+    if (!urls) {
+      urls = item.attachments.map(attachment => URL.createObjectURL(attachment.file));
+      previewUrlsRef.current.set(item.id, urls);
+    }
+    return urls;
+  }, []);
+
+  return {
+    items,
+    messageItems: items.filter((i): i is OutboxMessageItem => i.kind === 'message'),
+    enqueueMessage,
+    enqueueReaction,
+    retryItem,
+    discardItem,
+    getPreviewUrls
+  };
+}
@@ -1,82 +1,78 @@
 import { useState, useCallback, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { useDebounce } from './useDebounce';
+import {
+  messagingService,
+  type MessageSearchFilters,
+  type MessageSearchResult
+} from '@/services/shared/messagingService';
 
-interface MessageSearchResult {
-  id: string;
-  conversation_id: string;
-  sender_profile_universe_id: string;
-  content: string;
-  message_type: string;
-  created_at: string;
-  profile_universes?: {
-    id: string;
-    handle: string;
-    display_name: string;
-    avatar_url?: string;
-  };
-}
+const PAGE_SIZE = 30;
 
-export function useMessageSearch(conversationId: string | null) {
+/**
+ * Full-text search across every conversation the universe belongs to
+ * @param universeId - The active universe; results are limited to its conversations
+ */
+export function useMessageSearch(universeId: string | null) {
   const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<MessageSearchFilters>({});
   const [results, setResults] = useState<MessageSearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const debouncedQuery = useDebounce(searchQuery, 300);
 
-  const search = useCallback(async (query: string) => {
-    if (!query.trim() || !conversationId) {
+  const search = useCallback(async (query: string, offset = 0) => {
+    if (!query.trim() || !universeId) {
       setResults([]);
+      setHasMore(false);
       return;
     }
 
     setIsSearching(true);
+    setError(null);
     try {
-      const { data, error } = await supabase
-        .from('messages')
-        .select(`
-          id,
-          conversation_id,
-          sender_profile_universe_id,
-          content,
-          message_type,
-          created_at,
-          profile_universes:sender_profile_universe_id(
-            id,
-            handle,
-            display_name,
-            avatar_url
-          )
-        `)
-        .eq('conversation_id', conversationId)
-        .ilike('content', `%${query}%`)
-        .is('deleted_at', null)
-        .order('created_at', { ascending: false })
-        .limit(50);
-
-      if (error) throw error;
-      setResults(data || []);
-    } catch (error) {
-      console.error('Search error:', error);
-      setResults([]);
+      const data = await messagingService.searchMessages(universeId, query, filters, {
+        limit: PAGE_SIZE,
+        offset
+      });
+      setResults(prev => (offset === 0 ? data : [...prev, ...data]));
+      setHasMore(data.length === PAGE_SIZE);
+    } catch (err: any) {
+      console.error('Search error:', err);
+      setError(err.message || 'Search failed');
+      if (offset === 0) setResults([]);
+      setHasMore(false);
     } finally {
       setIsSearching(false);
     }
-  }, [conversationId]);
+  }, [universeId, filters]);
 
   useEffect(() => {
     search(debouncedQuery);
   }, [debouncedQuery, search]);
 
+  const loadMore = useCallback(() => {
+    if (isSearching || !hasMore) return;
+    search(debouncedQuery, results.length);
+  }, [isSearching, hasMore, search, debouncedQuery, results.length]);
+
   const clearSearch = useCallback(() => {
     setSearchQuery('');
+    setFilters({});
     setResults([]);
+    setHasMore(false);
   }, []);
 
-  return { 
-    searchQuery, 
-    setSearchQuery, 
-    results, 
+  return {
+    searchQuery,
+    setSearchQuery,
+    filters,
+    setFilters,
+    results,
     isSearching,
+    hasMore,
+    error,
+    loadMore,
     clearSearch
   };
 }
@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { messagingService } from '@/services/shared/messagingService';
+
+/**
+ * Replies in an open thread, kept live with a Realtime subscription scoped to the thread root.
+ * The thread is marked read for the universe whenever new replies are loaded while it is open.
+ * @param threadRootId - Root message of the open thread, or null when no thread is open
+ * @param universeId - The active universe
+ */
+export function useMessageThread(threadRootId: string | null, universeId: string | null) {
+  const [replies, setReplies] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const markRead = useCallback(() => {
+    if (!threadRootId || !universeId) return;
+    messagingService.markThreadRead(threadRootId, universeId).catch(error => {
+      console.error('[useMessageThread] Error marking thread read:', error);
+    });
+  }, [threadRootId, universeId]);
+
+  const refresh = useCallback(async () => {
+    if (!threadRootId) return;
+
+    try {
+      const rows = await messagingService.getThreadReplies(threadRootId);
+      setReplies(rows);
+      markRead();
+    } catch (error) {
+      console.error('[useMessageThread] Error loading thread replies:', error);
+    }
+  }, [threadRootId, markRead]);
+
+  useEffect(() => {
+    setReplies([]);
+    if (!threadRootId) return;
+
+    setIsLoading(true);
+    refresh().finally(() => setIsLoading(false));
+  }, [threadRootId, refresh]);
+
+  useEffect(() => {
+    if (!threadRootId) return;
+
+    // Replies are refetched rather than patched so they carry sender profiles and reactions
+    const channel = supabase
+      .channel(`thread:${threadRootId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'messages',
+        filter: `thread_root_id=eq.${threadRootId}`
+      }, () => {
+        refresh();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [threadRootId, refresh]);
+
+  // Show a reply we just sent without waiting for Realtime
+  const addReply = useCallback((row: any) => {
+    if (row.thread_root_id !== threadRootId) return;
+    setReplies(prev => (prev.some(r => r.id === row.id) ? prev : [...prev, row]));
+    markRead();
+  }, [threadRootId, markRead]);
+
+  return {
+    replies,
+    isLoading,
+    refresh,
+    addReply
+  };
+}
@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { messagingService, type PinnedMessage } from '@/services/shared/messagingService';
+
+/**
+ * Pinned messages for a conversation.
+ * Other participants learn about pin changes from the conversation channel and call refresh.
+ * @param conversationId - The open conversation, or null when none is selected
+ */
+export function usePinnedMessages(conversationId: string | null) {
+  const [pinnedMessages, setPinnedMessages] = useState<PinnedMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!conversationId) return;
+
+    try {
+      const pins = await messagingService.getPinnedMessages(conversationId);
+      setPinnedMessages(pins);
+    } catch (error) {
+      console.error('[usePinnedMessages] Error loading pinned messages:', error);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    setPinnedMessages([]);
+    if (!conversationId) return;
+
+    setIsLoading(true);
+    refresh().finally(() => setIsLoading(false));
+  }, [conversationId, refresh]);
+
+  const pinMessage = useCallback(async (messageId: string, universeId: string) => {
+    await messagingService.pinMessage(messageId, universeId);
+    await refresh();
+  }, [refresh]);
+
+  const unpinMessage = useCallback(async (messageId: string, universeId: string) => {
+    setPinnedMessages(prev => prev.filter(p => p.message_id !== messageId));
+    try {
+      await messagingService.unpinMessage(messageId, universeId);
+    } finally {
+      await refresh();
+    }
+  }, [refresh]);
+
+  return {
+    pinnedMessages,
+    isLoading,
+    refresh,
+    pinMessage,
+    unpinMessage
+  };
+}
@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { messagingService, type ReadReceipt } from '@/services/shared/messagingService';
+
+/**
+ * Read and delivered cursors for every participant in a conversation, kept live over Realtime
+ * @param conversationId - The open conversation, or null when none is selected
+ */
+export function useReadReceipts(conversationId: string | null) {
+  const [readReceipts, setReadReceipts] = useState<ReadReceipt[]>([]);
+  const readReceiptsRef = useRef<ReadReceipt[]>([]);
+  readReceiptsRef.current = readReceipts;
+
+  const refresh = useCallback(async () => {
+    if (!conversationId) return;
+
+    try {
+      const receipts = await messagingService.getReadReceipts(conversationId);
+      setReadReceipts(receipts);
+    } catch (error) {
+      console.error('[useReadReceipts] Error loading read receipts:', error);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    setReadReceipts([]);
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    // Cursor moves are patched in place; joins and leaves change the member list, so refetch
+    const channel = supabase
+      .channel(`conversation:${conversationId}:receipts`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'conversation_participants',
+        filter: `conversation_id=eq.${conversationId}`
+      }, (payload) => {
+        const updated = payload.new as any;
+        const isKnown = readReceiptsRef.current.some(r => r.profile_universe_id === updated.profile_universe_id);
+        if (updated.left_at || !isKnown) {
+          refresh();
+          return;
+        }
+
+        setReadReceipts(prev => prev.map(r =>
+          r.profile_universe_id === updated.profile_universe_id
+            ? {
+                ...r,
+                last_read_at: updated.last_read_at,
+                last_read_message_id: updated.last_read_message_id,
+                last_delivered_at: updated.last_delivered_at
+              }
+            : r
+        ));
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, refresh]);
+
+  return {
+    readReceipts,
+    refresh
+  };
+}
@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  messagingService,
+  type ScheduledMessage,
+  type ScheduleMessageData
+} from '@/services/shared/messagingService';
+
+/**
+ * The current user's unsent scheduled messages in a conversation.
+ * Stays in sync with the delivery worker through Realtime, so delivered messages drop out.
+ * @param conversationId - The open conversation
+ */
+export function useScheduledMessages(conversationId: string | null) {
+  const [scheduledMessages, setScheduledMessages] = useState<ScheduledMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!conversationId) {
+      setScheduledMessages([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setScheduledMessages(await messagingService.getScheduledMessages(conversationId));
+    } catch (error) {
+      console.error('[useScheduledMessages] Error loading scheduled messages:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const channel = supabase
+      .channel(`conversation:${conversationId}:scheduled`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'scheduled_messages',
+        filter: `conversation_id=eq.${conversationId}`
+      }, () => {
+        refresh();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, refresh]);
+
+  const scheduleMessage = useCallback(async (data: ScheduleMessageData) => {
+    const scheduled = await messagingService.scheduleMessage(data);
+    setScheduledMessages(prev =>
+      [...prev.filter(m => m.id !== scheduled.id), scheduled].sort((a, b) => a.send_at.localeCompare(b.send_at))
+    );
+    return scheduled;
+  }, []);
+
+  const updateScheduledMessage = useCallback(async (id: string, updates: { content?: string; sendAt?: Date }) => {
+    const updated = await messagingService.updateScheduledMessage(id, updates);
+    setScheduledMessages(prev =>
+      prev.map(m => (m.id === id ? updated : m)).sort((a, b) => a.send_at.localeCompare(b.send_at))
+    );
+  }, []);
+
+  const cancelScheduledMessage = useCallback(async (id: string) => {
+    await messagingService.cancelScheduledMessage(id);
+    setScheduledMessages(prev => prev.filter(m => m.id !== id));
+  }, []);
+
+  return {
+    scheduledMessages,
+    isLoading,
+    refresh,
+    scheduleMessage,
+    updateScheduledMessage,
+    cancelScheduledMessage
+  };
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useDebounce } from './useDebounce';
+
+export interface UniverseSearchResult {
+  id: string;
+  handle: string;
+  display_name: string;
+  avatar_url?: string;
+  role?: string;
+}
+
+/**
+ * Search profile_universes by handle or display name (debounced)
+ * @param query - Raw search input
+ * @param excludeIds - Universe IDs to leave out of the results (e.g. yourself, existing members)
+ */
+export function useUniverseSearch(query: string, excludeIds: string[] = []) {
+  const [results, setResults] = useState<UniverseSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const debouncedQuery = useDebounce(query, 300);
+  const excludeKey = excludeIds.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const search = async () => {
+      const term = debouncedQuery.toLowerCase().trim();
+      if (!term) {
+        setResults([]);
+        setIsSearching(false);
+        return;
+      }
+
+      setIsSearching(true);
+      try {
+        const { data, error } = await supabase
+          .from('profile_universes')
+          .select('id, handle, display_name, avatar_url, role')
+          .or(`handle.ilike.%${term}%,display_name.ilike.%${term}%`)
+          .limit(20);
+
+        if (error) throw error;
+
+        const excluded = new Set(excludeKey ? excludeKey.split(',') : []);
+        if (!cancelled) {
+          setResults((data || []).filter(u => !excluded.has(u.id)));
+        }
+      } catch (error) {
+        console.error('[useUniverseSearch] Search error:', error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    };
+
+    search();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery, excludeKey]);
+
+  return { results, isSearching };
+}
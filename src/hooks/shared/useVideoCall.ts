@@ -1,6 +1,6 @@
 /**
  * Video Call Hook
- * Manages Twilio Video connections for 1-on-1 video calls
+ * Manages Twilio Video connections for 1-on-1 and group video calls
  */
 
 import { useRef, useCallback, useEffect, useState } from 'react';
@@ -8,155 +8,243 @@ import Video from 'twilio-video';
 import { useUniverse } from './useUniverse';
 import { getTwilioVideoToken } from '@/services/shared/twilioVideoService';
 import { useAuth } from '@/contexts/AuthContext';
+import { getDeviceConstraint, type CallDeviceSelection } from './useMediaDevices';
+
+export type VideoCallState = 'idle' | 'calling' | 'ringing' | 'connected' | 'ended';
+
+// Published alongside 'camera' and 'microphone', so others can tell a share from a camera
+export const SCREEN_TRACK_NAME = 'screen';
+
+/**
+ * Someone else in the room, with their tracks gathered into one stream
+ */
+export interface RemoteCallParticipant {
+  identity: string; // Their profile universe id (see twilio-video-token)
+  stream: MediaStream;
+  // Their screen share, kept apart from their camera; null when they aren't sharing
+  screenStream: MediaStream | null;
+  videoEnabled: boolean;
+  audioEnabled: boolean;
+}
 
 interface UseVideoCallProps {
   conversationId: string;
-  remoteUserId: string;
-  remoteUniverseId: string;
   voiceOnly?: boolean; // If true, only create audio tracks (voice call)
-  onRemoteStream?: (stream: MediaStream) => void;
+  // Camera and microphone to use; changing them mid-call swaps the tracks without leaving the room
+  devices?: Pick<CallDeviceSelection, 'cameraId' | 'microphoneId'>;
+  // Others still being rung; while there are any, the call stays up after everyone in it has left
+  pendingInviteCount?: number;
   onCallEnded?: () => void;
   onError?: (error: string) => void;
 }
 
 interface UseVideoCallResult {
   localStream: MediaStream | null;
-  remoteStream: MediaStream | null;
+  remoteParticipants: RemoteCallParticipant[];
+  // Whoever spoke last; stays put through silences so the speaker view doesn't flicker
+  dominantSpeakerIdentity: string | null;
   isCallActive: boolean;
-  callState: 'idle' | 'calling' | 'ringing' | 'connected' | 'ended';
+  callState: VideoCallState;
   startCall: () => Promise<void>;
   endCall: () => void;
-  acceptCall: () => Promise<void>;
-  rejectCall: () => void;
   toggleVideo: () => void;
   toggleAudio: () => void;
   videoEnabled: boolean;
   audioEnabled: boolean;
+  localScreenStream: MediaStream | null;
+  isScreenSharing: boolean;
+  startScreenShare: () => Promise<void>;
+  stopScreenShare: () => void;
+}
+
+function isPublishedTrackEnabled(participant: Video.RemoteParticipant, kind: 'audio' | 'video') {
+  return Array.from(participant.tracks.values()).some(
+    publication => publication.kind === kind
+      && publication.trackName !== SCREEN_TRACK_NAME
+      && publication.track
+      && publication.isTrackEnabled
+  );
 }
 
 export function useVideoCall({
   conversationId,
-  remoteUserId,
-  remoteUniverseId,
   voiceOnly = false,
-  onRemoteStream,
+  devices,
+  pendingInviteCount = 0,
   onCallEnded,
   onError
 }: UseVideoCallProps): UseVideoCallResult {
   const { universe } = useUniverse();
   const { user } = useAuth();
-  
-  // Don't initialize if we don't have required data
-  const shouldInitialize = Boolean(conversationId && remoteUserId && remoteUniverseId);
-  
+
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
-  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [remoteParticipants, setRemoteParticipants] = useState<RemoteCallParticipant[]>([]);
+  const [dominantSpeakerIdentity, setDominantSpeakerIdentity] = useState<string | null>(null);
   const [isCallActive, setIsCallActive] = useState(false);
-  const [callState, setCallState] = useState<'idle' | 'calling' | 'ringing' | 'connected' | 'ended'>('idle');
+  const [callState, setCallState] = useState<VideoCallState>('idle');
+  const [videoEnabled, setVideoEnabled] = useState(true);
+  const [audioEnabled, setAudioEnabled] = useState(true);
+  const [localScreenStream, setLocalScreenStream] = useState<MediaStream | null>(null);
 
-  // Reset to idle when we get valid data (in case we were in 'ended' state from previous session)
+  // Reset to idle when a new call can start (in case we were in 'ended' state from a previous one)
   useEffect(() => {
-    if (shouldInitialize && callState === 'ended') {
+    if (conversationId && callState === 'ended') {
       console.log('[VideoCall] Resetting call state to idle for new call');
       setCallState('idle');
     }
-  }, [shouldInitialize, callState]);
-  const [videoEnabled, setVideoEnabled] = useState(true);
-  const [audioEnabled, setAudioEnabled] = useState(true);
+  }, [conversationId, callState]);
 
   const roomRef = useRef<Video.Room | null>(null);
-  const localTrackRefs = useRef<Video.LocalVideoTrack[]>([]);
+  const localVideoTrackRef = useRef<Video.LocalVideoTrack | null>(null);
   const localAudioTrackRef = useRef<Video.LocalAudioTrack | null>(null);
-  const isInitiatorRef = useRef(false);
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const screenTrackRef = useRef<Video.LocalVideoTrack | null>(null);
+  // One stream per remote participant, kept for the whole call so video elements never reload
+  const remoteStreamsRef = useRef(new Map<string, {
+    participant: Video.RemoteParticipant;
+    stream: MediaStream;
+    screenStream: MediaStream | null;
+  }>());
+  const onCallEndedRef = useRef(onCallEnded);
+  const onErrorRef = useRef(onError);
+  const pendingInviteCountRef = useRef(pendingInviteCount);
+  onCallEndedRef.current = onCallEnded;
+  onErrorRef.current = onError;
+  pendingInviteCountRef.current = pendingInviteCount;
+  const cameraId = devices?.cameraId || '';
+  const microphoneId = devices?.microphoneId || '';
+  const deviceIdsRef = useRef({ cameraId, microphoneId });
+  deviceIdsRef.current = { cameraId, microphoneId };
+  // What the live tracks were last started with, so a selection isn't applied twice
+  const appliedDeviceIdsRef = useRef({ audio: microphoneId, video: cameraId });
+
+  const publishRemoteParticipants = useCallback(() => {
+    setRemoteParticipants(Array.from(remoteStreamsRef.current.values()).map(({ participant, stream, screenStream }) => ({
+      identity: participant.identity,
+      stream,
+      screenStream,
+      videoEnabled: isPublishedTrackEnabled(participant, 'video'),
+      audioEnabled: isPublishedTrackEnabled(participant, 'audio')
+    })));
+  }, []);
+
+  const releaseScreenShare = useCallback(() => {
+    const screenTrack = screenTrackRef.current;
+    if (!screenTrack) return;
+    screenTrackRef.current = null;
+    screenTrack.mediaStreamTrack.onended = null;
+    roomRef.current?.localParticipant.unpublishTrack(screenTrack);
+    screenTrack.stop();
+    setLocalScreenStream(null);
+  }, []);
 
   const cleanup = useCallback((shouldNotify = true) => {
+    releaseScreenShare();
+
     // Disconnect from room
     if (roomRef.current) {
+      roomRef.current.removeAllListeners();
       roomRef.current.disconnect();
       roomRef.current = null;
     }
 
     // Stop and release local tracks
-    localTrackRefs.current.forEach(track => {
-      track.stop();
-      track.detach();
-    });
-    localTrackRefs.current = [];
-
+    if (localVideoTrackRef.current) {
+      localVideoTrackRef.current.stop();
+      localVideoTrackRef.current.detach();
+      localVideoTrackRef.current = null;
+    }
     if (localAudioTrackRef.current) {
       localAudioTrackRef.current.stop();
       localAudioTrackRef.current = null;
     }
+    localStreamRef.current?.getTracks().forEach(track => track.stop());
+    localStreamRef.current = null;
+    setLocalStream(null);
 
-    // Stop local stream if it exists
-    if (localStream) {
-      localStream.getTracks().forEach(track => track.stop());
-      setLocalStream(null);
-    }
-
-    setRemoteStream(null);
+    remoteStreamsRef.current.clear();
+    setRemoteParticipants([]);
+    setDominantSpeakerIdentity(null);
     setIsCallActive(false);
     setCallState('ended');
-    
+
     if (shouldNotify) {
-      onCallEnded?.();
+      onCallEndedRef.current?.();
     }
-  }, [localStream, onCallEnded]);
-
-  const startCall = useCallback(async () => {
-    // Re-check requirements inside the function to avoid stale closures
-    const hasRequiredData = Boolean(conversationId && remoteUserId && remoteUniverseId);
-    
-    console.log('[VideoCall] startCall called', {
-      hasUniverse: !!universe?.id,
-      hasUser: !!user?.id,
-      shouldInitialize,
-      hasRequiredData,
-      conversationId,
-      remoteUserId,
-      remoteUniverseId
+  }, [releaseScreenShare]);
+
+  const addRemoteTrack = useCallback((participant: Video.RemoteParticipant, track: Video.RemoteTrack) => {
+    if (track.kind !== 'video' && track.kind !== 'audio') return;
+    const entry = remoteStreamsRef.current.get(participant.identity);
+    if (!entry) return;
+    if (track.name === SCREEN_TRACK_NAME) {
+      // A new stream per share, so the video element picks it up
+      entry.screenStream = new MediaStream([track.mediaStreamTrack]);
+    } else if (!entry.stream.getTrackById(track.mediaStreamTrack.id)) {
+      entry.stream.addTrack(track.mediaStreamTrack);
+    }
+    publishRemoteParticipants();
+  }, [publishRemoteParticipants]);
+
+  const removeRemoteTrack = useCallback((participant: Video.RemoteParticipant, track: Video.RemoteTrack) => {
+    if (track.kind !== 'video' && track.kind !== 'audio') return;
+    const entry = remoteStreamsRef.current.get(participant.identity);
+    if (!entry) return;
+    if (track.name === SCREEN_TRACK_NAME) {
+      entry.screenStream = null;
+    } else {
+      entry.stream.removeTrack(track.mediaStreamTrack);
+    }
+    publishRemoteParticipants();
+  }, [publishRemoteParticipants]);
+
+  const addRemoteParticipant = useCallback((participant: Video.RemoteParticipant) => {
+    remoteStreamsRef.current.set(participant.identity, { participant, stream: new MediaStream(), screenStream: null });
+    participant.tracks.forEach((publication: Video.RemoteTrackPublication) => {
+      if (publication.track) {
+        addRemoteTrack(participant, publication.track);
+      }
     });
+    publishRemoteParticipants();
+    setCallState('connected');
+    setIsCallActive(true);
+  }, [addRemoteTrack, publishRemoteParticipants]);
 
-    if (!universe?.id || !user?.id || !hasRequiredData) {
+  const startCall = useCallback(async () => {
+    if (!universe?.id || !user?.id || !conversationId) {
       console.warn('[VideoCall] Cannot start call - missing requirements', {
         hasUniverse: !!universe?.id,
         hasUser: !!user?.id,
-        hasRequiredData,
-        conversationId: !!conversationId,
-        remoteUserId: !!remoteUserId,
-        remoteUniverseId: !!remoteUniverseId
+        conversationId: !!conversationId
       });
       return;
     }
+    if (roomRef.current) return;
 
     try {
-      isInitiatorRef.current = true;
       setCallState('calling');
       console.log('[VideoCall] Getting Twilio access token...');
 
-      // Get access token from Edge Function
-      const { token, roomName } = await getTwilioVideoToken(
-        conversationId,
-        undefined, // Use default room name (conversation_${conversationId})
-        user.id
-      );
+      // Identify as the universe in the call, so others can show who we are
+      const { token, roomName } = await getTwilioVideoToken(conversationId, universe.id);
+
+      appliedDeviceIdsRef.current = { audio: microphoneId, video: cameraId };
 
       // Create local audio track (always needed)
       const audioTrack = await Video.createLocalAudioTrack({
+        ...getDeviceConstraint(microphoneId),
         name: 'microphone',
       });
-
       localAudioTrackRef.current = audioTrack;
 
       // Create video track only if not voice-only
       let videoTrack: Video.LocalVideoTrack | null = null;
       if (!voiceOnly) {
         videoTrack = await Video.createLocalVideoTrack({
+          ...getDeviceConstraint(cameraId),
           name: 'camera',
         });
-        localTrackRefs.current = [videoTrack];
-      } else {
-        localTrackRefs.current = [];
+        localVideoTrackRef.current = videoTrack;
       }
 
       // Create a MediaStream from Twilio tracks for local preview
@@ -165,6 +253,7 @@ export function useVideoCall({
         localMediaStream.addTrack(videoTrack.mediaStreamTrack);
       }
       localMediaStream.addTrack(audioTrack.mediaStreamTrack);
+      localStreamRef.current = localMediaStream;
       setLocalStream(localMediaStream);
 
       // Connect to Twilio Video room with appropriate tracks
@@ -172,32 +261,44 @@ export function useVideoCall({
       const room = await Video.connect(token, {
         name: roomName,
         tracks,
+        dominantSpeaker: true,
       });
 
       roomRef.current = room;
 
-      // Handle remote participants
       room.on('participantConnected', (participant: Video.RemoteParticipant) => {
         console.log('[VideoCall] Participant connected:', participant.identity);
-        setCallState('connected');
-        setIsCallActive(true);
-
-        // Get remote tracks
-        participant.tracks.forEach((publication: Video.RemoteTrackPublication) => {
-          if (publication.track) {
-            attachRemoteTrack(publication.track);
-          }
-        });
-
-        // Listen for new tracks
-        participant.on('trackSubscribed', (track: Video.RemoteTrack) => {
-          attachRemoteTrack(track);
-        });
+        addRemoteParticipant(participant);
       });
 
       room.on('participantDisconnected', (participant: Video.RemoteParticipant) => {
         console.log('[VideoCall] Participant disconnected:', participant.identity);
-        cleanup();
+        remoteStreamsRef.current.delete(participant.identity);
+        publishRemoteParticipants();
+        setDominantSpeakerIdentity(prev => (prev === participant.identity ? null : prev));
+
+        // The call is over once everyone else has hung up and nobody is still being rung
+        if (remoteStreamsRef.current.size === 0 && pendingInviteCountRef.current === 0) {
+          cleanup();
+        }
+      });
+
+      room.on('trackSubscribed', (track: Video.RemoteTrack, _publication, participant: Video.RemoteParticipant) => {
+        addRemoteTrack(participant, track);
+      });
+
+      room.on('trackUnsubscribed', (track: Video.RemoteTrack, _publication, participant: Video.RemoteParticipant) => {
+        removeRemoteTrack(participant, track);
+      });
+
+      // Camera or mic toggled on the other side
+      room.on('trackEnabled', publishRemoteParticipants);
+      room.on('trackDisabled', publishRemoteParticipants);
+
+      room.on('dominantSpeakerChanged', (participant: Video.RemoteParticipant | null) => {
+        if (participant) {
+          setDominantSpeakerIdentity(participant.identity);
+        }
       });
 
       room.on('disconnected', () => {
@@ -214,26 +315,16 @@ export function useVideoCall({
         console.log('[VideoCall] Reconnected');
       });
 
-      // If we're the first participant, wait for others
+      // Joining a call that is already going on
+      room.participants.forEach(addRemoteParticipant);
       if (room.participants.size === 0) {
-        setCallState('calling'); // Waiting for other participant
-      } else {
-        // Other participant already in room
-        room.participants.forEach((participant: Video.RemoteParticipant) => {
-          participant.tracks.forEach((publication: Video.RemoteTrackPublication) => {
-            if (publication.track) {
-              attachRemoteTrack(publication.track);
-            }
-          });
-        });
-        setCallState('connected');
-        setIsCallActive(true);
+        setCallState('calling'); // Waiting for others to answer
       }
 
     } catch (error: any) {
       console.error('[VideoCall] Error starting call:', error);
       let errorMessage = 'Failed to start video call';
-      
+
       if (error?.name === 'NotAllowedError' || error?.name === 'PermissionDeniedError') {
         errorMessage = 'Camera and microphone access is required for video calls. Please allow access and try again.';
       } else if (error?.name === 'NotFoundError' || error?.name === 'DevicesNotFoundError') {
@@ -241,41 +332,31 @@ export function useVideoCall({
       } else if (error?.message) {
         errorMessage = error.message;
       }
-      
-      onError?.(errorMessage);
+
+      onErrorRef.current?.(errorMessage);
       cleanup(false);
       setCallState('idle');
     }
-  }, [universe?.id, user?.id, conversationId, remoteUserId, remoteUniverseId, voiceOnly, onRemoteStream, cleanup, onError]);
-
-  const attachRemoteTrack = useCallback((track: Video.RemoteTrack) => {
-    if (track.kind === 'video' || track.kind === 'audio') {
-      setRemoteStream(prev => {
-        const mediaStream = prev || new MediaStream();
-        // Add the track if it's not already in the stream
-        const existingTrack = mediaStream.getTracks().find(
-          t => t.id === track.mediaStreamTrack.id
-        );
-        if (!existingTrack) {
-          mediaStream.addTrack(track.mediaStreamTrack);
-        }
-        onRemoteStream?.(mediaStream);
-        return mediaStream;
-      });
-    }
-  }, [onRemoteStream]);
-
-  const acceptCall = useCallback(async () => {
-    // With Twilio Video, accepting is the same as starting (joining the room)
-    if (callState === 'ringing' && !isInitiatorRef.current) {
-      await startCall();
+  }, [
+    universe?.id,
+    user?.id,
+    conversationId,
+    voiceOnly,
+    cameraId,
+    microphoneId,
+    cleanup,
+    addRemoteParticipant,
+    addRemoteTrack,
+    removeRemoteTrack,
+    publishRemoteParticipants
+  ]);
+
+  // The last invite was declined or rang out after everyone who answered had left
+  useEffect(() => {
+    if (pendingInviteCount === 0 && callState === 'connected' && roomRef.current && remoteStreamsRef.current.size === 0) {
+      cleanup();
     }
-  }, [callState, startCall]);
-
-  const rejectCall = useCallback(() => {
-    cleanup();
-    setCallState('idle');
-  }, [cleanup]);
+  }, [pendingInviteCount, callState, cleanup]);
 
   const endCall = useCallback(() => {
     cleanup();
@@ -283,56 +364,156 @@ export function useVideoCall({
   }, [cleanup]);
 
   const toggleVideo = useCallback(() => {
-    if (localTrackRefs.current.length > 0) {
-      const videoTrack = localTrackRefs.current[0];
-      if (videoTrack) {
-        videoTrack.enable(!videoEnabled);
-        setVideoEnabled(!videoEnabled);
-      }
-    } else if (localStream) {
-      const videoTrack = localStream.getVideoTracks()[0];
-      if (videoTrack) {
-        videoTrack.enabled = !videoTrack.enabled;
-        setVideoEnabled(videoTrack.enabled);
-      }
+    const videoTrack = localVideoTrackRef.current;
+    if (videoTrack) {
+      videoTrack.enable(!videoEnabled);
+      setVideoEnabled(!videoEnabled);
     }
-  }, [localStream, videoEnabled]);
+  }, [videoEnabled]);
 
   const toggleAudio = useCallback(() => {
-    if (localAudioTrackRef.current) {
-      localAudioTrackRef.current.enable(!audioEnabled);
+    const audioTrack = localAudioTrackRef.current;
+    if (audioTrack) {
+      audioTrack.enable(!audioEnabled);
       setAudioEnabled(!audioEnabled);
-    } else if (localStream) {
-      const audioTrack = localStream.getAudioTracks()[0];
-      if (audioTrack) {
-        audioTrack.enabled = !audioTrack.enabled;
-        setAudioEnabled(audioTrack.enabled);
+    }
+  }, [audioEnabled]);
+
+  const stopScreenShare = useCallback(() => {
+    if (!screenTrackRef.current) return;
+    console.log('[VideoCall] Stopping screen share');
+    releaseScreenShare();
+  }, [releaseScreenShare]);
+
+  const startScreenShare = useCallback(async () => {
+    const room = roomRef.current;
+    if (!room || screenTrackRef.current) return;
+
+    let displayStream: MediaStream;
+    try {
+      displayStream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+    } catch (error: any) {
+      // Closing the browser's picker isn't an error worth reporting
+      if (error?.name !== 'NotAllowedError' && error?.name !== 'AbortError') {
+        console.error('[VideoCall] Error starting screen share:', error);
+        onErrorRef.current?.('Failed to share your screen');
       }
+      return;
+    }
+
+    const [mediaStreamTrack] = displayStream.getVideoTracks();
+    // The call may have ended while the picker was open
+    if (!mediaStreamTrack || roomRef.current !== room) {
+      displayStream.getTracks().forEach(track => track.stop());
+      return;
     }
-  }, [localStream, audioEnabled]);
 
-  // Only cleanup on unmount if we actually initialized
+    // Favour sharp text over smooth motion: shares are mostly documents
+    mediaStreamTrack.contentHint = 'detail';
+    const screenTrack = new Video.LocalVideoTrack(mediaStreamTrack, { name: SCREEN_TRACK_NAME });
+    screenTrackRef.current = screenTrack;
+
+    // Fired when sharing is stopped from the browser's own "Stop sharing" bar
+    mediaStreamTrack.onended = () => {
+      console.log('[VideoCall] Screen share ended by the browser');
+      releaseScreenShare();
+    };
+
+    try {
+      await room.localParticipant.publishTrack(screenTrack);
+      setLocalScreenStream(new MediaStream([mediaStreamTrack]));
+      console.log('[VideoCall] Screen share started');
+    } catch (error) {
+      console.error('[VideoCall] Error publishing screen share:', error);
+      releaseScreenShare();
+      onErrorRef.current?.('Failed to share your screen');
+    }
+  }, [releaseScreenShare]);
+
+  // Restarting keeps the track published, so the others just see the new device
+  const switchDevice = useCallback(async (track: Video.LocalAudioTrack | Video.LocalVideoTrack, deviceId: string) => {
+    appliedDeviceIdsRef.current[track.kind] = deviceId;
+    try {
+      await track.restart(getDeviceConstraint(deviceId) || {});
+    } catch (error) {
+      console.error('[VideoCall] Error switching device:', error);
+      onErrorRef.current?.(`Couldn't switch to that ${track.kind === 'audio' ? 'microphone' : 'camera'}`);
+      return;
+    }
+    if (track !== localAudioTrackRef.current && track !== localVideoTrackRef.current) return;
+
+    // The restart replaced the underlying track, so the preview needs a new stream
+    const stream = new MediaStream();
+    if (localVideoTrackRef.current) {
+      stream.addTrack(localVideoTrackRef.current.mediaStreamTrack);
+    }
+    if (localAudioTrackRef.current) {
+      stream.addTrack(localAudioTrackRef.current.mediaStreamTrack);
+    }
+    localStreamRef.current = stream;
+    setLocalStream(stream);
+  }, []);
+
+  useEffect(() => {
+    if (localAudioTrackRef.current && appliedDeviceIdsRef.current.audio !== microphoneId) {
+      console.log('[VideoCall] Switching microphone');
+      switchDevice(localAudioTrackRef.current, microphoneId);
+    }
+  }, [microphoneId, switchDevice]);
+
+  useEffect(() => {
+    if (localVideoTrackRef.current && appliedDeviceIdsRef.current.video !== cameraId) {
+      console.log('[VideoCall] Switching camera');
+      switchDevice(localVideoTrackRef.current, cameraId);
+    }
+  }, [cameraId, switchDevice]);
+
+  // Plugging in headphones changes the default microphone, and unplugging a device ends its
+  // track; either way, carry on with the system default
+  useEffect(() => {
+    if (!navigator.mediaDevices) return;
+
+    const handleDeviceChange = () => {
+      const audioTrack = localAudioTrackRef.current;
+      if (audioTrack && (!deviceIdsRef.current.microphoneId || audioTrack.mediaStreamTrack.readyState === 'ended')) {
+        console.log('[VideoCall] Devices changed, restarting microphone');
+        switchDevice(audioTrack, '');
+      }
+      const videoTrack = localVideoTrackRef.current;
+      if (videoTrack && videoTrack.mediaStreamTrack.readyState === 'ended') {
+        console.log('[VideoCall] Devices changed, restarting camera');
+        switchDevice(videoTrack, '');
+      }
+    };
+
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [switchDevice]);
+
+  // Leave the room if the component goes away mid-call
   useEffect(() => {
-    // Only cleanup if we have an active room or tracks
     return () => {
-      if (roomRef.current || localTrackRefs.current.length > 0 || localAudioTrackRef.current) {
-        cleanup();
+      if (roomRef.current || localAudioTrackRef.current) {
+        cleanup(false);
       }
     };
   }, [cleanup]);
 
   return {
     localStream,
-    remoteStream,
+    remoteParticipants,
+    dominantSpeakerIdentity,
     isCallActive,
     callState,
     startCall,
     endCall,
-    acceptCall,
-    rejectCall,
     toggleVideo,
     toggleAudio,
     videoEnabled,
-    audioEnabled
+    audioEnabled,
+    localScreenStream,
+    isScreenSharing: localScreenStream !== null,
+    startScreenShare,
+    stopScreenShare
   };
 }
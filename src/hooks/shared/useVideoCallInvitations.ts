@@ -1,12 +1,15 @@
 /**
  * Video Call Invitation Hook
- * Manages video call invitations via Supabase Realtime
+ * Manages video call invitations via Supabase Realtime: each participant is rung on their own
+ * video_call_participants row, and every call in the user's conversations is tracked so a call
+ * already going on can be joined late
  */
 
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useUniverse } from './useUniverse';
 import { toast } from '@/hooks/shared/use-toast';
 
 export interface VideoCall {
@@ -15,8 +18,9 @@ export interface VideoCall {
   room_name: string;
   caller_user_id: string;
   caller_profile_universe_id: string;
-  callee_user_id: string;
-  callee_profile_universe_id: string;
+  // Only set for direct calls; group calls ring everyone through video_call_participants
+  callee_user_id: string | null;
+  callee_profile_universe_id: string | null;
   status: 'initiating' | 'ringing' | 'accepted' | 'rejected' | 'ended' | 'missed' | 'busy';
   created_at: string;
   updated_at: string;
@@ -25,6 +29,26 @@ export interface VideoCall {
   end_reason?: string;
 }
 
+export type VideoCallParticipantStatus = 'ringing' | 'joined' | 'declined' | 'missed' | 'left';
+
+export interface VideoCallParticipant {
+  id: string;
+  call_id: string;
+  conversation_id: string;
+  user_id: string;
+  profile_universe_id: string;
+  status: VideoCallParticipantStatus;
+  invited_at: string;
+  joined_at?: string | null;
+  left_at?: string | null;
+}
+
+const ONGOING_STATUSES: VideoCall['status'][] = ['initiating', 'ringing', 'accepted'];
+
+export function isOngoingVideoCall(call: VideoCall) {
+  return ONGOING_STATUSES.includes(call.status);
+}
+
 export interface UseVideoCallInvitationsProps {
   onIncomingCall?: (call: VideoCall) => void;
   onCallStatusChange?: (call: VideoCall) => void;
@@ -35,142 +59,130 @@ export function useVideoCallInvitations({
   onCallStatusChange
 }: UseVideoCallInvitationsProps = {}) {
   const { user, session } = useAuth();
+  const { universe } = useUniverse();
   const channelRef = useRef<RealtimeChannel | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  // Calls going on in any of the user's conversations, whether or not they were rung
+  const [ongoingCalls, setOngoingCalls] = useState<VideoCall[]>([]);
   const processedCallIdsRef = useRef<Set<string>>(new Set());
 
-  // Define handleCallChange before it's used in useEffect
+  const trackCall = useCallback((call: VideoCall) => {
+    setOngoingCalls(prev => {
+      const others = prev.filter(c => c.id !== call.id);
+      return isOngoingVideoCall(call) ? [...others, call] : others;
+    });
+  }, []);
+
+  // Ring once per call, however we hear about it (realtime or polling)
+  const ringFor = useCallback((call: VideoCall) => {
+    if (processedCallIdsRef.current.has(call.id) || !isOngoingVideoCall(call)) return;
+    // Calls this user started on another device don't ring back
+    if (call.caller_user_id === user?.id) return;
+    processedCallIdsRef.current.add(call.id);
+    console.log('[VideoCallInvitations] Incoming call detected - triggering onIncomingCall callback', {
+      callId: call.id,
+      callerUserId: call.caller_user_id,
+      status: call.status
+    });
+    onIncomingCall?.(call);
+  }, [user?.id, onIncomingCall]);
+
   const handleCallChange = useCallback((payload: any) => {
     const call = payload.new as VideoCall;
     const oldCall = payload.old as VideoCall;
 
-    console.log('[VideoCallInvitations] handleCallChange:', {
-      eventType: payload.eventType,
-      callStatus: call?.status,
-      calleeUserId: call?.callee_user_id,
-      callerUserId: call?.caller_user_id,
-      currentUserId: user?.id,
-      isIncoming: call?.callee_user_id === user?.id,
-      callId: call?.id,
-      fullPayload: payload
-    });
+    if (payload.eventType === 'DELETE') {
+      console.log('[VideoCallInvitations] Call deleted:', oldCall);
+      if (oldCall?.id) {
+        processedCallIdsRef.current.delete(oldCall.id);
+        setOngoingCalls(prev => prev.filter(c => c.id !== oldCall.id));
+      }
+      return;
+    }
 
     // Validate we have a call object
-    if (!call) {
+    if (!call?.id) {
       console.warn('[VideoCallInvitations] No call data in payload:', payload);
       return;
     }
 
-    switch (payload.eventType) {
-      case 'INSERT':
-        // Check if this is an incoming call for the current user
-        if (call.callee_user_id === user?.id && call.status === 'ringing') {
-          // Mark as processed to avoid duplicate notifications
-          if (!processedCallIdsRef.current.has(call.id)) {
-            processedCallIdsRef.current.add(call.id);
-            console.log('[VideoCallInvitations] Incoming call detected - triggering onIncomingCall callback', {
-              callId: call.id,
-              callerUserId: call.caller_user_id,
-              calleeUserId: call.callee_user_id,
-              status: call.status
-            });
-            onIncomingCall?.(call);
-          } else {
-            console.log('[VideoCallInvitations] Call already processed, skipping:', call.id);
-          }
-        } else {
-          console.log('[VideoCallInvitations] INSERT event but not an incoming call for this user', {
-            isCallee: call.callee_user_id === user?.id,
-            status: call.status,
-            expectedStatus: 'ringing'
-          });
-        }
-        onCallStatusChange?.(call);
-        break;
-
-      case 'UPDATE':
-        onCallStatusChange?.(call);
-        
-        if (oldCall.status === 'ringing' && call.status === 'accepted') {
-          toast.success('Call accepted');
-        } else if (oldCall.status === 'ringing' && call.status === 'rejected') {
-          toast.error('Call declined');
-        } else if (oldCall.status === 'ringing' && call.status === 'missed') {
-          toast.info('Missed call');
-        }
-        break;
-
-      case 'DELETE':
-        console.log('[VideoCallInvitations] Call deleted:', oldCall);
-        if (oldCall?.id) {
-          processedCallIdsRef.current.delete(oldCall.id);
-        }
-        break;
+    trackCall(call);
+    onCallStatusChange?.(call);
+
+    // Only the caller hears how the invitation went
+    if (payload.eventType === 'UPDATE' && call.caller_user_id === user?.id) {
+      if (oldCall?.status === 'ringing' && call.status === 'accepted') {
+        toast.success('Call accepted');
+      } else if (oldCall?.status === 'ringing' && call.status === 'rejected') {
+        toast.error('Call declined');
+      } else if (oldCall?.status === 'ringing' && call.status === 'missed') {
+        toast.info('Missed call');
+      }
     }
-  }, [user?.id, onIncomingCall, onCallStatusChange]);
+  }, [user?.id, trackCall, onCallStatusChange]);
+
+  // A new ringing row for this user is an incoming call
+  const handleParticipantChange = useCallback(async (payload: any) => {
+    const participant = payload.new as VideoCallParticipant;
+    if (payload.eventType !== 'INSERT' || participant?.status !== 'ringing') return;
+
+    const { data: call, error } = await supabase
+      .from('video_calls')
+      .select('*')
+      .eq('id', participant.call_id)
+      .maybeSingle();
+
+    if (error || !call) {
+      console.error('[VideoCallInvitations] Error loading incoming call:', error);
+      return;
+    }
+    trackCall(call as VideoCall);
+    ringFor(call as VideoCall);
+  }, [trackCall, ringFor]);
 
   // Poll for active calls as a fallback (in case Realtime misses events)
-  // Note: RLS policies will automatically filter to only show calls where user is caller or callee
+  // Note: RLS limits both queries to the user's own conversations
   const pollForActiveCalls = useCallback(async () => {
     if (!user?.id) return;
 
     try {
-      // Query calls where user is the callee (incoming calls)
-      const { data: calleeCalls, error: calleeError } = await supabase
+      const { data: calls, error: callsError } = await supabase
         .from('video_calls')
         .select('*')
-        .eq('callee_user_id', user.id)
-        .in('status', ['ringing', 'accepted'])
+        .in('status', ONGOING_STATUSES)
         .order('created_at', { ascending: false })
-        .limit(5);
+        .limit(20);
 
-      if (calleeError) {
-        console.error('[VideoCallInvitations] Error polling for callee calls:', calleeError);
-        // Don't return early - try caller calls too
+      if (callsError) {
+        console.error('[VideoCallInvitations] Error polling for active calls:', callsError);
+        return;
       }
 
-      // Query calls where user is the caller (outgoing calls)
-      const { data: callerCalls, error: callerError } = await supabase
-        .from('video_calls')
-        .select('*')
-        .eq('caller_user_id', user.id)
-        .in('status', ['ringing', 'accepted'])
-        .order('created_at', { ascending: false })
-        .limit(5);
-
-      if (callerError) {
-        console.error('[VideoCallInvitations] Error polling for caller calls:', callerError);
-      }
+      const activeCalls = (calls || []) as VideoCall[];
+      setOngoingCalls(activeCalls);
 
-      // Combine and deduplicate calls
-      const allCalls = [...(calleeCalls || []), ...(callerCalls || [])];
-      const uniqueCalls = Array.from(
-        new Map(allCalls.map(call => [call.id, call])).values()
-      ) as VideoCall[];
-
-      if (uniqueCalls.length > 0) {
-        // Process calls we haven't seen yet
-        for (const callData of uniqueCalls) {
-          // Skip if we've already processed this call
-          if (processedCallIdsRef.current.has(callData.id)) {
-            continue;
-          }
+      const { data: ringing, error: ringingError } = await supabase
+        .from('video_call_participants')
+        .select('call_id')
+        .eq('user_id', user.id)
+        .eq('status', 'ringing');
 
-          // Check if this is an incoming call
-          if (callData.callee_user_id === user.id && callData.status === 'ringing') {
-            console.log('[VideoCallInvitations] Found active incoming call via polling:', callData);
-            processedCallIdsRef.current.add(callData.id);
-            onIncomingCall?.(callData);
-          }
-          
-          // Always notify of status changes
-          onCallStatusChange?.(callData);
-        }
+      if (ringingError) {
+        console.error('[VideoCallInvitations] Error polling for incoming calls:', ringingError);
+        return;
       }
+
+      const ringingCallIds = new Set((ringing || []).map(row => row.call_id));
+      activeCalls
+        .filter(call => ringingCallIds.has(call.id))
+        .forEach(call => {
+          console.log('[VideoCallInvitations] Found active incoming call via polling:', call.id);
+          ringFor(call);
+        });
     } catch (error) {
       console.error('[VideoCallInvitations] Error in pollForActiveCalls:', error);
     }
-  }, [user?.id, onIncomingCall, onCallStatusChange]);
+  }, [user?.id, ringFor]);
 
   useEffect(() => {
     if (!user || !session?.access_token) return;
@@ -178,10 +190,10 @@ export function useVideoCallInvitations({
     const setupChannel = async () => {
       // Ensure auth is set BEFORE creating channel
       supabase.realtime.setAuth(session.access_token);
-      
+
       // Wait a tick to ensure auth is propagated
       await new Promise(resolve => setTimeout(resolve, 50));
-      
+
       const channel = supabase
         .channel('video-calls')
         .on(
@@ -189,25 +201,24 @@ export function useVideoCallInvitations({
           {
             event: '*',
             schema: 'public',
-            table: 'video_calls',
-            filter: `callee_user_id=eq.${user.id}`
+            table: 'video_calls'
           },
           (payload) => {
-            console.log('[VideoCallInvitations] Received callee change:', payload);
+            console.log('[VideoCallInvitations] Received call change:', payload);
             handleCallChange(payload);
           }
         )
         .on(
           'postgres_changes',
           {
-            event: '*',
+            event: 'INSERT',
             schema: 'public',
-            table: 'video_calls',
-            filter: `caller_user_id=eq.${user.id}`
+            table: 'video_call_participants',
+            filter: `user_id=eq.${user.id}`
           },
           (payload) => {
-            console.log('[VideoCallInvitations] Received caller change:', payload);
-            handleCallChange(payload);
+            console.log('[VideoCallInvitations] Received participant change:', payload);
+            handleParticipantChange(payload);
           }
         )
         .subscribe((status) => {
@@ -246,24 +257,21 @@ export function useVideoCallInvitations({
       setIsConnected(false);
       processedCallIdsRef.current.clear();
     };
-  }, [user?.id, session?.access_token, handleCallChange, pollForActiveCalls]);
+  }, [user?.id, session?.access_token, handleCallChange, handleParticipantChange, pollForActiveCalls]);
 
+  /**
+   * Start a call in a conversation, ringing every other member. If the conversation already
+   * has a call going on, this joins it instead.
+   */
   const initiateCall = async (
-    conversationId: string,
-    calleeUserId: string,
-    calleeProfileUniverseId: string
+    conversationId: string
   ): Promise<{ success: boolean; callId?: string; error?: string }> => {
     try {
-      console.log('[VideoCallInvitations] Initiating call', {
-        conversationId,
-        calleeUserId,
-        calleeProfileUniverseId
-      });
+      console.log('[VideoCallInvitations] Initiating call', { conversationId });
 
-      const { data, error } = await supabase.rpc('create_video_call', {
+      const { data, error } = await supabase.rpc('start_video_call', {
         p_conversation_id: conversationId,
-        p_callee_user_id: calleeUserId,
-        p_callee_profile_universe_id: calleeProfileUniverseId
+        p_actor_universe_id: universe?.id
       });
 
       if (error) {
@@ -279,76 +287,86 @@ export function useVideoCallInvitations({
     }
   };
 
+  /**
+   * Answer a ringing call, or join one that is already going on
+   */
   const acceptCall = async (callId: string): Promise<{ success: boolean; error?: string }> => {
     try {
-      console.log('[VideoCallInvitations] Accepting call:', callId);
+      console.log('[VideoCallInvitations] Joining call:', callId);
 
-      const { data, error } = await supabase.rpc('accept_video_call', {
+      const { data, error } = await supabase.rpc('join_video_call', {
         p_call_id: callId
       });
 
       if (error) {
-        console.error('[VideoCallInvitations] Error accepting call:', error);
+        console.error('[VideoCallInvitations] Error joining call:', error);
         return { success: false, error: error.message };
       }
+      if (!data) {
+        return { success: false, error: 'This call has already ended' };
+      }
 
-      console.log('[VideoCallInvitations] Call accepted:', data);
+      console.log('[VideoCallInvitations] Call joined:', callId);
       return { success: true };
     } catch (error) {
-      console.error('[VideoCallInvitations] Error accepting call:', error);
-      return { success: false, error: 'Failed to accept call' };
+      console.error('[VideoCallInvitations] Error joining call:', error);
+      return { success: false, error: 'Failed to join call' };
     }
   };
 
-  const rejectCall = async (callId: string, reason: string = 'rejected'): Promise<{ success: boolean; error?: string }> => {
+  /**
+   * Turn down a ringing call; pass 'missed' when it rang out unanswered
+   */
+  const rejectCall = async (callId: string, reason: 'declined' | 'missed' = 'declined'): Promise<{ success: boolean; error?: string }> => {
     try {
-      console.log('[VideoCallInvitations] Rejecting call:', callId, reason);
+      console.log('[VideoCallInvitations] Declining call:', callId, reason);
 
-      const { data, error } = await supabase.rpc('reject_video_call', {
+      const { error } = await supabase.rpc('decline_video_call', {
         p_call_id: callId,
         p_reason: reason
       });
 
       if (error) {
-        console.error('[VideoCallInvitations] Error rejecting call:', error);
+        console.error('[VideoCallInvitations] Error declining call:', error);
         return { success: false, error: error.message };
       }
 
-      console.log('[VideoCallInvitations] Call rejected:', data);
       return { success: true };
     } catch (error) {
-      console.error('[VideoCallInvitations] Error rejecting call:', error);
-      return { success: false, error: 'Failed to reject call' };
+      console.error('[VideoCallInvitations] Error declining call:', error);
+      return { success: false, error: 'Failed to decline call' };
     }
   };
 
-  const endCall = async (callId: string, reason: string = 'ended'): Promise<{ success: boolean; error?: string }> => {
+  /**
+   * Hang up; the call itself ends when its last participant leaves
+   */
+  const endCall = async (callId: string): Promise<{ success: boolean; error?: string }> => {
     try {
-      console.log('[VideoCallInvitations] Ending call:', callId, reason);
+      console.log('[VideoCallInvitations] Leaving call:', callId);
 
-      const { data, error } = await supabase.rpc('end_video_call', {
-        p_call_id: callId,
-        p_reason: reason
+      const { error } = await supabase.rpc('leave_video_call', {
+        p_call_id: callId
       });
 
       if (error) {
-        console.error('[VideoCallInvitations] Error ending call:', error);
+        console.error('[VideoCallInvitations] Error leaving call:', error);
         return { success: false, error: error.message };
       }
 
-      console.log('[VideoCallInvitations] Call ended:', data);
       return { success: true };
     } catch (error) {
-      console.error('[VideoCallInvitations] Error ending call:', error);
-      return { success: false, error: 'Failed to end call' };
+      console.error('[VideoCallInvitations] Error leaving call:', error);
+      return { success: false, error: 'Failed to leave call' };
     }
   };
 
   return {
     isConnected,
+    ongoingCalls,
     initiateCall,
     acceptCall,
     rejectCall,
     endCall
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,63 @@
+/**
+ * Video Call Participants Hook
+ * Who has been rung into a call and whether they answered, kept live via Supabase Realtime
+ */
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { VideoCallParticipant } from './useVideoCallInvitations';
+
+/**
+ * @param callId - The call to follow, or null before there is one
+ */
+export function useVideoCallParticipants(callId: string | null) {
+  const [participants, setParticipants] = useState<VideoCallParticipant[]>([]);
+
+  useEffect(() => {
+    setParticipants([]);
+    if (!callId) return;
+
+    let cancelled = false;
+
+    supabase
+      .from('video_call_participants')
+      .select('*')
+      .eq('call_id', callId)
+      .order('invited_at')
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('[VideoCallParticipants] Error loading participants:', error);
+          return;
+        }
+        setParticipants((data || []) as VideoCallParticipant[]);
+      });
+
+    const channel = supabase
+      .channel(`video-call-participants:${callId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'video_call_participants',
+          filter: `call_id=eq.${callId}`
+        },
+        (payload) => {
+          const row = payload.new as VideoCallParticipant;
+          if (!row?.id) return;
+          setParticipants(prev => (prev.some(p => p.id === row.id)
+            ? prev.map(p => (p.id === row.id ? row : p))
+            : [...prev, row]));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [callId]);
+
+  return participants;
+}
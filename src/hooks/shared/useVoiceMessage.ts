@@ -1,29 +1,185 @@
-import { useState, useRef, useCallback } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { useState, useRef, useCallback, useEffect } from 'react';
 import { toast } from '@/hooks/shared/use-toast';
+import { attachmentService } from '@/services/shared/attachmentService';
+import { messagingService } from '@/services/shared/messagingService';
+import { analyzeRecording, WAVEFORM_BAR_COUNT } from '@/lib/audio/waveform';
+import { watchAudioLevel } from '@/lib/audio/levelMeter';
+import { buildAttachmentPath } from '@/lib/messenger/attachments';
+import { formatVoiceDuration, MAX_VOICE_NOTE_SECONDS, type VoiceNoteMetadata } from '@/lib/messenger/voiceNotes';
 
-export function useVoiceMessage(conversationId: string | null, universeId: string | null) {
-  const [isRecording, setIsRecording] = useState(false);
+export type VoiceRecorderStatus = 'idle' | 'recording' | 'paused' | 'preview' | 'sending';
+
+/**
+ * A finished recording waiting to be sent or discarded
+ */
+export interface VoiceRecordingPreview {
+  blob: Blob;
+  url: string; // Object URL for playing it back
+  voice: VoiceNoteMetadata;
+}
+
+interface UseVoiceMessageOptions {
+  maxDuration?: number; // seconds
+}
+
+// Peaks and the real duration go in metadata, so the player can draw without downloading
+async function describeRecording(blob: Blob, fallbackDuration: number): Promise<VoiceNoteMetadata> {
+  try {
+    return await analyzeRecording(blob);
+  } catch (error) {
+    console.warn('Could not analyze recording:', error);
+    return {
+      duration: Math.round(fallbackDuration * 10) / 10,
+      peaks: new Array(WAVEFORM_BAR_COUNT).fill(0.3)
+    };
+  }
+}
+
+export function useVoiceMessage(
+  conversationId: string | null,
+  universeId: string | null,
+  { maxDuration = MAX_VOICE_NOTE_SECONDS }: UseVoiceMessageOptions = {}
+) {
+  const [status, setStatus] = useState<VoiceRecorderStatus>('idle');
   const [recordingTime, setRecordingTime] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [preview, setPreview] = useState<VoiceRecordingPreview | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const streamRef = useRef<MediaStream | null>(null);
+  const stopLevelMeterRef = useRef<(() => void) | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const previewRef = useRef<VoiceRecordingPreview | null>(null);
+  // Time recorded before the current stretch, and when that stretch started (null while paused)
+  const elapsedMsRef = useRef(0);
+  const segmentStartedAtRef = useRef<number | null>(null);
+  // Bumped whenever a recording is abandoned, so async work for it knows to stop
+  const sessionRef = useRef(0);
+
+  const getElapsedSeconds = () =>
+    (elapsedMsRef.current + (segmentStartedAtRef.current ? Date.now() - segmentStartedAtRef.current : 0)) / 1000;
+
+  const stopTimer = useCallback(() => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  const showPreview = useCallback((next: VoiceRecordingPreview | null) => {
+    if (previewRef.current) {
+      URL.revokeObjectURL(previewRef.current.url);
+    }
+    previewRef.current = next;
+    setPreview(next);
+  }, []);
+
+  // Give the microphone back: tracks, level meter and timer
+  const releaseInput = useCallback(() => {
+    stopTimer();
+    stopLevelMeterRef.current?.();
+    stopLevelMeterRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setLevel(0);
+  }, [stopTimer]);
+
+  /**
+   * Stop the recorder and collect what it captured; null when nothing was recording
+   */
+  const finishRecorder = useCallback(() => new Promise<Blob | null>(resolve => {
+    const recorder = mediaRecorderRef.current;
+    mediaRecorderRef.current = null;
+    if (segmentStartedAtRef.current) {
+      elapsedMsRef.current += Date.now() - segmentStartedAtRef.current;
+      segmentStartedAtRef.current = null;
+    }
+
+    if (!recorder || recorder.state === 'inactive') {
+      releaseInput();
+      resolve(null);
+      return;
+    }
+    recorder.onstop = () => {
+      releaseInput();
+      resolve(new Blob(audioChunksRef.current, { type: recorder.mimeType || 'audio/webm' }));
+    };
+    recorder.stop();
+  }), [releaseInput]);
+
+  /**
+   * Drop the recording or preview without sending; also runs on unmount and conversation change
+   */
+  const discardRecording = useCallback(() => {
+    sessionRef.current++;
+    const recorder = mediaRecorderRef.current;
+    mediaRecorderRef.current = null;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    releaseInput();
+    showPreview(null);
+    audioChunksRef.current = [];
+    elapsedMsRef.current = 0;
+    segmentStartedAtRef.current = null;
+    setRecordingTime(0);
+    setStatus('idle');
+  }, [releaseInput, showPreview]);
+
+  /**
+   * Stop recording and show the preview
+   */
+  const stopRecording = useCallback(async () => {
+    const session = sessionRef.current;
+    const blob = await finishRecorder();
+    if (!blob || session !== sessionRef.current) return;
+
+    if (blob.size === 0) {
+      toast.error('Recording failed: No audio data captured');
+      discardRecording();
+      return;
+    }
+
+    const voice = await describeRecording(blob, getElapsedSeconds());
+    if (session !== sessionRef.current) return;
+    showPreview({ blob, url: URL.createObjectURL(blob), voice });
+    setStatus('preview');
+  }, [finishRecorder, discardRecording, showPreview]);
+
+  const startTimer = useCallback(() => {
+    stopTimer();
+    timerRef.current = setInterval(() => {
+      const elapsed = getElapsedSeconds();
+      setRecordingTime(elapsed);
+      if (elapsed >= maxDuration) {
+        toast.info(`Voice messages can be up to ${formatVoiceDuration(maxDuration)} long`);
+        stopRecording();
+      }
+    }, 200);
+  }, [maxDuration, stopRecording, stopTimer]);
 
   const startRecording = useCallback(async () => {
     if (!conversationId || !universeId) {
       toast.error('Cannot record: Missing conversation or universe');
       return;
     }
+    if (mediaRecorderRef.current || previewRef.current) return;
 
+    const session = ++sessionRef.current;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
+      const stream = await navigator.mediaDevices.getUserMedia({
         audio: {
           echoCancellation: true,
           noiseSuppression: true,
           autoGainControl: true
-        } 
+        }
       });
+      // Abandoned (released, discarded or unmounted) while the permission prompt was up
+      if (session !== sessionRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
       streamRef.current = stream;
 
       // Check for MediaRecorder support
@@ -33,8 +189,8 @@ export function useVoiceMessage(conversationId: string | null, universeId: strin
       }
 
       const options: MediaRecorderOptions = {
-        mimeType: MediaRecorder.isTypeSupported('audio/webm;codecs=opus') 
-          ? 'audio/webm;codecs=opus' 
+        mimeType: MediaRecorder.isTypeSupported('audio/webm;codecs=opus')
+          ? 'audio/webm;codecs=opus'
           : 'audio/webm'
       };
 
@@ -47,87 +203,29 @@ export function useVoiceMessage(conversationId: string | null, universeId: strin
         }
       };
 
-      recorder.onstop = async () => {
-        try {
-          const audioBlob = new Blob(audioChunksRef.current, { 
-            type: mediaRecorderRef.current?.mimeType || 'audio/webm' 
-          });
-          
-          if (audioBlob.size === 0) {
-            toast.error('Recording failed: No audio data captured');
-            return;
-          }
-          
-          // Upload to Supabase Storage
-          const fileName = `voice-${Date.now()}-${Math.random().toString(36).substring(7)}.webm`;
-          const filePath = `${universeId}/${conversationId}/${fileName}`;
-          
-          const { data: uploadData, error: uploadError } = await supabase.storage
-            .from('message-attachments')
-            .upload(filePath, audioBlob, {
-              contentType: 'audio/webm',
-              upsert: false
-            });
-
-          if (uploadError) {
-            console.error('Upload error:', uploadError);
-            toast.error('Failed to upload voice message');
-            return;
-          }
-
-          // Get public URL
-          const { data: { publicUrl } } = supabase.storage
-            .from('message-attachments')
-            .getPublicUrl(filePath);
-
-          // Create message with voice attachment
-          const { error: messageError } = await supabase.from('messages').insert({
-            conversation_id: conversationId,
-            sender_profile_universe_id: universeId,
-            content: '🎤 Voice message',
-            message_type: 'voice',
-            attachments: [{
-              type: 'audio',
-              url: publicUrl,
-              duration: recordingTime,
-              filename: fileName,
-              size: audioBlob.size
-            }]
-          });
-
-          if (messageError) {
-            console.error('Message creation error:', messageError);
-            toast.error('Failed to send voice message');
-          } else {
-            toast.success('Voice message sent');
-          }
-
-          // Cleanup
-          stream.getTracks().forEach(track => track.stop());
-          setRecordingTime(0);
-        } catch (error) {
-          console.error('Error processing recording:', error);
-          toast.error('Failed to process voice message');
-        }
-      };
-
       recorder.onerror = (event) => {
         console.error('MediaRecorder error:', event);
         toast.error('Recording error occurred');
-        stopRecording();
+        discardRecording();
       };
 
+      try {
+        stopLevelMeterRef.current = watchAudioLevel(stream, setLevel);
+      } catch (error) {
+        // The meter is a nicety; record without it
+        console.warn('Could not start level meter:', error);
+      }
+
       mediaRecorderRef.current = recorder;
       recorder.start(1000); // Collect data every second
-      setIsRecording(true);
+      elapsedMsRef.current = 0;
+      segmentStartedAtRef.current = Date.now();
       setRecordingTime(0);
-
-      // Start timer
-      timerRef.current = setInterval(() => {
-        setRecordingTime(prev => prev + 1);
-      }, 1000);
+      setStatus('recording');
+      startTimer();
     } catch (error: any) {
       console.error('Failed to start recording:', error);
+      releaseInput();
       if (error.name === 'NotAllowedError') {
         toast.error('Microphone access denied. Please enable microphone permissions.');
       } else if (error.name === 'NotFoundError') {
@@ -136,34 +234,109 @@ export function useVoiceMessage(conversationId: string | null, universeId: strin
         toast.error('Failed to start recording. Please try again.');
       }
     }
-  }, [conversationId, universeId, recordingTime]);
+  }, [conversationId, universeId, discardRecording, releaseInput, startTimer]);
 
-  const stopRecording = useCallback(() => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      mediaRecorderRef.current.stop();
+  const pauseRecording = useCallback(() => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state !== 'recording') return;
+    recorder.pause();
+    if (segmentStartedAtRef.current) {
+      elapsedMsRef.current += Date.now() - segmentStartedAtRef.current;
+      segmentStartedAtRef.current = null;
     }
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-    setIsRecording(false);
-  }, []);
+    stopTimer();
+    setRecordingTime(getElapsedSeconds());
+    setStatus('paused');
+  }, [stopTimer]);
+
+  const resumeRecording = useCallback(() => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state !== 'paused') return;
+    recorder.resume();
+    segmentStartedAtRef.current = Date.now();
+    setStatus('recording');
+    startTimer();
+  }, [startTimer]);
+
+  /**
+   * Send the previewed recording, or stop and send the one in progress.
+   * The recording stays as a preview until the message is sent, so a failed send can be retried.
+   */
+  const sendRecording = useCallback(async () => {
+    if (!conversationId || !universeId) return;
 
-  const cancelRecording = useCallback(() => {
-    stopRecording();
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
+    const session = sessionRef.current;
+    let recording = previewRef.current;
+    setStatus('sending');
+    if (!recording) {
+      const blob = await finishRecorder();
+      if (!blob || blob.size === 0) {
+        if (blob) toast.error('Recording failed: No audio data captured');
+        // Also cancels a start that is still waiting on the microphone
+        discardRecording();
+        return;
+      }
+      const voice = await describeRecording(blob, getElapsedSeconds());
+      if (session !== sessionRef.current) return;
+      recording = { blob, url: URL.createObjectURL(blob), voice };
+      showPreview(recording);
     }
-    audioChunksRef.current = [];
+    elapsedMsRef.current = 0;
     setRecordingTime(0);
-    toast.info('Recording cancelled');
-  }, [stopRecording]);
+
+    const { blob, voice } = recording;
+    const messageId = crypto.randomUUID();
+    try {
+      const attachment = await attachmentService.uploadAttachment(
+        blob,
+        `voice-${messageId}.webm`,
+        buildAttachmentPath(universeId, conversationId, messageId, 'voice.webm')
+      );
+      await messagingService.sendConversationMessage({
+        id: messageId,
+        conversationId,
+        senderUniverseId: universeId,
+        content: '🎤 Voice message',
+        messageType: 'voice',
+        attachments: [{ ...attachment, duration: voice.duration }],
+        metadata: { voice }
+      });
+      toast.success('Voice message sent');
+
+      // Discarded meanwhile (e.g. the conversation changed): the preview is already gone
+      if (session === sessionRef.current) {
+        showPreview(null);
+        setStatus('idle');
+      }
+
+      // The transcript arrives later as an update to the message's metadata
+      messagingService.requestVoiceTranscript(messageId)
+        .catch(error => console.error('Error requesting transcript:', error));
+    } catch (error) {
+      console.error('Error sending voice message:', error);
+      toast.error('Failed to send voice message');
+      if (session === sessionRef.current) {
+        setStatus('preview');
+      }
+    }
+  }, [conversationId, universeId, finishRecorder, discardRecording, showPreview]);
+
+  // Never leave the microphone on behind a conversation that is no longer showing
+  useEffect(() => discardRecording, [conversationId, universeId, discardRecording]);
 
   return {
-    isRecording,
+    status,
+    isRecording: status === 'recording' || status === 'paused',
+    isPaused: status === 'paused',
     recordingTime,
+    maxDuration,
+    level,
+    preview,
     startRecording,
+    pauseRecording,
+    resumeRecording,
     stopRecording,
-    cancelRecording
+    sendRecording,
+    discardRecording
   };
 }
@@ -0,0 +1,43 @@
+/**
+ * Level meter utility for microphones
+ * Reports how loud a live stream is, for the voice recorder and the mic test
+ */
+
+// Speech rarely gets past a quarter of full scale; scale it up so the meter actually moves
+const LEVEL_GAIN = 4;
+
+/**
+ * Call onLevel with the stream's loudness (0..1) every animation frame
+ * @returns Stops the meter; the stream itself is left running
+ */
+export function watchAudioLevel(stream: MediaStream, onLevel: (level: number) => void): () => void {
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 512;
+  context.createMediaStreamSource(stream).connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  let lastLevel = -1;
+  let frame = 0;
+
+  const tick = () => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sum += samples[i] * samples[i];
+    }
+    // Rounded so listeners only hear about changes that show
+    const level = Math.round(Math.min(1, Math.sqrt(sum / samples.length) * LEVEL_GAIN) * 20) / 20;
+    if (level !== lastLevel) {
+      lastLevel = level;
+      onLevel(level);
+    }
+    frame = requestAnimationFrame(tick);
+  };
+  frame = requestAnimationFrame(tick);
+
+  return () => {
+    cancelAnimationFrame(frame);
+    context.close();
+  };
+}
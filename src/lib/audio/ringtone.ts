@@ -2,8 +2,83 @@
  * Ringtone utility for video calls
  * Plays a ringing sound for incoming/outgoing calls using Web Audio API
  * Handles browser autoplay restrictions by initializing on user interaction
+ * Also plays the short sounds for new messages; both are picked per conversation
  */
 
+interface Tone {
+  frequency: number;
+  start: number; // seconds from the start of the pattern
+  duration: number;
+  type?: OscillatorType;
+}
+
+export type RingtoneId = 'classic' | 'chime' | 'pulse';
+export type MessageSoundId = 'pop' | 'chime' | 'ding' | 'none';
+
+// Each ringtone pattern repeats every `period` seconds until stopped
+export const RINGTONES: Record<RingtoneId, { label: string; tones: Tone[]; period: number }> = {
+  classic: {
+    label: 'Classic',
+    tones: [
+      { frequency: 800, start: 0, duration: 0.2 },
+      { frequency: 1000, start: 0.3, duration: 0.2 }
+    ],
+    period: 0.6
+  },
+  chime: {
+    label: 'Chime',
+    tones: [
+      { frequency: 659, start: 0, duration: 0.35, type: 'triangle' },
+      { frequency: 784, start: 0.2, duration: 0.35, type: 'triangle' },
+      { frequency: 1047, start: 0.4, duration: 0.5, type: 'triangle' }
+    ],
+    period: 1.6
+  },
+  pulse: {
+    label: 'Pulse',
+    tones: [
+      { frequency: 440, start: 0, duration: 0.12, type: 'square' },
+      { frequency: 440, start: 0.18, duration: 0.12, type: 'square' },
+      { frequency: 440, start: 0.36, duration: 0.12, type: 'square' }
+    ],
+    period: 1.2
+  }
+};
+
+export const MESSAGE_SOUNDS: Record<MessageSoundId, { label: string; tones: Tone[] }> = {
+  pop: {
+    label: 'Pop',
+    tones: [{ frequency: 880, start: 0, duration: 0.12 }]
+  },
+  chime: {
+    label: 'Chime',
+    tones: [
+      { frequency: 784, start: 0, duration: 0.15, type: 'triangle' },
+      { frequency: 1175, start: 0.12, duration: 0.25, type: 'triangle' }
+    ]
+  },
+  ding: {
+    label: 'Ding',
+    tones: [{ frequency: 1319, start: 0, duration: 0.4, type: 'triangle' }]
+  },
+  none: {
+    label: 'No sound',
+    tones: []
+  }
+};
+
+export const DEFAULT_RINGTONE: RingtoneId = 'classic';
+export const DEFAULT_MESSAGE_SOUND: MessageSoundId = 'pop';
+
+// Stored choices may name a sound that no longer exists; fall back to the default
+function resolveRingtone(ringtone?: string | null): RingtoneId {
+  return ringtone && ringtone in RINGTONES ? (ringtone as RingtoneId) : DEFAULT_RINGTONE;
+}
+
+function resolveMessageSound(sound?: string | null): MessageSoundId {
+  return sound && sound in MESSAGE_SOUNDS ? (sound as MessageSoundId) : DEFAULT_MESSAGE_SOUND;
+}
+
 let audioContext: AudioContext | null = null;
 let ringtoneInterval: NodeJS.Timeout | null = null;
 let isPlaying = false;
@@ -69,13 +144,44 @@ function getAudioContext(): AudioContext | null {
   return audioContext;
 }
 
+/**
+ * Schedule one tone with a short fade in/out for a smoother sound
+ */
+function scheduleTone(ctx: AudioContext, tone: Tone, startTime: number, volume: number): void {
+  try {
+    if (ctx.state === 'closed') return;
+
+    const oscillator = ctx.createOscillator();
+    const gainNode = ctx.createGain();
+
+    oscillator.connect(gainNode);
+    gainNode.connect(ctx.destination);
+
+    oscillator.frequency.value = tone.frequency;
+    oscillator.type = tone.type || 'sine';
+
+    const toneStart = startTime + tone.start;
+    gainNode.gain.setValueAtTime(0, toneStart);
+    gainNode.gain.linearRampToValueAtTime(volume, toneStart + 0.05);
+    gainNode.gain.linearRampToValueAtTime(0, toneStart + tone.duration);
+
+    oscillator.start(toneStart);
+    oscillator.stop(toneStart + tone.duration);
+  } catch (error) {
+    console.warn('[Ringtone] Error playing tone:', error);
+  }
+}
+
 /**
  * Play ringing sound
  * Uses Web Audio API to generate a pleasant ringtone pattern
  * Will attempt to resume suspended audio context
  * Falls back to trying multiple times if context is suspended
+ * @param ringtone - Ringtone id; unknown or missing ids play the default
  */
-export function playRingtone(): void {
+export function playRingtone(ringtone?: string | null): void {
+  const pattern = RINGTONES[resolveRingtone(ringtone)];
+
   if (isPlaying) {
     console.log('[Ringtone] Already playing, skipping');
     return; // Already playing
@@ -93,7 +199,7 @@ export function playRingtone(): void {
     setTimeout(() => {
       if (!isPlaying) {
         console.log('[Ringtone] Retrying after initialization');
-        playRingtone();
+        playRingtone(ringtone);
       }
     }, 200);
     return;
@@ -126,7 +232,7 @@ export function playRingtone(): void {
       setTimeout(() => {
         if (!isPlaying && ctx && ctx.state === 'running') {
           console.log('[Ringtone] Retrying after delay');
-          playRingtone();
+          playRingtone(ringtone);
         }
       }, 300);
       return;
@@ -136,54 +242,27 @@ export function playRingtone(): void {
     isPlaying = true;
     let currentTime = ctx.currentTime;
     
-    const playTone = (frequency: number, duration: number, startTime: number) => {
-      try {
-        if (!isPlaying || !ctx || ctx.state === 'closed') return;
-        
-        const oscillator = ctx.createOscillator();
-        const gainNode = ctx.createGain();
-        
-        oscillator.connect(gainNode);
-        gainNode.connect(ctx.destination);
-        
-        oscillator.frequency.value = frequency;
-        oscillator.type = 'sine';
-        
-        // Fade in/out for smoother sound
-        gainNode.gain.setValueAtTime(0, startTime);
-        gainNode.gain.linearRampToValueAtTime(0.25, startTime + 0.05); // Slightly louder
-        gainNode.gain.linearRampToValueAtTime(0, startTime + duration);
-        
-        oscillator.start(startTime);
-        oscillator.stop(startTime + duration);
-      } catch (error) {
-        console.warn('[Ringtone] Error playing tone:', error);
-      }
-    };
-    
-    // Ring pattern: two tones (800Hz and 1000Hz) alternating
     const ringPattern = () => {
       if (!isPlaying || !ctx || ctx.state === 'closed') {
         stopRingtone();
         return;
       }
       
-      playTone(800, 0.2, currentTime);
-      playTone(1000, 0.2, currentTime + 0.3);
-      currentTime += 0.6; // Total pattern duration
+      pattern.tones.forEach(tone => scheduleTone(ctx, tone, currentTime, 0.25));
+      currentTime += pattern.period;
     };
     
     // Play the pattern immediately
     ringPattern();
     
-    // Repeat the pattern every 600ms
+    // Repeat the pattern for as long as it rings
     ringtoneInterval = setInterval(() => {
       if (!isPlaying || !ctx || ctx.state === 'closed') {
         stopRingtone();
         return;
       }
       ringPattern();
-    }, 600) as any;
+    }, pattern.period * 1000) as any;
   });
 }
 
@@ -198,3 +277,38 @@ export function stopRingtone(): void {
     ringtoneInterval = null;
   }
 }
+
+/**
+ * Play a ringtone briefly, e.g. while choosing one in settings
+ */
+export function previewRingtone(ringtone: string): void {
+  stopRingtone();
+  playRingtone(ringtone);
+  setTimeout(stopRingtone, 2000);
+}
+
+/**
+ * Play the short new-message sound once
+ * @param sound - Sound id; unknown or missing ids play the default
+ */
+export function playMessageSound(sound?: string | null): void {
+  const { tones } = MESSAGE_SOUNDS[resolveMessageSound(sound)];
+  if (tones.length === 0) return;
+
+  const ctx = getAudioContext();
+  if (!ctx) return;
+
+  const play = () => {
+    const startTime = ctx.currentTime;
+    tones.forEach(tone => scheduleTone(ctx, tone, startTime, 0.15));
+  };
+
+  if (ctx.state === 'suspended') {
+    // Without a user interaction first the browser keeps the context suspended; stay silent
+    ctx.resume().then(play).catch(error => {
+      console.warn('[Ringtone] Could not resume audio context for message sound:', error);
+    });
+    return;
+  }
+  play();
+}
@@ -0,0 +1,46 @@
+/**
+ * Waveform utility for voice messages
+ * Reduces a recording to a short list of peaks, stored with the message and drawn by the player,
+ * so nobody has to download and decode the audio just to show its shape
+ */
+
+export const WAVEFORM_BAR_COUNT = 48;
+
+/**
+ * Loudest sample per bar, scaled to 0..1 against the loudest bar and rounded to keep metadata small
+ */
+export function computeWaveformPeaks(samples: Float32Array, barCount = WAVEFORM_BAR_COUNT): number[] {
+  const blockSize = Math.max(1, Math.floor(samples.length / barCount));
+  const peaks: number[] = [];
+
+  for (let bar = 0; bar < barCount; bar++) {
+    const start = bar * blockSize;
+    const end = Math.min(samples.length, start + blockSize);
+    let peak = 0;
+    for (let i = start; i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks.push(peak);
+  }
+
+  // Quiet recordings still fill the player's height
+  const loudest = Math.max(...peaks, 0.01);
+  return peaks.map(peak => Math.round((peak / loudest) * 100) / 100);
+}
+
+/**
+ * Decode a recording for its real duration (MediaRecorder's webm doesn't carry one) and peaks
+ */
+export async function analyzeRecording(blob: Blob): Promise<{ duration: number; peaks: number[] }> {
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    return {
+      duration: Math.round(buffer.duration * 10) / 10,
+      peaks: computeWaveformPeaks(buffer.getChannelData(0))
+    };
+  } finally {
+    context.close();
+  }
+}
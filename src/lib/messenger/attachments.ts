@@ -0,0 +1,210 @@
+/**
+ * Attachments - the typed schema of messages.attachments and the client-side checks a file
+ * passes before it is uploaded
+ *
+ * Kept free of imports and browser APIs so validation can run anywhere the bytes are available.
+ */
+
+export type AttachmentKind = 'image' | 'video' | 'audio' | 'file';
+
+export interface AttachmentThumbnail {
+  path: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * One entry of messages.attachments. The bucket is private, so stored entries carry only the
+ * object path and are shown through short-lived signed URLs.
+ */
+export interface MessageAttachment {
+  type: AttachmentKind;
+  path: string;
+  // Only for attachments that aren't in storage yet, e.g. a local preview of a queued message
+  url?: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  width?: number;
+  height?: number;
+  duration?: number; // seconds
+  // Downscaled image, or the poster frame of a video
+  thumbnail?: AttachmentThumbnail;
+}
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+const MB = 1024 * 1024;
+
+export const ATTACHMENT_SIZE_LIMITS: Record<AttachmentKind, number> = {
+  image: 20 * MB,
+  video: 250 * MB,
+  audio: 50 * MB,
+  file: 50 * MB
+};
+
+// Enough of the file's head for every signature below
+export const SNIFF_BYTE_COUNT = 16;
+
+const BLOCKED_EXTENSIONS = new Set([
+  'exe', 'msi', 'bat', 'cmd', 'com', 'scr', 'ps1', 'vbs', 'jar', 'apk', 'app', 'dmg', 'sh'
+]);
+
+// Types a browser would run if the storage URL were opened directly; stored as plain bytes instead
+const ACTIVE_CONTENT_TYPES = new Set([
+  'text/html', 'application/xhtml+xml', 'image/svg+xml', 'text/xml', 'application/xml',
+  'text/javascript', 'application/javascript'
+]);
+
+// Containers that hold either audio or video; the declared type says which
+const MEDIA_CONTAINER_TYPES = new Set(['video/mp4', 'video/quicktime', 'video/webm', 'audio/mp4', 'audio/ogg']);
+
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', gif: 'image/gif', webp: 'image/webp',
+  heic: 'image/heic', mp4: 'video/mp4', mov: 'video/quicktime', webm: 'video/webm',
+  mp3: 'audio/mpeg', m4a: 'audio/mp4', ogg: 'audio/ogg', wav: 'audio/wav', pdf: 'application/pdf'
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+
+/**
+ * The MIME type a file's leading bytes identify, or null when they match no known signature
+ */
+export function sniffMimeType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, ascii('GIF8'))) return 'image/gif';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WAVE'), 8)) return 'audio/wav';
+  if (startsWith(bytes, ascii('ftyp'), 4)) {
+    const brand = String.fromCharCode(...bytes.slice(8, 12));
+    if (/^(heic|heix|mif1|msf1)$/.test(brand)) return 'image/heic';
+    if (brand === 'qt  ') return 'video/quicktime';
+    if (/^M4A/.test(brand)) return 'audio/mp4';
+    return 'video/mp4';
+  }
+  // Matroska; WebM is the only flavour browsers play
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return 'video/webm';
+  if (startsWith(bytes, ascii('OggS'))) return 'audio/ogg';
+  if (startsWith(bytes, ascii('ID3')) || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return 'audio/mpeg';
+  if (startsWith(bytes, ascii('%PDF-'))) return 'application/pdf';
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return 'application/zip';
+  if (startsWith(bytes, ascii('MZ')) || startsWith(bytes, [0x7f, 0x45, 0x4c, 0x46])) return 'application/x-executable';
+  if (startsWith(bytes, ascii('#!'))) return 'text/x-shellscript';
+  return null;
+}
+
+/**
+ * How a MIME type is shown in a message
+ */
+export function getAttachmentKind(mimeType: string): AttachmentKind {
+  if (mimeType.startsWith('image/') && mimeType !== 'image/svg+xml') return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return 'file';
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / MB).toFixed(bytes < 10 * MB ? 1 : 0)} MB`;
+}
+
+export type AttachmentCheck =
+  | { ok: true; kind: AttachmentKind; mimeType: string }
+  | { ok: false; error: string };
+
+/**
+ * Decide whether a file may be attached and what it really is.
+ * The sniffed type wins over the declared one, so a renamed executable or a mislabelled
+ * image is caught before it is uploaded.
+ */
+export function checkAttachment(
+  file: { name: string; size: number; type: string },
+  head: Uint8Array
+): AttachmentCheck {
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+  const sniffed = sniffMimeType(head);
+
+  if (file.size === 0) {
+    return { ok: false, error: `${file.name} is empty` };
+  }
+  if (BLOCKED_EXTENSIONS.has(extension) || sniffed === 'application/x-executable' || sniffed === 'text/x-shellscript') {
+    return { ok: false, error: `${file.name} can't be sent because it could run as a program` };
+  }
+
+  const declared = (file.type || EXTENSION_TYPES[extension] || 'application/octet-stream').toLowerCase();
+  const declaredKind = getAttachmentKind(declared);
+  const isMediaContainer = !!sniffed && MEDIA_CONTAINER_TYPES.has(sniffed) && (declaredKind === 'audio' || declaredKind === 'video');
+  if (declaredKind !== 'file' && !isMediaContainer && (!sniffed || getAttachmentKind(sniffed) !== declaredKind)) {
+    return { ok: false, error: `${file.name} doesn't look like a valid ${declaredKind}` };
+  }
+
+  // Office documents are zips underneath, so a zip signature keeps the declared type
+  let mimeType = isMediaContainer || !sniffed || sniffed === 'application/zip' ? declared : sniffed;
+  if (ACTIVE_CONTENT_TYPES.has(mimeType)) {
+    mimeType = 'application/octet-stream';
+  }
+  const kind = getAttachmentKind(mimeType);
+
+  if (file.size > ATTACHMENT_SIZE_LIMITS[kind]) {
+    return {
+      ok: false,
+      error: `${file.name} is larger than the ${formatFileSize(ATTACHMENT_SIZE_LIMITS[kind])} limit for ${kind === 'file' ? 'files' : `${kind}s`}`
+    };
+  }
+
+  return { ok: true, kind, mimeType };
+}
+
+/**
+ * Storage path for an attachment: <universe>/<conversation>/<key>.<ext>.
+ * Keys are chosen by the client, so repeating an upload lands on the same object.
+ */
+export function buildAttachmentPath(universeId: string, conversationId: string, key: string, fileName: string): string {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase().replace(/[^a-z0-9]/g, '') : '';
+  return `${universeId}/${conversationId}/${key}${extension ? `.${extension}` : ''}`;
+}
+
+/**
+ * The url an attachment can be shown from without signing its path, or null.
+ * Stored rows are written by the sender's client, so only this device's own local previews
+ * (blob:) and legacy http(s) links without a path are trusted; never javascript: and the like.
+ */
+export function getAttachmentDirectUrl(attachment: MessageAttachment): string | null {
+  const url = attachment.url?.trim();
+  if (!url) return null;
+  if (url.startsWith('blob:')) return url;
+  if (!attachment.path && /^https?:\/\//i.test(url)) return url;
+  return null;
+}
+
+/**
+ * Read messages.attachments, including rows written before the schema was typed
+ * (MIME types in type, filename instead of name, a public url instead of a path)
+ */
+export function normalizeAttachments(value: unknown): MessageAttachment[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is Record<string, any> =>
+      !!item && typeof item === 'object' && (typeof item.path === 'string' || typeof item.url === 'string'))
+    .map(item => {
+      const mimeType = typeof item.mimeType === 'string'
+        ? item.mimeType
+        : typeof item.type === 'string' && item.type.includes('/') ? item.type : '';
+      const type: AttachmentKind = ['image', 'video', 'audio', 'file'].includes(item.type)
+        ? item.type
+        : getAttachmentKind(mimeType);
+      return {
+        ...item,
+        type,
+        path: typeof item.path === 'string' ? item.path : '',
+        name: item.name || item.filename || 'Attachment',
+        size: typeof item.size === 'number' ? item.size : 0,
+        mimeType: mimeType || 'application/octet-stream'
+      } as MessageAttachment;
+    });
+}
@@ -111,3 +111,187 @@ export async function getOrCreateConversation(
   return newConversation.id;
 }
 
+
+export type ConversationRole = 'owner' | 'admin' | 'member';
+
+interface NamedConversation {
+  type?: string;
+  name?: string;
+  participants: {
+    profile_universe_id: string;
+    profile_universe?: {
+      handle?: string;
+      display_name?: string;
+    };
+  }[];
+}
+
+/**
+ * Get the label shown for a conversation: its name, the other participant,
+ * or (for unnamed groups) the first few member names
+ */
+export function getConversationDisplayName(conv: NamedConversation, currentUniverseId?: string): string {
+  if (conv.name) return conv.name;
+  const otherParticipants = conv.participants.filter(p => p.profile_universe_id !== currentUniverseId);
+  if (otherParticipants.length === 0) return 'You';
+  if (otherParticipants.length === 1 && conv.type !== 'group') {
+    return otherParticipants[0].profile_universe?.display_name || otherParticipants[0].profile_universe?.handle || 'Unknown';
+  }
+  const names = otherParticipants
+    .slice(0, 3)
+    .map(p => p.profile_universe?.display_name || p.profile_universe?.handle)
+    .filter(Boolean);
+  if (names.length === 0) return `${otherParticipants.length} participants`;
+  const remaining = otherParticipants.length - names.length;
+  return remaining > 0 ? `${names.join(', ')} +${remaining}` : names.join(', ');
+}
+
+/**
+ * Create a group conversation owned by the creator universe
+ */
+export async function createGroupConversation(
+  creatorUniverseId: string,
+  name: string,
+  memberUniverseIds: string[],
+  avatarUrl?: string | null
+): Promise<string> {
+  const { data, error } = await supabase.rpc('create_group_conversation', {
+    p_creator_universe_id: creatorUniverseId,
+    p_name: name,
+    p_avatar_url: avatarUrl || null,
+    p_member_universe_ids: memberUniverseIds
+  });
+
+  if (error) {
+    throw new Error('Failed to create group: ' + error.message);
+  }
+
+  if (!data) {
+    throw new Error('Failed to create group: No ID returned');
+  }
+
+  return data as string;
+}
+
+/**
+ * Upload a group avatar image and return its public URL
+ */
+export async function uploadGroupAvatar(universeId: string, file: File): Promise<string> {
+  const fileExt = file.name.split('.').pop();
+  const filePath = `${universeId}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from('conversation-avatars')
+    .upload(filePath, file, {
+      contentType: file.type || 'image/png',
+      upsert: false,
+      cacheControl: '3600'
+    });
+
+  if (error) {
+    throw new Error('Failed to upload group avatar: ' + error.message);
+  }
+
+  const { data: { publicUrl } } = supabase.storage
+    .from('conversation-avatars')
+    .getPublicUrl(filePath);
+
+  return publicUrl;
+}
+
+/**
+ * Update a group's name and avatar (owners and admins)
+ */
+export async function updateGroupConversation(
+  conversationId: string,
+  actorUniverseId: string,
+  name: string,
+  avatarUrl?: string | null
+): Promise<void> {
+  const { error } = await supabase.rpc('update_group_conversation', {
+    p_conversation_id: conversationId,
+    p_actor_universe_id: actorUniverseId,
+    p_name: name,
+    p_avatar_url: avatarUrl || null
+  });
+
+  if (error) {
+    throw new Error('Failed to update group: ' + error.message);
+  }
+}
+
+/**
+ * Add members to a group conversation (owners and admins)
+ */
+export async function addConversationMembers(
+  conversationId: string,
+  actorUniverseId: string,
+  memberUniverseIds: string[]
+): Promise<void> {
+  const { error } = await supabase.rpc('add_conversation_members', {
+    p_conversation_id: conversationId,
+    p_actor_universe_id: actorUniverseId,
+    p_member_universe_ids: memberUniverseIds
+  });
+
+  if (error) {
+    throw new Error('Failed to add members: ' + error.message);
+  }
+}
+
+/**
+ * Remove a member from a group conversation
+ */
+export async function removeConversationMember(
+  conversationId: string,
+  actorUniverseId: string,
+  memberUniverseId: string
+): Promise<void> {
+  const { error } = await supabase.rpc('remove_conversation_member', {
+    p_conversation_id: conversationId,
+    p_actor_universe_id: actorUniverseId,
+    p_member_universe_id: memberUniverseId
+  });
+
+  if (error) {
+    throw new Error('Failed to remove member: ' + error.message);
+  }
+}
+
+/**
+ * Change a member's role (owner only). Setting 'owner' transfers ownership.
+ */
+export async function setConversationMemberRole(
+  conversationId: string,
+  actorUniverseId: string,
+  memberUniverseId: string,
+  role: ConversationRole
+): Promise<void> {
+  const { error } = await supabase.rpc('set_conversation_member_role', {
+    p_conversation_id: conversationId,
+    p_actor_universe_id: actorUniverseId,
+    p_member_universe_id: memberUniverseId,
+    p_role: role
+  });
+
+  if (error) {
+    throw new Error('Failed to change member role: ' + error.message);
+  }
+}
+
+/**
+ * Leave a conversation (sets left_at for the acting universe)
+ */
+export async function leaveConversation(
+  conversationId: string,
+  actorUniverseId: string
+): Promise<void> {
+  const { error } = await supabase.rpc('leave_conversation', {
+    p_conversation_id: conversationId,
+    p_actor_universe_id: actorUniverseId
+  });
+
+  if (error) {
+    throw new Error('Failed to leave conversation: ' + error.message);
+  }
+}
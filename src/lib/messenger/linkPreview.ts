@@ -0,0 +1,5 @@
+/**
+ * Link Preview - defined with the edge functions, which deploy without src/
+ */
+
+export * from '../../../supabase/functions/_shared/linkPreview';
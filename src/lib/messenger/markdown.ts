@@ -0,0 +1,433 @@
+/**
+ * Markdown - the formatting subset messages support, parsed into a tree instead of HTML
+ *
+ * Supported: **bold**, _italic_ (or *italic*), ~~strike~~, `inline code`, ``` code blocks ```,
+ * > quotes, - bullet and 1. numbered lists, [links](https://...) and bare http(s) links.
+ * Everything else stays literal text. Renderers turn the tree into text nodes and a fixed set of
+ * elements, so message content can never become markup; links are limited to http(s) and mailto.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'bold' | 'italic' | 'strike'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code_block'; text: string; language?: string }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] };
+
+export type MarkdownFormat =
+  | 'bold'
+  | 'italic'
+  | 'strike'
+  | 'code'
+  | 'code_block'
+  | 'quote'
+  | 'bullet_list'
+  | 'numbered_list'
+  | 'link';
+
+/**
+ * Toolbar entries and their keyboard shortcuts (Ctrl on Windows/Linux, Cmd on macOS)
+ * @property code - KeyboardEvent.code, so shifted digits still match
+ */
+export const MARKDOWN_FORMATS: { format: MarkdownFormat; label: string; code: string; shift: boolean }[] = [
+  { format: 'bold', label: 'Bold', code: 'KeyB', shift: false },
+  { format: 'italic', label: 'Italic', code: 'KeyI', shift: false },
+  { format: 'strike', label: 'Strikethrough', code: 'KeyX', shift: true },
+  { format: 'code', label: 'Code', code: 'KeyE', shift: false },
+  { format: 'code_block', label: 'Code block', code: 'KeyE', shift: true },
+  { format: 'quote', label: 'Quote', code: 'Digit9', shift: true },
+  { format: 'bullet_list', label: 'Bulleted list', code: 'Digit8', shift: true },
+  { format: 'numbered_list', label: 'Numbered list', code: 'Digit7', shift: true },
+  { format: 'link', label: 'Link', code: 'KeyK', shift: false }
+];
+
+const MAX_QUOTE_DEPTH = 3;
+const FENCE = '```';
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_ITEM = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+const QUOTE_LINE = /^\s*>\s?(.*)$/;
+const BARE_URL = /^https?:\/\/[^\s<>"']+/i;
+// Punctuation that usually ends the sentence rather than the URL
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}'"]+$/;
+const ESCAPABLE = '\\`*_~[]()>#-+.!';
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/**
+ * The URL a link may point at, or null for anything that isn't http(s) or mailto
+ */
+export function sanitizeUrl(url: string): string | null {
+  const trimmed = url.trim();
+  // Control characters and whitespace can hide a scheme from simple checks
+  if (!trimmed || /\s/.test(trimmed) || Array.from(trimmed).some(char => char.charCodeAt(0) < 0x20 || char === '\u007f')) {
+    return null;
+  }
+  if (/^https?:\/\//i.test(trimmed)) return trimmed;
+  if (/^mailto:[^@]+@[^@]+$/i.test(trimmed)) return trimmed;
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Inline parsing
+// ---------------------------------------------------------------------------
+
+const isWordChar = (char: string | undefined) => !!char && WORD_CHAR.test(char);
+
+/**
+ * Where the closing delimiter of a span opened at `from` is, or -1
+ * Spans can't start or end with a space, and underscores only count at word boundaries,
+ * so snake_case and 2 * 3 * 4 stay as they are.
+ */
+function findClosing(text: string, delimiter: string, from: number): number {
+  const opensAt = from - delimiter.length;
+  if (!text[from] || /\s/.test(text[from])) return -1;
+  if (delimiter === '_' && isWordChar(text[opensAt - 1])) return -1;
+
+  let index = text.indexOf(delimiter, from + 1);
+  while (index !== -1) {
+    const before = text[index - 1];
+    const after = text[index + delimiter.length];
+    const isEscaped = before === '\\';
+    const closesWord = delimiter !== '_' || !isWordChar(after);
+    // "**" inside an italic span is its own delimiter, not the end of the span
+    const isDoubled = delimiter.length === 1 && (after === delimiter || before === delimiter);
+    if (!isEscaped && !/\s/.test(before) && closesWord && !isDoubled) return index;
+    index = text.indexOf(delimiter, index + 1);
+  }
+  return -1;
+}
+
+/**
+ * Parse the inline formatting of a single block of text
+ */
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    // Backslash escapes a formatting character
+    if (char === '\\' && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const labelEnd = text.indexOf('](', i + 1);
+      const urlEnd = labelEnd === -1 ? -1 : text.indexOf(')', labelEnd + 2);
+      const href = urlEnd === -1 ? null : sanitizeUrl(text.slice(labelEnd + 2, urlEnd));
+      if (href && labelEnd > i + 1) {
+        flush();
+        nodes.push({ type: 'link', href, children: parseInline(text.slice(i + 1, labelEnd)) });
+        i = urlEnd + 1;
+        continue;
+      }
+    }
+
+    if ((char === 'h' || char === 'H') && !isWordChar(text[i - 1])) {
+      const match = text.slice(i).match(BARE_URL);
+      if (match) {
+        let url = match[0].replace(TRAILING_PUNCTUATION, '');
+        // Keep a closing parenthesis that belongs to the URL, e.g. wiki links
+        if (match[0].length > url.length && url.includes('(') && !url.includes(')') && match[0][url.length] === ')') {
+          url += ')';
+        }
+        flush();
+        nodes.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+        i += url.length;
+        continue;
+      }
+    }
+
+    const delimiter =
+      text.startsWith('**', i) ? '**' :
+      text.startsWith('~~', i) ? '~~' :
+      char === '*' || char === '_' ? char :
+      null;
+    if (delimiter) {
+      const start = i + delimiter.length;
+      const end = findClosing(text, delimiter, start);
+      if (end !== -1) {
+        flush();
+        nodes.push({
+          type: delimiter === '**' ? 'bold' : delimiter === '~~' ? 'strike' : 'italic',
+          children: parseInline(text.slice(start, end))
+        });
+        i = end + delimiter.length;
+        continue;
+      }
+      // Unmatched: keep the whole run literal so "**" doesn't reappear as two italics
+      buffer += delimiter;
+      i += delimiter.length;
+      continue;
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+// ---------------------------------------------------------------------------
+// Block parsing
+// ---------------------------------------------------------------------------
+
+function parseBlocks(text: string, depth: number): BlockNode[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    }
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // Fenced code block; an unclosed fence runs to the end of the message
+    if (line.trimStart().startsWith(FENCE)) {
+      flushParagraph();
+      const language = line.trimStart().slice(FENCE.length).trim();
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith(FENCE)) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++; // the closing fence
+      blocks.push({
+        type: 'code_block',
+        text: body.join('\n'),
+        language: /^[\w+#-]{1,20}$/.test(language) ? language : undefined
+      });
+      continue;
+    }
+
+    if (depth < MAX_QUOTE_DEPTH && QUOTE_LINE.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_LINE.test(lines[i])) {
+        quoted.push(lines[i].match(QUOTE_LINE)![1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted.join('\n'), depth + 1) });
+      continue;
+    }
+
+    const bullet = line.match(BULLET_ITEM);
+    const numbered = line.match(NUMBERED_ITEM);
+    if (bullet || numbered) {
+      flushParagraph();
+      const ordered = !bullet;
+      const pattern = ordered ? NUMBERED_ITEM : BULLET_ITEM;
+      const items: InlineNode[][] = [];
+      while (i < lines.length) {
+        const match = lines[i].match(pattern);
+        if (!match) break;
+        items.push(parseInline(ordered ? match[2] : match[1]));
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(numbered![1], 10) : 1, items });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+    i++;
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * Parse a message into blocks
+ */
+export function parseMarkdown(text: string): BlockNode[] {
+  return parseBlocks(text || '', 0);
+}
+
+// ---------------------------------------------------------------------------
+// Plain text
+// ---------------------------------------------------------------------------
+
+function inlineToText(nodes: InlineNode[]): string {
+  return nodes.map(node => 'children' in node ? inlineToText(node.children) : node.text).join('');
+}
+
+function blocksToText(blocks: BlockNode[]): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'paragraph':
+        return inlineToText(block.children);
+      case 'code_block':
+        return block.text;
+      case 'quote':
+        return blocksToText(block.children);
+      case 'list':
+        return block.items
+          .map((item, index) => `${block.ordered ? `${block.start + index}.` : '•'} ${inlineToText(item)}`)
+          .join('\n');
+    }
+  }).join('\n');
+}
+
+/**
+ * A message as plain text, for previews and notifications
+ */
+export function stripMarkdown(text: string): string {
+  if (!text) return '';
+  return blocksToText(parseMarkdown(text));
+}
+
+// ---------------------------------------------------------------------------
+// Composer formatting
+// ---------------------------------------------------------------------------
+
+export interface FormatResult {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const WRAPPERS: Partial<Record<MarkdownFormat, string>> = {
+  bold: '**',
+  italic: '_',
+  strike: '~~',
+  code: '`'
+};
+
+const LINE_PREFIXES: Partial<Record<MarkdownFormat, (index: number) => string>> = {
+  quote: () => '> ',
+  bullet_list: () => '- ',
+  numbered_list: (index) => `${index + 1}. `
+};
+
+const LINE_PREFIX_PATTERNS: Partial<Record<MarkdownFormat, RegExp>> = {
+  quote: /^>\s?/,
+  bullet_list: /^[-*+]\s+/,
+  numbered_list: /^\d{1,9}[.)]\s+/
+};
+
+/**
+ * Apply a format to the selection in a draft, or remove it when the selection already has it
+ */
+export function applyMarkdownFormat(
+  text: string,
+  selectionStart: number,
+  selectionEnd: number,
+  format: MarkdownFormat
+): FormatResult {
+  const before = text.slice(0, selectionStart);
+  const selected = text.slice(selectionStart, selectionEnd);
+  const after = text.slice(selectionEnd);
+
+  const wrapper = WRAPPERS[format];
+  if (wrapper) {
+    // Toggle off when the selection is already wrapped
+    if (before.endsWith(wrapper) && after.startsWith(wrapper)) {
+      return {
+        text: before.slice(0, -wrapper.length) + selected + after.slice(wrapper.length),
+        selectionStart: selectionStart - wrapper.length,
+        selectionEnd: selectionEnd - wrapper.length
+      };
+    }
+    return {
+      text: before + wrapper + selected + wrapper + after,
+      selectionStart: selectionStart + wrapper.length,
+      selectionEnd: selectionEnd + wrapper.length
+    };
+  }
+
+  if (format === 'code_block') {
+    const open = `${before && !before.endsWith('\n') ? '\n' : ''}${FENCE}\n`;
+    const close = `\n${FENCE}${after && !after.startsWith('\n') ? '\n' : ''}`;
+    return {
+      text: before + open + selected + close + after,
+      selectionStart: selectionStart + open.length,
+      selectionEnd: selectionEnd + open.length
+    };
+  }
+
+  if (format === 'link') {
+    const isUrl = !!sanitizeUrl(selected);
+    const label = isUrl || !selected ? 'link' : selected;
+    const url = isUrl ? selected : 'https://';
+    const inserted = `[${label}](${url})`;
+    // Select whatever still needs filling in
+    const start = isUrl
+      ? selectionStart + 1
+      : selectionStart + label.length + 3;
+    return {
+      text: before + inserted + after,
+      selectionStart: start,
+      selectionEnd: start + (isUrl ? label.length : url.length)
+    };
+  }
+
+  // Line formats apply to every line the selection touches
+  const prefix = LINE_PREFIXES[format]!;
+  const prefixPattern = LINE_PREFIX_PATTERNS[format]!;
+  const lineStart = before.lastIndexOf('\n') + 1;
+  const nextBreak = text.indexOf('\n', selectionEnd);
+  const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+  const lines = text.slice(lineStart, lineEnd).split('\n');
+  const isApplied = lines.every(line => prefixPattern.test(line));
+  const updated = lines
+    .map((line, index) => isApplied ? line.replace(prefixPattern, '') : prefix(index) + line)
+    .join('\n');
+
+  return {
+    text: text.slice(0, lineStart) + updated + text.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + updated.length
+  };
+}
+
+/**
+ * The format a keyboard shortcut stands for, if any
+ */
+export function getFormatForShortcut(event: {
+  code: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+}): MarkdownFormat | null {
+  if (!event.ctrlKey && !event.metaKey) return null;
+  const match = MARKDOWN_FORMATS.find(f =>
+    !event.altKey && f.code === event.code && f.shift === event.shiftKey
+  );
+  return match?.format || null;
+}
@@ -0,0 +1,110 @@
+/**
+ * Mentions - @handle parsing and the mention entities stored in messages.metadata.mentions
+ *
+ * Mentions are matched back to the text by handle rather than by offset, so an edited
+ * message keeps highlighting every mention whose @handle it still contains.
+ */
+
+export interface MessageMention {
+  profile_universe_id: string;
+  handle: string;
+}
+
+export interface MentionCandidate {
+  id: string; // profile_universe_id
+  handle: string;
+  display_name?: string;
+  avatar_url?: string;
+}
+
+// An @ at the start of the text or after whitespace, followed by the handle typed so far
+const MENTION_QUERY_PATTERN = /(?:^|\s)@([\w.-]*)$/;
+const HANDLE_CHAR = /[\w.-]/;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The mention being typed at the caret, if any
+ * @returns The partial handle and the index of its @
+ */
+export function findMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = text.slice(0, caret).match(MENTION_QUERY_PATTERN);
+  if (!match) return null;
+  return { query: match[1], start: caret - match[1].length - 1 };
+}
+
+/**
+ * Replace the partial mention between start and caret with the full @handle
+ * @returns The new text and where the caret goes
+ */
+export function insertMention(text: string, start: number, caret: number, handle: string): { text: string; caret: number } {
+  const inserted = `@${handle} `;
+  const rest = text.slice(caret).replace(/^\s/, '');
+  return {
+    text: text.slice(0, start) + inserted + rest,
+    caret: start + inserted.length
+  };
+}
+
+/**
+ * Whether the text contains @handle as a whole token
+ */
+function containsHandle(text: string, handle: string): boolean {
+  const pattern = new RegExp(`(^|[^\\w.-])@${escapeRegExp(handle)}(?![\\w-]|\\.[\\w-])`, 'i');
+  return pattern.test(text);
+}
+
+/**
+ * The mentions to store with a message: the picked candidates whose @handle survived editing
+ */
+export function collectMentions(text: string, picked: MentionCandidate[]): MessageMention[] {
+  const mentions = new Map<string, MessageMention>();
+  for (const candidate of picked) {
+    if (!mentions.has(candidate.id) && containsHandle(text, candidate.handle)) {
+      mentions.set(candidate.id, { profile_universe_id: candidate.id, handle: candidate.handle });
+    }
+  }
+  return Array.from(mentions.values());
+}
+
+/**
+ * Split message text into plain runs and mention runs for rendering
+ */
+export function splitByMentions(
+  text: string,
+  mentions: MessageMention[] | null | undefined
+): Array<{ text: string; mention?: MessageMention }> {
+  if (!text || !mentions?.length) return [{ text }];
+
+  const byHandle = new Map(mentions.map(m => [m.handle.toLowerCase(), m]));
+  const segments: Array<{ text: string; mention?: MessageMention }> = [];
+  let plainStart = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] !== '@' || (i > 0 && HANDLE_CHAR.test(text[i - 1]))) continue;
+
+    let end = i + 1;
+    while (end < text.length && HANDLE_CHAR.test(text[end])) end++;
+    // A trailing dot ends the sentence, not the handle
+    while (end > i + 1 && text[end - 1] === '.') end--;
+
+    const mention = byHandle.get(text.slice(i + 1, end).toLowerCase());
+    if (!mention) continue;
+
+    if (i > plainStart) segments.push({ text: text.slice(plainStart, i) });
+    segments.push({ text: text.slice(i, end), mention });
+    plainStart = end;
+    i = end - 1;
+  }
+
+  if (plainStart < text.length) segments.push({ text: text.slice(plainStart) });
+  return segments;
+}
+
+/**
+ * Whether a message's metadata mentions the given universe
+ */
+export function isMentioned(metadata: { mentions?: MessageMention[] } | null | undefined, universeId: string | undefined): boolean {
+  if (!universeId || !Array.isArray(metadata?.mentions)) return false;
+  return metadata!.mentions!.some(m => m.profile_universe_id === universeId);
+}
@@ -0,0 +1,69 @@
+/**
+ * Notification Preferences - timed mutes and notification levels, stored per participant
+ * on conversation_participants
+ */
+
+export type NotificationLevel = 'all' | 'mentions' | 'none';
+
+export type MuteDuration = '1h' | '8h' | '1w' | 'forever';
+
+export const MUTE_DURATIONS: { value: MuteDuration; label: string; ms: number | null }[] = [
+  { value: '1h', label: 'For 1 hour', ms: 60 * 60 * 1000 },
+  { value: '8h', label: 'For 8 hours', ms: 8 * 60 * 60 * 1000 },
+  { value: '1w', label: 'For 1 week', ms: 7 * 24 * 60 * 60 * 1000 },
+  { value: 'forever', label: 'Until I turn it back on', ms: null }
+];
+
+export const NOTIFICATION_LEVELS: { value: NotificationLevel; label: string; description: string }[] = [
+  { value: 'all', label: 'All messages', description: 'Notify for every new message' },
+  { value: 'mentions', label: 'Mentions only', description: 'Only when someone mentions you' },
+  { value: 'none', label: 'Nothing', description: 'Never notify for messages' }
+];
+
+interface MuteState {
+  is_muted?: boolean;
+  muted_until?: string | null;
+}
+
+/**
+ * When a mute of the given length ends; null for a mute that lasts until turned off
+ */
+export function getMutedUntil(duration: MuteDuration, now: Date = new Date()): string | null {
+  const option = MUTE_DURATIONS.find(d => d.value === duration);
+  if (!option?.ms) return null;
+  return new Date(now.getTime() + option.ms).toISOString();
+}
+
+/**
+ * Whether a mute is in force; timed mutes lapse on their own once muted_until passes
+ */
+export function isMuteActive(state: MuteState | null | undefined, now: number = Date.now()): boolean {
+  if (!state?.is_muted) return false;
+  if (!state.muted_until) return true;
+  return new Date(state.muted_until).getTime() > now;
+}
+
+interface NotifyPreferences extends MuteState {
+  notification_level?: NotificationLevel | null;
+  notify_mentions_when_muted?: boolean | null;
+}
+
+/**
+ * Whether a new message should notify, given the recipient's preferences.
+ * A mute silences everything except mentions, for recipients who opted in to those.
+ * @param isMention - The message mentions the recipient
+ */
+export function shouldNotify(
+  preferences: NotifyPreferences | null | undefined,
+  isMention: boolean,
+  now: number = Date.now()
+): boolean {
+  const level = preferences?.notification_level || 'all';
+  if (level === 'none') return false;
+
+  if (isMuteActive(preferences, now)) {
+    return isMention && !!preferences?.notify_mentions_when_muted;
+  }
+
+  return level === 'mentions' ? isMention : true;
+}
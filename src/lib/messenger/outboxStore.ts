@@ -0,0 +1,117 @@
+/**
+ * Outbox Store - IndexedDB persistence for messages and reactions that haven't reached the server yet
+ *
+ * Items survive reloads and going offline; useMessageOutbox drains them once the network is back.
+ */
+
+import type { MessageAttachment } from '@/lib/messenger/attachments';
+
+const DB_NAME = 'dragvertising-messenger';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+export type OutboxItemStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxAttachment {
+  file: Blob;
+  name: string;
+  type: string;
+  size: number;
+  // Storage path the composer already started uploading to; resumed rather than restarted
+  path?: string;
+  // Set once the upload has finished, so a retry only resends the message
+  uploaded?: MessageAttachment;
+}
+
+interface OutboxItemBase {
+  id: string; // Client-generated; for messages this becomes messages.id
+  universeId: string;
+  conversationId: string;
+  createdAt: string;
+  status: OutboxItemStatus;
+  attempts: number;
+  nextAttemptAt: number; // epoch ms
+  lastError?: string;
+}
+
+export interface OutboxMessageItem extends OutboxItemBase {
+  kind: 'message';
+  content: string;
+  attachments: OutboxAttachment[];
+  replyToMessageId: string | null;
+  threadRootId?: string | null;
+  metadata?: Record<string, any> | null;
+}
+
+export interface OutboxReactionItem extends OutboxItemBase {
+  kind: 'reaction';
+  messageId: string;
+  emoji: string;
+  action: 'add' | 'remove';
+}
+
+export type OutboxItem = OutboxMessageItem | OutboxReactionItem;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('universeId', 'universeId', { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error('Failed to open outbox database'));
+    };
+  });
+
+  return dbPromise;
+}
+
+function runRequest<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error || new Error('Outbox transaction failed'));
+    transaction.onabort = () => reject(transaction.error || new Error('Outbox transaction aborted'));
+  }));
+}
+
+/**
+ * Get every queued item for a universe, oldest first
+ */
+export async function getOutboxItems(universeId: string): Promise<OutboxItem[]> {
+  const items = await runRequest<OutboxItem[]>('readonly', store =>
+    store.index('universeId').getAll(universeId)
+  );
+  return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Insert or replace a queued item
+ */
+export async function putOutboxItem(item: OutboxItem): Promise<void> {
+  await runRequest('readwrite', store => store.put(item));
+}
+
+/**
+ * Remove a queued item once it has been delivered or discarded
+ */
+export async function deleteOutboxItem(id: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(id));
+}
@@ -0,0 +1,47 @@
+/**
+ * Search Snippet Utilities
+ * Parses highlighted snippets returned by the search_messages RPC
+ */
+
+// Markers used by ts_headline in search_messages (see the full-text search migration)
+export const SNIPPET_HIGHLIGHT_START = '\u0002';
+export const SNIPPET_HIGHLIGHT_END = '\u0003';
+
+export interface SnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Split a snippet into plain and highlighted segments.
+ * Rendering segments as text nodes keeps message content from ever being treated as HTML.
+ */
+export function parseSnippet(snippet: string): SnippetSegment[] {
+  return createSnippetParser()(snippet);
+}
+
+/**
+ * Like parseSnippet, for a snippet that is rendered in pieces (e.g. the text runs of
+ * formatted content); a highlight opened in one piece carries on into the next
+ */
+export function createSnippetParser(): (text: string) => SnippetSegment[] {
+  let highlighted = false;
+
+  return (text: string) => {
+    const segments: SnippetSegment[] = [];
+    let current = '';
+
+    for (const char of text) {
+      if (char === SNIPPET_HIGHLIGHT_START || char === SNIPPET_HIGHLIGHT_END) {
+        if (current) segments.push({ text: current, highlighted });
+        current = '';
+        highlighted = char === SNIPPET_HIGHLIGHT_START;
+      } else {
+        current += char;
+      }
+    }
+
+    if (current) segments.push({ text: current, highlighted });
+    return segments;
+  };
+}
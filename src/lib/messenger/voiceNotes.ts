@@ -0,0 +1,62 @@
+/**
+ * Voice Notes - what a voice message keeps in metadata.voice, and which ones this device has played
+ *
+ * The transcript shape is defined with the edge functions, see supabase/functions/_shared/voiceTranscript.ts
+ */
+
+import type { VoiceTranscript } from '../../../supabase/functions/_shared/voiceTranscript';
+
+export * from '../../../supabase/functions/_shared/voiceTranscript';
+
+export interface VoiceNoteMetadata {
+  duration: number; // seconds
+  peaks: number[]; // 0..1, see src/lib/audio/waveform.ts
+  transcript?: VoiceTranscript;
+}
+
+// Recording stops by itself at this length (seconds)
+export const MAX_VOICE_NOTE_SECONDS = 300;
+
+export const VOICE_PLAYBACK_RATES = [1, 1.5, 2] as const;
+export type VoicePlaybackRate = typeof VOICE_PLAYBACK_RATES[number];
+
+const PLAYED_STORAGE_KEY = 'messenger:played-voice-notes';
+// Oldest entries are forgotten; by then the notes are far up the history
+const MAX_PLAYED_ENTRIES = 500;
+
+/**
+ * metadata.voice when the message is a voice note with a usable waveform
+ */
+export function getVoiceNote(metadata: unknown): VoiceNoteMetadata | null {
+  const voice = (metadata as { voice?: Partial<VoiceNoteMetadata> } | null)?.voice;
+  if (!voice || typeof voice.duration !== 'number' || !Array.isArray(voice.peaks)) return null;
+  return voice as VoiceNoteMetadata;
+}
+
+export function formatVoiceDuration(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+}
+
+function readPlayed(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PLAYED_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+export function hasPlayedVoiceNote(messageId: string): boolean {
+  return readPlayed().includes(messageId);
+}
+
+export function markVoiceNotePlayed(messageId: string): void {
+  const played = readPlayed();
+  if (played.includes(messageId)) return;
+  try {
+    localStorage.setItem(PLAYED_STORAGE_KEY, JSON.stringify([...played, messageId].slice(-MAX_PLAYED_ENTRIES)));
+  } catch {
+    // Without storage the note just shows as unplayed again next time
+  }
+}
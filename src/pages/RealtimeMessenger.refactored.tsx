@@ -10,9 +10,13 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useUniverse } from '@/hooks/shared/useUniverse';
 import { supabase } from '@/integrations/supabase/client';
 import type { RealtimeChannel } from '@supabase/supabase-js';
-import { ConversationList } from '@/components/messenger/ConversationList';
+import { ConversationList, type ConversationFilter } from '@/components/messenger/ConversationList';
 import { MessageArea } from '@/components/messenger/MessageArea';
 import { MessageInput } from '@/components/messenger/MessageInput';
+import type { ComposerAttachment } from '@/hooks/shared/useAttachmentUploads';
+import { attachmentService } from '@/services/shared/attachmentService';
+import { messagingService } from '@/services/shared/messagingService';
+import { buildAttachmentPath } from '@/lib/messenger/attachments';
 import { Button, Dialog, DialogContent, DialogHeader, DialogTitle, Input, Avatar, AvatarFallback, AvatarImage } from '@/lib/design-system';
 import { Loader2, UserPlus, X } from 'lucide-react';
 import { toast } from '@/hooks/shared/use-toast';
@@ -88,7 +92,7 @@ export default function RealtimeMessenger() {
   
   // UI State
   const [conversationSearchQuery, setConversationSearchQuery] = useState('');
-  const [conversationFilter, setConversationFilter] = useState<'all' | 'unread' | 'pinned' | 'archived'>('all');
+  const [conversationFilter, setConversationFilter] = useState<ConversationFilter>('all');
   const [isNewMessageDialogOpen, setIsNewMessageDialogOpen] = useState(false);
   const [newMessageSearchQuery, setNewMessageSearchQuery] = useState('');
   const [newMessageSearchResults, setNewMessageSearchResults] = useState<any[]>([]);
@@ -353,7 +357,7 @@ export default function RealtimeMessenger() {
   // =====================================================
   // SEND MESSAGE
   // =====================================================
-  const sendMessage = useCallback(async (content: string, attachments?: File[]) => {
+  const sendMessage = useCallback(async (content: string, attachments?: ComposerAttachment[]) => {
     if (!selectedConversation || !universe?.id || !user?.id) {
       toast.error('Please select a conversation');
       return;
@@ -365,12 +369,14 @@ export default function RealtimeMessenger() {
 
     setIsSendingMessage(true);
     try {
-      // Upload attachments if any
-      let attachmentUrls: any[] = [];
-      if (attachments && attachments.length > 0) {
-        // TODO: Implement file upload to Supabase Storage
-        console.log('[RealtimeMessenger] File upload not yet implemented');
-      }
+      // Finish any uploads the composer started
+      const uploaded = await Promise.all((attachments || []).map(entry =>
+        entry.attachment || attachmentService.uploadAttachment(
+          entry.file,
+          entry.file.name,
+          entry.path || buildAttachmentPath(universe.id, selectedConversation.id, entry.id, entry.file.name)
+        )
+      ));
 
       // Create message
       const { data: newMessage, error } = await supabase
@@ -380,8 +386,8 @@ export default function RealtimeMessenger() {
           sender_id: user.id,
           sender_profile_universe_id: universe.id,
           content: content.trim(),
-          message_type: 'text',
-          attachments: attachmentUrls.length > 0 ? attachmentUrls : null,
+          message_type: messagingService.getMessageTypeForAttachments(uploaded),
+          attachments: uploaded.length > 0 ? uploaded : null,
           metadata: {}
         })
         .select(`
@@ -610,6 +616,8 @@ export default function RealtimeMessenger() {
               onSendMessage={sendMessage}
               onTyping={handleTyping}
               isSending={isSendingMessage}
+              currentUniverseId={universe.id}
+              conversationId={selectedConversation.id}
               placeholder={`Message ${selectedConversation.name || 'conversation'}...`}
             />
           </>
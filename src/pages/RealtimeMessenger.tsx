@@ -4,7 +4,7 @@
  * Simplified architecture with modular components and better error handling
  */
 
-import React, { useState, useEffect, useCallback, useRef, lazy, Suspense } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef, lazy, Suspense } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
@@ -21,21 +21,143 @@ import {
   useVideoCallInvitations,
   useMessengerClient,
   getOrCreateConversation,
-  playRingtone,
-  stopRingtone,
-  initializeAudioContext,
   toast,
   type Conversation,
   type ConversationParticipant,
   type Message,
   type VideoCall
 } from '@dragvertising/messenger';
-import { Button, Dialog, DialogContent, DialogHeader, DialogTitle, Input, Avatar, AvatarFallback, AvatarImage } from '@/lib/design-system';
-import { Loader2, UserPlus, X, Menu, Video, Search, Bell, BellOff, Phone } from 'lucide-react';
+import { Button, Dialog, DialogContent, DialogHeader, DialogTitle, Input, Avatar, AvatarFallback, AvatarImage, DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/lib/design-system';
+import { Loader2, UserPlus, X, Menu, Video, Search, Bell, BellOff, Phone, Users, CalendarClock, Pin, Settings } from 'lucide-react';
+import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { messagingService } from '@/services/shared/messagingService';
+import { playRingtone, stopRingtone, initializeAudioContext, playMessageSound } from '@/lib/audio/ringtone';
+import { MUTE_DURATIONS, getMutedUntil, isMuteActive, shouldNotify, type MuteDuration } from '@/lib/messenger/notificationPreferences';
+import { isMentioned, type MentionCandidate } from '@/lib/messenger/mentions';
+import { stripMarkdown } from '@/lib/messenger/markdown';
+import { getAttachmentKind, type MessageAttachment } from '@/lib/messenger/attachments';
+import { MessageEditHistoryDialog } from '@/components/messenger/MessageEditHistoryDialog';
+import { ForwardMessageDialog } from '@/components/messenger/ForwardMessageDialog';
+import { CreateGroupDialog, type CreateGroupData } from '@/components/messenger/CreateGroupDialog';
+import { GroupMembersDialog } from '@/components/messenger/GroupMembersDialog';
+import { MessageSearchPanel } from '@/components/messenger/MessageSearchPanel';
+import { useMessageOutbox } from '@/hooks/shared/useMessageOutbox';
+import type { OutboxMessageItem } from '@/lib/messenger/outboxStore';
+import type { ComposedMessageMetadata } from '@/components/messenger/MessageInput';
+import type { ConversationFilter } from '@/components/messenger/ConversationList';
+import { useScheduledMessages } from '@/hooks/shared/useScheduledMessages';
+import { useMessageDrafts, type ComposerDraft } from '@/hooks/shared/useMessageDrafts';
+import type { ComposerAttachment } from '@/hooks/shared/useAttachmentUploads';
+import { useMessageThread } from '@/hooks/shared/useMessageThread';
+import { usePinnedMessages } from '@/hooks/shared/usePinnedMessages';
+import { useReadReceipts } from '@/hooks/shared/useReadReceipts';
+import { isOngoingVideoCall } from '@/hooks/shared/useVideoCallInvitations';
+import { ThreadPanel } from '@/components/messenger/ThreadPanel';
+import { PinnedMessagesPanel } from '@/components/messenger/PinnedMessagesPanel';
+import { ScheduledMessagesDialog } from '@/components/messenger/ScheduledMessagesDialog';
+import { NotificationSettingsDialog } from '@/components/messenger/NotificationSettingsDialog';
+import type { MessageSearchResult, InboxConversation, InboxCursor, ConversationFlags, NotificationPreferences } from '@/services/shared/messagingService';
+import {
+  createGroupConversation,
+  uploadGroupAvatar,
+  updateGroupConversation,
+  addConversationMembers,
+  removeConversationMember,
+  setConversationMemberRole,
+  leaveConversation,
+  getConversationDisplayName,
+  type ConversationRole
+} from '@/lib/messenger/conversationUtils';
 
 // Types are now imported from @dragvertising/messenger package
 
+const MESSAGE_PAGE_SIZE = 50;
+const INBOX_PAGE_SIZE = 50;
+
+// Convert a row from messagingService.getConversationInbox into the Conversation shape
+function formatInboxConversation(c: InboxConversation): Conversation {
+  return {
+    id: c.id,
+    type: c.type,
+    name: c.name,
+    avatar_url: c.avatar_url,
+    last_message_at: c.activity_at,
+    last_read_at: c.last_read_at,
+    metadata: c.metadata,
+    participants: c.participants.map(p => ({
+      ...p,
+      role: p.role || 'member'
+    })),
+    last_message: c.last_message ? {
+      id: c.last_message.id,
+      content: c.last_message.content,
+      sender_profile_universe_id: c.last_message.sender_profile_universe_id,
+      created_at: c.last_message.created_at
+    } : undefined,
+    unread_count: c.unread_count,
+    unread_mention_count: c.unread_mention_count || 0
+  };
+}
+
+// Insert or replace an inbox entry, keeping the list in activity order
+function upsertInboxEntry(list: Conversation[], entry: Conversation): Conversation[] {
+  const rest = list.filter(c => c.id !== entry.id);
+  const index = rest.findIndex(c => (c.last_message_at || '') < (entry.last_message_at || ''));
+  return index === -1 ? [...rest, entry] : [...rest.slice(0, index), entry, ...rest.slice(index)];
+}
+
+// Convert a row from messagingService.getConversationMessages into the Message shape
+function formatMessageRow(m: any): Message {
+  const senderProfile = Array.isArray(m.profile_universes)
+    ? m.profile_universes[0]
+    : m.profile_universes;
+
+  // Format reactions
+  const reactions = (m.message_reactions || []).map((r: any) => ({
+    id: r.id,
+    emoji: r.emoji,
+    profile_universe_id: r.profile_universe_id,
+    created_at: r.created_at,
+    profile_universes: Array.isArray(r.profile_universes) ? r.profile_universes[0] : r.profile_universes
+  }));
+
+  // Format reply to message
+  let replyToMessage = null;
+  if (m.reply_to_message) {
+    const replyProfile = Array.isArray(m.reply_to_message.profile_universes)
+      ? m.reply_to_message.profile_universes[0]
+      : m.reply_to_message.profile_universes;
+
+    replyToMessage = {
+      id: m.reply_to_message.id,
+      content: m.reply_to_message.content,
+      sender_profile_universe_id: m.reply_to_message.sender_profile_universe_id,
+      sender_profile: replyProfile
+    };
+  }
+
+  return {
+    id: m.id,
+    conversation_id: m.conversation_id,
+    sender_id: m.sender_id,
+    sender_profile_universe_id: m.sender_profile_universe_id,
+    content: m.content,
+    message_type: m.message_type,
+    created_at: m.created_at,
+    updated_at: m.updated_at,
+    edited_at: m.edited_at,
+    deleted_at: m.deleted_at,
+    reply_to_message_id: m.reply_to_message_id,
+    read_at: m.read_at,
+    metadata: m.metadata || {},
+    attachments: m.attachments,
+    sender_profile: senderProfile || undefined,
+    reactions: reactions,
+    reply_to_message: replyToMessage
+  };
+}
+
 export default function RealtimeMessenger() {
   const { user, session } = useAuth();
   const supabaseClient = useMessengerClient();
@@ -47,16 +169,25 @@ export default function RealtimeMessenger() {
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoadingConversations, setIsLoadingConversations] = useState(true);
+  const [hasMoreConversations, setHasMoreConversations] = useState(false);
+  const [isLoadingMoreConversations, setIsLoadingMoreConversations] = useState(false);
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
-  const [isSendingMessage, setIsSendingMessage] = useState(false);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [hasNewerMessages, setHasNewerMessages] = useState(false);
+  const [isLoadingOlderMessages, setIsLoadingOlderMessages] = useState(false);
+  const [isLoadingNewerMessages, setIsLoadingNewerMessages] = useState(false);
   
   // UI State
   const [conversationSearchQuery, setConversationSearchQuery] = useState('');
-  const [conversationFilter, setConversationFilter] = useState<'all' | 'unread' | 'pinned' | 'archived'>('all');
+  const [conversationFilter, setConversationFilter] = useState<ConversationFilter>('all');
   const [isNewMessageDialogOpen, setIsNewMessageDialogOpen] = useState(false);
   const [newMessageSearchQuery, setNewMessageSearchQuery] = useState('');
   const [newMessageSearchResults, setNewMessageSearchResults] = useState<any[]>([]);
   const [isSearchingUsers, setIsSearchingUsers] = useState(false);
+  const [isCreateGroupOpen, setIsCreateGroupOpen] = useState(false);
+  const [isGroupMembersOpen, setIsGroupMembersOpen] = useState(false);
+  const [isScheduledMessagesOpen, setIsScheduledMessagesOpen] = useState(false);
+  const [isNotificationSettingsOpen, setIsNotificationSettingsOpen] = useState(false);
   
   // Mobile responsive state
   const [showSidebar, setShowSidebar] = useState(true);
@@ -70,14 +201,46 @@ export default function RealtimeMessenger() {
   const [onlineUsers, setOnlineUsers] = useState<Map<string, { universe_id: string; display_name: string; last_seen?: string }>>(new Map());
   
   // Message search
-  const [messageSearchQuery, setMessageSearchQuery] = useState('');
   const [showMessageSearch, setShowMessageSearch] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const highlightTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Message to open the next conversation load around, instead of the latest page
+  const pendingJumpMessageIdRef = useRef<string | null>(null);
+  const hasNewerMessagesRef = useRef(false);
+  hasNewerMessagesRef.current = hasNewerMessages;
+
+  // Threads
+  const [activeThreadRoot, setActiveThreadRoot] = useState<Message | null>(null);
+  const [threadUnreadCounts, setThreadUnreadCounts] = useState<Record<string, number>>({});
+  const activeThreadRootIdRef = useRef<string | null>(null);
+  activeThreadRootIdRef.current = activeThreadRoot?.id || null;
+  const {
+    replies: threadReplyRows,
+    isLoading: isLoadingThread,
+    refresh: refreshThread,
+    addReply: addThreadReply
+  } = useMessageThread(activeThreadRoot?.id || null, universe?.id || null);
+
+  // Pinned messages
+  const [showPinnedMessages, setShowPinnedMessages] = useState(false);
+  const {
+    pinnedMessages,
+    isLoading: isLoadingPinnedMessages,
+    refresh: refreshPinnedMessages,
+    pinMessage,
+    unpinMessage
+  } = usePinnedMessages(selectedConversation?.id || null);
+
+  // Read receipts
+  const { readReceipts } = useReadReceipts(selectedConversation?.id || null);
+  const lastMarkedReadIdRef = useRef<string | null>(null);
   
   // Video/Voice call
   const [isVideoCallOpen, setIsVideoCallOpen] = useState(false);
   const [isVoiceOnlyCall, setIsVoiceOnlyCall] = useState(false);
   const [incomingCall, setIncomingCall] = useState<any | null>(null);
   const [activeCall, setActiveCall] = useState<any | null>(null); // Track active call for indicator
+  const [joiningCall, setJoiningCall] = useState<VideoCall | null>(null); // Call already going on, joined late
   
   // Reply to message
   const [replyingToMessage, setReplyingToMessage] = useState<Message | null>(null);
@@ -85,10 +248,24 @@ export default function RealtimeMessenger() {
   // Image lightbox
   const [selectedImage, setSelectedImage] = useState<{ url: string; name?: string } | null>(null);
 
+  // Message edit history dialog
+  const [editHistoryMessage, setEditHistoryMessage] = useState<Message | null>(null);
+
+  // Message being forwarded
+  const [forwardingMessage, setForwardingMessage] = useState<Message | null>(null);
+
   // Refs
   const conversationChannelRef = useRef<RealtimeChannel | null>(null);
   const presenceChannelRef = useRef<RealtimeChannel | null>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const conversationsRef = useRef<Conversation[]>([]);
+  conversationsRef.current = conversations;
+  const selectedConversationIdRef = useRef<string | null>(null);
+  selectedConversationIdRef.current = selectedConversation?.id || null;
+  const searchParamsRef = useRef(searchParams);
+  searchParamsRef.current = searchParams;
+  // Where the next inbox page starts; live updates can add entries past it without moving it
+  const inboxCursorRef = useRef<InboxCursor | null>(null);
 
   // =====================================================
   // REALTIME AUTH SETUP
@@ -171,7 +348,7 @@ export default function RealtimeMessenger() {
       // Find the conversation and get caller name
       const conversation = conversations.find(c => c.id === call.conversation_id);
       const callerName = conversation?.participants
-        .find(p => p.profile_universe_id !== universe.id)
+        .find(p => p.profile_universe_id === call.caller_profile_universe_id)
         ?.profile_universe?.display_name || 'Someone';
       
       // Request notification permission if not already granted
@@ -192,14 +369,19 @@ export default function RealtimeMessenger() {
       console.log('[RealtimeMessenger] Attempting to play ringtone for incoming call');
       initializeAudioContext();
       
+      // Each conversation can have its own ringtone
+      const ringtone = conversation?.participants
+        .find(p => p.profile_universe_id === universe.id)
+        ?.ringtone;
+
       // Try to play immediately
-      playRingtone();
+      playRingtone(ringtone);
       
       // Also try after a short delay (in case audio context needs to resume)
       // This helps when the audio context was suspended and needs time to resume
       setTimeout(() => {
         console.log('[RealtimeMessenger] Retrying ringtone after delay');
-        playRingtone();
+        playRingtone(ringtone);
       }, 300);
       
       // Find the conversation and select it
@@ -216,10 +398,10 @@ export default function RealtimeMessenger() {
       console.log('[RealtimeMessenger] Call status changed:', call);
       
       // Update active call state
-      if (call.status === 'ringing' || call.status === 'accepted') {
+      if (isOngoingVideoCall(call)) {
         setActiveCall(call);
       } else {
-        setActiveCall(null);
+        setActiveCall((prev: VideoCall | null) => (prev?.id === call.id ? null : prev));
       }
       
       // Stop ringing when call is answered or rejected
@@ -228,6 +410,7 @@ export default function RealtimeMessenger() {
         
         if (call.status === 'ended' || call.status === 'rejected') {
           setIncomingCall(null);
+          setJoiningCall((prev: VideoCall | null) => (prev?.id === call.id ? null : prev));
           if (call.id === incomingCall?.id) {
             setIsVideoCallOpen(false);
           }
@@ -236,6 +419,11 @@ export default function RealtimeMessenger() {
     }
   });
 
+  // A call someone else started in the open conversation, which can still be joined
+  const selectedOngoingCall = selectedConversation
+    ? (videoCallInvitations.ongoingCalls as VideoCall[]).find(call => call.conversation_id === selectedConversation.id) || null
+    : null;
+
   // =====================================================
   // LOAD CONVERSATIONS
   // =====================================================
@@ -249,144 +437,42 @@ export default function RealtimeMessenger() {
     try {
       console.log('[RealtimeMessenger] Loading conversations for universe:', universe.id);
 
-      // Get conversations where user is a participant
-      const { data: participants, error: participantsError } = await supabase
-        .from('conversation_participants')
-        .select(`
-          conversation_id,
-          is_archived,
-          is_muted,
-          is_pinned,
-          last_read_at,
-          profile_universe_id,
-          profile_universes:profile_universe_id(
-            id,
-            handle,
-            display_name,
-            avatar_url
-          )
-        `)
-        .eq('profile_universe_id', universe.id)
-        .is('left_at', null);
-
-      if (participantsError) throw participantsError;
-      if (!participants || participants.length === 0) {
-        setConversations([]);
-        setIsLoadingConversations(false);
-        return;
-      }
-
-      const conversationIds = participants.map(p => p.conversation_id);
-
-      // Get conversation details
-      const { data: conversationsData, error: conversationsError } = await supabase
-        .from('conversations')
-        .select('*')
-        .in('id', conversationIds);
-
-      if (conversationsError) throw conversationsError;
-
-      // Get last messages for each conversation
-      const { data: lastMessages, error: messagesError } = await supabase
-        .from('messages')
-        .select('conversation_id, content, sender_profile_universe_id, created_at')
-        .in('conversation_id', conversationIds)
-        .is('deleted_at', null)
-        .order('created_at', { ascending: false });
-
-      if (messagesError) console.warn('Error loading last messages:', messagesError);
-
-      // Get all participants for each conversation
-      const { data: allParticipants, error: allParticipantsError } = await supabase
-        .from('conversation_participants')
-        .select(`
-          conversation_id,
-          profile_universe_id,
-          is_archived,
-          is_muted,
-          is_pinned,
-          last_read_at,
-          profile_universes:profile_universe_id(
-            id,
-            handle,
-            display_name,
-            avatar_url
-          )
-        `)
-        .in('conversation_id', conversationIds)
-        .is('left_at', null);
-
-      if (allParticipantsError) console.warn('Error loading all participants:', allParticipantsError);
-
-      // Build conversation list and count unread messages
-      const conversationMap = new Map<string, Conversation>();
-      
-      // Get all messages for unread counting (more efficient than per-conversation queries)
-      const { data: allMessages, error: allMessagesError } = await supabase
-        .from('messages')
-        .select('conversation_id, created_at')
-        .in('conversation_id', conversationIds)
-        .is('deleted_at', null);
-
-      if (allMessagesError) console.warn('Error loading messages for unread count:', allMessagesError);
-
-      // Count unread messages for each conversation
-      const unreadCounts = new Map<string, number>();
-      conversationsData?.forEach(conv => {
-        const participant = participants.find(p => p.conversation_id === conv.id);
-        const conversationMessages = allMessages?.filter(m => m.conversation_id === conv.id) || [];
-        
-        if (!participant?.last_read_at) {
-          // If never read, count all messages
-          unreadCounts.set(conv.id, conversationMessages.length);
-        } else {
-          // Count messages created after last_read_at
-          const lastReadTime = new Date(participant.last_read_at);
-          const unread = conversationMessages.filter(m => 
-            new Date(m.created_at) > lastReadTime
-          ).length;
-          unreadCounts.set(conv.id, unread);
-        }
-      });
-      
-      conversationsData?.forEach(conv => {
-        const participant = participants.find(p => p.conversation_id === conv.id);
-        const lastMessage = lastMessages?.find(m => m.conversation_id === conv.id);
-        const convParticipants = allParticipants?.filter(p => p.conversation_id === conv.id) || [];
-
-        // Get unread count from pre-calculated map
-        const unreadCount = unreadCounts.get(conv.id) || 0;
-
-        conversationMap.set(conv.id, {
-          id: conv.id,
-          type: conv.type,
-          name: conv.name,
-          last_message_at: lastMessage?.created_at || conv.created_at,
-          metadata: conv.metadata,
-          participants: convParticipants.map(p => ({
-            profile_universe_id: p.profile_universe_id,
-            is_archived: p.is_archived || false,
-            is_muted: p.is_muted || false,
-            is_pinned: p.is_pinned || false,
-            profile_universe: p.profile_universes
-          })),
-          last_message: lastMessage ? {
-            content: lastMessage.content,
-            sender_profile_universe_id: lastMessage.sender_profile_universe_id,
-            created_at: lastMessage.created_at
-          } : undefined,
-          unread_count: unreadCount
-        });
+      // Keep at least as many entries as are already loaded so a reload doesn't drop pages.
+      // Pins always sit at the top, so they're loaded however old they are.
+      const [inbox, pinned] = await Promise.all([
+        messagingService.getConversationInbox(universe.id, {
+          limit: Math.max(INBOX_PAGE_SIZE, conversationsRef.current.length)
+        }),
+        messagingService.getConversationInbox(universe.id, { pinnedOnly: true, limit: 100 })
+      ]);
+
+      // Everything we just received counts as delivered for the senders' ticks
+      messagingService.markConversationsDelivered(universe.id).catch(error => {
+        console.warn('Error marking messages delivered:', error);
       });
 
-      const conversationList = Array.from(conversationMap.values());
+      const conversationList = pinned.conversations.reduce(
+        (list, entry) => upsertInboxEntry(list, formatInboxConversation(entry)),
+        inbox.conversations.map(formatInboxConversation)
+      );
       setConversations(conversationList);
+      setHasMoreConversations(inbox.hasMore);
+      const last = inbox.conversations[inbox.conversations.length - 1];
+      inboxCursorRef.current = last ? { activity_at: last.activity_at, id: last.id } : null;
       console.log('[RealtimeMessenger] Loaded', conversationList.length, 'conversations');
 
       // Select conversation from URL if present
-      const conversationId = searchParams.get('conversation');
+      const conversationId = searchParamsRef.current.get('conversation');
       if (conversationId) {
-        const conv = conversationList.find(c => c.id === conversationId);
+        let conv = conversationList.find(c => c.id === conversationId);
+        if (!conv) {
+          // Older than the loaded page; fetch just that entry
+          const entry = await messagingService.getInboxConversation(universe.id, conversationId);
+          if (entry) {
+            conv = formatInboxConversation(entry);
+            setConversations(prev => upsertInboxEntry(prev, conv!));
+          }
+        }
         if (conv) {
           setSelectedConversation(conv);
           // Hide sidebar on mobile when conversation is selected
@@ -401,7 +487,335 @@ export default function RealtimeMessenger() {
     } finally {
       setIsLoadingConversations(false);
     }
-  }, [universe?.id, user?.id, searchParams]);
+  }, [universe?.id, user?.id]);
+
+  const loadMoreConversations = useCallback(async () => {
+    if (!universe?.id || isLoadingMoreConversations || !inboxCursorRef.current) return;
+
+    setIsLoadingMoreConversations(true);
+    try {
+      const inbox = await messagingService.getConversationInbox(universe.id, {
+        before: inboxCursorRef.current,
+        limit: INBOX_PAGE_SIZE
+      });
+      const last = inbox.conversations[inbox.conversations.length - 1];
+      if (last) {
+        inboxCursorRef.current = { activity_at: last.activity_at, id: last.id };
+      }
+      setConversations(prev => {
+        const existingIds = new Set(prev.map(c => c.id));
+        return [
+          ...prev,
+          ...inbox.conversations.filter(c => !existingIds.has(c.id)).map(formatInboxConversation)
+        ];
+      });
+      setHasMoreConversations(inbox.hasMore);
+    } catch (error) {
+      console.error('[RealtimeMessenger] Error loading more conversations:', error);
+      toast.error('Failed to load more conversations');
+    } finally {
+      setIsLoadingMoreConversations(false);
+    }
+  }, [universe?.id, isLoadingMoreConversations]);
+
+  // =====================================================
+  // INBOX REALTIME
+  // =====================================================
+  // Refetch one inbox entry and put it in place; drops it when we're no longer a participant
+  const refreshInboxEntry = useCallback(async (conversationId: string): Promise<Conversation | null> => {
+    if (!universe?.id) return null;
+    const universeId = universe.id;
+
+    try {
+      const entry = await messagingService.getInboxConversation(universeId, conversationId);
+      // The universe may have been switched while this was in flight
+      if (previousUniverseIdRef.current !== universeId) return null;
+
+      if (!entry) {
+        setConversations(prev => prev.filter(c => c.id !== conversationId));
+        return null;
+      }
+      const conversation = formatInboxConversation(entry);
+      setConversations(prev => upsertInboxEntry(prev, conversation));
+      return conversation;
+    } catch (error) {
+      console.error('[RealtimeMessenger] Error refreshing inbox entry:', error);
+      return null;
+    }
+  }, [universe?.id]);
+
+  // Apply a change to our own participant row (mute/pin/archive flags, read cursor)
+  const patchOwnParticipant = useCallback((conversationId: string, patch: Record<string, any>) => {
+    if (!universe?.id) return;
+    const universeId = universe.id;
+
+    setConversations(prev => prev.map(c =>
+      c.id === conversationId
+        ? {
+            ...c,
+            participants: c.participants.map((p: ConversationParticipant) =>
+              p.profile_universe_id === universeId ? { ...p, ...patch } : p
+            )
+          }
+        : c
+    ));
+  }, [universe?.id]);
+
+  // =====================================================
+  // INBOX ACTIONS (ARCHIVE / PIN / MARK UNREAD)
+  // =====================================================
+  const handleUpdateConversationFlags = useCallback(async (conversationIds: string[], flags: ConversationFlags) => {
+    if (!universe?.id || conversationIds.length === 0) return;
+    const universeId = universe.id;
+    const ids = new Set(conversationIds);
+
+    // Apply locally straight away; the inbox channel brings the stored values to every device
+    setConversations(prev => {
+      let lastPinOrder = Math.max(0, ...prev.map(c =>
+        c.participants.find((p: ConversationParticipant) => p.profile_universe_id === universeId)?.pin_order || 0
+      ));
+      return prev.map(c => {
+        if (!ids.has(c.id)) return c;
+        const own = c.participants.find((p: ConversationParticipant) => p.profile_universe_id === universeId);
+        const patch: Record<string, any> = {};
+        if (flags.is_archived !== undefined) patch.is_archived = flags.is_archived;
+        if (flags.marked_unread !== undefined) patch.marked_unread = flags.marked_unread;
+        if (flags.is_archived || flags.is_pinned === false) {
+          patch.is_pinned = false;
+          patch.pin_order = null;
+        } else if (flags.is_pinned && !own?.is_pinned) {
+          patch.is_pinned = true;
+          patch.pin_order = ++lastPinOrder;
+        }
+        return {
+          ...c,
+          unread_count: flags.marked_unread === false ? 0 : c.unread_count,
+          unread_mention_count: flags.marked_unread === false ? 0 : c.unread_mention_count,
+          participants: c.participants.map((p: ConversationParticipant) =>
+            p.profile_universe_id === universeId ? { ...p, ...patch } : p
+          )
+        };
+      });
+    });
+
+    try {
+      await messagingService.updateConversationFlags(universeId, conversationIds, flags);
+      if (flags.is_archived !== undefined) {
+        const count = conversationIds.length;
+        const noun = count === 1 ? 'Conversation' : `${count} conversations`;
+        toast.success(flags.is_archived ? `${noun} archived` : `${noun} moved to inbox`);
+      }
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error updating conversations:', error);
+      toast.error('Failed to update conversations');
+      conversationIds.forEach(id => refreshInboxEntry(id));
+    }
+  }, [universe?.id, refreshInboxEntry]);
+
+  const handleReorderPinnedConversations = useCallback(async (conversationIds: string[]) => {
+    if (!universe?.id) return;
+    const universeId = universe.id;
+
+    setConversations(prev => prev.map(c => {
+      const index = conversationIds.indexOf(c.id);
+      if (index === -1) return c;
+      return {
+        ...c,
+        participants: c.participants.map((p: ConversationParticipant) =>
+          p.profile_universe_id === universeId ? { ...p, pin_order: index + 1 } : p
+        )
+      };
+    }));
+
+    try {
+      await messagingService.reorderPinnedConversations(universeId, conversationIds);
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error reordering pinned conversations:', error);
+      toast.error('Failed to reorder pinned conversations');
+      conversationIds.forEach(id => refreshInboxEntry(id));
+    }
+  }, [universe?.id, refreshInboxEntry]);
+
+  // Sound and browser notification for a message arriving outside the open, visible conversation
+  const notifyNewMessage = useCallback((conversation: Conversation, message: any) => {
+    if (!universe?.id) return;
+    const universeId = universe.id;
+
+    const own = conversation.participants.find((p: ConversationParticipant) => p.profile_universe_id === universeId);
+    if (!shouldNotify(own, isMentioned(message.metadata, universeId))) return;
+
+    playMessageSound(own?.notification_sound);
+
+    if (!document.hidden || !('Notification' in window) || Notification.permission !== 'granted') return;
+
+    const sender = conversation.participants.find(
+      (p: ConversationParticipant) => p.profile_universe_id === message.sender_profile_universe_id
+    );
+    const senderName = sender?.profile_universe?.display_name || sender?.profile_universe?.handle || 'Someone';
+    const title = conversation.type === 'group'
+      ? `${senderName} in ${getConversationDisplayName(conversation, universeId)}`
+      : senderName;
+
+    try {
+      const notification = new Notification(title, {
+        body: stripMarkdown(message.content || ''),
+        icon: '/dragvertising-logo.png',
+        tag: `conversation-${conversation.id}`,
+        silent: true // The conversation's own sound has already played
+      });
+
+      notification.onclick = () => {
+        window.focus();
+        setSearchParams({ conversation: conversation.id });
+        notification.close();
+      };
+    } catch (error) {
+      console.warn('[RealtimeMessenger] Could not show notification:', error);
+    }
+  }, [universe?.id, setSearchParams]);
+
+  // One channel for the whole inbox; entries are patched in place instead of reloading the list
+  useEffect(() => {
+    if (!universe?.id || !session?.access_token) return;
+    const universeId = universe.id;
+
+    const channel = supabase
+      .channel(`inbox:${universeId}`)
+      // Messages arrive for every conversation we can read; RLS does the filtering
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'messages'
+      }, (payload) => {
+        const message = payload.new as any;
+        // Thread replies don't change the inbox preview or unread count
+        if (message.thread_root_id) return;
+
+        const existing = conversationsRef.current.find(c => c.id === message.conversation_id);
+        if (!existing) {
+          // A conversation we haven't loaded, or one belonging to another of our universes
+          refreshInboxEntry(message.conversation_id);
+          return;
+        }
+
+        // The open conversation is marked read as soon as the message shows
+        const isRead =
+          message.conversation_id === selectedConversationIdRef.current &&
+          document.visibilityState === 'visible';
+        const countsAsUnread =
+          message.sender_profile_universe_id !== universeId &&
+          message.message_type !== 'system' &&
+          !isRead;
+
+        setConversations(prev => {
+          const current = prev.find(c => c.id === message.conversation_id);
+          if (!current) return prev;
+          return upsertInboxEntry(prev, {
+            ...current,
+            last_message_at: message.created_at,
+            last_message: {
+              id: message.id,
+              content: message.content,
+              sender_profile_universe_id: message.sender_profile_universe_id,
+              created_at: message.created_at
+            },
+            unread_count: countsAsUnread ? current.unread_count + 1 : current.unread_count,
+            unread_mention_count: countsAsUnread && isMentioned(message.metadata, universeId)
+              ? (current.unread_mention_count || 0) + 1
+              : current.unread_mention_count
+          });
+        });
+
+        if (countsAsUnread) {
+          notifyNewMessage(existing, message);
+        }
+      })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'messages'
+      }, (payload) => {
+        const updated = payload.new as any;
+        const previous = payload.old as any;
+        const existing = conversationsRef.current.find(c => c.id === updated.conversation_id);
+        if (!existing || updated.thread_root_id) return;
+
+        // Edits and deletes of the previewed message change the preview; deletes can change the count
+        const isPreviewed = existing.last_message?.id === updated.id;
+        const contentChanged = updated.content !== previous?.content;
+        const wasDeleted = !!updated.deleted_at && !previous?.deleted_at;
+        if ((isPreviewed && (contentChanged || wasDeleted)) || (wasDeleted && existing.unread_count > 0)) {
+          refreshInboxEntry(updated.conversation_id);
+        }
+      })
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'conversation_participants',
+        filter: `profile_universe_id=eq.${universeId}`
+      }, (payload) => {
+        const row = payload.new as any;
+        if (!row?.conversation_id) return;
+
+        // Added to a conversation
+        if (payload.eventType === 'INSERT') {
+          refreshInboxEntry(row.conversation_id);
+          return;
+        }
+
+        if (row.left_at) {
+          setConversations(prev => prev.filter(c => c.id !== row.conversation_id));
+          return;
+        }
+
+        const existing = conversationsRef.current.find(c => c.id === row.conversation_id);
+        if (!existing) return;
+
+        patchOwnParticipant(row.conversation_id, {
+          is_archived: row.is_archived || false,
+          is_muted: isMuteActive(row),
+          muted_until: isMuteActive(row) ? row.muted_until : null,
+          notification_level: row.notification_level || 'all',
+          notify_mentions_when_muted: row.notify_mentions_when_muted || false,
+          notification_sound: row.notification_sound ?? null,
+          ringtone: row.ringtone ?? null,
+          is_pinned: row.is_pinned || false,
+          pin_order: row.pin_order ?? null,
+          marked_unread: row.marked_unread || false,
+          role: row.role || 'member'
+        });
+
+        // Read on another device; only the server knows how many are left
+        if (row.last_read_at !== existing.last_read_at) {
+          if (existing.unread_count > 0) {
+            refreshInboxEntry(row.conversation_id);
+          } else {
+            setConversations(prev => prev.map(c =>
+              c.id === row.conversation_id ? { ...c, last_read_at: row.last_read_at } : c
+            ));
+          }
+        }
+      })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'conversations'
+      }, (payload) => {
+        const updated = payload.new as any;
+        setConversations(prev => prev.map(c =>
+          c.id === updated.id
+            ? { ...c, name: updated.name, avatar_url: updated.avatar_url, metadata: updated.metadata }
+            : c
+        ));
+      })
+      .subscribe((status) => {
+        console.log('[RealtimeMessenger] Inbox subscription status:', status);
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [universe?.id, session?.access_token, refreshInboxEntry, patchOwnParticipant, notifyNewMessage]);
 
   // Optimistically clear state when universe changes (runs before loadConversations)
   const previousUniverseIdRef = useRef<string | undefined>(universe?.id);
@@ -449,6 +863,30 @@ export default function RealtimeMessenger() {
     loadConversations();
   }, [loadConversations]);
 
+  // Follow ?conversation= links opened while the page is mounted (notifications, call invites)
+  const conversationParam = searchParams.get('conversation');
+  useEffect(() => {
+    if (!conversationParam || isLoadingConversations) return;
+    if (conversationParam === selectedConversationIdRef.current) return;
+
+    const conversation = conversationsRef.current.find(c => c.id === conversationParam);
+    if (conversation) {
+      setSelectedConversation(conversation);
+      return;
+    }
+    refreshInboxEntry(conversationParam).then(entry => {
+      if (entry) setSelectedConversation(entry);
+    });
+  }, [conversationParam, isLoadingConversations, refreshInboxEntry]);
+
+  // Keep the selected conversation in sync with reloaded data (members, roles, name)
+  useEffect(() => {
+    setSelectedConversation(prev => {
+      if (!prev) return prev;
+      return conversations.find(c => c.id === prev.id) || prev;
+    });
+  }, [conversations]);
+
   // Note: Auto-focus removed to avoid Radix UI Dialog aria-hidden accessibility conflict
   // Users can click/tab into the input field manually
 
@@ -513,52 +951,9 @@ export default function RealtimeMessenger() {
       // Get or create conversation
       const conversationId = await getOrCreateConversation(universe.id, targetUniverseId, supabaseClient);
 
-      // Reload conversations to include the new one
-      await loadConversations();
-
-      // Find and select the new conversation
-      const { data: conversationsData } = await supabase
-        .from('conversations')
-        .select(`
-          *,
-          conversation_participants:conversation_participants(
-            profile_universe_id,
-            is_archived,
-            is_muted,
-            is_pinned,
-            profile_universes:profile_universe_id(
-              id,
-              handle,
-              display_name,
-              avatar_url
-            )
-          )
-        `)
-        .eq('id', conversationId)
-        .single();
-
-      if (conversationsData) {
-        const participant = conversationsData.conversation_participants?.find(
-          (p: any) => p.profile_universe_id === universe.id
-        );
-        const allParticipants = conversationsData.conversation_participants || [];
-
-        const newConversation: Conversation = {
-          id: conversationsData.id,
-          type: conversationsData.type,
-          name: conversationsData.name,
-          last_message_at: conversationsData.created_at,
-          metadata: conversationsData.metadata,
-          participants: allParticipants.map((p: any) => ({
-            profile_universe_id: p.profile_universe_id,
-            is_archived: p.is_archived || false,
-            is_muted: p.is_muted || false,
-            is_pinned: p.is_pinned || false,
-            profile_universe: p.profile_universes
-          })),
-          unread_count: 0
-        };
-
+      // Pull in just the new inbox entry and open it
+      const newConversation = await refreshInboxEntry(conversationId);
+      if (newConversation) {
         setSelectedConversation(newConversation);
         setSearchParams({ conversation: conversationId });
         
@@ -571,16 +966,118 @@ export default function RealtimeMessenger() {
       console.error('[RealtimeMessenger] Error creating conversation:', error);
       toast.error('Failed to create conversation: ' + (error.message || 'Unknown error'));
     }
-  }, [universe?.id, loadConversations, setSearchParams]);
+  }, [universe?.id, refreshInboxEntry, setSearchParams]);
+
+  // =====================================================
+  // GROUP CONVERSATIONS
+  // =====================================================
+  const handleCreateGroup = useCallback(async ({ name, avatarFile, memberUniverseIds }: CreateGroupData) => {
+    if (!universe?.id) {
+      toast.error('Please select a universe');
+      return;
+    }
+
+    try {
+      const avatarUrl = avatarFile ? await uploadGroupAvatar(universe.id, avatarFile) : null;
+      const conversationId = await createGroupConversation(universe.id, name, memberUniverseIds, avatarUrl);
+
+      const group = await refreshInboxEntry(conversationId);
+      if (group) {
+        setSelectedConversation(group);
+      }
+      setSearchParams({ conversation: conversationId });
+      toast.success('Group created');
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error creating group:', error);
+      toast.error(error.message || 'Failed to create group');
+      throw error;
+    }
+  }, [universe?.id, refreshInboxEntry, setSearchParams]);
+
+  const handleUpdateGroupDetails = useCallback(async (name: string, avatarFile: File | null) => {
+    if (!selectedConversation || !universe?.id) return;
+
+    try {
+      const avatarUrl = avatarFile
+        ? await uploadGroupAvatar(universe.id, avatarFile)
+        : selectedConversation.avatar_url;
+      await updateGroupConversation(selectedConversation.id, universe.id, name, avatarUrl);
+      await refreshInboxEntry(selectedConversation.id);
+      toast.success('Group updated');
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error updating group:', error);
+      toast.error(error.message || 'Failed to update group');
+      throw error;
+    }
+  }, [selectedConversation, universe?.id, refreshInboxEntry]);
+
+  const handleAddGroupMembers = useCallback(async (memberUniverseIds: string[]) => {
+    if (!selectedConversation || !universe?.id) return;
+
+    try {
+      await addConversationMembers(selectedConversation.id, universe.id, memberUniverseIds);
+      await refreshInboxEntry(selectedConversation.id);
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error adding members:', error);
+      toast.error(error.message || 'Failed to add members');
+      throw error;
+    }
+  }, [selectedConversation, universe?.id, refreshInboxEntry]);
+
+  const handleRemoveGroupMember = useCallback(async (memberUniverseId: string) => {
+    if (!selectedConversation || !universe?.id) return;
+
+    try {
+      await removeConversationMember(selectedConversation.id, universe.id, memberUniverseId);
+      await refreshInboxEntry(selectedConversation.id);
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error removing member:', error);
+      toast.error(error.message || 'Failed to remove member');
+      throw error;
+    }
+  }, [selectedConversation, universe?.id, refreshInboxEntry]);
+
+  const handleChangeGroupMemberRole = useCallback(async (memberUniverseId: string, role: ConversationRole) => {
+    if (!selectedConversation || !universe?.id) return;
+
+    try {
+      await setConversationMemberRole(selectedConversation.id, universe.id, memberUniverseId, role);
+      await refreshInboxEntry(selectedConversation.id);
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error changing member role:', error);
+      toast.error(error.message || 'Failed to change member role');
+      throw error;
+    }
+  }, [selectedConversation, universe?.id, refreshInboxEntry]);
+
+  const handleLeaveConversation = useCallback(async () => {
+    if (!selectedConversation || !universe?.id) return;
+
+    try {
+      await leaveConversation(selectedConversation.id, universe.id);
+      setIsGroupMembersOpen(false);
+      setSelectedConversation(null);
+      setMessages([]);
+      setSearchParams({});
+      setConversations(prev => prev.filter(c => c.id !== selectedConversation.id));
+      toast.success('You left the group');
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error leaving conversation:', error);
+      toast.error(error.message || 'Failed to leave group');
+      throw error;
+    }
+  }, [selectedConversation, universe?.id, setSearchParams]);
 
   // =====================================================
   // LOAD MESSAGES
   // =====================================================
-  const loadMessages = useCallback(async (conversationId: string, currentUniverseId?: string) => {
+  const loadMessages = useCallback(async (conversationId: string, currentUniverseId?: string, aroundMessageId?: string) => {
     const targetUniverseId = currentUniverseId || universe?.id;
     
     if (!conversationId || !targetUniverseId) {
       setMessages([]);
+      setHasOlderMessages(false);
+      setHasNewerMessages(false);
       setIsLoadingMessages(false);
       return;
     }
@@ -589,57 +1086,10 @@ export default function RealtimeMessenger() {
     try {
       console.log('[RealtimeMessenger] Loading messages for conversation:', conversationId, 'universe:', targetUniverseId);
 
-      const { data, error } = await supabase
-        .from('messages')
-        .select(`
-          id,
-          conversation_id,
-          sender_id,
-          sender_profile_universe_id,
-          content,
-          message_type,
-          created_at,
-          updated_at,
-          edited_at,
-          deleted_at,
-          reply_to_message_id,
-          read_at,
-          metadata,
-          attachments,
-          profile_universes:sender_profile_universe_id(
-            id,
-            handle,
-            display_name,
-            avatar_url,
-            role
-          ),
-          message_reactions:message_reactions(
-            id,
-            emoji,
-            profile_universe_id,
-            created_at,
-            profile_universes:profile_universe_id(
-              id,
-              handle,
-              display_name,
-              avatar_url
-            )
-          ),
-          reply_to_message:messages!reply_to_message_id(
-            id,
-            content,
-            sender_profile_universe_id,
-            profile_universes:sender_profile_universe_id(
-              id,
-              handle,
-              display_name,
-              avatar_url
-            )
-          )
-        `)
-        .eq('conversation_id', conversationId)
-        .is('deleted_at', null)
-        .order('created_at', { ascending: true });
+      // Keyset pages on (created_at, id); search results open a window around the match
+      const page = aroundMessageId
+        ? await messagingService.getConversationMessagesAround(conversationId, aroundMessageId, MESSAGE_PAGE_SIZE)
+        : await messagingService.getConversationMessages(conversationId, { limit: MESSAGE_PAGE_SIZE });
       
       // Verify universe hasn't changed while loading
       if (universe?.id !== targetUniverseId) {
@@ -649,89 +1099,13 @@ export default function RealtimeMessenger() {
         return;
       }
 
-      if (error) {
-        console.error('[RealtimeMessenger] Error loading messages:', error);
-        toast.error('Failed to load messages');
-        setMessages([]);
-        return;
-      }
-
-      console.log('[RealtimeMessenger] Loaded', data?.length || 0, 'messages');
-
-      // Format messages
-      const formattedMessages: Message[] = (data || []).map(m => {
-        const senderProfile = Array.isArray(m.profile_universes)
-          ? m.profile_universes[0]
-          : m.profile_universes;
-
-        // Format reactions
-        const reactions = (m.message_reactions || []).map((r: any) => ({
-          id: r.id,
-          emoji: r.emoji,
-          profile_universe_id: r.profile_universe_id,
-          created_at: r.created_at,
-          profile_universes: Array.isArray(r.profile_universes) ? r.profile_universes[0] : r.profile_universes
-        }));
-
-        // Format reply to message
-        let replyToMessage = null;
-        if (m.reply_to_message) {
-          const replyProfile = Array.isArray(m.reply_to_message.profile_universes)
-            ? m.reply_to_message.profile_universes[0]
-            : m.reply_to_message.profile_universes;
-          
-          replyToMessage = {
-            id: m.reply_to_message.id,
-            content: m.reply_to_message.content,
-            sender_profile_universe_id: m.reply_to_message.sender_profile_universe_id,
-            sender_profile: replyProfile
-          };
-        }
+      console.log('[RealtimeMessenger] Loaded', page.messages.length, 'messages');
 
-        return {
-          id: m.id,
-          conversation_id: m.conversation_id,
-          sender_id: m.sender_id,
-          sender_profile_universe_id: m.sender_profile_universe_id,
-          content: m.content,
-          message_type: m.message_type,
-          created_at: m.created_at,
-          updated_at: m.updated_at,
-          edited_at: m.edited_at,
-          deleted_at: m.deleted_at,
-          reply_to_message_id: m.reply_to_message_id,
-          read_at: m.read_at,
-          metadata: m.metadata || {},
-          attachments: m.attachments,
-          sender_profile: senderProfile || undefined,
-          reactions: reactions,
-          reply_to_message: replyToMessage
-        };
-      });
+      const formattedMessages: Message[] = page.messages.map(formatMessageRow);
 
+      setHasOlderMessages(page.hasOlder);
+      setHasNewerMessages(page.hasNewer);
       setMessages(formattedMessages);
-
-      // Mark messages as read and update read_at for messages
-      const now = new Date().toISOString();
-      
-      // Update conversation participant's last_read_at
-      await supabase
-        .from('conversation_participants')
-        .update({ last_read_at: now })
-        .eq('conversation_id', conversationId)
-        .eq('profile_universe_id', universe.id);
-
-      // Update read_at for all unread messages in this conversation
-      const unreadMessageIds = formattedMessages
-        .filter(m => !m.read_at && m.sender_profile_universe_id !== universe.id)
-        .map(m => m.id);
-
-      if (unreadMessageIds.length > 0) {
-        await supabase
-          .from('messages')
-          .update({ read_at: now })
-          .in('id', unreadMessageIds);
-      }
     } catch (error: any) {
       console.error('[RealtimeMessenger] Error loading messages:', error);
       toast.error('Failed to load messages');
@@ -741,6 +1115,66 @@ export default function RealtimeMessenger() {
     }
   }, [universe?.id]);
 
+  // Prepend the page before the oldest loaded message (scroll-back)
+  const loadOlderMessages = useCallback(async () => {
+    if (!selectedConversation?.id || isLoadingOlderMessages || !hasOlderMessages || messages.length === 0) return;
+
+    const conversationId = selectedConversation.id;
+    const oldest = messages[0];
+    setIsLoadingOlderMessages(true);
+    try {
+      const page = await messagingService.getConversationMessages(conversationId, {
+        before: { created_at: oldest.created_at, id: oldest.id },
+        limit: MESSAGE_PAGE_SIZE
+      });
+      setMessages(prev => {
+        // Ignore pages for a conversation we've since left
+        if (prev[0]?.id !== oldest.id) return prev;
+        const loadedIds = new Set(prev.map(m => m.id));
+        return [...page.messages.map(formatMessageRow).filter(m => !loadedIds.has(m.id)), ...prev];
+      });
+      setHasOlderMessages(page.hasOlder);
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error loading older messages:', error);
+      toast.error('Failed to load older messages');
+    } finally {
+      setIsLoadingOlderMessages(false);
+    }
+  }, [selectedConversation?.id, isLoadingOlderMessages, hasOlderMessages, messages]);
+
+  // Append the page after the newest loaded message when viewing an older window
+  const loadNewerMessages = useCallback(async () => {
+    if (!selectedConversation?.id || isLoadingNewerMessages || !hasNewerMessages || messages.length === 0) return;
+
+    const conversationId = selectedConversation.id;
+    const newest = messages[messages.length - 1];
+    setIsLoadingNewerMessages(true);
+    try {
+      const page = await messagingService.getConversationMessages(conversationId, {
+        after: { created_at: newest.created_at, id: newest.id },
+        limit: MESSAGE_PAGE_SIZE
+      });
+      setMessages(prev => {
+        if (prev[prev.length - 1]?.id !== newest.id) return prev;
+        const loadedIds = new Set(prev.map(m => m.id));
+        return [...prev, ...page.messages.map(formatMessageRow).filter(m => !loadedIds.has(m.id))];
+      });
+      setHasNewerMessages(page.hasNewer);
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error loading newer messages:', error);
+      toast.error('Failed to load newer messages');
+    } finally {
+      setIsLoadingNewerMessages(false);
+    }
+  }, [selectedConversation?.id, isLoadingNewerMessages, hasNewerMessages, messages]);
+
+  // Reset the window to the latest page
+  const handleJumpToLatest = useCallback(() => {
+    if (!selectedConversation?.id || !universe?.id) return;
+    setHighlightedMessageId(null);
+    loadMessages(selectedConversation.id, universe.id);
+  }, [selectedConversation?.id, universe?.id, loadMessages]);
+
   // Load messages when conversation is selected (only if it belongs to current universe)
   useEffect(() => {
     if (selectedConversation?.id && universe?.id) {
@@ -750,7 +1184,9 @@ export default function RealtimeMessenger() {
       );
       if (isParticipant) {
         // Pass universe.id to loadMessages to verify it doesn't change during load
-        loadMessages(selectedConversation.id, universe.id);
+        const aroundMessageId = pendingJumpMessageIdRef.current || undefined;
+        pendingJumpMessageIdRef.current = null;
+        loadMessages(selectedConversation.id, universe.id, aroundMessageId);
       } else {
         // Conversation doesn't belong to current universe - clear it
         console.log('[RealtimeMessenger] Conversation does not belong to current universe, clearing');
@@ -777,9 +1213,22 @@ export default function RealtimeMessenger() {
   // =====================================================
   // MESSAGE ACTIONS
   // =====================================================
-  const handleEditMessage = useCallback((message: Message) => {
-    // TODO: Implement message editing UI
-    toast.info('Message editing coming soon');
+  const handleEditMessage = useCallback(async (messageId: string, content: string) => {
+    try {
+      const updated = await messagingService.editMessage(messageId, content);
+
+      // Apply the edit locally; other participants get it via the Realtime UPDATE event
+      setMessages(prev => prev.map(m =>
+        m.id === messageId
+          ? { ...m, content: updated.content, edited_at: updated.edited_at, updated_at: updated.updated_at }
+          : m
+      ));
+      toast.success('Message edited');
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error editing message:', error);
+      toast.error('Failed to edit message');
+      throw error;
+    }
   }, []);
 
   const handleDeleteMessage = useCallback(async (messageId: string) => {
@@ -803,244 +1252,448 @@ export default function RealtimeMessenger() {
       console.error('[RealtimeMessenger] Error deleting message:', error);
       toast.error('Failed to delete message');
     }
-  }, [universe?.id]);
+  }, [universe?.id]);
+
+  const handleForwardMessage = useCallback((message: Message) => {
+    setForwardingMessage(message);
+  }, []);
+
+  const handleConfirmForward = useCallback(async (targets: { conversationIds?: string[]; universeIds?: string[] }) => {
+    if (!forwardingMessage || !universe?.id) return;
+
+    try {
+      const forwarded = await messagingService.forwardMessage(forwardingMessage, universe.id, targets);
+      toast.success(forwarded.length === 1 ? 'Message forwarded' : `Message forwarded to ${forwarded.length} conversations`);
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error forwarding message:', error);
+      toast.error('Failed to forward message');
+      throw error;
+    }
+  }, [forwardingMessage, universe?.id]);
+
+  const handleCopyMessage = useCallback(async (content: string) => {
+    try {
+      await navigator.clipboard.writeText(content);
+      toast.success('Message copied to clipboard');
+    } catch (error) {
+      console.error('[RealtimeMessenger] Error copying message:', error);
+      toast.error('Failed to copy message');
+    }
+  }, []);
+
+  // =====================================================
+  // MUTE & NOTIFICATION PREFERENCES
+  // =====================================================
+  const ownParticipant = selectedConversation?.participants.find(
+    (p: ConversationParticipant) => p.profile_universe_id === universe?.id
+  );
+  const isSelectedConversationMuted = isMuteActive(ownParticipant);
+
+  // Offered first in @mention autocomplete
+  const mentionCandidates = useMemo<MentionCandidate[]>(() =>
+    (selectedConversation?.participants || [])
+      .filter((p: ConversationParticipant) => p.profile_universe_id !== universe?.id && p.profile_universe?.handle)
+      .map((p: ConversationParticipant) => ({
+        id: p.profile_universe_id,
+        handle: p.profile_universe!.handle,
+        display_name: p.profile_universe!.display_name,
+        avatar_url: p.profile_universe!.avatar_url
+      })),
+    [selectedConversation?.participants, universe?.id]
+  );
+
+  const selectedNotificationPreferences = useMemo<NotificationPreferences>(() => ({
+    is_muted: ownParticipant?.is_muted || false,
+    muted_until: ownParticipant?.muted_until || null,
+    notification_level: ownParticipant?.notification_level || 'all',
+    notify_mentions_when_muted: ownParticipant?.notify_mentions_when_muted || false,
+    notification_sound: ownParticipant?.notification_sound || null,
+    ringtone: ownParticipant?.ringtone || null
+  }), [
+    ownParticipant?.is_muted,
+    ownParticipant?.muted_until,
+    ownParticipant?.notification_level,
+    ownParticipant?.notify_mentions_when_muted,
+    ownParticipant?.notification_sound,
+    ownParticipant?.ringtone
+  ]);
+
+  const handleUpdateNotificationPreferences = useCallback(async (preferences: Partial<NotificationPreferences>) => {
+    if (!selectedConversation || !universe?.id) return;
+
+    try {
+      await messagingService.updateNotificationPreferences(selectedConversation.id, universe.id, preferences);
+
+      // Update local state; other devices pick it up from the inbox channel
+      patchOwnParticipant(selectedConversation.id, preferences);
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error updating notification settings:', error);
+      toast.error('Failed to update notification settings');
+      throw error;
+    }
+  }, [selectedConversation, universe?.id, patchOwnParticipant]);
+
+  // Mute for one of the preset lengths, or unmute with null
+  const handleMute = useCallback(async (duration: MuteDuration | null) => {
+    try {
+      await handleUpdateNotificationPreferences({
+        is_muted: duration !== null,
+        muted_until: duration ? getMutedUntil(duration) : null
+      });
+      toast.success(duration ? 'Conversation muted' : 'Conversation unmuted');
+    } catch {
+      // Already reported
+    }
+  }, [handleUpdateNotificationPreferences]);
+
+  const handleSaveNotificationSettings = useCallback(async (preferences: NotificationPreferences) => {
+    await handleUpdateNotificationPreferences(preferences);
+
+    // Ask now, while there's a user gesture, rather than when the first message arrives
+    if (preferences.notification_level !== 'none' && 'Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission();
+    }
+    toast.success('Notification settings saved');
+  }, [handleUpdateNotificationPreferences]);
+
+  // Timed mutes lapse on their own; flip the local flag when the earliest one runs out
+  useEffect(() => {
+    if (!universe?.id) return;
+    const universeId = universe.id;
+
+    const expiries = conversations
+      .map(c => c.participants.find((p: ConversationParticipant) => p.profile_universe_id === universeId))
+      .filter((p: ConversationParticipant | undefined) => p?.is_muted && p.muted_until)
+      .map((p: ConversationParticipant) => new Date(p.muted_until).getTime());
+    if (expiries.length === 0) return;
+
+    // setTimeout can't wait longer than ~24 days; it just re-arms when it fires early
+    const delay = Math.min(Math.max(Math.min(...expiries) - Date.now(), 0), 2 ** 31 - 1);
+    const timeout = setTimeout(() => {
+      const now = Date.now();
+      setConversations(prev => prev.map(c => ({
+        ...c,
+        participants: c.participants.map((p: ConversationParticipant) =>
+          p.profile_universe_id === universeId && p.is_muted && p.muted_until && !isMuteActive(p, now)
+            ? { ...p, is_muted: false, muted_until: null }
+            : p
+        )
+      })));
+    }, delay);
+
+    return () => clearTimeout(timeout);
+  }, [conversations, universe?.id]);
+
+  // =====================================================
+  // SEND MESSAGE
+  // =====================================================
+  // Show a message we just sent; when an older window is open, jump to the latest page instead
+  const showSentMessage = useCallback((message: Message) => {
+    // Queued messages can be delivered after the user has moved to another conversation
+    if (message.conversation_id !== selectedConversation?.id) return;
+
+    if (hasNewerMessagesRef.current && universe?.id) {
+      loadMessages(message.conversation_id, universe.id);
+      return;
+    }
+    setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message]));
+  }, [selectedConversation?.id, universe?.id, loadMessages]);
+
+  // Messages and reactions go through a persistent outbox so nothing is lost while offline
+  const {
+    messageItems: outboxMessages,
+    enqueueMessage,
+    enqueueReaction,
+    retryItem: retryOutboxItem,
+    discardItem: discardOutboxItem,
+    getPreviewUrls: getOutboxPreviewUrls
+  } = useMessageOutbox(universe?.id || null, {
+    onMessageSent: (row) => {
+      if (row.thread_root_id) {
+        addThreadReply(row);
+      } else {
+        showSentMessage(formatMessageRow(row));
+      }
+    },
+    onReactionSynced: (item, row) => {
+      // Thread replies aren't in the timeline; reload them to pick up the change
+      if (activeThreadRootIdRef.current) {
+        refreshThread();
+      }
+      if (!row) return;
+      // Replace the optimistic reaction with the stored one
+      setMessages(prev => prev.map(msg => {
+        if (msg.id !== item.messageId) return msg;
+        const reaction = {
+          ...row,
+          profile_universes: Array.isArray(row.profile_universes) ? row.profile_universes[0] : row.profile_universes
+        };
+        const others = (msg.reactions || []).filter((r: any) =>
+          r.id !== row.id && !(r.profile_universe_id === item.universeId && r.emoji === item.emoji)
+        );
+        return { ...msg, reactions: [...others, reaction] };
+      }));
+    },
+    onReactionFailed: (item) => {
+      toast.error('Failed to update reaction');
+      // Revert the optimistic update
+      setMessages(prev => prev.map(msg => {
+        if (msg.id !== item.messageId || item.action === 'remove') return msg;
+        return {
+          ...msg,
+          reactions: (msg.reactions || []).filter((r: any) =>
+            !(r.profile_universe_id === item.universeId && r.emoji === item.emoji)
+          )
+        };
+      }));
+      if (item.action === 'remove' && selectedConversation?.id === item.conversationId && universe?.id) {
+        loadMessages(item.conversationId, universe.id);
+      }
+    }
+  });
+
+  const sendMessage = useCallback(async (content: string, attachments?: ComposerAttachment[], metadata?: ComposedMessageMetadata) => {
+    if (!selectedConversation || !universe?.id || !user?.id) {
+      toast.error('Please select a conversation');
+      return;
+    }
+
+    if (!content.trim() && (!attachments || attachments.length === 0)) {
+      return;
+    }
+
+    try {
+      await enqueueMessage(selectedConversation.id, content, attachments || [], {
+        replyToMessageId: replyingToMessage?.id || null,
+        metadata: metadata || null
+      });
+
+      // Clear reply state
+      setReplyingToMessage(null);
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error sending message:', error);
+      toast.error('Failed to send message');
+    }
+  }, [selectedConversation, universe?.id, user?.id, replyingToMessage, enqueueMessage]);
 
-  const handleForwardMessage = useCallback((message: Message) => {
-    // TODO: Implement message forwarding
-    toast.info('Message forwarding coming soon');
-  }, []);
+  // =====================================================
+  // DRAFTS
+  // =====================================================
+  const { drafts, getDraft, updateDraft } = useMessageDrafts(universe?.id || null);
 
-  const handleCopyMessage = useCallback(async (content: string) => {
-    try {
-      await navigator.clipboard.writeText(content);
-      toast.success('Message copied to clipboard');
-    } catch (error) {
-      console.error('[RealtimeMessenger] Error copying message:', error);
-      toast.error('Failed to copy message');
-    }
-  }, []);
+  const draftPreviews = useMemo(
+    () => Object.fromEntries(Object.values(drafts).map(d => [d.conversation_id, d.content])),
+    [drafts]
+  );
 
   // =====================================================
-  // MUTE/UNMUTE CONVERSATION
+  // SCHEDULED MESSAGES
   // =====================================================
-  const handleToggleMute = useCallback(async () => {
+  const {
+    scheduledMessages,
+    isLoading: isLoadingScheduledMessages,
+    scheduleMessage,
+    updateScheduledMessage,
+    cancelScheduledMessage
+  } = useScheduledMessages(selectedConversation?.id || null);
+
+  const handleScheduleMessage = useCallback(async (content: string, sendAt: Date, metadata?: ComposedMessageMetadata) => {
     if (!selectedConversation || !universe?.id) return;
 
-    const participant = selectedConversation.participants.find(
-      p => p.profile_universe_id === universe.id
-    );
-    const isMuted = participant?.is_muted || false;
-
     try {
-      const { error } = await supabase
-        .from('conversation_participants')
-        .update({ is_muted: !isMuted })
-        .eq('conversation_id', selectedConversation.id)
-        .eq('profile_universe_id', universe.id);
-
-      if (error) throw error;
-
-      // Update local state
-      setSelectedConversation(prev => {
-        if (!prev) return null;
-        return {
-          ...prev,
-          participants: prev.participants.map(p =>
-            p.profile_universe_id === universe.id
-              ? { ...p, is_muted: !isMuted }
-              : p
-          )
-        };
+      await scheduleMessage({
+        conversationId: selectedConversation.id,
+        senderUniverseId: universe.id,
+        content,
+        sendAt,
+        replyToMessageId: replyingToMessage?.id || null,
+        metadata
       });
-
-      // Reload conversations to update mute status
-      loadConversations();
-
-      toast.success(isMuted ? 'Conversation unmuted' : 'Conversation muted');
+      setReplyingToMessage(null);
+      toast.success(`Message scheduled for ${format(sendAt, 'MMM d, h:mm a')}`);
     } catch (error: any) {
-      console.error('[RealtimeMessenger] Error toggling mute:', error);
-      toast.error('Failed to update mute status');
+      console.error('[RealtimeMessenger] Error scheduling message:', error);
+      toast.error(error.message || 'Failed to schedule message');
+      throw error;
     }
-  }, [selectedConversation, universe?.id, loadConversations]);
+  }, [selectedConversation, universe?.id, replyingToMessage, scheduleMessage]);
 
-  // =====================================================
-  // SEND MESSAGE
-  // =====================================================
-  const sendMessage = useCallback(async (content: string, attachments?: File[]) => {
-    if (!selectedConversation || !universe?.id || !user?.id) {
-      toast.error('Please select a conversation');
-      return;
+  const handleUpdateScheduledMessage = useCallback(async (id: string, updates: { content?: string; sendAt?: Date }) => {
+    try {
+      await updateScheduledMessage(id, updates);
+      toast.success('Scheduled message updated');
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error updating scheduled message:', error);
+      toast.error(error.message || 'Failed to update scheduled message');
+      throw error;
     }
+  }, [updateScheduledMessage]);
 
-    if (!content.trim() && (!attachments || attachments.length === 0)) {
-      return;
+  const handleCancelScheduledMessage = useCallback(async (id: string) => {
+    try {
+      await cancelScheduledMessage(id);
+      toast.success('Scheduled message cancelled');
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error cancelling scheduled message:', error);
+      toast.error(error.message || 'Failed to cancel scheduled message');
+      throw error;
     }
+  }, [cancelScheduledMessage]);
+
+  // Render a queued outbox message like a sent one, with its delivery status
+  const outboxItemToMessage = useCallback((item: OutboxMessageItem): Message => {
+    const previewUrls = getOutboxPreviewUrls(item);
+    return {
+      id: item.id,
+      conversation_id: item.conversationId,
+      sender_id: user?.id || '',
+      sender_profile_universe_id: item.universeId,
+      content: item.content || (item.attachments.length > 0 ? '📎 Attachment' : ''),
+      message_type: 'text',
+      created_at: item.createdAt,
+      reply_to_message_id: item.replyToMessageId || undefined,
+      reply_to_message: messages.find(m => m.id === item.replyToMessageId),
+      thread_root_id: item.threadRootId || undefined,
+      metadata: item.metadata || {},
+      attachments: item.attachments.map((attachment, index): MessageAttachment => ({
+        type: getAttachmentKind(attachment.type),
+        url: previewUrls[index],
+        path: attachment.path || '',
+        name: attachment.name,
+        size: attachment.size,
+        mimeType: attachment.type
+      })),
+      sender_profile: {
+        id: universe?.id || item.universeId,
+        handle: universe?.handle || '',
+        display_name: universe?.display_name || universe?.handle || '',
+        avatar_url: universe?.avatar_url
+      },
+      delivery_status: item.status,
+      delivery_error: item.lastError
+    };
+  }, [messages, universe, user?.id, getOutboxPreviewUrls]);
 
-    setIsSendingMessage(true);
-    try {
-      // Upload attachments if any
-      let attachmentUrls: any[] = [];
-      if (attachments && attachments.length > 0) {
-        const uploadPromises = attachments.map(async (file) => {
-          try {
-            // Generate unique filename
-            const fileExt = file.name.split('.').pop();
-            const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
-            const filePath = `${universe.id}/${selectedConversation.id}/${fileName}`;
-
-            // Determine content type
-            const contentType = file.type || 'application/octet-stream';
-            const isImage = contentType.startsWith('image/');
-            const isVideo = contentType.startsWith('video/');
-            const isAudio = contentType.startsWith('audio/');
-
-            // Upload to Supabase Storage
-            const { data: uploadData, error: uploadError } = await supabase.storage
-              .from('message-attachments')
-              .upload(filePath, file, {
-                contentType,
-                upsert: false,
-                cacheControl: '3600'
-              });
+  // Queued messages render after the loaded ones until the server confirms them
+  const displayedMessages = useMemo(() => {
+    if (!selectedConversation?.id || !universe || hasNewerMessages) return messages;
 
-            if (uploadError) {
-              console.error('[RealtimeMessenger] Upload error:', uploadError);
-              throw new Error(`Failed to upload ${file.name}: ${uploadError.message}`);
-            }
+    const loadedIds = new Set(messages.map(m => m.id));
+    const queued = outboxMessages
+      .filter(item =>
+        item.conversationId === selectedConversation.id &&
+        !item.threadRootId &&
+        !loadedIds.has(item.id)
+      )
+      .map(outboxItemToMessage);
 
-            // Get public URL
-            const { data: { publicUrl } } = supabase.storage
-              .from('message-attachments')
-              .getPublicUrl(filePath);
-
-            // Create attachment metadata
-            return {
-              type: isImage ? 'image' : isVideo ? 'video' : isAudio ? 'audio' : 'file',
-              url: publicUrl,
-              name: file.name,
-              size: file.size,
-              mimeType: contentType,
-              path: filePath
-            };
-          } catch (error: any) {
-            console.error('[RealtimeMessenger] Error uploading file:', error);
-            toast.error(`Failed to upload ${file.name}`);
-            throw error;
-          }
-        });
+    return queued.length > 0 ? [...messages, ...queued] : messages;
+  }, [messages, outboxMessages, selectedConversation?.id, universe, hasNewerMessages, outboxItemToMessage]);
 
-        attachmentUrls = await Promise.all(uploadPromises);
-      }
+  // =====================================================
+  // THREADS
+  // =====================================================
+  // The root comes from the timeline when loaded, so its reply summary stays current
+  const threadRootMessage = useMemo(() => {
+    if (!activeThreadRoot) return null;
+    return messages.find(m => m.id === activeThreadRoot.id) || activeThreadRoot;
+  }, [activeThreadRoot, messages]);
 
-      // Determine message type based on content and attachments
-      let messageType = 'text';
-      if (attachmentUrls.length > 0) {
-        const hasImage = attachmentUrls.some(a => a.type === 'image');
-        const hasVideo = attachmentUrls.some(a => a.type === 'video');
-        const hasAudio = attachmentUrls.some(a => a.type === 'audio');
-        
-        if (hasImage && !hasVideo && !hasAudio) {
-          messageType = 'image';
-        } else if (hasVideo) {
-          messageType = 'video';
-        } else if (hasAudio) {
-          messageType = 'audio';
-        } else {
-          messageType = 'file';
-        }
-      }
+  const threadReplies = useMemo(() => {
+    if (!activeThreadRoot) return [];
 
-      // Create message (insert without relationship query to avoid RLS issues)
-      const { data: insertedMessage, error: insertError } = await supabase
-        .from('messages')
-        .insert({
-          conversation_id: selectedConversation.id,
-          sender_id: user.id,
-          sender_profile_universe_id: universe.id,
-          content: content.trim() || (attachmentUrls.length > 0 ? '📎 Attachment' : ''),
-          message_type: messageType,
-          attachments: attachmentUrls.length > 0 ? attachmentUrls : null,
-          reply_to_message_id: replyingToMessage?.id || null,
-          metadata: {}
-        })
-        .select('*')
-        .single();
-
-      if (insertError) throw insertError;
-
-      // Fetch the message with relationship separately
-      const { data: newMessage, error: fetchError } = await supabase
-        .from('messages')
-        .select(`
-          *,
-          profile_universes:sender_profile_universe_id(
-            id,
-            handle,
-            display_name,
-            avatar_url,
-            role
-          )
-        `)
-        .eq('id', insertedMessage.id)
-        .single();
-
-      if (fetchError) {
-        console.warn('[RealtimeMessenger] Could not fetch message with profile, using inserted message:', fetchError);
-        // Fallback: use inserted message and fetch profile separately
-        const { data: profile } = await supabase
-          .from('profile_universes')
-          .select('id, handle, display_name, avatar_url, role')
-          .eq('id', universe.id)
-          .single();
-        
-        const formattedMessage: Message = {
-          id: insertedMessage.id,
-          conversation_id: insertedMessage.conversation_id,
-          sender_id: insertedMessage.sender_id,
-          sender_profile_universe_id: insertedMessage.sender_profile_universe_id,
-          content: insertedMessage.content,
-          message_type: insertedMessage.message_type,
-          created_at: insertedMessage.created_at,
-          sender_profile: profile || undefined
-        };
+    const replies = threadReplyRows.map(formatMessageRow);
+    const loadedIds = new Set(replies.map(m => m.id));
+    const queued = outboxMessages
+      .filter(item => item.threadRootId === activeThreadRoot.id && !loadedIds.has(item.id))
+      .map(outboxItemToMessage);
 
-        setMessages(prev => [...prev, formattedMessage]);
-        loadConversations();
-        setReplyingToMessage(null);
-        setIsSendingMessage(false);
-        return;
-      }
+    return [...replies, ...queued];
+  }, [activeThreadRoot, threadReplyRows, outboxMessages, outboxItemToMessage]);
 
-      // Add to messages list optimistically
-      const senderProfile = Array.isArray(newMessage.profile_universes)
-        ? newMessage.profile_universes[0]
-        : newMessage.profile_universes;
-
-      const formattedMessage: Message = {
-        id: newMessage.id,
-        conversation_id: newMessage.conversation_id,
-        sender_id: newMessage.sender_id,
-        sender_profile_universe_id: newMessage.sender_profile_universe_id,
-        content: newMessage.content,
-        message_type: newMessage.message_type,
-        created_at: newMessage.created_at,
-        sender_profile: senderProfile
-      };
+  const loadThreadUnreadCounts = useCallback(async (conversationId: string) => {
+    if (!universe?.id) return;
+
+    try {
+      const counts = await messagingService.getThreadUnreadCounts(universe.id, conversationId);
+      setThreadUnreadCounts(counts);
+    } catch (error) {
+      console.error('[RealtimeMessenger] Error loading thread unread counts:', error);
+    }
+  }, [universe?.id]);
 
-      setMessages(prev => [...prev, formattedMessage]);
+  // Threads belong to a conversation; close the panel and reload counts when switching
+  useEffect(() => {
+    setActiveThreadRoot(null);
+    setShowPinnedMessages(false);
+    setThreadUnreadCounts({});
+    if (selectedConversation?.id) {
+      loadThreadUnreadCounts(selectedConversation.id);
+    }
+  }, [selectedConversation?.id, loadThreadUnreadCounts]);
+
+  const handleOpenThread = useCallback((message: Message) => {
+    setActiveThreadRoot(message);
+    setShowMessageSearch(false);
+    setShowPinnedMessages(false);
+    setThreadUnreadCounts(prev => {
+      if (!prev[message.id]) return prev;
+      const next = { ...prev };
+      delete next[message.id];
+      return next;
+    });
+  }, []);
 
-      // Clear reply state
-      setReplyingToMessage(null);
+  const handleCloseThread = useCallback(() => {
+    setActiveThreadRoot(null);
+  }, []);
+
+  const handleSendThreadReply = useCallback(async (content: string, attachments?: ComposerAttachment[], metadata?: ComposedMessageMetadata) => {
+    if (!selectedConversation || !activeThreadRoot) return;
+    if (!content.trim() && (!attachments || attachments.length === 0)) return;
 
-      // Reload conversations to update last message
-      loadConversations();
+    try {
+      await enqueueMessage(selectedConversation.id, content, attachments || [], {
+        threadRootId: activeThreadRoot.id,
+        metadata: metadata || null
+      });
     } catch (error: any) {
-      console.error('[RealtimeMessenger] Error sending message:', error);
-      toast.error('Failed to send message');
-    } finally {
-      setIsSendingMessage(false);
+      console.error('[RealtimeMessenger] Error queueing thread reply:', error);
+      toast.error(error.message || 'Failed to send reply');
     }
-  }, [selectedConversation, universe?.id, user?.id, loadConversations, replyingToMessage]);
+  }, [selectedConversation, activeThreadRoot, enqueueMessage]);
+
+  // =====================================================
+  // READ RECEIPTS
+  // =====================================================
+  // Move the read cursor to the newest message whenever it's on screen in a visible tab
+  const markLatestMessageRead = useCallback(() => {
+    if (!selectedConversation?.id || !universe?.id || hasNewerMessages) return;
+    if (document.visibilityState !== 'visible') return;
+
+    const latest = messages[messages.length - 1];
+    if (!latest || latest.conversation_id !== selectedConversation.id || lastMarkedReadIdRef.current === latest.id) return;
+
+    lastMarkedReadIdRef.current = latest.id;
+    messagingService.markConversationRead(selectedConversation.id, universe.id, latest.id).catch(error => {
+      console.error('[RealtimeMessenger] Error marking conversation read:', error);
+      lastMarkedReadIdRef.current = null;
+    });
+    setConversations(prev => prev.map(c =>
+      c.id === selectedConversation.id && c.unread_count ? { ...c, unread_count: 0, unread_mention_count: 0 } : c
+    ));
+    // Opening a conversation also clears a manual unread flag
+    patchOwnParticipant(selectedConversation.id, { marked_unread: false });
+  }, [selectedConversation?.id, universe?.id, hasNewerMessages, messages, patchOwnParticipant]);
+
+  useEffect(() => {
+    markLatestMessageRead();
+  }, [markLatestMessageRead]);
+
+  useEffect(() => {
+    document.addEventListener('visibilitychange', markLatestMessageRead);
+    return () => document.removeEventListener('visibilitychange', markLatestMessageRead);
+  }, [markLatestMessageRead]);
 
   // =====================================================
   // PRESENCE TRACKING
@@ -1163,6 +1816,17 @@ export default function RealtimeMessenger() {
         filter: `conversation_id=eq.${selectedConversation.id}`
       }, async (payload) => {
         console.log('[RealtimeMessenger] New message received:', payload.new);
+
+        // Thread replies live in the thread panel; the root's summary arrives as an UPDATE
+        if (payload.new.thread_root_id) {
+          if (
+            payload.new.thread_root_id !== activeThreadRootIdRef.current &&
+            payload.new.sender_profile_universe_id !== universe.id
+          ) {
+            loadThreadUnreadCounts(selectedConversation.id);
+          }
+          return;
+        }
         
         // Fetch the full message with sender profile
         const { data: messageData, error } = await supabase
@@ -1193,6 +1857,9 @@ export default function RealtimeMessenger() {
             content: messageData.content,
             message_type: messageData.message_type,
             created_at: messageData.created_at,
+            reply_to_message_id: messageData.reply_to_message_id,
+            metadata: messageData.metadata || {},
+            attachments: messageData.attachments,
             sender_profile: senderProfile
           };
 
@@ -1201,12 +1868,51 @@ export default function RealtimeMessenger() {
             if (prev.some(m => m.id === newMessage.id)) {
               return prev;
             }
+            // An older window is open; the message appears after jumping to latest
+            if (hasNewerMessagesRef.current) {
+              return prev;
+            }
             return [...prev, newMessage];
           });
+        }
+      })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'messages',
+        filter: `conversation_id=eq.${selectedConversation.id}`
+      }, (payload) => {
+        const updated = payload.new as any;
 
-          // Update conversation list
-          loadConversations();
+        // Soft-deleted messages disappear for everyone
+        if (updated.deleted_at) {
+          setMessages(prev => prev.filter(m => m.id !== updated.id));
+          setActiveThreadRoot((prev: Message | null) => (prev?.id === updated.id ? null : prev));
+          return;
         }
+
+        const patch = {
+          content: updated.content,
+          // Carries late additions such as a voice message's transcript
+          metadata: updated.metadata || {},
+          edited_at: updated.edited_at,
+          updated_at: updated.updated_at,
+          thread_reply_count: updated.thread_reply_count,
+          thread_last_reply_at: updated.thread_last_reply_at,
+          thread_participants: updated.thread_participants
+        };
+        setMessages(prev => prev.map(m => (m.id === updated.id ? { ...m, ...patch } : m)));
+        setActiveThreadRoot((prev: Message | null) => (prev?.id === updated.id ? { ...prev, ...patch } : prev));
+
+        // Keep an open edit history dialog in sync with the latest revision
+        setEditHistoryMessage(prev =>
+          prev?.id === updated.id
+            ? { ...prev, content: updated.content, edited_at: updated.edited_at }
+            : prev
+        );
+      })
+      .on('broadcast', { event: 'pins' }, () => {
+        refreshPinnedMessages();
       })
       .on('broadcast', { event: 'typing' }, (payload) => {
         const { user_id, display_name, is_typing, timestamp } = payload.payload;
@@ -1333,13 +2039,13 @@ export default function RealtimeMessenger() {
         conversationChannelRef.current = null;
       }
     };
-  }, [selectedConversation?.id, universe?.id, session?.access_token, loadConversations, messages]);
+  }, [selectedConversation?.id, universe?.id, session?.access_token, loadThreadUnreadCounts, refreshPinnedMessages, messages]);
 
   // =====================================================
   // MESSAGE REACTIONS
   // =====================================================
   const handleAddReaction = useCallback(async (messageId: string, emoji: string) => {
-    if (!universe?.id) return;
+    if (!universe?.id || !selectedConversation?.id) return;
 
     // Check if user already reacted with this emoji
     const message = messages.find(m => m.id === messageId);
@@ -1348,9 +2054,8 @@ export default function RealtimeMessenger() {
     );
 
     const isRemoving = !!existingReaction;
-    const tempReactionId = `temp-reaction-${Date.now()}`;
 
-    // Optimistic update
+    // Optimistic update; the outbox applies it on the server, now or once back online
     setMessages(prev => prev.map(msg => {
       if (msg.id !== messageId) return msg;
       
@@ -1363,7 +2068,7 @@ export default function RealtimeMessenger() {
         };
       } else {
         const newReaction = {
-          id: tempReactionId,
+          id: `temp-reaction-${Date.now()}`,
           emoji,
           profile_universe_id: universe.id,
           created_at: new Date().toISOString(),
@@ -1381,81 +2086,33 @@ export default function RealtimeMessenger() {
     }));
 
     try {
-      if (isRemoving) {
-        // Remove reaction
-        const { error } = await supabase
-          .from('message_reactions')
-          .delete()
-          .eq('id', existingReaction.id);
-
-        if (error) throw error;
-      } else {
-        // Add reaction
-        const { data: reactionData, error } = await supabase
-          .from('message_reactions')
-          .insert({
-            message_id: messageId,
-            profile_universe_id: universe.id,
-            emoji: emoji
-          })
-          .select('id, emoji, profile_universe_id, created_at')
-          .single();
+      await enqueueReaction(selectedConversation.id, messageId, emoji, isRemoving ? 'remove' : 'add');
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error handling reaction:', error);
+      toast.error('Failed to update reaction');
+    }
+  }, [universe, selectedConversation?.id, messages, enqueueReaction]);
 
-        if (error) throw error;
+  // Reactions on thread replies; the root is part of the timeline and uses the main handler
+  const handleThreadReaction = useCallback(async (messageId: string, emoji: string) => {
+    const reply = threadReplies.find(m => m.id === messageId);
+    if (!reply) {
+      handleAddReaction(messageId, emoji);
+      return;
+    }
+    if (!universe?.id || !selectedConversation?.id) return;
 
-        // Fetch profile data separately
-        let profileData = null;
-        if (reactionData) {
-          const { data: profile } = await supabase
-            .from('profile_universes')
-            .select('id, handle, display_name, avatar_url')
-            .eq('id', reactionData.profile_universe_id)
-            .single();
-          profileData = profile;
-        }
+    const hasReacted = reply.reactions?.some(
+      (r: any) => r.profile_universe_id === universe.id && r.emoji === emoji
+    );
 
-        // Replace temp reaction with real one
-        if (reactionData) {
-          setMessages(prev => prev.map(msg => {
-            if (msg.id !== messageId) return msg;
-            const currentReactions = msg.reactions || [];
-            return {
-              ...msg,
-              reactions: currentReactions.map((r: any) => 
-                r.id === tempReactionId ? {
-                  id: reactionData.id,
-                  emoji: reactionData.emoji,
-                  profile_universe_id: reactionData.profile_universe_id,
-                  created_at: reactionData.created_at,
-                  profile_universes: profileData
-                } : r
-              )
-            };
-          }));
-        }
-      }
+    try {
+      await enqueueReaction(selectedConversation.id, messageId, emoji, hasReacted ? 'remove' : 'add');
     } catch (error: any) {
-      console.error('[RealtimeMessenger] Error handling reaction:', error);
+      console.error('[RealtimeMessenger] Error handling thread reaction:', error);
       toast.error('Failed to update reaction');
-      // Revert optimistic update on error
-      setMessages(prev => prev.map(msg => {
-        if (msg.id !== messageId) return msg;
-        const currentReactions = msg.reactions || [];
-        
-        if (isRemoving) {
-          return {
-            ...msg,
-            reactions: [...currentReactions, existingReaction]
-          };
-        } else {
-          return {
-            ...msg,
-            reactions: currentReactions.filter((r: any) => r.id !== tempReactionId)
-          };
-        }
-      }));
     }
-  }, [universe?.id, messages]);
+  }, [threadReplies, handleAddReaction, universe?.id, selectedConversation?.id, enqueueReaction]);
 
   // =====================================================
   // HANDLERS
@@ -1469,6 +2126,47 @@ export default function RealtimeMessenger() {
     }
   }, [setSearchParams]);
   
+  // Flash a message in the timeline; MessageArea scrolls to it
+  const highlightMessage = useCallback((messageId: string) => {
+    setHighlightedMessageId(messageId);
+    if (highlightTimeoutRef.current) {
+      clearTimeout(highlightTimeoutRef.current);
+    }
+    highlightTimeoutRef.current = setTimeout(() => setHighlightedMessageId(null), 5000);
+  }, []);
+
+  // Open the result's conversation and jump to the message in context
+  const handleSelectSearchResult = useCallback((result: MessageSearchResult) => {
+    const conversation = conversations.find(c => c.id === result.conversation_id);
+    if (!conversation) {
+      toast.error('Conversation not found');
+      return;
+    }
+
+    // Open the conversation around the match unless it's already loaded
+    if (selectedConversation?.id !== conversation.id) {
+      pendingJumpMessageIdRef.current = result.id;
+      handleSelectConversation(conversation);
+    } else if (!messages.some(m => m.id === result.id) && universe?.id) {
+      loadMessages(conversation.id, universe.id, result.id);
+    }
+
+    highlightMessage(result.id);
+
+    // The results panel covers the chat on small screens
+    if (window.innerWidth < 1024) {
+      setShowMessageSearch(false);
+    }
+  }, [conversations, selectedConversation?.id, handleSelectConversation, messages, universe?.id, loadMessages, highlightMessage]);
+
+  useEffect(() => {
+    return () => {
+      if (highlightTimeoutRef.current) {
+        clearTimeout(highlightTimeoutRef.current);
+      }
+    };
+  }, []);
+
   const handleBackToConversations = useCallback(() => {
     setSelectedConversation(null);
     setSearchParams({});
@@ -1512,6 +2210,53 @@ export default function RealtimeMessenger() {
     }, 3000);
   }, [universe]);
 
+  // =====================================================
+  // PINNED MESSAGES
+  // =====================================================
+  const handleSelectPinnedMessage = useCallback((messageId: string) => {
+    if (!selectedConversation?.id || !universe?.id) return;
+
+    if (!messages.some(m => m.id === messageId)) {
+      loadMessages(selectedConversation.id, universe.id, messageId);
+    }
+    highlightMessage(messageId);
+
+    // The pinned list covers the chat on small screens
+    if (window.innerWidth < 1024) {
+      setShowPinnedMessages(false);
+    }
+  }, [selectedConversation?.id, universe?.id, messages, loadMessages, highlightMessage]);
+
+  const handleShowPinnedMessages = useCallback(() => {
+    setShowPinnedMessages(true);
+    setShowMessageSearch(false);
+    setActiveThreadRoot(null);
+  }, []);
+
+  const handleTogglePinMessage = useCallback(async (messageId: string, pinned: boolean) => {
+    if (!universe?.id) return;
+
+    try {
+      if (pinned) {
+        await pinMessage(messageId, universe.id);
+        toast.success('Message pinned');
+      } else {
+        await unpinMessage(messageId, universe.id);
+        toast.success('Message unpinned');
+      }
+
+      // Let everyone else in the conversation refresh their pins
+      conversationChannelRef.current?.send({
+        type: 'broadcast',
+        event: 'pins',
+        payload: { message_id: messageId, pinned }
+      });
+    } catch (error: any) {
+      console.error('[RealtimeMessenger] Error updating pin:', error);
+      toast.error(error.message || (pinned ? 'Failed to pin message' : 'Failed to unpin message'));
+    }
+  }, [universe?.id, pinMessage, unpinMessage]);
+
   // =====================================================
   // EARLY RETURNS
   // =====================================================
@@ -1568,6 +2313,17 @@ export default function RealtimeMessenger() {
               </Button>
             )}
             
+            {/* Search all messages */}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-9 w-9"
+              title="Search all messages"
+              onClick={() => setShowMessageSearch(!showMessageSearch)}
+            >
+              <Search className="h-4 w-4" />
+            </Button>
+
             {/* Universe Switcher */}
             <div className="flex items-center">
               <Suspense fallback={<Button variant="ghost" size="icon" className="h-9 w-9" disabled><Loader2 className="h-4 w-4 animate-spin" /></Button>}>
@@ -1616,17 +2372,24 @@ export default function RealtimeMessenger() {
             selectedConversationId={selectedConversation?.id}
             onSelectConversation={handleSelectConversation}
             onNewMessage={() => setIsNewMessageDialogOpen(true)}
+            onNewGroup={() => setIsCreateGroupOpen(true)}
             currentUniverseId={universe.id}
             searchQuery={conversationSearchQuery}
             onSearchChange={setConversationSearchQuery}
             filter={conversationFilter}
             onFilterChange={setConversationFilter}
             isLoading={isLoadingConversations}
+            hasMore={hasMoreConversations}
+            isLoadingMore={isLoadingMoreConversations}
+            onLoadMore={loadMoreConversations}
+            onUpdateFlags={handleUpdateConversationFlags}
+            onReorderPinned={handleReorderPinnedConversations}
             isCollapsed={isSidebarCollapsed}
             onToggleCollapse={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
             showSidebar={showSidebar}
             onCloseSidebar={() => setShowSidebar(false)}
             activeCallConversationId={activeCall?.conversation_id || null}
+            drafts={draftPreviews}
           />
         </div>
 
@@ -1654,9 +2417,13 @@ export default function RealtimeMessenger() {
                 </Button>
                 <div className="relative">
                   <Avatar className="h-dv-10 w-dv-10 flex-shrink-0">
-                    <AvatarImage src={selectedConversation.participants.find(p => p.profile_universe_id !== universe.id)?.profile_universe?.avatar_url} />
+                    <AvatarImage src={selectedConversation.type === 'group'
+                      ? selectedConversation.avatar_url
+                      : selectedConversation.participants.find(p => p.profile_universe_id !== universe.id)?.profile_universe?.avatar_url} />
                     <AvatarFallback>
-                      {selectedConversation.name?.charAt(0) || '?'}
+                      {selectedConversation.type === 'group' && !selectedConversation.name
+                        ? <Users className="h-4 w-4" />
+                        : selectedConversation.name?.charAt(0) || '?'}
                     </AvatarFallback>
                   </Avatar>
                   {selectedConversation.participants
@@ -1674,7 +2441,17 @@ export default function RealtimeMessenger() {
                        .join(', ') || 
                      'Conversation'}
                   </h3>
-                  {selectedConversation.participants
+                  {selectedConversation.type === 'group' ? (
+                    <p className="text-dv-xs text-muted-foreground">
+                      {selectedConversation.participants.length} members
+                      {(() => {
+                        const onlineCount = selectedConversation.participants
+                          .filter(p => p.profile_universe_id !== universe.id && onlineUsers.has(p.profile_universe_id))
+                          .length;
+                        return onlineCount > 0 ? ` · ${onlineCount} online` : '';
+                      })()}
+                    </p>
+                  ) : selectedConversation.participants
                     .filter(p => p.profile_universe_id !== universe.id)
                     .some(p => onlineUsers.has(p.profile_universe_id)) ? (
                     <p className="text-dv-xs text-muted-foreground">Active now</p>
@@ -1698,6 +2475,41 @@ export default function RealtimeMessenger() {
                     </span>
                   </div>
                 )}
+                {selectedConversation.type === 'group' && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-9 w-9"
+                    title="Group members"
+                    onClick={() => setIsGroupMembersOpen(true)}
+                  >
+                    <Users className="h-4 w-4" />
+                  </Button>
+                )}
+                {pinnedMessages.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-9 px-2 gap-1"
+                    title="Pinned messages"
+                    onClick={() => (showPinnedMessages ? setShowPinnedMessages(false) : handleShowPinnedMessages())}
+                  >
+                    <Pin className="h-4 w-4" />
+                    <span className="text-xs">{pinnedMessages.length}</span>
+                  </Button>
+                )}
+                {scheduledMessages.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-9 px-2 gap-1"
+                    title="Scheduled messages"
+                    onClick={() => setIsScheduledMessagesOpen(true)}
+                  >
+                    <CalendarClock className="h-4 w-4" />
+                    <span className="text-xs">{scheduledMessages.length}</span>
+                  </Button>
+                )}
                 <Button
                   variant="ghost"
                   size="icon"
@@ -1707,108 +2519,154 @@ export default function RealtimeMessenger() {
                 >
                   <Search className="h-4 w-4" />
                 </Button>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-9 w-9"
-                  title={selectedConversation.participants.find(p => p.profile_universe_id === universe.id)?.is_muted ? 'Unmute conversation' : 'Mute conversation'}
-                  onClick={handleToggleMute}
-                >
-                  {selectedConversation.participants.find(p => p.profile_universe_id === universe.id)?.is_muted ? (
-                    <Bell className="h-4 w-4" />
-                  ) : (
-                    <BellOff className="h-4 w-4" />
-                  )}
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-9 w-9"
-                  title="Voice call"
-                  onClick={() => {
-                    console.log('[RealtimeMessenger] Voice call button clicked');
-                    if (!selectedConversation) {
-                      toast.error('Please select a conversation first');
-                      return;
-                    }
-                    const otherParticipant = selectedConversation.participants.find(
-                      p => p.profile_universe_id !== universe.id
-                    );
-                    if (!otherParticipant) {
-                      toast.error('Cannot start voice call: Participant not found');
-                      return;
-                    }
-                    setIsVoiceOnlyCall(true);
-                    setIsVideoCallOpen(true);
-                  }}
-                  disabled={!selectedConversation || !!activeCall}
-                >
-                  <Phone className="h-4 w-4" />
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-9 w-9"
-                  title="Video call"
-                  onClick={() => {
-                    console.log('[RealtimeMessenger] Video button clicked', {
-                      selectedConversation: selectedConversation?.id,
-                      participants: selectedConversation?.participants,
-                      participantsCount: selectedConversation?.participants?.length,
-                      universeId: universe?.id,
-                      isVideoCallOpen: isVideoCallOpen
-                    });
-                    if (!selectedConversation) {
-                      console.warn('[RealtimeMessenger] Cannot start video call: No conversation selected');
-                      toast.error('Please select a conversation first');
-                      return;
-                    }
-                    const otherParticipant = selectedConversation.participants.find(
-                      p => p.profile_universe_id !== universe.id
-                    );
-                    if (!otherParticipant) {
-                      console.warn('[RealtimeMessenger] Cannot start video call: No other participant found');
-                      toast.error('Cannot start video call: Participant not found');
-                      return;
-                    }
-                    setIsVoiceOnlyCall(false);
-                    setIsVideoCallOpen(true);
-                  }}
-                  disabled={!selectedConversation || !!activeCall}
-                >
-                  <Video className="h-4 w-4" />
-                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-9 w-9"
+                      title={isSelectedConversationMuted
+                        ? ownParticipant?.muted_until
+                          ? `Muted until ${format(new Date(ownParticipant.muted_until), 'MMM d, h:mm a')}`
+                          : 'Muted'
+                        : 'Mute and notifications'}
+                    >
+                      {isSelectedConversationMuted ? (
+                        <BellOff className="h-4 w-4" />
+                      ) : (
+                        <Bell className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {isSelectedConversationMuted ? (
+                      <DropdownMenuItem onClick={() => handleMute(null)}>
+                        <Bell className="h-4 w-4 mr-2" />
+                        Unmute
+                      </DropdownMenuItem>
+                    ) : (
+                      MUTE_DURATIONS.map(duration => (
+                        <DropdownMenuItem key={duration.value} onClick={() => handleMute(duration.value)}>
+                          <BellOff className="h-4 w-4 mr-2" />
+                          Mute {duration.label.charAt(0).toLowerCase() + duration.label.slice(1)}
+                        </DropdownMenuItem>
+                      ))
+                    )}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => setIsNotificationSettingsOpen(true)}>
+                      <Settings className="h-4 w-4 mr-2" />
+                      Notification settings...
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                {selectedOngoingCall && !isVideoCallOpen ? (
+                  // Someone is already on a call here: join it instead of starting another
+                  <Button
+                    size="sm"
+                    className="h-9 bg-dv-green-600 hover:bg-dv-green-700 text-white"
+                    title="Join call"
+                    onClick={() => {
+                      setIsVoiceOnlyCall(false);
+                      setJoiningCall(selectedOngoingCall);
+                      setIsVideoCallOpen(true);
+                    }}
+                  >
+                    <Phone className="h-4 w-4 mr-1.5" />
+                    Join call
+                  </Button>
+                ) : (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-9 w-9"
+                      title="Voice call"
+                      onClick={() => {
+                        console.log('[RealtimeMessenger] Voice call button clicked');
+                        if (!selectedConversation) {
+                          toast.error('Please select a conversation first');
+                          return;
+                        }
+                        if (!selectedConversation.participants.some(p => p.profile_universe_id !== universe.id)) {
+                          toast.error('Cannot start voice call: Participant not found');
+                          return;
+                        }
+                        setIsVoiceOnlyCall(true);
+                        setIsVideoCallOpen(true);
+                      }}
+                      disabled={!selectedConversation || isVideoCallOpen}
+                    >
+                      <Phone className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-9 w-9"
+                      title="Video call"
+                      onClick={() => {
+                        console.log('[RealtimeMessenger] Video button clicked', {
+                          selectedConversation: selectedConversation?.id,
+                          participantsCount: selectedConversation?.participants?.length,
+                          universeId: universe?.id,
+                          isVideoCallOpen: isVideoCallOpen
+                        });
+                        if (!selectedConversation) {
+                          console.warn('[RealtimeMessenger] Cannot start video call: No conversation selected');
+                          toast.error('Please select a conversation first');
+                          return;
+                        }
+                        if (!selectedConversation.participants.some(p => p.profile_universe_id !== universe.id)) {
+                          console.warn('[RealtimeMessenger] Cannot start video call: No other participant found');
+                          toast.error('Cannot start video call: Participant not found');
+                          return;
+                        }
+                        setIsVoiceOnlyCall(false);
+                        setIsVideoCallOpen(true);
+                      }}
+                      disabled={!selectedConversation || isVideoCallOpen}
+                    >
+                      <Video className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
               </div>
             </div>
 
             {/* Messages Area */}
             <MessageArea
-              messages={messages}
+              messages={displayedMessages}
               currentUniverseId={universe.id}
               isLoading={isLoadingMessages}
               selectedConversationName={selectedConversation.name}
+              isGroupConversation={selectedConversation.type === 'group'}
+              highlightedMessageId={highlightedMessageId}
+              hasOlderMessages={hasOlderMessages}
+              hasNewerMessages={hasNewerMessages}
+              isLoadingOlderMessages={isLoadingOlderMessages}
+              isLoadingNewerMessages={isLoadingNewerMessages}
+              onLoadOlderMessages={loadOlderMessages}
+              onLoadNewerMessages={loadNewerMessages}
+              onJumpToLatest={handleJumpToLatest}
               typingUsers={Array.from(typingUsers.values())}
               onAddReaction={handleAddReaction}
               onReplyToMessage={handleReplyToMessage}
               onEditMessage={handleEditMessage}
+              onViewEditHistory={setEditHistoryMessage}
               onDeleteMessage={handleDeleteMessage}
               onForwardMessage={handleForwardMessage}
               onCopyMessage={handleCopyMessage}
               onImageClick={(url, name) => setSelectedImage({ url, name })}
+              onRetryMessage={retryOutboxItem}
+              onDiscardMessage={discardOutboxItem}
+              onOpenThread={handleOpenThread}
+              threadUnreadCounts={threadUnreadCounts}
+              pinnedMessages={pinnedMessages}
+              readReceipts={readReceipts}
+              onSelectPinnedMessage={handleSelectPinnedMessage}
+              onShowAllPinned={handleShowPinnedMessages}
+              onTogglePinMessage={handleTogglePinMessage}
             />
 
-            {/* Message Search Bar */}
-            {showMessageSearch && (
-              <div className="border-b border-border px-4 py-2 bg-muted/50">
-                <Input
-                  placeholder="Search messages..."
-                  value={messageSearchQuery}
-                  onChange={(e) => setMessageSearchQuery(e.target.value)}
-                  className="w-full"
-                />
-              </div>
-            )}
-
             {/* Message Input */}
             <div className="relative">
               {replyingToMessage && (
@@ -1820,7 +2678,7 @@ export default function RealtimeMessenger() {
                         Replying to {replyingToMessage.sender_profile?.display_name || 'message'}
                       </p>
                       <p className="text-xs text-muted-foreground truncate">
-                        {replyingToMessage.content}
+                        {stripMarkdown(replyingToMessage.content)}
                       </p>
                     </div>
                   </div>
@@ -1835,9 +2693,15 @@ export default function RealtimeMessenger() {
                 </div>
               )}
               <MessageInput
+                key={selectedConversation.id}
+                initialDraft={getDraft(selectedConversation.id)}
+                onDraftChange={(draft: ComposerDraft) => updateDraft(selectedConversation.id, draft)}
                 onSendMessage={sendMessage}
                 onTyping={handleTyping}
-                isSending={isSendingMessage}
+                onScheduleMessage={handleScheduleMessage}
+                mentionCandidates={mentionCandidates}
+                currentUniverseId={universe?.id}
+                conversationId={selectedConversation.id}
                 placeholder={`Message ${selectedConversation.name || 'conversation'}...`}
               />
               {/* Voice Message Button */}
@@ -1865,6 +2729,54 @@ export default function RealtimeMessenger() {
           </div>
         )}
       </div>
+
+      {/* Global Message Search */}
+      {showMessageSearch && (
+        <div className="absolute lg:relative inset-0 lg:inset-auto z-30 lg:z-auto w-full lg:w-96 flex-shrink-0">
+          <MessageSearchPanel
+            universeId={universe.id}
+            conversations={conversations}
+            onSelectResult={handleSelectSearchResult}
+            onClose={() => setShowMessageSearch(false)}
+          />
+        </div>
+      )}
+
+      {/* Pinned Messages */}
+      {showPinnedMessages && !showMessageSearch && selectedConversation && (
+        <div className="absolute lg:relative inset-0 lg:inset-auto z-30 lg:z-auto w-full lg:w-96 flex-shrink-0">
+          <PinnedMessagesPanel
+            pinnedMessages={pinnedMessages}
+            isLoading={isLoadingPinnedMessages}
+            onSelectPinnedMessage={handleSelectPinnedMessage}
+            onUnpinMessage={(messageId) => handleTogglePinMessage(messageId, false)}
+            onClose={() => setShowPinnedMessages(false)}
+          />
+        </div>
+      )}
+
+      {/* Thread */}
+      {threadRootMessage && !showMessageSearch && !showPinnedMessages && selectedConversation && (
+        <div className="absolute lg:relative inset-0 lg:inset-auto z-30 lg:z-auto w-full lg:w-96 flex-shrink-0">
+          <ThreadPanel
+            rootMessage={threadRootMessage}
+            replies={threadReplies}
+            currentUniverseId={universe.id}
+            isLoading={isLoadingThread}
+            isGroupConversation={selectedConversation.type === 'group'}
+            mentionCandidates={mentionCandidates}
+            onSendReply={handleSendThreadReply}
+            onClose={handleCloseThread}
+            onAddReaction={handleThreadReaction}
+            onEditMessage={handleEditMessage}
+            onDeleteMessage={handleDeleteMessage}
+            onCopyMessage={handleCopyMessage}
+            onImageClick={(url, name) => setSelectedImage({ url, name })}
+            onRetryMessage={retryOutboxItem}
+            onDiscardMessage={discardOutboxItem}
+          />
+        </div>
+      )}
       </div>
 
       {/* New Message Dialog */}
@@ -1954,39 +2866,88 @@ export default function RealtimeMessenger() {
       </Dialog>
 
       {/* Video Call Dialog */}
-      {selectedConversation && (() => {
-        const otherParticipantData = selectedConversation.participants.find(
-          p => p.profile_universe_id !== universe.id
-        );
-        if (!otherParticipantData) return null;
-        
-        return (
-          <Suspense fallback={null}>
-            <VideoCallDialog
-              isOpen={isVideoCallOpen}
-              onClose={() => {
-                setIsVideoCallOpen(false);
-                setIsVoiceOnlyCall(false);
-              }}
-              conversationId={selectedConversation.id}
-              voiceOnly={isVoiceOnlyCall}
-              otherParticipant={{
-                profile_universe_id: otherParticipantData.profile_universe_id,
-                profile_universe: otherParticipantData.profile_universe
-              }}
-              incomingCall={incomingCall}
-              videoCallOptions={{
-                universe: universe || null,
-                user: user || null
-              }}
-              videoCallInvitationsOptions={{
-                user: user || null,
-                session: session || null
-              }}
-            />
-          </Suspense>
-        );
-      })()}
+      {selectedConversation && (
+        <Suspense fallback={null}>
+          <VideoCallDialog
+            // A fresh dialog per call, so nothing carries over from the last one
+            key={`${selectedConversation.id}:${incomingCall?.id || joiningCall?.id || 'new'}`}
+            isOpen={isVideoCallOpen}
+            onClose={() => {
+              setIsVideoCallOpen(false);
+              setIsVoiceOnlyCall(false);
+              setIncomingCall(null);
+              setJoiningCall(null);
+            }}
+            conversationId={selectedConversation.id}
+            voiceOnly={isVoiceOnlyCall}
+            participants={selectedConversation.participants
+              .filter((p: ConversationParticipant) => p.profile_universe_id !== universe.id)
+              .map((p: ConversationParticipant) => ({
+                profile_universe_id: p.profile_universe_id,
+                profile_universe: p.profile_universe
+              }))}
+            title={selectedConversation.name || undefined}
+            isGroup={selectedConversation.type === 'group'}
+            incomingCall={incomingCall}
+            ongoingCall={joiningCall}
+          />
+        </Suspense>
+      )}
+
+      {/* Message Edit History */}
+      <MessageEditHistoryDialog
+        message={editHistoryMessage}
+        onClose={() => setEditHistoryMessage(null)}
+      />
+
+      {/* Create Group */}
+      <CreateGroupDialog
+        open={isCreateGroupOpen}
+        onOpenChange={setIsCreateGroupOpen}
+        currentUniverseId={universe.id}
+        onCreate={handleCreateGroup}
+      />
+
+      {/* Scheduled Messages */}
+      <ScheduledMessagesDialog
+        open={isScheduledMessagesOpen}
+        onOpenChange={setIsScheduledMessagesOpen}
+        scheduledMessages={scheduledMessages}
+        isLoading={isLoadingScheduledMessages}
+        onUpdate={handleUpdateScheduledMessage}
+        onCancel={handleCancelScheduledMessage}
+      />
+
+      <NotificationSettingsDialog
+        open={isNotificationSettingsOpen}
+        onOpenChange={setIsNotificationSettingsOpen}
+        preferences={selectedNotificationPreferences}
+        onSave={handleSaveNotificationSettings}
+      />
+
+      {/* Group Members */}
+      {selectedConversation?.type === 'group' && (
+        <GroupMembersDialog
+          open={isGroupMembersOpen}
+          onOpenChange={setIsGroupMembersOpen}
+          conversation={selectedConversation}
+          currentUniverseId={universe.id}
+          onUpdateDetails={handleUpdateGroupDetails}
+          onAddMembers={handleAddGroupMembers}
+          onRemoveMember={handleRemoveGroupMember}
+          onChangeRole={handleChangeGroupMemberRole}
+          onLeave={handleLeaveConversation}
+        />
+      )}
+
+      {/* Forward Message */}
+      <ForwardMessageDialog
+        message={forwardingMessage}
+        conversations={conversations}
+        currentUniverseId={universe.id}
+        onClose={() => setForwardingMessage(null)}
+        onForward={handleConfirmForward}
+      />
 
       {/* Image Lightbox */}
       {selectedImage && (
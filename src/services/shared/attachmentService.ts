@@ -0,0 +1,518 @@
+/**
+ * Attachment Service - validates and uploads message attachments
+ *
+ * Uploads go through Supabase's resumable (TUS) endpoint in chunks, so progress can be reported
+ * and an upload interrupted by a lost connection or a reload carries on where it stopped.
+ * Images get a downscaled thumbnail and videos a poster frame, uploaded next to the original.
+ * The bucket is private: attachments are read through signed URLs, cached until shortly before
+ * they expire.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  buildAttachmentPath,
+  checkAttachment,
+  SNIFF_BYTE_COUNT,
+  type AttachmentKind,
+  type AttachmentThumbnail,
+  type MessageAttachment
+} from '@/lib/messenger/attachments';
+
+const ATTACHMENT_BUCKET = 'message-attachments';
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL?.trim();
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY?.trim().replace(/[\n\r]/g, '');
+// Supabase requires every chunk but the last to be exactly 6MB
+const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024;
+// Upload URLs of unfinished uploads, so a reload can resume them
+const RESUMABLE_UPLOADS_KEY = 'messenger:resumable-uploads';
+const THUMBNAIL_MAX_SIZE = 480;
+const THUMBNAIL_QUALITY = 0.8;
+const POSTER_TIMEOUT_MS = 10000;
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+// Cached signed URLs are re-signed once they get this close to expiring
+const SIGNED_URL_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export type UploadProgressListener = (progress: number) => void;
+
+export interface InspectedAttachment {
+  kind: AttachmentKind;
+  mimeType: string;
+}
+
+interface AttachmentPreview {
+  blob: Blob;
+  width: number;
+  height: number;
+  sourceWidth: number;
+  sourceHeight: number;
+  duration?: number;
+}
+
+export interface SignedAttachmentUrl {
+  url: string;
+  // When to ask for a fresh URL, ahead of the real expiry
+  refreshAt: number;
+}
+
+interface ActiveUpload {
+  promise: Promise<MessageAttachment>;
+  controller: AbortController;
+  progress: number;
+  listeners: Set<UploadProgressListener>;
+}
+
+// Uploads by path; the composer starts them and the outbox picks them up on send
+const activeUploads = new Map<string, ActiveUpload>();
+const completedUploads = new Map<string, MessageAttachment>();
+
+const signedUrls = new Map<string, SignedAttachmentUrl>();
+const signingPaths = new Map<string, Promise<SignedAttachmentUrl>>();
+type SigningBatch = Map<string, { resolve: (signed: SignedAttachmentUrl) => void; reject: (error: Error) => void }>;
+// Paths requested in the same tick are signed with one request
+let signingBatch: SigningBatch | null = null;
+
+const getThumbnailPath = (path: string) => `${path}.thumb`;
+
+function readResumableUploads(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(RESUMABLE_UPLOADS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writeResumableUpload(key: string, uploadUrl: string | null) {
+  try {
+    const uploads = readResumableUploads();
+    if (uploadUrl) {
+      uploads[key] = uploadUrl;
+    } else {
+      delete uploads[key];
+    }
+    localStorage.setItem(RESUMABLE_UPLOADS_KEY, JSON.stringify(uploads));
+  } catch {
+    // Without storage an interrupted upload simply starts over
+  }
+}
+
+interface TusResponse {
+  status: number;
+  getHeader: (name: string) => string | null;
+}
+
+// XMLHttpRequest rather than fetch, since only it reports upload progress
+function tusRequest(
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  options: { body?: Blob; signal?: AbortSignal; onProgress?: (loaded: number) => void } = {}
+): Promise<TusResponse> {
+  return new Promise((resolve, reject) => {
+    const { body, signal, onProgress } = options;
+    if (signal?.aborted) {
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    const settle = () => signal?.removeEventListener('abort', abort);
+
+    xhr.open(method, url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    if (onProgress) {
+      xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    }
+    xhr.onload = () => {
+      settle();
+      resolve({ status: xhr.status, getHeader: (name) => xhr.getResponseHeader(name) });
+    };
+    // Reported like a failed fetch, so the outbox treats it as retryable
+    xhr.onerror = () => {
+      settle();
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', abort);
+    xhr.send(body ?? null);
+  });
+}
+
+async function uploadResumable(
+  file: Blob,
+  path: string,
+  contentType: string,
+  onProgress: UploadProgressListener,
+  signal: AbortSignal
+): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('User must be authenticated to upload attachments');
+  }
+
+  const endpoint = `${SUPABASE_URL}/storage/v1/upload/resumable`;
+  const headers = {
+    Authorization: `Bearer ${session.access_token}`,
+    apikey: SUPABASE_ANON_KEY || '',
+    'Tus-Resumable': '1.0.0'
+  };
+  const key = `${path}:${file.size}`;
+  let uploadUrl: string | undefined = readResumableUploads()[key];
+  let offset = 0;
+
+  if (uploadUrl) {
+    const response = await tusRequest('HEAD', uploadUrl, headers, { signal });
+    const storedOffset = Number(response.getHeader('Upload-Offset'));
+    if (response.status === 200 && Number.isFinite(storedOffset)) {
+      offset = storedOffset;
+    } else {
+      // Expired on the server; start over
+      uploadUrl = undefined;
+    }
+  }
+
+  if (!uploadUrl) {
+    const metadata = { bucketName: ATTACHMENT_BUCKET, objectName: path, contentType, cacheControl: '3600' };
+    const response = await tusRequest('POST', endpoint, {
+      ...headers,
+      'Upload-Length': String(file.size),
+      'Upload-Metadata': Object.entries(metadata).map(([name, value]) => `${name} ${btoa(value)}`).join(','),
+      'x-upsert': 'true'
+    }, { signal });
+    const location = response.getHeader('Location');
+    if (response.status !== 201 || !location) {
+      throw new Error(`Failed to start upload (${response.status})`);
+    }
+    uploadUrl = new URL(location, endpoint).toString();
+    writeResumableUpload(key, uploadUrl);
+  }
+
+  onProgress(offset / file.size);
+  while (offset < file.size) {
+    const chunkStart = offset;
+    const response = await tusRequest('PATCH', uploadUrl, {
+      ...headers,
+      'Upload-Offset': String(offset),
+      'Content-Type': 'application/offset+octet-stream'
+    }, {
+      body: file.slice(offset, offset + RESUMABLE_CHUNK_SIZE),
+      signal,
+      onProgress: (loaded) => onProgress(Math.min(1, (chunkStart + loaded) / file.size))
+    });
+    const nextOffset = Number(response.getHeader('Upload-Offset'));
+    if (response.status !== 204 || !Number.isFinite(nextOffset)) {
+      // The server lost track of the upload; the next attempt starts a fresh one
+      writeResumableUpload(key, null);
+      throw new Error(`Failed to upload attachment (${response.status})`);
+    }
+    offset = nextOffset;
+  }
+
+  writeResumableUpload(key, null);
+  onProgress(1);
+}
+
+async function signBatch(batch: SigningBatch) {
+  const paths = Array.from(batch.keys());
+  try {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+    if (error) throw error;
+
+    const refreshAt = Date.now() + SIGNED_URL_TTL_SECONDS * 1000 - SIGNED_URL_REFRESH_MARGIN_MS;
+    const byPath = new Map((data || []).map(item => [item.path, item]));
+    batch.forEach((callbacks, path) => {
+      const item = byPath.get(path);
+      if (!item?.signedUrl) {
+        callbacks.reject(new Error(item?.error || `Failed to sign ${path}`));
+        return;
+      }
+      const signed = { url: item.signedUrl, refreshAt };
+      signedUrls.set(path, signed);
+      callbacks.resolve(signed);
+    });
+  } catch (error: any) {
+    const failure = error instanceof Error ? error : new Error(error?.message || 'Failed to sign attachment URLs');
+    batch.forEach(callbacks => callbacks.reject(failure));
+  }
+}
+
+async function drawThumbnail(source: CanvasImageSource, width: number, height: number) {
+  const scale = Math.min(1, THUMBNAIL_MAX_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  // Browsers that can't encode WebP fall back to PNG
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', THUMBNAIL_QUALITY));
+  return blob ? { blob, width: canvas.width, height: canvas.height } : null;
+}
+
+async function createImagePreview(file: Blob): Promise<AttachmentPreview | null> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const thumbnail = await drawThumbnail(bitmap, bitmap.width, bitmap.height);
+    return thumbnail && { ...thumbnail, sourceWidth: bitmap.width, sourceHeight: bitmap.height };
+  } finally {
+    bitmap.close();
+  }
+}
+
+function createVideoPreview(file: Blob): Promise<AttachmentPreview | null> {
+  return new Promise(resolve => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(file);
+    const finish = (preview: AttachmentPreview | null) => {
+      clearTimeout(timer);
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+      resolve(preview);
+    };
+    const timer = setTimeout(() => finish(null), POSTER_TIMEOUT_MS);
+
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => {
+      // A frame a little way in; the very first is often black
+      video.currentTime = Number.isFinite(video.duration) ? Math.min(1, video.duration / 10) : 0;
+    };
+    video.onseeked = () => {
+      if (!video.videoWidth || !video.videoHeight) {
+        finish(null);
+        return;
+      }
+      drawThumbnail(video, video.videoWidth, video.videoHeight)
+        .then(poster => finish(poster && {
+          ...poster,
+          sourceWidth: video.videoWidth,
+          sourceHeight: video.videoHeight,
+          duration: Number.isFinite(video.duration) ? video.duration : undefined
+        }))
+        .catch(() => finish(null));
+    };
+    video.onerror = () => finish(null);
+    video.src = url;
+  });
+}
+
+async function performUpload(
+  file: Blob,
+  fileName: string,
+  path: string,
+  signal: AbortSignal,
+  onProgress: UploadProgressListener
+): Promise<MessageAttachment> {
+  const { kind, mimeType } = await attachmentService.inspectFile(file, fileName);
+  const preview = await attachmentService.createPreview(file, kind);
+
+  let thumbnail: AttachmentThumbnail | undefined;
+  if (preview) {
+    const thumbnailPath = getThumbnailPath(path);
+    const { error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(thumbnailPath, preview.blob, {
+        contentType: preview.blob.type,
+        upsert: true,
+        cacheControl: '3600'
+      });
+    if (error) {
+      // The message still goes out; it just shows the full file
+      console.warn('[attachmentService] Thumbnail upload failed:', error);
+    } else {
+      thumbnail = {
+        path: thumbnailPath,
+        width: preview.width,
+        height: preview.height
+      };
+    }
+  }
+
+  await uploadResumable(file, path, mimeType, onProgress, signal);
+
+  return {
+    type: kind,
+    path,
+    name: fileName,
+    size: file.size,
+    mimeType,
+    ...(preview ? { width: preview.sourceWidth, height: preview.sourceHeight } : {}),
+    ...(preview?.duration !== undefined ? { duration: preview.duration } : {}),
+    ...(thumbnail ? { thumbnail } : {})
+  };
+}
+
+export const attachmentService = {
+  /**
+   * Check a file before it is attached.
+   * Throws with a message that can be shown to the user as is.
+   */
+  inspectFile: async (file: Blob, fileName: string): Promise<InspectedAttachment> => {
+    const head = new Uint8Array(await file.slice(0, SNIFF_BYTE_COUNT).arrayBuffer());
+    const check = checkAttachment({ name: fileName, size: file.size, type: file.type }, head);
+    if (!check.ok) {
+      throw new Error(check.error);
+    }
+    return { kind: check.kind, mimeType: check.mimeType };
+  },
+
+  /**
+   * Downscaled image or video poster frame, with the source dimensions.
+   * Returns null for other kinds and for media the browser can't decode (e.g. HEIC).
+   */
+  createPreview: async (file: Blob, kind: AttachmentKind): Promise<AttachmentPreview | null> => {
+    try {
+      if (kind === 'image') return await createImagePreview(file);
+      if (kind === 'video') return await createVideoPreview(file);
+    } catch (error) {
+      console.warn('[attachmentService] Could not create a preview:', error);
+    }
+    return null;
+  },
+
+  /**
+   * A cached signed URL that is still good to hand out, for rendering without waiting
+   */
+  peekSignedUrl: (path: string): SignedAttachmentUrl | undefined => {
+    const cached = signedUrls.get(path);
+    return cached && cached.refreshAt > Date.now() ? cached : undefined;
+  },
+
+  /**
+   * Signed URL for a stored attachment; cached, and batched with other paths requested at the same time
+   */
+  getSignedUrl: (path: string): Promise<SignedAttachmentUrl> => {
+    const cached = attachmentService.peekSignedUrl(path);
+    if (cached) return Promise.resolve(cached);
+
+    let pending = signingPaths.get(path);
+    if (!pending) {
+      let batch = signingBatch;
+      if (!batch) {
+        const next: SigningBatch = new Map();
+        batch = next;
+        signingBatch = next;
+        setTimeout(() => {
+          signingBatch = null;
+          signBatch(next);
+        }, 0);
+      }
+      const current = batch;
+      pending = new Promise<SignedAttachmentUrl>((resolve, reject) => {
+        current.set(path, { resolve, reject });
+      });
+      const cleanup = () => signingPaths.delete(path);
+      pending.then(cleanup, cleanup);
+      signingPaths.set(path, pending);
+    }
+    return pending;
+  },
+
+  /**
+   * Copy stored attachments into another conversation's folder, e.g. when forwarding.
+   * Storage access follows the conversation in the path, so the copies are what its members can read.
+   */
+  copyAttachments: async (
+    attachments: MessageAttachment[],
+    universeId: string,
+    conversationId: string
+  ): Promise<MessageAttachment[]> => {
+    const bucket = supabase.storage.from(ATTACHMENT_BUCKET);
+    const copy = async (from: string, to: string) => {
+      const { error } = await bucket.copy(from, to);
+      if (error) {
+        throw new Error(error.message || 'Failed to copy attachment');
+      }
+    };
+
+    return Promise.all(attachments.map(async attachment => {
+      // Entries that aren't in storage (e.g. legacy external links) are kept as they are
+      if (!attachment.path) return attachment;
+
+      const path = buildAttachmentPath(universeId, conversationId, crypto.randomUUID(), attachment.name);
+      await copy(attachment.path, path);
+      if (!attachment.thumbnail) return { ...attachment, path };
+
+      const thumbnailPath = getThumbnailPath(path);
+      await copy(attachment.thumbnail.path, thumbnailPath);
+      return { ...attachment, path, thumbnail: { ...attachment.thumbnail, path: thumbnailPath } };
+    }));
+  },
+
+  /**
+   * Upload an attachment with its thumbnail, reporting progress from 0 to 1.
+   * The path should be deterministic: calling again for a path that is uploading or done joins
+   * that upload, and an earlier interrupted upload resumes instead of starting over.
+   */
+  uploadAttachment: (
+    file: Blob,
+    fileName: string,
+    path: string,
+    onProgress?: UploadProgressListener
+  ): Promise<MessageAttachment> => {
+    const completed = completedUploads.get(path);
+    if (completed) {
+      onProgress?.(1);
+      return Promise.resolve(completed);
+    }
+
+    let upload = activeUploads.get(path);
+    if (!upload) {
+      const controller = new AbortController();
+      const listeners = new Set<UploadProgressListener>();
+      const entry: ActiveUpload = {
+        controller,
+        listeners,
+        progress: 0,
+        promise: performUpload(file, fileName, path, controller.signal, progress => {
+          entry.progress = progress;
+          listeners.forEach(listener => listener(progress));
+        })
+      };
+      const cleanup = () => {
+        if (activeUploads.get(path) === entry) activeUploads.delete(path);
+      };
+      entry.promise.then(attachment => {
+        completedUploads.set(path, attachment);
+        cleanup();
+      }, cleanup);
+      activeUploads.set(path, entry);
+      upload = entry;
+    }
+
+    if (onProgress) {
+      const { listeners, promise } = upload;
+      listeners.add(onProgress);
+      onProgress(upload.progress);
+      const unsubscribe = () => listeners.delete(onProgress);
+      promise.then(unsubscribe, unsubscribe);
+    }
+    return upload.promise;
+  },
+
+  /**
+   * Stop an attachment the user removed before sending and delete what already reached storage
+   */
+  discardUpload: async (path: string): Promise<void> => {
+    activeUploads.get(path)?.controller.abort();
+    completedUploads.delete(path);
+    Object.keys(readResumableUploads())
+      .filter(key => key.startsWith(`${path}:`))
+      .forEach(key => writeResumableUpload(key, null));
+
+    const { error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .remove([path, getThumbnailPath(path)]);
+    if (error) {
+      console.warn('[attachmentService] Could not remove discarded upload:', error);
+    }
+  }
+};
@@ -6,6 +6,14 @@
  */
 
 import { supabase } from '@/integrations/supabase/client';
+import { buildMessageRow } from '@/lib/messenger/messageRow';
+import type { LinkPreview } from '@/lib/messenger/linkPreview';
+import type { NotificationLevel } from '@/lib/messenger/notificationPreferences';
+import type { MentionCandidate, MessageMention } from '@/lib/messenger/mentions';
+import { normalizeAttachments, type MessageAttachment } from '@/lib/messenger/attachments';
+import type { VoiceTranscript } from '@/lib/messenger/voiceNotes';
+import { edgeFunctionService } from './edgeFunctionService';
+import { attachmentService } from './attachmentService';
 
 export interface CreateMessageData {
   recipient_id: string; // universe_id
@@ -15,10 +23,376 @@ export interface CreateMessageData {
   message_type?: string;
   conversation_id?: string;
   metadata?: Record<string, any>;
-  attachments?: any[];
+  attachments?: MessageAttachment[];
   reply_to_message_id?: string;
 }
 
+export interface ForwardedFrom {
+  message_id: string;
+  conversation_id: string;
+  sender_profile_universe_id: string;
+  sender_handle?: string;
+  sender_display_name?: string;
+  forwarded_at: string;
+}
+
+export interface ForwardableMessage {
+  id: string;
+  conversation_id: string;
+  sender_profile_universe_id: string;
+  content: string;
+  message_type: string;
+  attachments?: MessageAttachment[] | null;
+  metadata?: Record<string, any>;
+  sender_profile?: {
+    handle?: string;
+    display_name?: string;
+  };
+}
+
+export interface ForwardTargets {
+  conversationIds?: string[];
+  universeIds?: string[];
+}
+
+export interface MessageSearchFilters {
+  senderUniverseId?: string | null;
+  from?: string | null; // ISO timestamp, inclusive
+  to?: string | null; // ISO timestamp, exclusive
+  hasAttachment?: boolean | null;
+  messageType?: string | null;
+}
+
+export interface MessageSearchResult {
+  id: string;
+  conversation_id: string;
+  sender_profile_universe_id: string;
+  content: string;
+  message_type: string;
+  created_at: string;
+  has_attachment: boolean;
+  rank: number;
+  snippet: string;
+  sender_handle?: string;
+  sender_display_name?: string;
+  sender_avatar_url?: string;
+}
+
+export type { MessageAttachment };
+
+export interface OutgoingMessage {
+  id: string; // Client-generated so retries are idempotent
+  conversationId: string;
+  senderUniverseId: string;
+  content: string;
+  attachments?: MessageAttachment[];
+  // Defaults to the type implied by the attachments
+  messageType?: string;
+  replyToMessageId?: string | null;
+  threadRootId?: string | null;
+  metadata?: Record<string, any> | null;
+}
+
+export type ScheduledMessageStatus = 'pending' | 'sending' | 'sent' | 'cancelled' | 'failed';
+
+export interface ScheduledMessage {
+  id: string;
+  conversation_id: string;
+  sender_profile_universe_id: string;
+  content: string;
+  message_type: string;
+  show_id: string | null;
+  metadata: Record<string, any>;
+  send_at: string;
+  status: ScheduledMessageStatus;
+  message_id: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScheduleMessageData {
+  conversationId: string;
+  senderUniverseId: string;
+  content: string;
+  sendAt: Date;
+  showId?: string | null;
+  metadata?: Record<string, any>;
+  replyToMessageId?: string | null;
+}
+
+/**
+ * Unsent composer text for one conversation; attachments never leave the device
+ */
+export interface MessageDraft {
+  conversation_id: string;
+  profile_universe_id: string;
+  content: string;
+  metadata: { mentions?: MessageMention[] };
+  updated_at: string;
+}
+
+export interface MessageEdit {
+  id: string;
+  message_id: string;
+  editor_profile_universe_id: string | null;
+  previous_content: string;
+  edited_at: string;
+}
+
+/**
+ * Keyset position of a message; (created_at, id) is unique and matches the sort order
+ */
+export interface MessageCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface MessagePage<T = any> {
+  messages: T[]; // oldest first
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
+/**
+ * Keyset position in the inbox; (activity_at, id) matches the inbox sort order
+ */
+export interface InboxCursor {
+  activity_at: string;
+  id: string;
+}
+
+/**
+ * A member in an inbox row. Settings and flags are private, so only the caller's own entry has them.
+ */
+export interface InboxParticipant {
+  profile_universe_id: string;
+  is_archived?: boolean;
+  is_muted?: boolean; // false once a timed mute has run out
+  muted_until?: string | null;
+  notification_level?: NotificationLevel;
+  notify_mentions_when_muted?: boolean;
+  notification_sound?: string | null;
+  ringtone?: string | null;
+  is_pinned?: boolean;
+  pin_order?: number | null;
+  marked_unread?: boolean;
+  role?: 'owner' | 'admin' | 'member';
+  profile_universe?: {
+    id: string;
+    handle: string;
+    display_name: string;
+    avatar_url?: string;
+  };
+}
+
+/**
+ * One inbox row from get_conversation_inbox; flags and last_read_at are the caller's own
+ */
+export interface InboxConversation {
+  id: string;
+  type: string;
+  name: string | null;
+  avatar_url: string | null;
+  metadata: any;
+  created_at: string;
+  activity_at: string;
+  is_pinned: boolean;
+  is_muted: boolean;
+  muted_until: string | null;
+  notification_level: NotificationLevel;
+  notify_mentions_when_muted: boolean;
+  notification_sound: string | null;
+  ringtone: string | null;
+  is_archived: boolean;
+  pin_order: number | null; // position in the caller's pinned list, top first
+  marked_unread: boolean;
+  role: 'owner' | 'admin' | 'member' | null;
+  last_read_at: string | null;
+  unread_count: number;
+  unread_mention_count: number; // unread messages that mention the caller
+  last_message: {
+    id: string;
+    content: string;
+    message_type: string;
+    sender_profile_universe_id: string;
+    created_at: string;
+  } | null;
+  participants: InboxParticipant[];
+}
+
+/**
+ * Inbox flags the caller can set on their own conversations; omitted flags are left unchanged
+ */
+export interface ConversationFlags {
+  is_archived?: boolean;
+  is_pinned?: boolean;
+  marked_unread?: boolean; // false also marks everything read
+}
+
+/**
+ * The caller's notification settings for one conversation
+ * A mute with no muted_until lasts until turned off; null sounds mean the default
+ */
+export interface NotificationPreferences {
+  is_muted: boolean;
+  muted_until: string | null;
+  notification_level: NotificationLevel;
+  notify_mentions_when_muted: boolean;
+  notification_sound: string | null;
+  ringtone: string | null;
+}
+
+export interface InboxPage {
+  conversations: InboxConversation[]; // most recent activity first
+  hasMore: boolean;
+}
+
+/**
+ * A participant's delivered and read cursors in a conversation
+ */
+export interface ReadReceipt {
+  profile_universe_id: string;
+  last_read_at: string | null;
+  last_read_message_id: string | null;
+  last_delivered_at: string | null;
+  profile_universe?: {
+    id: string;
+    handle: string;
+    display_name: string;
+    avatar_url?: string;
+  };
+}
+
+export interface PinnedMessage {
+  message_id: string;
+  conversation_id: string;
+  pinned_at: string;
+  pinned_by_universe_id: string;
+  pinned_by?: {
+    id: string;
+    handle: string;
+    display_name: string;
+    avatar_url?: string;
+  };
+  message: {
+    id: string;
+    content: string;
+    message_type: string;
+    attachments?: MessageAttachment[] | null;
+    created_at: string;
+    sender_profile_universe_id: string;
+    sender_profile?: {
+      id: string;
+      handle: string;
+      display_name: string;
+      avatar_url?: string;
+    };
+  };
+}
+
+// Everything the conversation view renders for a message
+const CONVERSATION_MESSAGE_SELECT = `
+  id,
+  conversation_id,
+  sender_id,
+  sender_profile_universe_id,
+  content,
+  message_type,
+  created_at,
+  updated_at,
+  edited_at,
+  deleted_at,
+  reply_to_message_id,
+  thread_root_id,
+  thread_reply_count,
+  thread_last_reply_at,
+  thread_participants,
+  read_at,
+  metadata,
+  attachments,
+  profile_universes:sender_profile_universe_id(
+    id,
+    handle,
+    display_name,
+    avatar_url,
+    role
+  ),
+  message_reactions:message_reactions(
+    id,
+    emoji,
+    profile_universe_id,
+    created_at,
+    profile_universes:profile_universe_id(
+      id,
+      handle,
+      display_name,
+      avatar_url
+    )
+  ),
+  reply_to_message:messages!reply_to_message_id(
+    id,
+    content,
+    sender_profile_universe_id,
+    profile_universes:sender_profile_universe_id(
+      id,
+      handle,
+      display_name,
+      avatar_url
+    )
+  )
+`;
+
+/**
+ * Build a PostgREST filter selecting rows strictly before or after a cursor.
+ * Values are quoted because timestamps contain characters reserved in logic trees.
+ */
+function keysetFilter(cursor: MessageCursor, direction: 'before' | 'after'): string {
+  const op = direction === 'before' ? 'lt' : 'gt';
+  return `created_at.${op}."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.${op}.${cursor.id})`;
+}
+
+/**
+ * Fetch one page of a conversation's messages next to a cursor.
+ * Fetches one extra row to learn whether more pages exist.
+ */
+async function fetchConversationPage(
+  conversationId: string,
+  direction: 'before' | 'after',
+  cursor: MessageCursor | null,
+  limit: number
+) {
+  let query = supabase
+    .from('messages')
+    .select(CONVERSATION_MESSAGE_SELECT)
+    .eq('conversation_id', conversationId)
+    .is('thread_root_id', null) // Thread replies live in the thread panel
+    .is('deleted_at', null);
+
+  if (cursor) {
+    query = query.or(keysetFilter(cursor, direction));
+  }
+
+  const ascending = direction === 'after';
+  const { data, error } = await query
+    .order('created_at', { ascending })
+    .order('id', { ascending })
+    .limit(limit + 1);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to get messages');
+  }
+
+  const rows = data || [];
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+
+  return {
+    rows: ascending ? page : page.reverse(),
+    hasMore
+  };
+}
+
 export const messagingService = {
   /**
    * Create a message using direct Supabase query
@@ -66,16 +440,17 @@ export const messagingService = {
     // Create message
     const { data, error } = await supabase
       .from('messages')
-      .insert({
-        conversation_id: conversationId,
-        sender_id: user.id,
-        sender_profile_universe_id: senderUniverse.id,
+      .insert(buildMessageRow({
+        conversationId,
+        senderUserId: user.id,
+        senderUniverseId: senderUniverse.id,
         content: messageData.content,
-        message_type: messageData.message_type || 'text',
-        attachments: messageData.attachments || null,
-        reply_to_message_id: messageData.reply_to_message_id || null,
-        metadata: messageData.metadata || {}
-      })
+        messageType: messageData.message_type,
+        attachments: messageData.attachments,
+        replyToMessageId: messageData.reply_to_message_id,
+        showId: messageData.show_id,
+        metadata: messageData.metadata
+      }))
       .select(`
         *,
         profile_universes:sender_profile_universe_id(
@@ -105,6 +480,7 @@ export const messagingService = {
     show_id?: string;
     limit?: number;
     offset?: number;
+    before?: MessageCursor;
   }) => {
     let query = supabase
       .from('messages')
@@ -144,16 +520,20 @@ export const messagingService = {
       query = query.eq('metadata->>show_id', filters.show_id);
     }
 
-    if (filters?.limit) {
-      query = query.limit(filters.limit);
+    if (filters?.before) {
+      query = query.or(keysetFilter(filters.before, 'before'));
     }
 
-    if (filters?.offset) {
+    query = query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false });
+
+    if (filters?.offset !== undefined) {
       query = query.range(filters.offset, filters.offset + (filters.limit || 50) - 1);
+    } else if (filters?.limit) {
+      query = query.limit(filters.limit);
     }
 
-    query = query.order('created_at', { ascending: false });
-
     const { data, error } = await query;
 
     if (error) {
@@ -162,5 +542,860 @@ export const messagingService = {
 
     return data || [];
   },
-};
 
+  /**
+   * Get a page of a conversation's messages using keyset pagination on (created_at, id).
+   * Without a cursor the newest page is returned. Messages are ordered oldest first.
+   * @param options.before - Load messages older than this cursor
+   * @param options.after - Load messages newer than this cursor
+   */
+  getConversationMessages: async (
+    conversationId: string,
+    options: { before?: MessageCursor; after?: MessageCursor; limit?: number } = {}
+  ): Promise<MessagePage> => {
+    const limit = options.limit || 50;
+
+    if (options.after) {
+      const { rows, hasMore } = await fetchConversationPage(conversationId, 'after', options.after, limit);
+      return { messages: rows, hasOlder: true, hasNewer: hasMore };
+    }
+
+    const { rows, hasMore } = await fetchConversationPage(conversationId, 'before', options.before || null, limit);
+    return { messages: rows, hasOlder: hasMore, hasNewer: !!options.before };
+  },
+
+  /**
+   * Get the window of messages surrounding a message, e.g. to show a search result in context
+   */
+  getConversationMessagesAround: async (
+    conversationId: string,
+    messageId: string,
+    limit = 50
+  ): Promise<MessagePage> => {
+    const { data: target, error } = await supabase
+      .from('messages')
+      .select(CONVERSATION_MESSAGE_SELECT)
+      .eq('id', messageId)
+      .eq('conversation_id', conversationId)
+      .is('deleted_at', null)
+      .single();
+
+    if (error || !target) {
+      throw new Error(error?.message || 'Message not found');
+    }
+
+    const cursor = { created_at: target.created_at, id: target.id };
+    const half = Math.max(1, Math.floor(limit / 2));
+    const [older, newer] = await Promise.all([
+      fetchConversationPage(conversationId, 'before', cursor, half),
+      fetchConversationPage(conversationId, 'after', cursor, half)
+    ]);
+
+    return {
+      messages: [...older.rows, target, ...newer.rows],
+      hasOlder: older.hasMore,
+      hasNewer: newer.hasMore
+    };
+  },
+
+  /**
+   * Get every reply in a thread, oldest first
+   */
+  getThreadReplies: async (threadRootId: string) => {
+    const { data, error } = await supabase
+      .from('messages')
+      .select(CONVERSATION_MESSAGE_SELECT)
+      .eq('thread_root_id', threadRootId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to get thread replies');
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Record that a universe has read a thread up to now
+   */
+  markThreadRead: async (threadRootId: string, universeId: string) => {
+    const { error } = await supabase
+      .from('message_thread_reads')
+      .upsert({
+        thread_root_id: threadRootId,
+        profile_universe_id: universeId,
+        last_read_at: new Date().toISOString()
+      }, { onConflict: 'thread_root_id,profile_universe_id' });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to mark thread as read');
+    }
+  },
+
+  /**
+   * Get unread reply counts for the threads a universe follows in a conversation
+   * @returns Map of thread root message id to unread reply count
+   */
+  getThreadUnreadCounts: async (universeId: string, conversationId: string): Promise<Record<string, number>> => {
+    const { data, error } = await supabase.rpc('get_thread_unread_counts', {
+      p_universe_id: universeId,
+      p_conversation_id: conversationId
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to get thread unread counts');
+    }
+
+    return Object.fromEntries(
+      (data || []).map((row: { thread_root_id: string; unread_count: number }) => [row.thread_root_id, row.unread_count])
+    );
+  },
+
+  /**
+   * Get a page of the universe's inbox, most recent activity first
+   * @param options.before - Cursor of the last conversation already loaded
+   * @param options.pinnedOnly - Only the caller's pinned conversations, which may be older than any loaded page
+   */
+  getConversationInbox: async (
+    universeId: string,
+    options: { before?: InboxCursor; limit?: number; pinnedOnly?: boolean } = {}
+  ): Promise<InboxPage> => {
+    const limit = options.limit || 50;
+    const { data, error } = await supabase.rpc('get_conversation_inbox', {
+      p_universe_id: universeId,
+      p_limit: limit + 1,
+      p_before_activity_at: options.before?.activity_at || null,
+      p_before_id: options.before?.id || null,
+      p_pinned_only: options.pinnedOnly || false
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to load conversations');
+    }
+
+    const rows = (data || []) as InboxConversation[];
+    return {
+      conversations: rows.slice(0, limit),
+      hasMore: rows.length > limit
+    };
+  },
+
+  /**
+   * Get a single inbox entry, e.g. to refresh it or to open a conversation outside the loaded pages
+   * @returns The entry, or null when the universe isn't an active participant
+   */
+  getInboxConversation: async (universeId: string, conversationId: string): Promise<InboxConversation | null> => {
+    const { data, error } = await supabase.rpc('get_conversation_inbox', {
+      p_universe_id: universeId,
+      p_limit: 1,
+      p_conversation_id: conversationId
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to load conversation');
+    }
+
+    return ((data || []) as InboxConversation[])[0] || null;
+  },
+
+  /**
+   * Archive, pin or flag conversations in the universe's inbox
+   * Newly pinned conversations go to the bottom of the pinned list; archiving unpins
+   */
+  updateConversationFlags: async (
+    universeId: string,
+    conversationIds: string[],
+    flags: ConversationFlags
+  ): Promise<void> => {
+    const { error } = await supabase.rpc('set_conversation_flags', {
+      p_universe_id: universeId,
+      p_conversation_ids: conversationIds,
+      p_is_archived: flags.is_archived ?? null,
+      p_is_pinned: flags.is_pinned ?? null,
+      p_marked_unread: flags.marked_unread ?? null
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to update conversations');
+    }
+  },
+
+  /**
+   * Update the universe's notification settings for a conversation; omitted fields are unchanged
+   */
+  updateNotificationPreferences: async (
+    conversationId: string,
+    universeId: string,
+    preferences: Partial<NotificationPreferences>
+  ): Promise<void> => {
+    const { error } = await supabase
+      .from('conversation_participants')
+      .update(preferences)
+      .eq('conversation_id', conversationId)
+      .eq('profile_universe_id', universeId);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to update notification settings');
+    }
+  },
+
+  /**
+   * Save the order of the universe's pinned conversations
+   * @param conversationIds - Every pinned conversation, top first
+   */
+  reorderPinnedConversations: async (universeId: string, conversationIds: string[]): Promise<void> => {
+    const { error } = await supabase.rpc('reorder_pinned_conversations', {
+      p_universe_id: universeId,
+      p_conversation_ids: conversationIds
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to reorder pinned conversations');
+    }
+  },
+
+  /**
+   * Find universes to offer in @mention autocomplete, by handle or display name
+   * @param excludeIds - Universes already offered, e.g. the conversation's participants
+   */
+  searchMentionCandidates: async (
+    query: string,
+    excludeIds: string[] = [],
+    limit: number = 8
+  ): Promise<MentionCandidate[]> => {
+    // Characters PostgREST treats as filter syntax can't be part of a handle anyway
+    const term = query.trim().replace(/[,()%*\\]/g, '');
+    if (!term) return [];
+
+    let request = supabase
+      .from('profile_universes')
+      .select('id, handle, display_name, avatar_url')
+      .or(`handle.ilike.${term}%,display_name.ilike.%${term}%`)
+      .limit(limit);
+
+    if (excludeIds.length > 0) {
+      request = request.not('id', 'in', `(${excludeIds.join(',')})`);
+    }
+
+    const { data, error } = await request;
+
+    if (error) {
+      throw new Error(error.message || 'Failed to search universes');
+    }
+
+    return ((data || []) as MentionCandidate[]).filter(candidate => !!candidate.handle);
+  },
+
+  /**
+   * Get every active participant's read and delivered cursors in a conversation
+   */
+  getReadReceipts: async (conversationId: string): Promise<ReadReceipt[]> => {
+    const { data, error } = await supabase
+      .from('conversation_participants')
+      .select(`
+        profile_universe_id,
+        last_read_at,
+        last_read_message_id,
+        last_delivered_at,
+        profile_universe:profile_universe_id(
+          id,
+          handle,
+          display_name,
+          avatar_url
+        )
+      `)
+      .eq('conversation_id', conversationId)
+      .is('left_at', null);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to get read receipts');
+    }
+
+    return (data || []).map((row: any) => ({
+      ...row,
+      profile_universe: Array.isArray(row.profile_universe) ? row.profile_universe[0] : row.profile_universe
+    }));
+  },
+
+  /**
+   * Advance the universe's read cursor to a message; never moves it backwards
+   */
+  markConversationRead: async (conversationId: string, universeId: string, messageId: string): Promise<void> => {
+    const { error } = await supabase.rpc('mark_conversation_read', {
+      p_conversation_id: conversationId,
+      p_universe_id: universeId,
+      p_message_id: messageId
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to mark conversation read');
+    }
+  },
+
+  /**
+   * Mark every message received so far as delivered, across all of the universe's conversations
+   */
+  markConversationsDelivered: async (universeId: string): Promise<void> => {
+    const { error } = await supabase.rpc('mark_conversations_delivered', {
+      p_universe_id: universeId
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to mark messages delivered');
+    }
+  },
+
+  /**
+   * Get unread message counts per conversation, computed from the read cursors
+   * @returns Map of conversation id to unread count; conversations with nothing unread are omitted
+   */
+  getUnreadCounts: async (universeId: string): Promise<Record<string, number>> => {
+    const { data, error } = await supabase.rpc('get_unread_counts', {
+      p_universe_id: universeId
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to get unread counts');
+    }
+
+    return Object.fromEntries(
+      (data || []).map((row: { conversation_id: string; unread_count: number }) => [row.conversation_id, row.unread_count])
+    );
+  },
+
+  /**
+   * Get OpenGraph / oEmbed preview data for a URL through the link-preview edge function
+   * @returns The preview, or null when the page has nothing to show
+   */
+  getLinkPreview: async (url: string): Promise<LinkPreview | null> => {
+    const response = await edgeFunctionService.callFunction<{ preview: LinkPreview | null }>('link-preview', { url });
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to get link preview');
+    }
+
+    return response.data?.preview || null;
+  },
+
+  /**
+   * Ask for a voice message to be transcribed.
+   * The transcript is written to metadata.voice.transcript, which reaches clients as a message update.
+   */
+  requestVoiceTranscript: async (messageId: string): Promise<VoiceTranscript | null> => {
+    const response = await edgeFunctionService.callFunction<{ transcript: VoiceTranscript | null }>(
+      'transcribe-voice-message',
+      { message_id: messageId }
+    );
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to transcribe voice message');
+    }
+
+    return response.data?.transcript || null;
+  },
+
+  /**
+   * Get the pinned messages in a conversation, most recently pinned first
+   */
+  getPinnedMessages: async (conversationId: string): Promise<PinnedMessage[]> => {
+    const { data, error } = await supabase
+      .from('message_pins')
+      .select(`
+        message_id,
+        conversation_id,
+        pinned_at,
+        pinned_by_universe_id,
+        pinned_by:pinned_by_universe_id(
+          id,
+          handle,
+          display_name,
+          avatar_url
+        ),
+        message:message_id(
+          id,
+          content,
+          message_type,
+          attachments,
+          created_at,
+          sender_profile_universe_id,
+          profile_universes:sender_profile_universe_id(
+            id,
+            handle,
+            display_name,
+            avatar_url
+          )
+        )
+      `)
+      .eq('conversation_id', conversationId)
+      .order('pinned_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to get pinned messages');
+    }
+
+    return (data || []).map((row: any) => {
+      const message = Array.isArray(row.message) ? row.message[0] : row.message;
+
+      return {
+        message_id: row.message_id,
+        conversation_id: row.conversation_id,
+        pinned_at: row.pinned_at,
+        pinned_by_universe_id: row.pinned_by_universe_id,
+        pinned_by: Array.isArray(row.pinned_by) ? row.pinned_by[0] : row.pinned_by,
+        message: {
+          id: message?.id,
+          content: message?.content || '',
+          message_type: message?.message_type,
+          attachments: message?.attachments,
+          created_at: message?.created_at,
+          sender_profile_universe_id: message?.sender_profile_universe_id,
+          sender_profile: Array.isArray(message?.profile_universes)
+            ? message.profile_universes[0]
+            : message?.profile_universes
+        }
+      };
+    });
+  },
+
+  /**
+   * Pin a message for everyone in its conversation
+   */
+  pinMessage: async (messageId: string, universeId: string): Promise<void> => {
+    const { error } = await supabase.rpc('pin_message', {
+      p_message_id: messageId,
+      p_actor_universe_id: universeId
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to pin message');
+    }
+  },
+
+  /**
+   * Unpin a message
+   */
+  unpinMessage: async (messageId: string, universeId: string): Promise<void> => {
+    const { error } = await supabase.rpc('unpin_message', {
+      p_message_id: messageId,
+      p_actor_universe_id: universeId
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to unpin message');
+    }
+  },
+
+  /**
+   * Get the message_type for a message with the given attachments
+   */
+  getMessageTypeForAttachments: (attachments: MessageAttachment[]): string => {
+    if (attachments.length === 0) return 'text';
+
+    const hasImage = attachments.some(a => a.type === 'image');
+    const hasVideo = attachments.some(a => a.type === 'video');
+    const hasAudio = attachments.some(a => a.type === 'audio');
+
+    if (hasImage && !hasVideo && !hasAudio) return 'image';
+    if (hasVideo) return 'video';
+    if (hasAudio) return 'audio';
+    return 'file';
+  },
+
+  /**
+   * Send a message to a conversation.
+   * The client-generated id makes this idempotent: a retry after a lost response
+   * hits the primary key and is ignored, then the stored row is returned.
+   */
+  sendConversationMessage: async (message: OutgoingMessage) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User must be authenticated to send messages');
+    }
+
+    const attachments = message.attachments || [];
+    const { error: insertError } = await supabase
+      .from('messages')
+      .upsert(buildMessageRow({
+        id: message.id,
+        conversationId: message.conversationId,
+        senderUserId: user.id,
+        senderUniverseId: message.senderUniverseId,
+        content: message.content.trim() || (attachments.length > 0 ? '📎 Attachment' : ''),
+        messageType: message.messageType || messagingService.getMessageTypeForAttachments(attachments),
+        attachments,
+        replyToMessageId: message.replyToMessageId,
+        threadRootId: message.threadRootId,
+        metadata: message.metadata
+      }), { onConflict: 'id', ignoreDuplicates: true });
+
+    if (insertError) {
+      throw new Error(insertError.message || 'Failed to send message');
+    }
+
+    const { data, error } = await supabase
+      .from('messages')
+      .select(CONVERSATION_MESSAGE_SELECT)
+      .eq('id', message.id)
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to send message');
+    }
+
+    return data;
+  },
+
+  /**
+   * Add or remove the current universe's reaction to a message.
+   * Both directions are idempotent so queued reactions can be replayed safely.
+   */
+  setMessageReaction: async (
+    messageId: string,
+    universeId: string,
+    emoji: string,
+    action: 'add' | 'remove'
+  ) => {
+    if (action === 'remove') {
+      const { error } = await supabase
+        .from('message_reactions')
+        .delete()
+        .eq('message_id', messageId)
+        .eq('profile_universe_id', universeId)
+        .eq('emoji', emoji);
+
+      if (error) {
+        throw new Error(error.message || 'Failed to remove reaction');
+      }
+      return null;
+    }
+
+    const { error: insertError } = await supabase
+      .from('message_reactions')
+      .upsert({
+        message_id: messageId,
+        profile_universe_id: universeId,
+        emoji
+      }, { onConflict: 'message_id,profile_universe_id,emoji', ignoreDuplicates: true });
+
+    if (insertError) {
+      throw new Error(insertError.message || 'Failed to add reaction');
+    }
+
+    const { data, error } = await supabase
+      .from('message_reactions')
+      .select(`
+        id,
+        emoji,
+        profile_universe_id,
+        created_at,
+        profile_universes:profile_universe_id(
+          id,
+          handle,
+          display_name,
+          avatar_url
+        )
+      `)
+      .eq('message_id', messageId)
+      .eq('profile_universe_id', universeId)
+      .eq('emoji', emoji)
+      .single();
+
+    if (error) {
+      throw new Error(error.message || 'Failed to add reaction');
+    }
+
+    return data;
+  },
+
+  /**
+   * Schedule a message for later delivery by the deliver-scheduled-messages edge function
+   */
+  scheduleMessage: async (data: ScheduleMessageData): Promise<ScheduledMessage> => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User must be authenticated to schedule messages');
+    }
+
+    if (data.sendAt.getTime() <= Date.now()) {
+      throw new Error('Scheduled time must be in the future');
+    }
+
+    const { data: scheduled, error } = await supabase
+      .from('scheduled_messages')
+      .insert({
+        conversation_id: data.conversationId,
+        sender_id: user.id,
+        sender_profile_universe_id: data.senderUniverseId,
+        content: data.content,
+        show_id: data.showId || null,
+        metadata: data.metadata || {},
+        reply_to_message_id: data.replyToMessageId || null,
+        send_at: data.sendAt.toISOString()
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(error.message || 'Failed to schedule message');
+    }
+
+    return scheduled;
+  },
+
+  /**
+   * Get the current user's pending scheduled messages in a conversation, soonest first
+   */
+  getScheduledMessages: async (conversationId: string): Promise<ScheduledMessage[]> => {
+    const { data, error } = await supabase
+      .from('scheduled_messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .in('status', ['pending', 'failed'])
+      .order('send_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to get scheduled messages');
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Change the content or delivery time of a scheduled message that hasn't been sent
+   */
+  updateScheduledMessage: async (
+    id: string,
+    updates: { content?: string; sendAt?: Date }
+  ): Promise<ScheduledMessage> => {
+    if (updates.sendAt && updates.sendAt.getTime() <= Date.now()) {
+      throw new Error('Scheduled time must be in the future');
+    }
+
+    const { data, error } = await supabase
+      .from('scheduled_messages')
+      .update({
+        ...(updates.content !== undefined ? { content: updates.content } : {}),
+        ...(updates.sendAt ? { send_at: updates.sendAt.toISOString() } : {}),
+        // Editing a failed message queues it again
+        status: 'pending',
+        last_error: null
+      })
+      .eq('id', id)
+      .in('status', ['pending', 'failed'])
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(error.message || 'Failed to update scheduled message');
+    }
+
+    return data;
+  },
+
+  /**
+   * Cancel a scheduled message that hasn't been sent
+   */
+  cancelScheduledMessage: async (id: string) => {
+    const { error } = await supabase
+      .from('scheduled_messages')
+      .update({ status: 'cancelled' })
+      .eq('id', id)
+      .in('status', ['pending', 'failed']);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to cancel scheduled message');
+    }
+  },
+
+  /**
+   * Get the universe's saved drafts across all its conversations
+   */
+  getMessageDrafts: async (universeId: string): Promise<MessageDraft[]> => {
+    const { data, error } = await supabase
+      .from('message_drafts')
+      .select('conversation_id, profile_universe_id, content, metadata, updated_at')
+      .eq('profile_universe_id', universeId);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to load drafts');
+    }
+
+    return (data || []) as MessageDraft[];
+  },
+
+  /**
+   * Save the universe's draft for a conversation; an empty draft is deleted
+   */
+  saveMessageDraft: async (
+    conversationId: string,
+    universeId: string,
+    content: string,
+    metadata: MessageDraft['metadata'] = {}
+  ): Promise<void> => {
+    if (!content.trim()) {
+      const { error } = await supabase
+        .from('message_drafts')
+        .delete()
+        .eq('conversation_id', conversationId)
+        .eq('profile_universe_id', universeId);
+
+      if (error) {
+        throw new Error(error.message || 'Failed to clear draft');
+      }
+      return;
+    }
+
+    const { error } = await supabase
+      .from('message_drafts')
+      .upsert({
+        conversation_id: conversationId,
+        profile_universe_id: universeId,
+        content,
+        metadata
+      }, { onConflict: 'conversation_id,profile_universe_id' });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to save draft');
+    }
+  },
+
+  /**
+   * Edit the content of a message sent by the current user.
+   * The previous content is kept in message_edits by a database trigger.
+   */
+  editMessage: async (messageId: string, content: string) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User must be authenticated to edit messages');
+    }
+
+    if (!content.trim()) {
+      throw new Error('Message content cannot be empty');
+    }
+
+    const { data, error } = await supabase
+      .from('messages')
+      .update({ content: content.trim() })
+      .eq('id', messageId)
+      .eq('sender_id', user.id)
+      .is('deleted_at', null)
+      .select('id, content, edited_at, updated_at')
+      .single();
+
+    if (error) {
+      throw new Error(error.message || 'Failed to edit message');
+    }
+
+    return data;
+  },
+
+  /**
+   * Forward a message to one or more conversations and/or universes.
+   * Universes without an existing conversation get one via getOrCreateConversation.
+   * Attachments are copied in storage into each target conversation, so nothing is re-uploaded.
+   */
+  forwardMessage: async (
+    message: ForwardableMessage,
+    senderUniverseId: string,
+    targets: ForwardTargets
+  ) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User must be authenticated to forward messages');
+    }
+
+    const conversationIds = new Set(targets.conversationIds || []);
+
+    if (targets.universeIds && targets.universeIds.length > 0) {
+      const { getOrCreateConversation } = await import('@/lib/messenger/conversationUtils');
+      const resolved = await Promise.all(
+        targets.universeIds.map(universeId => getOrCreateConversation(senderUniverseId, universeId))
+      );
+      resolved.forEach(id => conversationIds.add(id));
+    }
+
+    if (conversationIds.size === 0) {
+      throw new Error('At least one conversation or universe is required');
+    }
+
+    // Forwarding a forward keeps pointing at the original message
+    const forwardedFrom: ForwardedFrom = message.metadata?.forwarded_from || {
+      message_id: message.id,
+      conversation_id: message.conversation_id,
+      sender_profile_universe_id: message.sender_profile_universe_id,
+      sender_handle: message.sender_profile?.handle,
+      sender_display_name: message.sender_profile?.display_name,
+      forwarded_at: new Date().toISOString()
+    };
+
+    const rows = await Promise.all(Array.from(conversationIds).map(async conversationId => ({
+      conversation_id: conversationId,
+      sender_id: user.id,
+      sender_profile_universe_id: senderUniverseId,
+      content: message.content,
+      message_type: message.message_type || 'text',
+      attachments: message.attachments && message.attachments.length > 0
+        ? await attachmentService.copyAttachments(normalizeAttachments(message.attachments), senderUniverseId, conversationId)
+        : null,
+      metadata: { forwarded_from: forwardedFrom }
+    })));
+
+    const { data, error } = await supabase
+      .from('messages')
+      .insert(rows)
+      .select('id, conversation_id');
+
+    if (error) {
+      throw new Error(error.message || 'Failed to forward message');
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Full-text search across every conversation the universe belongs to, best matches first
+   */
+  searchMessages: async (
+    universeId: string,
+    query: string,
+    filters: MessageSearchFilters = {},
+    pagination: { limit?: number; offset?: number } = {}
+  ): Promise<MessageSearchResult[]> => {
+    const { data, error } = await supabase.rpc('search_messages', {
+      p_universe_id: universeId,
+      p_query: query,
+      p_sender_universe_id: filters.senderUniverseId || null,
+      p_from: filters.from || null,
+      p_to: filters.to || null,
+      p_has_attachment: filters.hasAttachment ?? null,
+      p_message_type: filters.messageType || null,
+      p_limit: pagination.limit ?? 50,
+      p_offset: pagination.offset ?? 0
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to search messages');
+    }
+
+    return (data || []) as MessageSearchResult[];
+  },
+
+  /**
+   * Get the revision history of a message, newest revision first
+   */
+  getMessageEditHistory: async (messageId: string): Promise<MessageEdit[]> => {
+    const { data, error } = await supabase
+      .from('message_edits')
+      .select('id, message_id, editor_profile_universe_id, previous_content, edited_at')
+      .eq('message_id', messageId)
+      .order('edited_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to get message edit history');
+    }
+
+    return data || [];
+  },
+};
@@ -13,18 +13,18 @@ export interface TwilioVideoTokenResponse {
 
 export interface TwilioVideoTokenRequest {
   conversationId: string;
-  roomName?: string;
   identity?: string;
 }
 
+/**
+ * The room is always the conversation's own; the server derives it from conversationId
+ */
 export async function getTwilioVideoToken(
   conversationId: string,
-  roomName?: string,
   identity?: string
 ): Promise<TwilioVideoTokenResponse> {
   console.log('[TwilioVideoService] Requesting access token', {
     conversationId,
-    roomName,
     identity
   });
 
@@ -32,7 +32,6 @@ export async function getTwilioVideoToken(
     'twilio-video-token',
     {
       conversationId,
-      roomName,
       identity,
     }
   );
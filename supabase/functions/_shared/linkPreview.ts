@@ -0,0 +1,50 @@
+/**
+ * Link Preview - URL helpers and the preview shape stored in messages.metadata.link_preview
+ *
+ * Shared by the composer (browser) and the link-preview edge function (Deno).
+ * It lives with the functions so they deploy on their own, and must stay free of imports.
+ */
+
+export interface LinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  image?: string;
+  site_name?: string;
+}
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"']+/i;
+// Punctuation that usually ends the sentence rather than the URL
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}'"]+$/;
+
+/**
+ * Find the first http(s) URL in a message
+ */
+export function extractFirstUrl(text: string): string | null {
+  const match = text.match(URL_PATTERN);
+  if (!match) return null;
+
+  let url = match[0].replace(TRAILING_PUNCTUATION, '');
+  // Keep a closing parenthesis that belongs to the URL, e.g. wiki links
+  if (match[0].length > url.length && url.includes('(') && !url.includes(')')) {
+    url += ')';
+  }
+  return normalizePreviewUrl(url);
+}
+
+/**
+ * Canonical form used as the preview cache key: http(s) only, no fragment, lowercase host.
+ * Returns null for anything that can't be previewed.
+ */
+export function normalizePreviewUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    if (parsed.username || parsed.password) return null;
+    parsed.hash = '';
+    parsed.hostname = parsed.hostname.toLowerCase();
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Message Row - the single definition of how a message is written to the messages table
+ *
+ * Shared by messagingService (browser) and the deliver-scheduled-messages edge function (Deno).
+ * It lives with the functions so they deploy on their own, and must stay free of imports.
+ */
+
+export interface MessageRowInput {
+  id?: string;
+  conversationId: string;
+  senderUserId: string;
+  senderUniverseId: string;
+  content: string;
+  messageType?: string;
+  attachments?: object[] | null; // MessageAttachment entries; typed in attachments.ts
+  replyToMessageId?: string | null;
+  threadRootId?: string | null;
+  showId?: string | null;
+  metadata?: Record<string, any> | null;
+}
+
+/**
+ * Build the row inserted into messages.
+ * show_id is kept in metadata, where getMessages filters on it.
+ */
+export function buildMessageRow(input: MessageRowInput) {
+  const metadata: Record<string, any> = { ...(input.metadata || {}) };
+  if (input.showId) {
+    metadata.show_id = input.showId;
+  }
+
+  return {
+    ...(input.id ? { id: input.id } : {}),
+    conversation_id: input.conversationId,
+    sender_id: input.senderUserId,
+    sender_profile_universe_id: input.senderUniverseId,
+    content: input.content,
+    message_type: input.messageType || 'text',
+    attachments: input.attachments && input.attachments.length > 0 ? input.attachments : null,
+    reply_to_message_id: input.replyToMessageId || null,
+    thread_root_id: input.threadRootId || null,
+    metadata
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Voice Transcript - what a voice message keeps in metadata.voice.transcript
+ *
+ * Shared by the voice note player (browser) and the transcribe-voice-message edge function (Deno).
+ * It lives with the functions so they deploy on their own, and must stay free of imports.
+ */
+
+export type VoiceTranscriptStatus = 'pending' | 'completed' | 'failed';
+
+export interface VoiceTranscript {
+  status: VoiceTranscriptStatus;
+  text?: string;
+  language?: string;
+  error?: string;
+  started_at?: string; // ISO time a pending transcription began
+}
+
+// A transcription still pending after this long has died (timeout or crash) and may be started again;
+// well past the edge function's own time limit
+export const VOICE_TRANSCRIPT_STALE_MS = 5 * 60 * 1000;
+
+/**
+ * True while a transcription is running; a stale pending entry counts as not running
+ */
+export function isTranscriptPending(transcript: VoiceTranscript | undefined, now = Date.now()): boolean {
+  if (transcript?.status !== 'pending') return false;
+  const startedAt = transcript.started_at ? Date.parse(transcript.started_at) : NaN;
+  // Entries from before started_at was recorded can't be dated, so they count as stale
+  return !Number.isNaN(startedAt) && now - startedAt < VOICE_TRANSCRIPT_STALE_MS;
+}
@@ -0,0 +1,144 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { buildMessageRow } from '../_shared/messageRow.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Give up on a message after this many delivery attempts
+const MAX_ATTEMPTS = 5
+const BATCH_SIZE = 50
+
+interface ScheduledMessageRow {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  sender_profile_universe_id: string;
+  content: string;
+  message_type: string;
+  reply_to_message_id: string | null;
+  show_id: string | null;
+  metadata: Record<string, unknown> | null;
+  attempts: number;
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    // Only the scheduler may trigger delivery
+    const authHeader = req.headers.get('Authorization')
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      throw new Error('Invalid authentication token')
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: claimed, error: claimError } = await supabase
+      .rpc('claim_due_scheduled_messages', { p_limit: BATCH_SIZE })
+
+    if (claimError) {
+      throw new Error(`Failed to claim scheduled messages: ${claimError.message}`)
+    }
+
+    const results = { sent: 0, retrying: 0, failed: 0 }
+
+    for (const scheduled of (claimed || []) as ScheduledMessageRow[]) {
+      try {
+        // The sender may have left the conversation since scheduling
+        const { data: participant } = await supabase
+          .from('conversation_participants')
+          .select('id')
+          .eq('conversation_id', scheduled.conversation_id)
+          .eq('profile_universe_id', scheduled.sender_profile_universe_id)
+          .is('left_at', null)
+          .maybeSingle()
+
+        if (!participant) {
+          await supabase
+            .from('scheduled_messages')
+            .update({ status: 'failed', last_error: 'Sender is no longer in this conversation' })
+            .eq('id', scheduled.id)
+          results.failed++
+          continue
+        }
+
+        // Same row shape as messagingService.createMessage. Reusing the scheduled id makes
+        // the insert idempotent if a previous run died before marking the row sent.
+        const { error: insertError } = await supabase
+          .from('messages')
+          .upsert(buildMessageRow({
+            id: scheduled.id,
+            conversationId: scheduled.conversation_id,
+            senderUserId: scheduled.sender_id,
+            senderUniverseId: scheduled.sender_profile_universe_id,
+            content: scheduled.content,
+            messageType: scheduled.message_type,
+            replyToMessageId: scheduled.reply_to_message_id,
+            showId: scheduled.show_id,
+            metadata: { ...(scheduled.metadata || {}), scheduled: true }
+          }), { onConflict: 'id', ignoreDuplicates: true })
+
+        if (insertError) {
+          throw new Error(insertError.message)
+        }
+
+        await supabase
+          .from('scheduled_messages')
+          .update({ status: 'sent', message_id: scheduled.id, sent_at: new Date().toISOString(), last_error: null })
+          .eq('id', scheduled.id)
+
+        results.sent++
+      } catch (error) {
+        const giveUp = scheduled.attempts >= MAX_ATTEMPTS
+        console.error('[DeliverScheduledMessages] Delivery failed', {
+          scheduledMessageId: scheduled.id,
+          attempts: scheduled.attempts,
+          error: error.message
+        })
+
+        await supabase
+          .from('scheduled_messages')
+          .update({ status: giveUp ? 'failed' : 'pending', last_error: error.message })
+          .eq('id', scheduled.id)
+
+        if (giveUp) {
+          results.failed++
+        } else {
+          results.retrying++
+        }
+      }
+    }
+
+    console.log('[DeliverScheduledMessages] Run complete', results)
+
+    return new Response(
+      JSON.stringify(results),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+
+  } catch (error) {
+    console.error('[DeliverScheduledMessages] Error:', error)
+
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Internal server error'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error.message?.includes('authentication') ? 401 : 400,
+      }
+    )
+  }
+})
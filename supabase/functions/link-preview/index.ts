@@ -0,0 +1,110 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { normalizePreviewUrl } from '../_shared/linkPreview.ts'
+import { fetchLinkPreview } from './preview.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Pages change rarely; failures are retried sooner in case the site was just down
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000
+const FAILURE_TTL_MS = 60 * 60 * 1000
+
+interface LinkPreviewRequest {
+  url: string;
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    // Lets local development point the function at an HTTP stub on localhost
+    const allowPrivateHosts = Deno.env.get('LINK_PREVIEW_ALLOW_PRIVATE_HOSTS') === 'true'
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Get auth token and verify user
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('No authorization header')
+    }
+
+    const authToken = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authToken)
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication token')
+    }
+
+    const body: LinkPreviewRequest = await req.json()
+    const url = body.url ? normalizePreviewUrl(body.url) : null
+
+    if (!url) {
+      throw new Error('A valid http(s) url is required')
+    }
+
+    const { data: cached } = await supabase
+      .from('link_previews')
+      .select('preview, expires_at')
+      .eq('url', url)
+      .maybeSingle()
+
+    if (cached && new Date(cached.expires_at).getTime() > Date.now()) {
+      return new Response(
+        JSON.stringify({ preview: cached.preview, cached: true }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      )
+    }
+
+    let preview = null
+    try {
+      preview = await fetchLinkPreview(url, { allowPrivateHosts })
+    } catch (fetchError) {
+      console.error('[LinkPreview] Fetch failed for', url, fetchError)
+    }
+
+    const { error: cacheError } = await supabase
+      .from('link_previews')
+      .upsert({
+        url,
+        preview,
+        fetched_at: new Date().toISOString(),
+        expires_at: new Date(Date.now() + (preview ? CACHE_TTL_MS : FAILURE_TTL_MS)).toISOString()
+      }, { onConflict: 'url' })
+
+    if (cacheError) {
+      console.error('[LinkPreview] Failed to cache preview:', cacheError)
+    }
+
+    return new Response(
+      JSON.stringify({ preview, cached: false }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+
+  } catch (error) {
+    console.error('[LinkPreview] Error:', error)
+
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Internal server error'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error.message?.includes('authentication') ? 401 : 400,
+      }
+    )
+  }
+})
@@ -0,0 +1,296 @@
+import type { LinkPreview } from '../_shared/linkPreview.ts'
+
+/**
+ * Fetch and parse OpenGraph / oEmbed metadata for a URL.
+ *
+ * Kept separate from the HTTP handler so it can be exercised against the local HTTP stub in
+ * stub.ts: pass allowPrivateHosts (or set LINK_PREVIEW_ALLOW_PRIVATE_HOSTS=true when serving
+ * the function) and point it at e.g. http://localhost:8787/page.html.
+ */
+
+export interface FetchLinkPreviewOptions {
+  fetchImpl?: typeof fetch;
+  // Addresses a hostname resolves to; defaults to Deno.resolveDns
+  resolveHost?: (hostname: string) => Promise<string[]>;
+  allowPrivateHosts?: boolean;
+  timeoutMs?: number;
+  maxBytes?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000
+const DEFAULT_MAX_BYTES = 512 * 1024
+const MAX_REDIRECTS = 3
+const USER_AGENT = 'DragvertisingLinkPreview/1.0 (+https://dragvertising.com)'
+
+const MAX_TITLE_LENGTH = 200
+const MAX_DESCRIPTION_LENGTH = 500
+
+/**
+ * Hosts that resolve to the function's own network; never fetched in production
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase()
+
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true
+  }
+
+  const ipv4 = host.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/)
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])]
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224 // Multicast and reserved
+    )
+  }
+
+  if (host.includes(':')) {
+    return host === '::1' || host === '::' || host.startsWith('fc') || host.startsWith('fd') ||
+      host.startsWith('fe80') || host.startsWith('::ffff:')
+  }
+
+  return false
+}
+
+async function resolveDns(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA')
+  ])
+  return lookups.flatMap(lookup => (lookup.status === 'fulfilled' ? lookup.value : []))
+}
+
+/**
+ * Reject hosts on the function's own network, including public names that resolve to one
+ * (e.g. 127.0.0.1.nip.io). The fetch resolves again, so this narrows DNS rebinding rather
+ * than closing it; the short timeout and size cap limit what a rebound request can do.
+ */
+async function assertPublicHost(hostname: string, resolveHost: (hostname: string) => Promise<string[]>) {
+  if (isPrivateHost(hostname)) {
+    throw new Error('URL points to a private network')
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, '')
+  // IP literals were checked above
+  if (/^[\d.]+$/.test(host) || host.includes(':')) return
+
+  const addresses = await resolveHost(host)
+  if (addresses.length === 0) {
+    throw new Error('Could not resolve host')
+  }
+  if (addresses.some(isPrivateHost)) {
+    throw new Error('URL points to a private network')
+  }
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+}
+
+function clean(value: string | undefined, maxLength: number): string | undefined {
+  if (!value) return undefined
+  const text = decodeEntities(value).replace(/\s+/g, ' ').trim()
+  if (!text) return undefined
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text
+}
+
+function resolveUrl(value: string | undefined, baseUrl: string): string | undefined {
+  if (!value) return undefined
+  try {
+    const resolved = new URL(decodeEntities(value.trim()), baseUrl)
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.toString() : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const pattern = /([a-zA-Z:_-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+))/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(tag)) !== null) {
+    attributes[match[1].toLowerCase()] = match[3] ?? match[4] ?? match[5] ?? ''
+  }
+  return attributes
+}
+
+/**
+ * Pull preview fields and the oEmbed endpoint out of a page's <head>
+ */
+export function parseHtmlMetadata(html: string, pageUrl: string): { preview: LinkPreview; oembedUrl?: string } {
+  const meta: Record<string, string> = {}
+  for (const tag of html.match(/<meta\b[^>]*>/gi) || []) {
+    const attributes = parseAttributes(tag)
+    const key = (attributes.property || attributes.name || '').toLowerCase()
+    if (key && attributes.content !== undefined && !(key in meta)) {
+      meta[key] = attributes.content
+    }
+  }
+
+  let oembedUrl: string | undefined
+  for (const tag of html.match(/<link\b[^>]*>/gi) || []) {
+    const attributes = parseAttributes(tag)
+    if (attributes.type?.toLowerCase() === 'application/json+oembed') {
+      oembedUrl = resolveUrl(attributes.href, pageUrl)
+      break
+    }
+  }
+
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+
+  return {
+    preview: {
+      url: resolveUrl(meta['og:url'], pageUrl) || pageUrl,
+      title: clean(meta['og:title'] || meta['twitter:title'] || titleTag, MAX_TITLE_LENGTH),
+      description: clean(meta['og:description'] || meta['twitter:description'] || meta['description'], MAX_DESCRIPTION_LENGTH),
+      image: resolveUrl(meta['og:image:secure_url'] || meta['og:image'] || meta['twitter:image'], pageUrl),
+      site_name: clean(meta['og:site_name'], MAX_TITLE_LENGTH)
+    },
+    oembedUrl
+  }
+}
+
+// Follow redirects by hand so every hop goes through the private host check
+async function guardedFetch(url: string, accept: string, options: Required<FetchLinkPreviewOptions>): Promise<Response> {
+  let current = url
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const parsed = new URL(current)
+    if (!options.allowPrivateHosts) {
+      await assertPublicHost(parsed.hostname, options.resolveHost)
+    }
+
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), options.timeoutMs)
+    let response: Response
+    try {
+      response = await options.fetchImpl(current, {
+        redirect: 'manual',
+        signal: controller.signal,
+        headers: { 'User-Agent': USER_AGENT, 'Accept': accept }
+      })
+    } finally {
+      clearTimeout(timeout)
+    }
+
+    const location = response.headers.get('location')
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel()
+      current = new URL(location, current).toString()
+      continue
+    }
+
+    return response
+  }
+
+  throw new Error('Too many redirects')
+}
+
+// Read at most maxBytes; metadata lives in <head>, so the rest of the page isn't needed
+async function readText(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return ''
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  while (total < maxBytes) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    total += value.length
+  }
+  await reader.cancel()
+
+  const bytes = new Uint8Array(Math.min(total, maxBytes))
+  let offset = 0
+  for (const chunk of chunks) {
+    const slice = chunk.subarray(0, bytes.length - offset)
+    bytes.set(slice, offset)
+    offset += slice.length
+    if (offset >= bytes.length) break
+  }
+  return new TextDecoder().decode(bytes)
+}
+
+async function fetchOembed(oembedUrl: string, options: Required<FetchLinkPreviewOptions>): Promise<Partial<LinkPreview>> {
+  try {
+    const response = await guardedFetch(oembedUrl, 'application/json', options)
+    if (!response.ok) return {}
+    const data = JSON.parse(await readText(response, options.maxBytes))
+    return {
+      title: clean(data.title, MAX_TITLE_LENGTH),
+      description: clean(data.author_name, MAX_DESCRIPTION_LENGTH),
+      image: resolveUrl(data.thumbnail_url, oembedUrl),
+      site_name: clean(data.provider_name, MAX_TITLE_LENGTH)
+    }
+  } catch (error) {
+    console.error('[LinkPreview] oEmbed lookup failed:', error)
+    return {}
+  }
+}
+
+/**
+ * Build a preview for a URL, or null when the page has nothing worth showing
+ */
+export async function fetchLinkPreview(url: string, options: FetchLinkPreviewOptions = {}): Promise<LinkPreview | null> {
+  const resolvedOptions: Required<FetchLinkPreviewOptions> = {
+    fetchImpl: options.fetchImpl || fetch,
+    resolveHost: options.resolveHost || resolveDns,
+    allowPrivateHosts: options.allowPrivateHosts ?? false,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    maxBytes: options.maxBytes ?? DEFAULT_MAX_BYTES
+  }
+
+  const response = await guardedFetch(url, 'text/html,application/xhtml+xml;q=0.9,image/*;q=0.8', resolvedOptions)
+  if (!response.ok) {
+    await response.body?.cancel()
+    return null
+  }
+
+  const contentType = response.headers.get('content-type') || ''
+  const finalUrl = response.url || url
+
+  // Direct image links preview as the image itself
+  if (contentType.startsWith('image/')) {
+    await response.body?.cancel()
+    return { url: finalUrl, image: finalUrl, site_name: new URL(finalUrl).hostname }
+  }
+
+  if (!contentType.includes('html')) {
+    await response.body?.cancel()
+    return null
+  }
+
+  const { preview, oembedUrl } = parseHtmlMetadata(await readText(response, resolvedOptions.maxBytes), finalUrl)
+
+  if (oembedUrl) {
+    const oembed = await fetchOembed(oembedUrl, resolvedOptions)
+    preview.title = preview.title || oembed.title
+    preview.description = preview.description || oembed.description
+    preview.image = preview.image || oembed.image
+    preview.site_name = preview.site_name || oembed.site_name
+  }
+
+  if (!preview.title && !preview.description && !preview.image) {
+    return null
+  }
+
+  return {
+    ...preview,
+    site_name: preview.site_name || new URL(preview.url).hostname.replace(/^www\./, '')
+  }
+}
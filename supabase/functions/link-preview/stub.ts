@@ -0,0 +1,121 @@
+/**
+ * Local HTTP stub for the link-preview function
+ *
+ * Serves a handful of canned pages so previews can be checked without reaching the internet:
+ *
+ *   deno run --allow-net supabase/functions/link-preview/stub.ts
+ *     Serves the pages on http://localhost:8787. Run the function with
+ *     LINK_PREVIEW_ALLOW_PRIVATE_HOSTS=true and ask it for e.g.
+ *     http://host.docker.internal:8787/page.html (the function runs inside Docker).
+ *
+ *   deno run --allow-net supabase/functions/link-preview/stub.ts --check
+ *     Runs fetchLinkPreview against every page and exits non-zero if one comes back wrong.
+ */
+
+import { fetchLinkPreview } from './preview.ts'
+
+const PORT = 8787
+
+const PAGES: Record<string, { status?: number; headers: Record<string, string>; body?: string }> = {
+  '/page.html': {
+    headers: { 'content-type': 'text/html; charset=utf-8' },
+    body: `<!doctype html><html><head>
+      <title>Fallback title</title>
+      <meta property="og:title" content="Stage plot &amp; tech rider">
+      <meta property="og:description" content="Everything the venue needs for Saturday.">
+      <meta property="og:image" content="/poster.png">
+      <meta property="og:site_name" content="Stub Venue">
+    </head><body></body></html>`
+  },
+  '/oembed-page.html': {
+    headers: { 'content-type': 'text/html' },
+    body: `<html><head>
+      <link rel="alternate" type="application/json+oembed" href="/oembed.json">
+    </head></html>`
+  },
+  '/oembed.json': {
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ title: 'Embedded show', author_name: 'Stub Performer', thumbnail_url: '/thumb.jpg', provider_name: 'StubTube' })
+  },
+  '/poster.png': {
+    headers: { 'content-type': 'image/png' },
+    body: ''
+  },
+  '/redirect': {
+    status: 302,
+    headers: { location: '/page.html' }
+  },
+  '/private-redirect': {
+    status: 302,
+    headers: { location: 'http://169.254.169.254/latest/meta-data/' }
+  },
+  '/empty.html': {
+    headers: { 'content-type': 'text/html' },
+    body: '<html><head></head><body>Nothing to see</body></html>'
+  }
+}
+
+export function startLinkPreviewStub(port = PORT) {
+  return Deno.serve({ port, onListen: () => {} }, (req) => {
+    const page = PAGES[new URL(req.url).pathname]
+    if (!page) {
+      return new Response('Not found', { status: 404 })
+    }
+    return new Response(page.body ?? null, { status: page.status ?? 200, headers: page.headers })
+  })
+}
+
+async function check() {
+  const server = startLinkPreviewStub()
+  const base = `http://localhost:${PORT}`
+  // The stub lives on localhost, so the private host guard is lifted except where it's under test
+  const local = { allowPrivateHosts: true }
+  let failures = 0
+
+  const expect = async (name: string, run: () => Promise<unknown>, isExpected: (result: unknown) => boolean) => {
+    let result: unknown
+    try {
+      result = await run()
+    } catch (error) {
+      result = error
+    }
+    const passed = isExpected(result)
+    if (!passed) failures++
+    console.log(`${passed ? 'ok  ' : 'FAIL'} ${name}`, passed ? '' : result)
+  }
+
+  await expect('OpenGraph page', () => fetchLinkPreview(`${base}/page.html`, local), (preview: any) =>
+    preview?.title === 'Stage plot & tech rider' && preview.image === `${base}/poster.png` && preview.site_name === 'Stub Venue')
+  await expect('oEmbed fallback', () => fetchLinkPreview(`${base}/oembed-page.html`, local), (preview: any) =>
+    preview?.title === 'Embedded show' && preview.site_name === 'StubTube')
+  await expect('Direct image', () => fetchLinkPreview(`${base}/poster.png`, local), (preview: any) =>
+    preview?.image === `${base}/poster.png`)
+  await expect('Redirect is followed', () => fetchLinkPreview(`${base}/redirect`, local), (preview: any) =>
+    preview?.title === 'Stage plot & tech rider')
+  await expect('Page without metadata', () => fetchLinkPreview(`${base}/empty.html`, local), (preview) =>
+    preview === null)
+  await expect('Localhost is refused', () => fetchLinkPreview(`${base}/page.html`), (error) =>
+    error instanceof Error && error.message.includes('private network'))
+  await expect('Public name resolving to a private address is refused', () => fetchLinkPreview('http://stub.example/page.html', {
+    resolveHost: async () => ['127.0.0.1']
+  }), (error) => error instanceof Error && error.message.includes('private network'))
+  await expect('Redirect to a private address is refused', () => fetchLinkPreview('http://stub.example/private-redirect', {
+    resolveHost: async () => ['93.184.216.34'],
+    // Answer the first hop from the stub, as if stub.example were a public site
+    fetchImpl: (input, init) => fetch(String(input).replace('http://stub.example', base), init)
+  }), (error) => error instanceof Error && error.message.includes('private network'))
+
+  await server.shutdown()
+  if (failures > 0) {
+    Deno.exit(1)
+  }
+}
+
+if (import.meta.main) {
+  if (Deno.args.includes('--check')) {
+    await check()
+  } else {
+    startLinkPreviewStub()
+    console.log(`[LinkPreviewStub] Serving on http://localhost:${PORT}`)
+  }
+}
@@ -0,0 +1,149 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { isTranscriptPending, type VoiceTranscript } from '../_shared/voiceTranscript.ts'
+import { createTranscriber } from './transcriber.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Whisper's upload limit; a voice note this large is not worth transcribing anyway
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024
+
+interface TranscribeVoiceMessageRequest {
+  message_id: string;
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const respond = (body: Record<string, unknown>, status = 200) => new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status,
+    }
+  )
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Get auth token and verify user
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('No authorization header')
+    }
+
+    const authToken = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authToken)
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication token')
+    }
+
+    const body: TranscribeVoiceMessageRequest = await req.json()
+    if (!body.message_id) {
+      throw new Error('message_id is required')
+    }
+
+    const { data: message, error: messageError } = await supabase
+      .from('messages')
+      .select('id, conversation_id, attachments, metadata')
+      .eq('id', body.message_id)
+      .maybeSingle()
+
+    if (messageError || !message) {
+      throw new Error('Message not found')
+    }
+
+    // Verify the user is still in the conversation
+    const { data: participation } = await supabase
+      .from('conversation_participants')
+      .select('id, profile_universes!inner(user_id)')
+      .eq('conversation_id', message.conversation_id)
+      .eq('profile_universes.user_id', user.id)
+      .is('left_at', null)
+      .limit(1)
+
+    if (!participation || participation.length === 0) {
+      throw new Error('User is not a participant in this conversation')
+    }
+
+    const voice = message.metadata?.voice
+    const audio = Array.isArray(message.attachments)
+      ? message.attachments.find((attachment: { type?: string; path?: string }) => attachment?.type === 'audio' && attachment.path)
+      : null
+
+    if (!voice || !audio) {
+      throw new Error('Message is not a voice message')
+    }
+
+    // The path comes from the sender, so it must point into this conversation's folder
+    // (<universe>/<conversation>/<file>) before the service role reads it
+    if (typeof audio.path !== 'string' || audio.path.split('/')[1] !== message.conversation_id) {
+      throw new Error('Voice message audio is not in this conversation')
+    }
+
+    // A pending entry that has gone stale was left by a run that timed out or crashed, so it is retried
+    const existing: VoiceTranscript | undefined = voice.transcript
+    if (existing?.status === 'completed' || isTranscriptPending(existing)) {
+      return respond({ transcript: existing })
+    }
+
+    const transcriber = createTranscriber((name) => Deno.env.get(name))
+    if (!transcriber) {
+      // Transcription is optional; the note simply shows without a transcript
+      return respond({ transcript: null })
+    }
+
+    const saveTranscript = async (transcript: VoiceTranscript) => {
+      const { error } = await supabase.rpc('set_voice_message_transcript', {
+        p_message_id: message.id,
+        p_transcript: transcript,
+      })
+      if (error) {
+        console.error('[TranscribeVoiceMessage] Error saving transcript:', error)
+      }
+      return transcript
+    }
+
+    await saveTranscript({ status: 'pending', started_at: new Date().toISOString() })
+
+    let transcript: VoiceTranscript
+    try {
+      const { data: file, error: downloadError } = await supabase.storage
+        .from('message-attachments')
+        .download(audio.path)
+
+      if (downloadError || !file) {
+        throw new Error(downloadError?.message || 'Voice message audio not found')
+      }
+      if (file.size > MAX_AUDIO_BYTES) {
+        throw new Error('Voice message is too long to transcribe')
+      }
+
+      const result = await transcriber.transcribe(file, audio.name || 'voice.webm')
+      transcript = { status: 'completed', text: result.text, language: result.language }
+    } catch (transcribeError) {
+      console.error('[TranscribeVoiceMessage] Transcription failed for', message.id, transcribeError)
+      transcript = { status: 'failed', error: transcribeError.message || 'Transcription failed' }
+    }
+
+    return respond({ transcript: await saveTranscript(transcript) })
+
+  } catch (error) {
+    console.error('[TranscribeVoiceMessage] Error:', error)
+
+    return respond(
+      { error: error.message || 'Internal server error' },
+      error.message?.includes('authentication') ? 401 : 400
+    )
+  }
+})
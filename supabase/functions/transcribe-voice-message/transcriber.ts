@@ -0,0 +1,78 @@
+/**
+ * Speech-to-text backends for voice messages.
+ *
+ * Anything that speaks the OpenAI /v1/audio/transcriptions API works: OpenAI's Whisper, or a
+ * local stand-in such as faster-whisper-server or whisper.cpp's server. Point
+ * TRANSCRIPTION_API_URL at it (e.g. http://host.docker.internal:8000/v1/audio/transcriptions
+ * when serving functions locally). Other providers plug in by implementing Transcriber.
+ */
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+}
+
+export interface Transcriber {
+  transcribe(audio: Blob, fileName: string): Promise<TranscriptionResult>;
+}
+
+export interface OpenAICompatibleOptions {
+  url: string;
+  apiKey?: string;
+  model: string;
+  fetchImpl?: typeof fetch;
+  timeoutMs?: number;
+}
+
+const DEFAULT_MODEL = 'whisper-1'
+const DEFAULT_TIMEOUT_MS = 60000
+
+export function createOpenAICompatibleTranscriber(options: OpenAICompatibleOptions): Transcriber {
+  const fetchImpl = options.fetchImpl || fetch
+  const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS
+
+  return {
+    async transcribe(audio, fileName) {
+      const form = new FormData()
+      form.append('file', audio, fileName)
+      form.append('model', options.model)
+      // verbose_json is the only format that reports the detected language
+      form.append('response_format', 'verbose_json')
+
+      const response = await fetchImpl(options.url, {
+        method: 'POST',
+        headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : undefined,
+        body: form,
+        signal: AbortSignal.timeout(timeoutMs),
+      })
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '')
+        throw new Error(`Transcription request failed (${response.status})${detail ? `: ${detail.slice(0, 200)}` : ''}`)
+      }
+
+      const result = await response.json()
+      if (typeof result?.text !== 'string') {
+        throw new Error('Transcription response had no text')
+      }
+      return {
+        text: result.text.trim(),
+        language: typeof result.language === 'string' ? result.language : undefined,
+      }
+    },
+  }
+}
+
+/**
+ * The transcriber configured through the environment, or null when transcription is off
+ */
+export function createTranscriber(env: (name: string) => string | undefined): Transcriber | null {
+  const url = env('TRANSCRIPTION_API_URL')
+  if (!url) return null
+
+  return createOpenAICompatibleTranscriber({
+    url,
+    apiKey: env('TRANSCRIPTION_API_KEY'),
+    model: env('TRANSCRIPTION_MODEL') || DEFAULT_MODEL,
+  })
+}
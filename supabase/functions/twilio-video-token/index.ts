@@ -9,7 +9,6 @@ const corsHeaders = {
 
 interface TwilioVideoTokenRequest {
   conversationId: string;
-  roomName?: string;
   identity?: string;
 }
 
@@ -49,18 +48,19 @@ Deno.serve(async (req: Request) => {
 
     // Parse request body
     const body: TwilioVideoTokenRequest = await req.json()
-    const { conversationId, roomName: requestedRoomName, identity: requestedIdentity } = body
+    const { conversationId, identity: requestedIdentity } = body
 
     if (!conversationId) {
       throw new Error('conversationId is required')
     }
 
     // Verify user is a participant in the conversation
-    const { data: participation, error: participationError } = await supabase
+    const { data: participations, error: participationError } = await supabase
       .from('conversation_participants')
       .select(`
         id,
         profile_universe_id,
+        profile_universes!inner(user_id),
         conversations!inner(
           id,
           universes!inner(
@@ -69,24 +69,34 @@ Deno.serve(async (req: Request) => {
           )
         )
       `)
-      .eq('conversations.id', conversationId)
-      .eq('profile_universe.user_id', user.id)
-      .single()
+      .eq('conversation_id', conversationId)
+      .eq('profile_universes.user_id', user.id)
+      .is('left_at', null)
 
-    if (participationError || !participation) {
+    if (participationError || !participations || participations.length === 0) {
       throw new Error('User is not a participant in this conversation')
     }
 
+    // Participants are told apart by profile universe, which is also how clients label them;
+    // a requested identity must be one of the caller's own universes in the conversation
+    const participation = requestedIdentity
+      ? participations.find((p: { profile_universe_id: string }) => p.profile_universe_id === requestedIdentity)
+      : participations[0]
+
+    if (!participation) {
+      throw new Error('Identity does not belong to this user')
+    }
+
     // Check if universe is active
     if (!participation.conversations.universes.is_active) {
       throw new Error('Universe is not active')
     }
 
-    // Generate deterministic room name if not provided
-    const roomName = requestedRoomName || `conversation_${conversationId}`
+    // Always the authorized conversation's room: a client-chosen name could be another
+    // conversation's room, and group calls let anyone holding a grant join late
+    const roomName = `conversation_${conversationId}`
 
-    // Sanitize identity - use user ID or provided identity
-    const identity = requestedIdentity || user.id
+    const identity = participation.profile_universe_id
 
     // Create Twilio access token with video grant using Twilio SDK
     const AccessToken = twilio.jwt.AccessToken
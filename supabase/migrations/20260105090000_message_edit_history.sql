@@ -0,0 +1,105 @@
+-- Message Edit History
+-- Keeps every previous revision of an edited message so participants can review changes
+
+-- Helper used by RLS policies: is the current user an active participant in the conversation?
+CREATE OR REPLACE FUNCTION is_conversation_participant(p_conversation_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM conversation_participants cp
+        JOIN profile_universes pu ON pu.id = cp.profile_universe_id
+        WHERE cp.conversation_id = p_conversation_id
+          AND pu.user_id = auth.uid()
+          AND cp.left_at IS NULL
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE TABLE IF NOT EXISTS message_edits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    editor_profile_universe_id UUID REFERENCES profile_universes(id) ON DELETE SET NULL,
+    previous_content TEXT NOT NULL,
+    edited_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_edits_message_id ON message_edits(message_id, edited_at DESC);
+
+-- Record the old content and stamp edited_at whenever message content changes
+CREATE OR REPLACE FUNCTION record_message_edit()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+        INSERT INTO message_edits (
+            message_id,
+            conversation_id,
+            editor_profile_universe_id,
+            previous_content,
+            edited_at
+        ) VALUES (
+            OLD.id,
+            OLD.conversation_id,
+            OLD.sender_profile_universe_id,
+            OLD.content,
+            NOW()
+        );
+
+        NEW.edited_at = NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_message_edit_trigger ON messages;
+CREATE TRIGGER record_message_edit_trigger
+    BEFORE UPDATE OF content ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION record_message_edit();
+
+-- Row Level Security Policies
+ALTER TABLE message_edits ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Participants can view the edit history of messages in their conversations
+CREATE POLICY "Participants can view message edit history" ON message_edits
+    FOR SELECT USING (
+        is_conversation_participant(conversation_id)
+    );
+
+-- Policy: Senders can edit the content of their own messages
+-- System notices carry the acting user as sender_id but are not theirs to rewrite or delete
+DROP POLICY IF EXISTS "Senders can edit their own messages" ON messages;
+CREATE POLICY "Senders can edit their own messages" ON messages
+    FOR UPDATE USING (
+        auth.uid() = sender_id
+        AND message_type <> 'system'
+    )
+    WITH CHECK (
+        auth.uid() = sender_id
+    );
+
+-- The policy above can't tell columns apart, so a sender could otherwise move a message to
+-- another conversation or rewrite who sent it. Clients may change the text, or soft-delete it;
+-- server-side functions (SECURITY DEFINER, running as the owner) are not limited.
+CREATE OR REPLACE FUNCTION guard_message_sender_update()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_editable TEXT[] := ARRAY['content', 'edited_at', 'deleted_at', 'updated_at', 'search_vector'];
+BEGIN
+    IF current_user IN ('authenticated', 'anon')
+       AND (to_jsonb(NEW) - v_editable) IS DISTINCT FROM (to_jsonb(OLD) - v_editable) THEN
+        RAISE EXCEPTION 'Only the content of a message can be edited';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_message_sender_update_trigger ON messages;
+CREATE TRIGGER guard_message_sender_update_trigger
+    BEFORE UPDATE ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_message_sender_update();
+
+-- Broadcast message updates (edits, deletions) over Realtime
+ALTER TABLE messages REPLICA IDENTITY FULL;
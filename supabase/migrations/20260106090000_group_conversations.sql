@@ -0,0 +1,375 @@
+-- Group Conversations
+-- Adds a 'group' conversation type built on conversation_participants, with member roles
+
+-- Group conversations are not tied to a participant pair
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS avatar_url TEXT;
+ALTER TABLE conversations ALTER COLUMN participant1_universe_id DROP NOT NULL;
+ALTER TABLE conversations ALTER COLUMN participant2_universe_id DROP NOT NULL;
+
+ALTER TABLE conversations DROP CONSTRAINT IF EXISTS conversations_type_check;
+ALTER TABLE conversations ADD CONSTRAINT conversations_type_check
+    CHECK (type IN ('direct', 'group'));
+
+ALTER TABLE conversations DROP CONSTRAINT IF EXISTS direct_conversations_have_participants;
+ALTER TABLE conversations ADD CONSTRAINT direct_conversations_have_participants
+    CHECK (type <> 'direct' OR (participant1_universe_id IS NOT NULL AND participant2_universe_id IS NOT NULL));
+
+-- Member roles: exactly one owner per group, any number of admins and members
+ALTER TABLE conversation_participants ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'member'
+    CHECK (role IN ('owner', 'admin', 'member'));
+ALTER TABLE conversation_participants ADD COLUMN IF NOT EXISTS joined_at TIMESTAMPTZ DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_conversation_participants_active
+    ON conversation_participants(conversation_id)
+    WHERE left_at IS NULL;
+
+-- Members still update their own participant row directly (mute, archive, read state), and that
+-- policy can't tell columns apart: without this a member could make themselves owner, or clear
+-- left_at to rejoin after being removed. Roles and membership change only through the functions
+-- below (SECURITY DEFINER, running as the owner), which are not limited.
+CREATE OR REPLACE FUNCTION guard_conversation_participant_update()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_editable TEXT[] := ARRAY[
+        'is_muted', 'muted_until', 'notification_level', 'notification_sound', 'ringtone',
+        'notify_mentions_when_muted', 'last_read_at', 'is_archived', 'is_pinned', 'pin_order',
+        'marked_unread', 'updated_at'
+    ];
+BEGIN
+    IF current_user IN ('authenticated', 'anon')
+       AND (to_jsonb(NEW) - v_editable) IS DISTINCT FROM (to_jsonb(OLD) - v_editable) THEN
+        RAISE EXCEPTION 'Only your own conversation settings can be changed';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_conversation_participant_update_trigger ON conversation_participants;
+CREATE TRIGGER guard_conversation_participant_update_trigger
+    BEFORE UPDATE ON conversation_participants
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_conversation_participant_update();
+
+-- Public bucket for group avatars
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('conversation-avatars', 'conversation-avatars', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Avatars go under a folder named after one of the uploader's universes: {universe_id}/{file}
+DROP POLICY IF EXISTS "Users can upload conversation avatars" ON storage.objects;
+CREATE POLICY "Users can upload conversation avatars" ON storage.objects
+    FOR INSERT TO authenticated WITH CHECK (
+        bucket_id = 'conversation-avatars'
+        AND EXISTS (
+            SELECT 1 FROM profile_universes pu
+            WHERE pu.id::text = (storage.foldername(name))[1]
+              AND pu.user_id = auth.uid()
+        )
+    );
+
+-- Resolve the caller's role in a conversation, verifying they own the acting universe
+CREATE OR REPLACE FUNCTION get_actor_conversation_role(
+    p_conversation_id UUID,
+    p_actor_universe_id UUID
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_role TEXT;
+BEGIN
+    SELECT cp.role INTO v_role
+    FROM conversation_participants cp
+    JOIN profile_universes pu ON pu.id = cp.profile_universe_id
+    WHERE cp.conversation_id = p_conversation_id
+      AND cp.profile_universe_id = p_actor_universe_id
+      AND pu.user_id = auth.uid()
+      AND cp.left_at IS NULL;
+
+    IF v_role IS NULL THEN
+        RAISE EXCEPTION 'Not a participant in this conversation';
+    END IF;
+
+    RETURN v_role;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Post a system notice (member added, left, renamed...) into a conversation
+CREATE OR REPLACE FUNCTION post_conversation_system_message(
+    p_conversation_id UUID,
+    p_actor_universe_id UUID,
+    p_content TEXT,
+    p_metadata JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO messages (
+        conversation_id,
+        sender_id,
+        sender_profile_universe_id,
+        content,
+        message_type,
+        metadata
+    ) VALUES (
+        p_conversation_id,
+        auth.uid(),
+        p_actor_universe_id,
+        p_content,
+        'system',
+        p_metadata
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only called from the group functions below, which check the actor's role first
+REVOKE ALL ON FUNCTION post_conversation_system_message(UUID, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Function to create a group conversation owned by the creator
+CREATE OR REPLACE FUNCTION create_group_conversation(
+    p_creator_universe_id UUID,
+    p_name TEXT,
+    p_avatar_url TEXT,
+    p_member_universe_ids UUID[]
+)
+RETURNS UUID AS $$
+DECLARE
+    v_conversation_id UUID;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profile_universes
+        WHERE id = p_creator_universe_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Creator universe does not belong to the current user';
+    END IF;
+
+    IF p_name IS NULL OR btrim(p_name) = '' THEN
+        RAISE EXCEPTION 'Group name is required';
+    END IF;
+
+    INSERT INTO conversations (type, name, avatar_url, created_by)
+    VALUES ('group', btrim(p_name), p_avatar_url, p_creator_universe_id)
+    RETURNING id INTO v_conversation_id;
+
+    INSERT INTO conversation_participants (conversation_id, profile_universe_id, role)
+    VALUES (v_conversation_id, p_creator_universe_id, 'owner');
+
+    INSERT INTO conversation_participants (conversation_id, profile_universe_id, role)
+    SELECT v_conversation_id, member_id, 'member'
+    FROM unnest(p_member_universe_ids) AS member_id
+    WHERE member_id <> p_creator_universe_id
+    ON CONFLICT (conversation_id, profile_universe_id) DO NOTHING;
+
+    PERFORM post_conversation_system_message(
+        v_conversation_id,
+        p_creator_universe_id,
+        'created the group',
+        jsonb_build_object('event', 'group_created', 'name', btrim(p_name))
+    );
+
+    RETURN v_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to add members to a group (owner/admin only)
+CREATE OR REPLACE FUNCTION add_conversation_members(
+    p_conversation_id UUID,
+    p_actor_universe_id UUID,
+    p_member_universe_ids UUID[]
+)
+RETURNS VOID AS $$
+BEGIN
+    IF get_actor_conversation_role(p_conversation_id, p_actor_universe_id) NOT IN ('owner', 'admin') THEN
+        RAISE EXCEPTION 'Only group owners and admins can add members';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM conversations WHERE id = p_conversation_id AND type = 'group') THEN
+        RAISE EXCEPTION 'Members can only be added to group conversations';
+    END IF;
+
+    -- Former members who left are re-activated as plain members
+    INSERT INTO conversation_participants (conversation_id, profile_universe_id, role)
+    SELECT p_conversation_id, member_id, 'member'
+    FROM unnest(p_member_universe_ids) AS member_id
+    ON CONFLICT (conversation_id, profile_universe_id) DO UPDATE
+        SET left_at = NULL,
+            role = 'member',
+            joined_at = NOW()
+        WHERE conversation_participants.left_at IS NOT NULL;
+
+    PERFORM post_conversation_system_message(
+        p_conversation_id,
+        p_actor_universe_id,
+        'added ' || (
+            SELECT string_agg('@' || handle, ', ')
+            FROM profile_universes
+            WHERE id = ANY(p_member_universe_ids)
+        ),
+        jsonb_build_object('event', 'members_added', 'member_ids', to_jsonb(p_member_universe_ids))
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to remove a member from a group
+-- Owners can remove anyone; admins can only remove plain members
+CREATE OR REPLACE FUNCTION remove_conversation_member(
+    p_conversation_id UUID,
+    p_actor_universe_id UUID,
+    p_member_universe_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+    v_actor_role TEXT;
+    v_member_role TEXT;
+BEGIN
+    v_actor_role := get_actor_conversation_role(p_conversation_id, p_actor_universe_id);
+
+    IF NOT EXISTS (SELECT 1 FROM conversations WHERE id = p_conversation_id AND type = 'group') THEN
+        RAISE EXCEPTION 'Members can only be removed from group conversations';
+    END IF;
+
+    SELECT role INTO v_member_role
+    FROM conversation_participants
+    WHERE conversation_id = p_conversation_id
+      AND profile_universe_id = p_member_universe_id
+      AND left_at IS NULL;
+
+    IF v_member_role IS NULL THEN
+        RAISE EXCEPTION 'Member is not in this conversation';
+    END IF;
+
+    IF p_member_universe_id = p_actor_universe_id THEN
+        RAISE EXCEPTION 'Use leave_conversation to leave a group';
+    END IF;
+
+    IF NOT (
+        v_actor_role = 'owner' OR
+        (v_actor_role = 'admin' AND v_member_role = 'member')
+    ) THEN
+        RAISE EXCEPTION 'Not allowed to remove this member';
+    END IF;
+
+    UPDATE conversation_participants
+    SET left_at = NOW()
+    WHERE conversation_id = p_conversation_id
+      AND profile_universe_id = p_member_universe_id;
+
+    PERFORM post_conversation_system_message(
+        p_conversation_id,
+        p_actor_universe_id,
+        'removed @' || (SELECT handle FROM profile_universes WHERE id = p_member_universe_id),
+        jsonb_build_object('event', 'member_removed', 'member_id', p_member_universe_id)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to change a member's role (owner only)
+-- Promoting someone to owner transfers ownership and demotes the actor to admin
+CREATE OR REPLACE FUNCTION set_conversation_member_role(
+    p_conversation_id UUID,
+    p_actor_universe_id UUID,
+    p_member_universe_id UUID,
+    p_role TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+    IF get_actor_conversation_role(p_conversation_id, p_actor_universe_id) <> 'owner' THEN
+        RAISE EXCEPTION 'Only the group owner can change member roles';
+    END IF;
+
+    IF p_role NOT IN ('owner', 'admin', 'member') THEN
+        RAISE EXCEPTION 'Invalid role: %', p_role;
+    END IF;
+
+    IF p_member_universe_id = p_actor_universe_id THEN
+        RAISE EXCEPTION 'Owners cannot change their own role';
+    END IF;
+
+    UPDATE conversation_participants
+    SET role = p_role
+    WHERE conversation_id = p_conversation_id
+      AND profile_universe_id = p_member_universe_id
+      AND left_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Member is not in this conversation';
+    END IF;
+
+    IF p_role = 'owner' THEN
+        UPDATE conversation_participants
+        SET role = 'admin'
+        WHERE conversation_id = p_conversation_id
+          AND profile_universe_id = p_actor_universe_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to update a group's name and avatar (owner/admin only)
+CREATE OR REPLACE FUNCTION update_group_conversation(
+    p_conversation_id UUID,
+    p_actor_universe_id UUID,
+    p_name TEXT,
+    p_avatar_url TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+    IF get_actor_conversation_role(p_conversation_id, p_actor_universe_id) NOT IN ('owner', 'admin') THEN
+        RAISE EXCEPTION 'Only group owners and admins can edit the group';
+    END IF;
+
+    IF p_name IS NULL OR btrim(p_name) = '' THEN
+        RAISE EXCEPTION 'Group name is required';
+    END IF;
+
+    UPDATE conversations
+    SET name = btrim(p_name),
+        avatar_url = p_avatar_url
+    WHERE id = p_conversation_id
+      AND type = 'group';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to leave a conversation
+-- If the owner leaves, the longest-standing admin (or member) becomes owner
+CREATE OR REPLACE FUNCTION leave_conversation(
+    p_conversation_id UUID,
+    p_actor_universe_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+    v_role TEXT;
+    v_successor UUID;
+BEGIN
+    v_role := get_actor_conversation_role(p_conversation_id, p_actor_universe_id);
+
+    IF NOT EXISTS (SELECT 1 FROM conversations WHERE id = p_conversation_id AND type = 'group') THEN
+        RAISE EXCEPTION 'Only group conversations can be left';
+    END IF;
+
+    UPDATE conversation_participants
+    SET left_at = NOW()
+    WHERE conversation_id = p_conversation_id
+      AND profile_universe_id = p_actor_universe_id;
+
+    IF v_role = 'owner' THEN
+        SELECT profile_universe_id INTO v_successor
+        FROM conversation_participants
+        WHERE conversation_id = p_conversation_id
+          AND left_at IS NULL
+        ORDER BY (role = 'admin') DESC, joined_at ASC
+        LIMIT 1;
+
+        IF v_successor IS NOT NULL THEN
+            UPDATE conversation_participants
+            SET role = 'owner'
+            WHERE conversation_id = p_conversation_id
+              AND profile_universe_id = v_successor;
+        END IF;
+    END IF;
+
+    PERFORM post_conversation_system_message(
+        p_conversation_id,
+        p_actor_universe_id,
+        'left the group',
+        jsonb_build_object('event', 'member_left', 'member_id', p_actor_universe_id)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
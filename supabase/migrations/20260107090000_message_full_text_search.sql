@@ -0,0 +1,99 @@
+-- Full-Text Message Search
+-- Ranked search across every conversation a universe belongs to, backed by a tsvector index
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector ON messages USING GIN (search_vector);
+
+-- Search messages visible to a universe
+-- Snippets mark matches with chr(2)/chr(3) instead of HTML so clients never render markup from the server
+CREATE OR REPLACE FUNCTION search_messages(
+    p_universe_id UUID,
+    p_query TEXT,
+    p_sender_universe_id UUID DEFAULT NULL,
+    p_from TIMESTAMPTZ DEFAULT NULL,
+    p_to TIMESTAMPTZ DEFAULT NULL,
+    p_has_attachment BOOLEAN DEFAULT NULL,
+    p_message_type TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 50,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    conversation_id UUID,
+    sender_profile_universe_id UUID,
+    content TEXT,
+    message_type TEXT,
+    created_at TIMESTAMPTZ,
+    has_attachment BOOLEAN,
+    rank REAL,
+    snippet TEXT,
+    sender_handle TEXT,
+    sender_display_name TEXT,
+    sender_avatar_url TEXT
+) AS $$
+DECLARE
+    v_query tsquery;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profile_universes pu
+        WHERE pu.id = p_universe_id AND pu.user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Universe does not belong to the current user';
+    END IF;
+
+    v_query := websearch_to_tsquery('english', coalesce(p_query, ''));
+
+    -- Queries made only of stop words produce an empty tsquery
+    IF numnode(v_query) = 0 THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        m.id,
+        m.conversation_id,
+        m.sender_profile_universe_id,
+        m.content,
+        m.message_type,
+        m.created_at,
+        CASE WHEN jsonb_typeof(m.attachments) = 'array'
+            THEN jsonb_array_length(m.attachments) > 0
+            ELSE false
+        END AS has_attachment,
+        ts_rank_cd(m.search_vector, v_query) AS rank,
+        ts_headline(
+            'english',
+            m.content,
+            v_query,
+            format('StartSel=%s, StopSel=%s, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" ... "', chr(2), chr(3))
+        ) AS snippet,
+        pu.handle,
+        pu.display_name,
+        pu.avatar_url
+    FROM messages m
+    JOIN conversation_participants cp
+        ON cp.conversation_id = m.conversation_id
+       AND cp.profile_universe_id = p_universe_id
+       AND cp.left_at IS NULL
+    LEFT JOIN profile_universes pu ON pu.id = m.sender_profile_universe_id
+    WHERE m.deleted_at IS NULL
+      AND m.message_type <> 'system'
+      AND m.search_vector @@ v_query
+      AND (p_sender_universe_id IS NULL OR m.sender_profile_universe_id = p_sender_universe_id)
+      AND (p_from IS NULL OR m.created_at >= p_from)
+      AND (p_to IS NULL OR m.created_at < p_to)
+      AND (p_message_type IS NULL OR m.message_type = p_message_type)
+      AND (
+          p_has_attachment IS NULL OR
+          p_has_attachment = CASE WHEN jsonb_typeof(m.attachments) = 'array'
+              THEN jsonb_array_length(m.attachments) > 0
+              ELSE false
+          END
+      )
+    ORDER BY rank DESC, m.created_at DESC
+    LIMIT LEAST(coalesce(p_limit, 50), 100)
+    OFFSET coalesce(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,14 @@
+-- Offline Outbox Deduplication
+-- Queued messages carry a client-generated id, so replays hit the messages primary key.
+-- Reactions need a natural key so a replayed "add" is ignored instead of duplicated.
+
+-- Collapse any duplicate reactions before adding the constraint
+DELETE FROM message_reactions r
+USING message_reactions d
+WHERE r.message_id = d.message_id
+  AND r.profile_universe_id = d.profile_universe_id
+  AND r.emoji = d.emoji
+  AND (r.created_at, r.id) > (d.created_at, d.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_reactions_unique
+    ON message_reactions(message_id, profile_universe_id, emoji);
@@ -0,0 +1,147 @@
+-- Scheduled Messages
+-- Messages queued for later delivery (e.g. "doors open in 1 hour" reminders).
+-- The deliver-scheduled-messages edge function claims due rows and inserts them into messages.
+-- Run it every minute, e.g. with pg_cron + pg_net or a scheduled function trigger.
+
+CREATE TABLE IF NOT EXISTS scheduled_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    sender_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    sender_profile_universe_id UUID NOT NULL REFERENCES profile_universes(id) ON DELETE CASCADE,
+    content TEXT NOT NULL CHECK (length(trim(content)) > 0),
+    message_type TEXT NOT NULL DEFAULT 'text',
+    reply_to_message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+    show_id UUID,
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    send_at TIMESTAMPTZ NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'sending', 'sent', 'cancelled', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+    sent_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- The delivery worker scans pending rows by due time
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_due
+    ON scheduled_messages(send_at)
+    WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_conversation
+    ON scheduled_messages(conversation_id, sender_id);
+
+CREATE OR REPLACE FUNCTION touch_scheduled_message()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := now();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_touch_scheduled_message ON scheduled_messages;
+CREATE TRIGGER trg_touch_scheduled_message
+    BEFORE UPDATE ON scheduled_messages
+    FOR EACH ROW
+    EXECUTE FUNCTION touch_scheduled_message();
+
+ALTER TABLE scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+-- Policy: senders see their own scheduled messages
+DROP POLICY IF EXISTS "Senders can view their scheduled messages" ON scheduled_messages;
+CREATE POLICY "Senders can view their scheduled messages"
+    ON scheduled_messages FOR SELECT
+    USING (sender_id = auth.uid());
+
+-- Policy: participants can schedule messages as one of their own universes
+DROP POLICY IF EXISTS "Participants can schedule messages" ON scheduled_messages;
+CREATE POLICY "Participants can schedule messages"
+    ON scheduled_messages FOR INSERT
+    WITH CHECK (
+        sender_id = auth.uid()
+        AND status = 'pending'
+        AND EXISTS (
+            SELECT 1 FROM conversation_participants cp
+            JOIN profile_universes pu ON pu.id = cp.profile_universe_id
+            WHERE cp.conversation_id = scheduled_messages.conversation_id
+              AND cp.profile_universe_id = scheduled_messages.sender_profile_universe_id
+              AND cp.left_at IS NULL
+              AND pu.user_id = auth.uid()
+        )
+    );
+
+-- Policy: senders can edit or cancel messages that haven't been picked up for delivery
+DROP POLICY IF EXISTS "Senders can update unsent scheduled messages" ON scheduled_messages;
+CREATE POLICY "Senders can update unsent scheduled messages"
+    ON scheduled_messages FOR UPDATE
+    USING (sender_id = auth.uid() AND status IN ('pending', 'failed'))
+    WITH CHECK (
+        sender_id = auth.uid()
+        AND status IN ('pending', 'cancelled')
+        AND EXISTS (
+            SELECT 1 FROM conversation_participants cp
+            JOIN profile_universes pu ON pu.id = cp.profile_universe_id
+            WHERE cp.conversation_id = scheduled_messages.conversation_id
+              AND cp.profile_universe_id = scheduled_messages.sender_profile_universe_id
+              AND cp.left_at IS NULL
+              AND pu.user_id = auth.uid()
+        )
+    );
+
+-- The worker delivers a row as its sender into its conversation, so once scheduled a sender
+-- may only change the text, the time, or cancel it. The worker (service role) is not limited.
+CREATE OR REPLACE FUNCTION guard_scheduled_message_update()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_editable TEXT[] := ARRAY['content', 'send_at', 'status', 'last_error', 'updated_at'];
+BEGIN
+    IF current_user IN ('authenticated', 'anon')
+       AND (to_jsonb(NEW) - v_editable) IS DISTINCT FROM (to_jsonb(OLD) - v_editable) THEN
+        RAISE EXCEPTION 'Only the content and time of a scheduled message can be changed';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_guard_scheduled_message_update ON scheduled_messages;
+CREATE TRIGGER trg_guard_scheduled_message_update
+    BEFORE UPDATE ON scheduled_messages
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_scheduled_message_update();
+
+-- Claim due messages for delivery.
+-- Rows stuck in 'sending' (a worker died mid-run) are reclaimed after 10 minutes;
+-- delivery reuses the scheduled id as the message id, so a reclaimed row can't be sent twice.
+CREATE OR REPLACE FUNCTION claim_due_scheduled_messages(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF scheduled_messages AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE scheduled_messages sm
+    SET status = 'sending',
+        attempts = sm.attempts + 1
+    WHERE sm.id IN (
+        SELECT id FROM scheduled_messages
+        WHERE (status = 'pending' AND send_at <= now())
+           OR (status = 'sending' AND updated_at < now() - interval '10 minutes')
+        ORDER BY send_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING sm.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the delivery worker (service role) may claim messages
+REVOKE ALL ON FUNCTION claim_due_scheduled_messages(INTEGER) FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND tablename = 'scheduled_messages'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE scheduled_messages;
+    END IF;
+END $$;
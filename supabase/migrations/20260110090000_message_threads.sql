@@ -0,0 +1,170 @@
+-- Message Threads
+-- Replies posted in a thread carry thread_root_id and are shown in the thread panel instead of
+-- the main timeline. The root message keeps a denormalized summary (reply count, last reply time,
+-- most recent repliers) so the timeline can render it without extra queries.
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS thread_root_id UUID REFERENCES messages(id) ON DELETE CASCADE;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS thread_reply_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS thread_last_reply_at TIMESTAMPTZ;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS thread_participants JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_messages_thread_root
+    ON messages(thread_root_id, created_at, id)
+    WHERE thread_root_id IS NOT NULL;
+
+-- Threads are one level deep and stay inside the root's conversation
+CREATE OR REPLACE FUNCTION normalize_thread_reply()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_root RECORD;
+BEGIN
+    IF NEW.thread_root_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT id, conversation_id, thread_root_id INTO v_root
+    FROM messages WHERE id = NEW.thread_root_id;
+
+    IF v_root.id IS NULL THEN
+        RAISE EXCEPTION 'Thread root message not found';
+    END IF;
+
+    -- Replying to a reply joins the reply's thread
+    IF v_root.thread_root_id IS NOT NULL THEN
+        NEW.thread_root_id := v_root.thread_root_id;
+        SELECT id, conversation_id, thread_root_id INTO v_root
+        FROM messages WHERE id = NEW.thread_root_id;
+    END IF;
+
+    IF v_root.conversation_id <> NEW.conversation_id THEN
+        RAISE EXCEPTION 'Thread replies must be in the same conversation as the root message';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_normalize_thread_reply ON messages;
+CREATE TRIGGER trg_normalize_thread_reply
+    BEFORE INSERT ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION normalize_thread_reply();
+
+-- Recompute a root's thread summary from its live replies
+CREATE OR REPLACE FUNCTION refresh_thread_summary(p_root_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE messages root
+    SET thread_reply_count = summary.reply_count,
+        thread_last_reply_at = summary.last_reply_at,
+        thread_participants = summary.participants
+    FROM (
+        SELECT
+            count(*)::INTEGER AS reply_count,
+            max(r.created_at) AS last_reply_at,
+            coalesce((
+                SELECT jsonb_agg(jsonb_build_object(
+                    'id', recent.sender_profile_universe_id,
+                    'handle', pu.handle,
+                    'display_name', pu.display_name,
+                    'avatar_url', pu.avatar_url
+                ) ORDER BY recent.last_at DESC)
+                FROM (
+                    SELECT sender_profile_universe_id, max(created_at) AS last_at
+                    FROM messages
+                    WHERE thread_root_id = p_root_id AND deleted_at IS NULL
+                    GROUP BY sender_profile_universe_id
+                    ORDER BY max(created_at) DESC
+                    LIMIT 3
+                ) recent
+                LEFT JOIN profile_universes pu ON pu.id = recent.sender_profile_universe_id
+            ), '[]'::jsonb) AS participants
+        FROM messages r
+        WHERE r.thread_root_id = p_root_id AND r.deleted_at IS NULL
+    ) summary
+    WHERE root.id = p_root_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION update_thread_summary()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.thread_root_id IS NOT NULL THEN
+            PERFORM refresh_thread_summary(NEW.thread_root_id);
+        END IF;
+    ELSIF NEW.thread_root_id IS NOT NULL AND NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+        PERFORM refresh_thread_summary(NEW.thread_root_id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_update_thread_summary ON messages;
+CREATE TRIGGER trg_update_thread_summary
+    AFTER INSERT OR UPDATE OF deleted_at ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION update_thread_summary();
+
+-- Per-universe read position in each thread
+CREATE TABLE IF NOT EXISTS message_thread_reads (
+    thread_root_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    profile_universe_id UUID NOT NULL REFERENCES profile_universes(id) ON DELETE CASCADE,
+    last_read_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (thread_root_id, profile_universe_id)
+);
+
+ALTER TABLE message_thread_reads ENABLE ROW LEVEL SECURITY;
+
+-- Policy: universes manage their own thread read positions
+DROP POLICY IF EXISTS "Users manage their thread reads" ON message_thread_reads;
+CREATE POLICY "Users manage their thread reads"
+    ON message_thread_reads FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM profile_universes pu
+            WHERE pu.id = message_thread_reads.profile_universe_id
+              AND pu.user_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM profile_universes pu
+            WHERE pu.id = message_thread_reads.profile_universe_id
+              AND pu.user_id = auth.uid()
+        )
+    );
+
+-- Unread replies in the threads a universe follows (threads it started or replied in)
+CREATE OR REPLACE FUNCTION get_thread_unread_counts(p_universe_id UUID, p_conversation_id UUID)
+RETURNS TABLE (thread_root_id UUID, unread_count INTEGER) AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profile_universes pu
+        WHERE pu.id = p_universe_id AND pu.user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Universe does not belong to the current user';
+    END IF;
+
+    RETURN QUERY
+    SELECT r.thread_root_id, count(*)::INTEGER
+    FROM messages r
+    JOIN messages root ON root.id = r.thread_root_id
+    LEFT JOIN message_thread_reads tr
+        ON tr.thread_root_id = r.thread_root_id
+       AND tr.profile_universe_id = p_universe_id
+    WHERE r.conversation_id = p_conversation_id
+      AND r.deleted_at IS NULL
+      AND r.sender_profile_universe_id <> p_universe_id
+      AND r.created_at > coalesce(tr.last_read_at, '-infinity'::timestamptz)
+      AND (
+          root.sender_profile_universe_id = p_universe_id
+          OR EXISTS (
+              SELECT 1 FROM messages mine
+              WHERE mine.thread_root_id = r.thread_root_id
+                AND mine.sender_profile_universe_id = p_universe_id
+          )
+      )
+    GROUP BY r.thread_root_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
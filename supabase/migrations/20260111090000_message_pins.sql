@@ -0,0 +1,107 @@
+-- Pinned Messages
+-- Any participant can pin a message so it stays visible to everyone in the conversation
+-- (set times, addresses, rate agreements). Pins are shared, not per-user.
+
+CREATE TABLE IF NOT EXISTS message_pins (
+    message_id UUID PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    pinned_by_universe_id UUID NOT NULL REFERENCES profile_universes(id) ON DELETE CASCADE,
+    pinned_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_pins_conversation
+    ON message_pins(conversation_id, pinned_at DESC);
+
+ALTER TABLE message_pins ENABLE ROW LEVEL SECURITY;
+
+-- Policy: participants see the pins in their conversations
+DROP POLICY IF EXISTS "Participants can view pinned messages" ON message_pins;
+CREATE POLICY "Participants can view pinned messages"
+    ON message_pins FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM conversation_participants cp
+            JOIN profile_universes pu ON pu.id = cp.profile_universe_id
+            WHERE cp.conversation_id = message_pins.conversation_id
+              AND pu.user_id = auth.uid()
+              AND cp.left_at IS NULL
+        )
+    );
+
+-- Writes go through pin_message / unpin_message so the pin always matches its message
+
+-- Function to pin a message for everyone in its conversation
+CREATE OR REPLACE FUNCTION pin_message(
+    p_message_id UUID,
+    p_actor_universe_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+    v_message RECORD;
+BEGIN
+    SELECT id, conversation_id, message_type, deleted_at, thread_root_id INTO v_message
+    FROM messages WHERE id = p_message_id;
+
+    IF v_message.id IS NULL OR v_message.deleted_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Message not found';
+    END IF;
+
+    IF v_message.message_type = 'system' OR v_message.thread_root_id IS NOT NULL THEN
+        RAISE EXCEPTION 'This message cannot be pinned';
+    END IF;
+
+    PERFORM get_actor_conversation_role(v_message.conversation_id, p_actor_universe_id);
+
+    INSERT INTO message_pins (message_id, conversation_id, pinned_by_universe_id)
+    VALUES (p_message_id, v_message.conversation_id, p_actor_universe_id)
+    ON CONFLICT (message_id) DO NOTHING;
+
+    IF FOUND THEN
+        PERFORM post_conversation_system_message(
+            v_message.conversation_id,
+            p_actor_universe_id,
+            'pinned a message',
+            jsonb_build_object('event', 'message_pinned', 'message_id', p_message_id)
+        );
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to unpin a message
+CREATE OR REPLACE FUNCTION unpin_message(
+    p_message_id UUID,
+    p_actor_universe_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+    v_conversation_id UUID;
+BEGIN
+    SELECT conversation_id INTO v_conversation_id
+    FROM message_pins WHERE message_id = p_message_id;
+
+    IF v_conversation_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    PERFORM get_actor_conversation_role(v_conversation_id, p_actor_universe_id);
+
+    DELETE FROM message_pins WHERE message_id = p_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deleting a message takes its pin with it
+CREATE OR REPLACE FUNCTION unpin_deleted_message()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+        DELETE FROM message_pins WHERE message_id = NEW.id;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_unpin_deleted_message ON messages;
+CREATE TRIGGER trg_unpin_deleted_message
+    AFTER UPDATE OF deleted_at ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION unpin_deleted_message();
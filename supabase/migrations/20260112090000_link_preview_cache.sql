@@ -0,0 +1,17 @@
+-- Link Preview Cache
+-- OpenGraph / oEmbed metadata fetched by the link-preview edge function, one row per normalized URL.
+-- preview is NULL when the page had nothing to show; such rows expire sooner so they are retried.
+-- The preview attached to a message is copied into messages.metadata.link_preview, so expiring
+-- or deleting cache rows never changes messages that were already sent.
+
+CREATE TABLE IF NOT EXISTS link_previews (
+    url TEXT PRIMARY KEY,
+    preview JSONB,
+    fetched_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_link_previews_expires_at ON link_previews(expires_at);
+
+-- Only the edge function (service role) reads and writes the cache
+ALTER TABLE link_previews ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,117 @@
+-- Read Receipts
+-- Each participant has a delivered cursor and a read cursor on conversation_participants.
+-- A message is delivered to / seen by a participant once its created_at is at or before the
+-- matching cursor. Cursors only move forward and are published over Realtime so senders see
+-- ticks update live. Unread counts are computed from the read cursor on the server.
+
+ALTER TABLE conversation_participants ADD COLUMN IF NOT EXISTS last_read_message_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+ALTER TABLE conversation_participants ADD COLUMN IF NOT EXISTS last_delivered_at TIMESTAMPTZ;
+
+-- Existing read positions also count as delivered
+UPDATE conversation_participants
+SET last_delivered_at = last_read_at
+WHERE last_delivered_at IS NULL AND last_read_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created
+    ON messages(conversation_id, created_at)
+    WHERE deleted_at IS NULL;
+
+-- Function to advance a participant's read cursor to a message they have seen
+-- The cursor takes the message's own timestamp so client clock skew can't skip messages
+CREATE OR REPLACE FUNCTION mark_conversation_read(
+    p_conversation_id UUID,
+    p_universe_id UUID,
+    p_message_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+    v_read_at TIMESTAMPTZ;
+BEGIN
+    PERFORM get_actor_conversation_role(p_conversation_id, p_universe_id);
+
+    SELECT created_at INTO v_read_at
+    FROM messages
+    WHERE id = p_message_id AND conversation_id = p_conversation_id;
+
+    IF v_read_at IS NULL THEN
+        RAISE EXCEPTION 'Message not found in this conversation';
+    END IF;
+
+    UPDATE conversation_participants
+    SET last_read_at = v_read_at,
+        last_read_message_id = p_message_id,
+        last_delivered_at = greatest(coalesce(last_delivered_at, v_read_at), v_read_at)
+    WHERE conversation_id = p_conversation_id
+      AND profile_universe_id = p_universe_id
+      AND (last_read_at IS NULL OR last_read_at < v_read_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to mark everything received so far as delivered across a universe's conversations
+-- Only touches rows with something new, so idle inboxes don't generate Realtime traffic
+CREATE OR REPLACE FUNCTION mark_conversations_delivered(p_universe_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profile_universes pu
+        WHERE pu.id = p_universe_id AND pu.user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Universe does not belong to the current user';
+    END IF;
+
+    UPDATE conversation_participants cp
+    SET last_delivered_at = latest.created_at
+    FROM (
+        SELECT m.conversation_id, max(m.created_at) AS created_at
+        FROM messages m
+        JOIN conversation_participants mine
+            ON mine.conversation_id = m.conversation_id
+           AND mine.profile_universe_id = p_universe_id
+           AND mine.left_at IS NULL
+        WHERE m.deleted_at IS NULL
+          AND m.sender_profile_universe_id <> p_universe_id
+        GROUP BY m.conversation_id
+    ) latest
+    WHERE cp.conversation_id = latest.conversation_id
+      AND cp.profile_universe_id = p_universe_id
+      AND (cp.last_delivered_at IS NULL OR cp.last_delivered_at < latest.created_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Unread messages per conversation, counted from the read cursor
+-- Own messages, system notices and thread replies don't count towards the inbox badge
+CREATE OR REPLACE FUNCTION get_unread_counts(p_universe_id UUID)
+RETURNS TABLE (conversation_id UUID, unread_count INTEGER) AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profile_universes pu
+        WHERE pu.id = p_universe_id AND pu.user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Universe does not belong to the current user';
+    END IF;
+
+    RETURN QUERY
+    SELECT cp.conversation_id, count(m.id)::INTEGER
+    FROM conversation_participants cp
+    JOIN messages m
+        ON m.conversation_id = cp.conversation_id
+       AND m.created_at > coalesce(cp.last_read_at, '-infinity'::timestamptz)
+    WHERE cp.profile_universe_id = p_universe_id
+      AND cp.left_at IS NULL
+      AND m.deleted_at IS NULL
+      AND m.thread_root_id IS NULL
+      AND m.message_type <> 'system'
+      AND m.sender_profile_universe_id <> p_universe_id
+    GROUP BY cp.conversation_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND tablename = 'conversation_participants'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE conversation_participants;
+    END IF;
+END $$;
@@ -0,0 +1,13 @@
+-- Inbox Realtime
+-- The inbox subscribes to conversation row changes so renames and new group avatars show up
+-- without reloading the list. Message and participant changes are already published.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND tablename = 'conversations'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE conversations;
+    END IF;
+END $$;
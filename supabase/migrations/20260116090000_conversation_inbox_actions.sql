@@ -0,0 +1,289 @@
+-- Inbox Actions
+-- Each participant organises their own inbox: pinned conversations keep a manual order,
+-- archiving moves a conversation out of the main list, and a conversation can be flagged unread
+-- without moving the read cursor. Everything lives on conversation_participants, which is already
+-- published over Realtime, so the same inbox shows on every device.
+
+ALTER TABLE conversation_participants ADD COLUMN IF NOT EXISTS pin_order INTEGER;
+ALTER TABLE conversation_participants ADD COLUMN IF NOT EXISTS marked_unread BOOLEAN NOT NULL DEFAULT false;
+
+-- Existing pins get an order, oldest membership first
+UPDATE conversation_participants cp
+SET pin_order = ordered.position
+FROM (
+    SELECT conversation_id, profile_universe_id,
+           row_number() OVER (PARTITION BY profile_universe_id ORDER BY joined_at, conversation_id)::INTEGER AS position
+    FROM conversation_participants
+    WHERE is_pinned AND left_at IS NULL
+) ordered
+WHERE cp.conversation_id = ordered.conversation_id
+  AND cp.profile_universe_id = ordered.profile_universe_id
+  AND cp.pin_order IS NULL;
+
+-- Function to archive, pin or flag several of a universe's conversations at once
+-- NULL leaves a flag unchanged. Archiving unpins; marking read also moves the read cursor to the
+-- latest message so the unread count clears along with the flag.
+CREATE OR REPLACE FUNCTION set_conversation_flags(
+    p_universe_id UUID,
+    p_conversation_ids UUID[],
+    p_is_archived BOOLEAN DEFAULT NULL,
+    p_is_pinned BOOLEAN DEFAULT NULL,
+    p_marked_unread BOOLEAN DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+    v_last_pin_order INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profile_universes pu
+        WHERE pu.id = p_universe_id AND pu.user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Universe does not belong to the current user';
+    END IF;
+
+    -- Newly pinned conversations go to the bottom of the pinned list, in the order given
+    SELECT coalesce(max(pin_order), 0) INTO v_last_pin_order
+    FROM conversation_participants
+    WHERE profile_universe_id = p_universe_id AND is_pinned AND left_at IS NULL;
+
+    UPDATE conversation_participants cp
+    SET is_archived = coalesce(p_is_archived, cp.is_archived),
+        is_pinned = CASE
+            WHEN p_is_archived THEN false
+            ELSE coalesce(p_is_pinned, cp.is_pinned)
+        END,
+        pin_order = CASE
+            WHEN p_is_archived OR p_is_pinned = false THEN NULL
+            WHEN p_is_pinned AND NOT coalesce(cp.is_pinned, false)
+                THEN v_last_pin_order + array_position(p_conversation_ids, cp.conversation_id)
+            ELSE cp.pin_order
+        END,
+        marked_unread = coalesce(p_marked_unread, cp.marked_unread)
+    WHERE cp.profile_universe_id = p_universe_id
+      AND cp.conversation_id = ANY(p_conversation_ids)
+      AND cp.left_at IS NULL;
+
+    IF p_marked_unread = false THEN
+        UPDATE conversation_participants cp
+        SET last_read_at = latest.created_at,
+            last_read_message_id = latest.id,
+            last_delivered_at = greatest(coalesce(cp.last_delivered_at, latest.created_at), latest.created_at)
+        FROM (
+            SELECT DISTINCT ON (m.conversation_id) m.conversation_id, m.id, m.created_at
+            FROM messages m
+            WHERE m.conversation_id = ANY(p_conversation_ids)
+              AND m.deleted_at IS NULL
+              AND m.thread_root_id IS NULL
+            ORDER BY m.conversation_id, m.created_at DESC, m.id DESC
+        ) latest
+        WHERE cp.conversation_id = latest.conversation_id
+          AND cp.profile_universe_id = p_universe_id
+          AND cp.left_at IS NULL
+          AND (cp.last_read_at IS NULL OR cp.last_read_at < latest.created_at);
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to save the manual order of a universe's pinned conversations
+-- p_conversation_ids is the full pinned list, top first
+CREATE OR REPLACE FUNCTION reorder_pinned_conversations(
+    p_universe_id UUID,
+    p_conversation_ids UUID[]
+)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profile_universes pu
+        WHERE pu.id = p_universe_id AND pu.user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Universe does not belong to the current user';
+    END IF;
+
+    UPDATE conversation_participants cp
+    SET pin_order = array_position(p_conversation_ids, cp.conversation_id)
+    WHERE cp.profile_universe_id = p_universe_id
+      AND cp.conversation_id = ANY(p_conversation_ids)
+      AND cp.is_pinned
+      AND cp.left_at IS NULL
+      AND cp.pin_order IS DISTINCT FROM array_position(p_conversation_ids, cp.conversation_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Opening a conversation clears its unread flag, even when there is nothing new to read
+CREATE OR REPLACE FUNCTION mark_conversation_read(
+    p_conversation_id UUID,
+    p_universe_id UUID,
+    p_message_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+    v_read_at TIMESTAMPTZ;
+BEGIN
+    PERFORM get_actor_conversation_role(p_conversation_id, p_universe_id);
+
+    SELECT created_at INTO v_read_at
+    FROM messages
+    WHERE id = p_message_id AND conversation_id = p_conversation_id;
+
+    IF v_read_at IS NULL THEN
+        RAISE EXCEPTION 'Message not found in this conversation';
+    END IF;
+
+    UPDATE conversation_participants
+    SET last_read_message_id = CASE
+            WHEN last_read_at IS NULL OR last_read_at < v_read_at THEN p_message_id
+            ELSE last_read_message_id
+        END,
+        last_read_at = greatest(coalesce(last_read_at, v_read_at), v_read_at),
+        last_delivered_at = greatest(coalesce(last_delivered_at, v_read_at), v_read_at),
+        marked_unread = false
+    WHERE conversation_id = p_conversation_id
+      AND profile_universe_id = p_universe_id
+      AND (last_read_at IS NULL OR last_read_at < v_read_at OR marked_unread);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The inbox returns the new flags; p_pinned_only fetches every pinned conversation, however old,
+-- so pins always sit at the top of the list
+DROP FUNCTION IF EXISTS get_conversation_inbox(UUID, INTEGER, TIMESTAMPTZ, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION get_conversation_inbox(
+    p_universe_id UUID,
+    p_limit INTEGER DEFAULT 50,
+    p_before_activity_at TIMESTAMPTZ DEFAULT NULL,
+    p_before_id UUID DEFAULT NULL,
+    p_conversation_id UUID DEFAULT NULL,
+    p_pinned_only BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+    id UUID,
+    type TEXT,
+    name TEXT,
+    avatar_url TEXT,
+    metadata JSONB,
+    created_at TIMESTAMPTZ,
+    activity_at TIMESTAMPTZ,
+    is_pinned BOOLEAN,
+    is_muted BOOLEAN,
+    is_archived BOOLEAN,
+    pin_order INTEGER,
+    marked_unread BOOLEAN,
+    role TEXT,
+    last_read_at TIMESTAMPTZ,
+    unread_count INTEGER,
+    last_message JSONB,
+    participants JSONB
+) AS $$
+#variable_conflict use_column
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profile_universes pu
+        WHERE pu.id = p_universe_id AND pu.user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Universe does not belong to the current user';
+    END IF;
+
+    RETURN QUERY
+    WITH page AS (
+        SELECT
+            c.id AS conversation_id,
+            c.type::TEXT AS conversation_type,
+            c.name::TEXT AS conversation_name,
+            c.avatar_url::TEXT AS conversation_avatar_url,
+            to_jsonb(c.metadata) AS conversation_metadata,
+            c.created_at AS conversation_created_at,
+            coalesce(lm.created_at, c.created_at) AS conversation_activity_at,
+            coalesce(mine.is_pinned, false) AS mine_is_pinned,
+            coalesce(mine.is_muted, false) AS mine_is_muted,
+            coalesce(mine.is_archived, false) AS mine_is_archived,
+            mine.pin_order AS mine_pin_order,
+            coalesce(mine.marked_unread, false) AS mine_marked_unread,
+            mine.role AS mine_role,
+            mine.last_read_at AS mine_last_read_at,
+            CASE WHEN lm.id IS NULL THEN NULL ELSE jsonb_build_object(
+                'id', lm.id,
+                'content', lm.content,
+                'message_type', lm.message_type,
+                'sender_profile_universe_id', lm.sender_profile_universe_id,
+                'created_at', lm.created_at
+            ) END AS conversation_last_message
+        FROM conversation_participants mine
+        JOIN conversations c ON c.id = mine.conversation_id
+        LEFT JOIN LATERAL (
+            SELECT m.id, m.content, m.message_type, m.sender_profile_universe_id, m.created_at
+            FROM messages m
+            WHERE m.conversation_id = c.id
+              AND m.deleted_at IS NULL
+              AND m.thread_root_id IS NULL
+            ORDER BY m.created_at DESC, m.id DESC
+            LIMIT 1
+        ) lm ON true
+        WHERE mine.profile_universe_id = p_universe_id
+          AND mine.left_at IS NULL
+          AND (p_conversation_id IS NULL OR c.id = p_conversation_id)
+          AND (NOT coalesce(p_pinned_only, false) OR coalesce(mine.is_pinned, false))
+          AND (
+              p_before_activity_at IS NULL
+              OR (coalesce(lm.created_at, c.created_at), c.id) < (p_before_activity_at, p_before_id)
+          )
+        ORDER BY coalesce(lm.created_at, c.created_at) DESC, c.id DESC
+        LIMIT greatest(coalesce(p_limit, 50), 1)
+    )
+    SELECT
+        page.conversation_id,
+        page.conversation_type,
+        page.conversation_name,
+        page.conversation_avatar_url,
+        page.conversation_metadata,
+        page.conversation_created_at,
+        page.conversation_activity_at,
+        page.mine_is_pinned,
+        page.mine_is_muted,
+        page.mine_is_archived,
+        page.mine_pin_order,
+        page.mine_marked_unread,
+        page.mine_role,
+        page.mine_last_read_at,
+        -- Same rules as get_unread_counts
+        (
+            SELECT count(*)::INTEGER
+            FROM messages m
+            WHERE m.conversation_id = page.conversation_id
+              AND m.created_at > coalesce(page.mine_last_read_at, '-infinity'::timestamptz)
+              AND m.deleted_at IS NULL
+              AND m.thread_root_id IS NULL
+              AND m.message_type <> 'system'
+              AND m.sender_profile_universe_id <> p_universe_id
+        ),
+        page.conversation_last_message,
+        coalesce((
+            SELECT jsonb_agg(
+                jsonb_build_object(
+                    'profile_universe_id', cp.profile_universe_id,
+                    'role', cp.role,
+                    'profile_universe', jsonb_build_object(
+                        'id', pu.id,
+                        'handle', pu.handle,
+                        'display_name', pu.display_name,
+                        'avatar_url', pu.avatar_url
+                    )
+                )
+                -- Settings and inbox flags are private, so only the caller's own entry has them
+                || CASE WHEN cp.profile_universe_id = p_universe_id THEN jsonb_build_object(
+                    'is_archived', coalesce(cp.is_archived, false),
+                    'is_muted', coalesce(cp.is_muted, false),
+                    'is_pinned', coalesce(cp.is_pinned, false),
+                    'pin_order', cp.pin_order,
+                    'marked_unread', coalesce(cp.marked_unread, false)
+                ) ELSE '{}'::jsonb END
+                ORDER BY cp.joined_at, cp.profile_universe_id
+            )
+            FROM conversation_participants cp
+            LEFT JOIN profile_universes pu ON pu.id = cp.profile_universe_id
+            WHERE cp.conversation_id = page.conversation_id
+              AND cp.left_at IS NULL
+        ), '[]'::jsonb)
+    FROM page
+    ORDER BY page.conversation_activity_at DESC, page.conversation_id DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,201 @@
+-- Notification Preferences
+-- Per-participant notification settings on conversation_participants:
+--   * muted_until makes a mute temporary (1 hour, 8 hours, a week, a chosen date). A mute with no
+--     muted_until lasts until it is turned off.
+--   * notification_level is 'all', 'mentions' (only messages that mention you) or 'none'.
+--   * notification_sound / ringtone pick the sound for new messages and incoming calls; NULL
+--     means the default.
+-- Expired mutes read as unmuted straight away; expire_conversation_mutes tidies the rows up and
+-- lets other devices hear about it over Realtime. Run it every minute, e.g. with pg_cron.
+
+ALTER TABLE conversation_participants ADD COLUMN IF NOT EXISTS muted_until TIMESTAMPTZ;
+ALTER TABLE conversation_participants ADD COLUMN IF NOT EXISTS notification_level TEXT NOT NULL DEFAULT 'all';
+ALTER TABLE conversation_participants ADD COLUMN IF NOT EXISTS notification_sound TEXT;
+ALTER TABLE conversation_participants ADD COLUMN IF NOT EXISTS ringtone TEXT;
+
+ALTER TABLE conversation_participants DROP CONSTRAINT IF EXISTS conversation_participants_notification_level_check;
+ALTER TABLE conversation_participants ADD CONSTRAINT conversation_participants_notification_level_check
+    CHECK (notification_level IN ('all', 'mentions', 'none'));
+
+CREATE INDEX IF NOT EXISTS idx_conversation_participants_muted_until
+    ON conversation_participants(muted_until)
+    WHERE muted_until IS NOT NULL;
+
+-- Function to lift mutes whose time is up
+CREATE OR REPLACE FUNCTION expire_conversation_mutes()
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    UPDATE conversation_participants
+    SET is_muted = false,
+        muted_until = NULL
+    WHERE muted_until IS NOT NULL
+      AND muted_until <= now();
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION expire_conversation_mutes() FROM PUBLIC, anon, authenticated;
+
+-- The inbox reports the effective mute and the new preferences
+DROP FUNCTION IF EXISTS get_conversation_inbox(UUID, INTEGER, TIMESTAMPTZ, UUID, UUID, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION get_conversation_inbox(
+    p_universe_id UUID,
+    p_limit INTEGER DEFAULT 50,
+    p_before_activity_at TIMESTAMPTZ DEFAULT NULL,
+    p_before_id UUID DEFAULT NULL,
+    p_conversation_id UUID DEFAULT NULL,
+    p_pinned_only BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+    id UUID,
+    type TEXT,
+    name TEXT,
+    avatar_url TEXT,
+    metadata JSONB,
+    created_at TIMESTAMPTZ,
+    activity_at TIMESTAMPTZ,
+    is_pinned BOOLEAN,
+    is_muted BOOLEAN,
+    muted_until TIMESTAMPTZ,
+    notification_level TEXT,
+    notification_sound TEXT,
+    ringtone TEXT,
+    is_archived BOOLEAN,
+    pin_order INTEGER,
+    marked_unread BOOLEAN,
+    role TEXT,
+    last_read_at TIMESTAMPTZ,
+    unread_count INTEGER,
+    last_message JSONB,
+    participants JSONB
+) AS $$
+#variable_conflict use_column
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profile_universes pu
+        WHERE pu.id = p_universe_id AND pu.user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Universe does not belong to the current user';
+    END IF;
+
+    RETURN QUERY
+    WITH page AS (
+        SELECT
+            c.id AS conversation_id,
+            c.type::TEXT AS conversation_type,
+            c.name::TEXT AS conversation_name,
+            c.avatar_url::TEXT AS conversation_avatar_url,
+            to_jsonb(c.metadata) AS conversation_metadata,
+            c.created_at AS conversation_created_at,
+            coalesce(lm.created_at, c.created_at) AS conversation_activity_at,
+            coalesce(mine.is_pinned, false) AS mine_is_pinned,
+            coalesce(mine.is_muted, false) AND (mine.muted_until IS NULL OR mine.muted_until > now()) AS mine_is_muted,
+            CASE WHEN mine.muted_until > now() THEN mine.muted_until END AS mine_muted_until,
+            coalesce(mine.notification_level, 'all') AS mine_notification_level,
+            mine.notification_sound AS mine_notification_sound,
+            mine.ringtone AS mine_ringtone,
+            coalesce(mine.is_archived, false) AS mine_is_archived,
+            mine.pin_order AS mine_pin_order,
+            coalesce(mine.marked_unread, false) AS mine_marked_unread,
+            mine.role AS mine_role,
+            mine.last_read_at AS mine_last_read_at,
+            CASE WHEN lm.id IS NULL THEN NULL ELSE jsonb_build_object(
+                'id', lm.id,
+                'content', lm.content,
+                'message_type', lm.message_type,
+                'sender_profile_universe_id', lm.sender_profile_universe_id,
+                'created_at', lm.created_at
+            ) END AS conversation_last_message
+        FROM conversation_participants mine
+        JOIN conversations c ON c.id = mine.conversation_id
+        LEFT JOIN LATERAL (
+            SELECT m.id, m.content, m.message_type, m.sender_profile_universe_id, m.created_at
+            FROM messages m
+            WHERE m.conversation_id = c.id
+              AND m.deleted_at IS NULL
+              AND m.thread_root_id IS NULL
+            ORDER BY m.created_at DESC, m.id DESC
+            LIMIT 1
+        ) lm ON true
+        WHERE mine.profile_universe_id = p_universe_id
+          AND mine.left_at IS NULL
+          AND (p_conversation_id IS NULL OR c.id = p_conversation_id)
+          AND (NOT coalesce(p_pinned_only, false) OR coalesce(mine.is_pinned, false))
+          AND (
+              p_before_activity_at IS NULL
+              OR (coalesce(lm.created_at, c.created_at), c.id) < (p_before_activity_at, p_before_id)
+          )
+        ORDER BY coalesce(lm.created_at, c.created_at) DESC, c.id DESC
+        LIMIT greatest(coalesce(p_limit, 50), 1)
+    )
+    SELECT
+        page.conversation_id,
+        page.conversation_type,
+        page.conversation_name,
+        page.conversation_avatar_url,
+        page.conversation_metadata,
+        page.conversation_created_at,
+        page.conversation_activity_at,
+        page.mine_is_pinned,
+        page.mine_is_muted,
+        page.mine_muted_until,
+        page.mine_notification_level,
+        page.mine_notification_sound,
+        page.mine_ringtone,
+        page.mine_is_archived,
+        page.mine_pin_order,
+        page.mine_marked_unread,
+        page.mine_role,
+        page.mine_last_read_at,
+        -- Same rules as get_unread_counts
+        (
+            SELECT count(*)::INTEGER
+            FROM messages m
+            WHERE m.conversation_id = page.conversation_id
+              AND m.created_at > coalesce(page.mine_last_read_at, '-infinity'::timestamptz)
+              AND m.deleted_at IS NULL
+              AND m.thread_root_id IS NULL
+              AND m.message_type <> 'system'
+              AND m.sender_profile_universe_id <> p_universe_id
+        ),
+        page.conversation_last_message,
+        coalesce((
+            SELECT jsonb_agg(
+                jsonb_build_object(
+                    'profile_universe_id', cp.profile_universe_id,
+                    'role', cp.role,
+                    'profile_universe', jsonb_build_object(
+                        'id', pu.id,
+                        'handle', pu.handle,
+                        'display_name', pu.display_name,
+                        'avatar_url', pu.avatar_url
+                    )
+                )
+                -- Settings and inbox flags are private, so only the caller's own entry has them
+                || CASE WHEN cp.profile_universe_id = p_universe_id THEN jsonb_build_object(
+                    'is_archived', coalesce(cp.is_archived, false),
+                    'is_muted', coalesce(cp.is_muted, false) AND (cp.muted_until IS NULL OR cp.muted_until > now()),
+                    'muted_until', CASE WHEN cp.muted_until > now() THEN cp.muted_until END,
+                    'notification_level', coalesce(cp.notification_level, 'all'),
+                    'notification_sound', cp.notification_sound,
+                    'ringtone', cp.ringtone,
+                    'is_pinned', coalesce(cp.is_pinned, false),
+                    'pin_order', cp.pin_order,
+                    'marked_unread', coalesce(cp.marked_unread, false)
+                ) ELSE '{}'::jsonb END
+                ORDER BY cp.joined_at, cp.profile_universe_id
+            )
+            FROM conversation_participants cp
+            LEFT JOIN profile_universes pu ON pu.id = cp.profile_universe_id
+            WHERE cp.conversation_id = page.conversation_id
+              AND cp.left_at IS NULL
+        ), '[]'::jsonb)
+    FROM page
+    ORDER BY page.conversation_activity_at DESC, page.conversation_id DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
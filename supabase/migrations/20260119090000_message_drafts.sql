@@ -0,0 +1,104 @@
+-- Message Drafts
+-- Unsent composer text, one row per conversation and universe, so a draft follows the user
+-- between devices. metadata carries what the composer attached to the text (e.g. mentions).
+-- Attachments stay on the device they were picked on. An emptied draft is deleted rather than
+-- kept as an empty row.
+
+CREATE TABLE IF NOT EXISTS message_drafts (
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    profile_universe_id UUID NOT NULL REFERENCES profile_universes(id) ON DELETE CASCADE,
+    content TEXT NOT NULL CHECK (length(content) <= 20000),
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (conversation_id, profile_universe_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_drafts_universe
+    ON message_drafts(profile_universe_id);
+
+CREATE OR REPLACE FUNCTION touch_message_draft()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := now();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_touch_message_draft ON message_drafts;
+CREATE TRIGGER trg_touch_message_draft
+    BEFORE INSERT OR UPDATE ON message_drafts
+    FOR EACH ROW
+    EXECUTE FUNCTION touch_message_draft();
+
+ALTER TABLE message_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Policy: users see the drafts of their own universes
+DROP POLICY IF EXISTS "Users can view their drafts" ON message_drafts;
+CREATE POLICY "Users can view their drafts"
+    ON message_drafts FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM profile_universes pu
+            WHERE pu.id = message_drafts.profile_universe_id
+              AND pu.user_id = auth.uid()
+        )
+    );
+
+-- Policy: drafts can only be saved in conversations the universe is still part of
+DROP POLICY IF EXISTS "Participants can save drafts" ON message_drafts;
+CREATE POLICY "Participants can save drafts"
+    ON message_drafts FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM conversation_participants cp
+            JOIN profile_universes pu ON pu.id = cp.profile_universe_id
+            WHERE cp.conversation_id = message_drafts.conversation_id
+              AND cp.profile_universe_id = message_drafts.profile_universe_id
+              AND cp.left_at IS NULL
+              AND pu.user_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Participants can update drafts" ON message_drafts;
+CREATE POLICY "Participants can update drafts"
+    ON message_drafts FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM profile_universes pu
+            WHERE pu.id = message_drafts.profile_universe_id
+              AND pu.user_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM conversation_participants cp
+            JOIN profile_universes pu ON pu.id = cp.profile_universe_id
+            WHERE cp.conversation_id = message_drafts.conversation_id
+              AND cp.profile_universe_id = message_drafts.profile_universe_id
+              AND cp.left_at IS NULL
+              AND pu.user_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can delete their drafts" ON message_drafts;
+CREATE POLICY "Users can delete their drafts"
+    ON message_drafts FOR DELETE
+    USING (
+        EXISTS (
+            SELECT 1 FROM profile_universes pu
+            WHERE pu.id = message_drafts.profile_universe_id
+              AND pu.user_id = auth.uid()
+        )
+    );
+
+-- Other devices hear about saved and cleared drafts over Realtime. Deletes only carry the
+-- primary key, which is all a client needs to drop the draft.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND tablename = 'message_drafts'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE message_drafts;
+    END IF;
+END $$;
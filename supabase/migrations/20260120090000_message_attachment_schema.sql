@@ -0,0 +1,49 @@
+-- Message Attachment Schema
+-- messages.attachments holds an array of typed entries (see src/lib/messenger/attachments.ts):
+--   { type, url, path, name, size, mimeType, width?, height?, duration?, thumbnail? }
+-- where thumbnail is { url, path, width, height } for a downscaled image or a video poster frame.
+-- The check is NOT VALID so rows written before the schema are left alone; new rows must match.
+
+CREATE OR REPLACE FUNCTION is_valid_message_attachments(p_attachments JSONB)
+RETURNS BOOLEAN AS $$
+    SELECT p_attachments IS NULL
+        OR (
+            jsonb_typeof(p_attachments) = 'array'
+            AND jsonb_array_length(p_attachments) <= 10
+            AND NOT EXISTS (
+                SELECT 1
+                FROM jsonb_array_elements(p_attachments) AS a
+                WHERE NOT COALESCE(
+                    jsonb_typeof(a) = 'object'
+                    AND a->>'type' IN ('image', 'video', 'audio', 'file')
+                    AND jsonb_typeof(a->'url') = 'string'
+                    AND jsonb_typeof(a->'path') = 'string'
+                    AND jsonb_typeof(a->'name') = 'string'
+                    AND jsonb_typeof(a->'mimeType') = 'string'
+                    AND CASE WHEN jsonb_typeof(a->'size') = 'number' THEN (a->>'size')::numeric >= 0 ELSE false END
+                    AND (NOT a ? 'width' OR jsonb_typeof(a->'width') = 'number')
+                    AND (NOT a ? 'height' OR jsonb_typeof(a->'height') = 'number')
+                    AND (NOT a ? 'duration' OR jsonb_typeof(a->'duration') = 'number')
+                    AND (
+                        NOT a ? 'thumbnail'
+                        OR (
+                            jsonb_typeof(a->'thumbnail') = 'object'
+                            AND jsonb_typeof(a->'thumbnail'->'url') = 'string'
+                            AND jsonb_typeof(a->'thumbnail'->'path') = 'string'
+                        )
+                    ),
+                    false
+                )
+            )
+        );
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_attachments_schema;
+ALTER TABLE messages
+    ADD CONSTRAINT messages_attachments_schema
+    CHECK (is_valid_message_attachments(attachments)) NOT VALID;
+
+-- Enforce the largest client-side limit (video, 250MB) in storage as well
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('message-attachments', 'message-attachments', true, 262144000)
+ON CONFLICT (id) DO UPDATE SET file_size_limit = EXCLUDED.file_size_limit;
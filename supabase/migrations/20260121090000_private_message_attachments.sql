@@ -0,0 +1,141 @@
+-- Private Message Attachments
+-- The message-attachments bucket stops serving public URLs. Objects live under
+-- <universe>/<conversation>/..., and only active participants of that conversation can read
+-- them; clients show attachments through short-lived signed URLs resolved from the stored path.
+
+UPDATE storage.buckets SET public = false WHERE id = 'message-attachments';
+
+-- Stored attachments reference object paths only: derive the path from old public URLs and
+-- drop the URLs, which stop working once the bucket is private. A url next to a path is
+-- dropped too; the path is what gets shown.
+UPDATE messages m
+SET attachments = (
+    SELECT jsonb_agg(
+        CASE
+            WHEN a->>'url' LIKE '%/storage/v1/object/public/message-attachments/%' THEN
+                (a - 'url') || jsonb_build_object(
+                    'path', COALESCE(NULLIF(a->>'path', ''), substring(a->>'url' FROM '/storage/v1/object/public/message-attachments/([^?]+)'))
+                )
+            WHEN a ? 'url' AND COALESCE(a->>'path', '') <> '' THEN
+                a - 'url'
+            ELSE a
+        END
+        ORDER BY ordinality
+    )
+    FROM jsonb_array_elements(m.attachments) WITH ORDINALITY AS t(a, ordinality)
+)
+WHERE jsonb_typeof(m.attachments) = 'array'
+  AND EXISTS (SELECT 1 FROM jsonb_array_elements(m.attachments) AS a WHERE a ? 'url');
+
+-- url is now only an optional fallback for attachments that aren't in the bucket: an http(s)
+-- link on an entry without a path. Anything else (javascript:, a url overriding a path) is refused.
+CREATE OR REPLACE FUNCTION is_valid_message_attachments(p_attachments JSONB)
+RETURNS BOOLEAN AS $$
+    SELECT p_attachments IS NULL
+        OR (
+            jsonb_typeof(p_attachments) = 'array'
+            AND jsonb_array_length(p_attachments) <= 10
+            AND NOT EXISTS (
+                SELECT 1
+                FROM jsonb_array_elements(p_attachments) AS a
+                WHERE NOT COALESCE(
+                    jsonb_typeof(a) = 'object'
+                    AND a->>'type' IN ('image', 'video', 'audio', 'file')
+                    AND jsonb_typeof(a->'path') = 'string'
+                    AND (
+                        NOT a ? 'url'
+                        OR (
+                            jsonb_typeof(a->'url') = 'string'
+                            AND a->>'path' = ''
+                            AND a->>'url' ~* '^https?://'
+                        )
+                    )
+                    AND jsonb_typeof(a->'name') = 'string'
+                    AND jsonb_typeof(a->'mimeType') = 'string'
+                    AND CASE WHEN jsonb_typeof(a->'size') = 'number' THEN (a->>'size')::numeric >= 0 ELSE false END
+                    AND (NOT a ? 'width' OR jsonb_typeof(a->'width') = 'number')
+                    AND (NOT a ? 'height' OR jsonb_typeof(a->'height') = 'number')
+                    AND (NOT a ? 'duration' OR jsonb_typeof(a->'duration') = 'number')
+                    AND (
+                        NOT a ? 'thumbnail'
+                        OR (
+                            jsonb_typeof(a->'thumbnail') = 'object'
+                            AND jsonb_typeof(a->'thumbnail'->'path') = 'string'
+                        )
+                    ),
+                    false
+                )
+            )
+        );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Whether the caller has a universe that is an active participant of the conversation a
+-- message-attachments object belongs to (the second folder of its path)
+CREATE OR REPLACE FUNCTION can_access_message_attachment(p_object_name TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM conversation_participants cp
+        JOIN profile_universes pu ON pu.id = cp.profile_universe_id
+        WHERE cp.conversation_id::text = (storage.foldername(p_object_name))[2]
+          AND cp.left_at IS NULL
+          AND pu.user_id = auth.uid()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the caller owns the universe an object was uploaded as (the first folder of its path)
+-- and that universe is still in the conversation
+CREATE OR REPLACE FUNCTION can_upload_message_attachment(p_object_name TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM conversation_participants cp
+        JOIN profile_universes pu ON pu.id = cp.profile_universe_id
+        WHERE cp.profile_universe_id::text = (storage.foldername(p_object_name))[1]
+          AND cp.conversation_id::text = (storage.foldername(p_object_name))[2]
+          AND cp.left_at IS NULL
+          AND pu.user_id = auth.uid()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Policy: conversation members can read its attachments
+DROP POLICY IF EXISTS "Participants can view message attachments" ON storage.objects;
+CREATE POLICY "Participants can view message attachments"
+    ON storage.objects FOR SELECT TO authenticated
+    USING (
+        bucket_id = 'message-attachments'
+        AND can_access_message_attachment(name)
+    );
+
+-- Policy: members upload into their own universe's folder of the conversation
+DROP POLICY IF EXISTS "Participants can upload message attachments" ON storage.objects;
+CREATE POLICY "Participants can upload message attachments"
+    ON storage.objects FOR INSERT TO authenticated
+    WITH CHECK (
+        bucket_id = 'message-attachments'
+        AND can_upload_message_attachment(name)
+    );
+
+-- Uploads are upserts, so retries overwrite what the same universe uploaded before
+DROP POLICY IF EXISTS "Participants can update their message attachments" ON storage.objects;
+CREATE POLICY "Participants can update their message attachments"
+    ON storage.objects FOR UPDATE TO authenticated
+    USING (
+        bucket_id = 'message-attachments'
+        AND can_upload_message_attachment(name)
+    )
+    WITH CHECK (
+        bucket_id = 'message-attachments'
+        AND can_upload_message_attachment(name)
+    );
+
+-- Policy: an uploader can delete their own objects (e.g. an attachment removed before sending)
+DROP POLICY IF EXISTS "Users can delete their message attachments" ON storage.objects;
+CREATE POLICY "Users can delete their message attachments"
+    ON storage.objects FOR DELETE TO authenticated
+    USING (
+        bucket_id = 'message-attachments'
+        AND EXISTS (
+            SELECT 1 FROM profile_universes pu
+            WHERE pu.id::text = (storage.foldername(name))[1]
+              AND pu.user_id = auth.uid()
+        )
+    );
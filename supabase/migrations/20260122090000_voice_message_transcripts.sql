@@ -0,0 +1,21 @@
+-- Voice Message Transcripts
+-- Voice notes keep their waveform and duration in metadata.voice; the transcribe-voice-message
+-- edge function writes the transcript next to them as metadata.voice.transcript
+-- ({status: pending | completed | failed, text?, language?, error?}). The row update reaches
+-- clients through the existing messages realtime subscription.
+
+CREATE OR REPLACE FUNCTION set_voice_message_transcript(p_message_id UUID, p_transcript JSONB)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE messages
+    SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+        'voice',
+        COALESCE(metadata->'voice', '{}'::jsonb) || jsonb_build_object('transcript', p_transcript)
+    )
+    WHERE id = p_message_id
+      AND metadata ? 'voice';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the transcription function (service role) writes transcripts
+REVOKE ALL ON FUNCTION set_voice_message_transcript(UUID, JSONB) FROM PUBLIC, anon, authenticated;
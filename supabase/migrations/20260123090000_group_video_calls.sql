@@ -0,0 +1,336 @@
+-- Group Video Calls
+-- A call now has any number of participants, each rung, joined or gone on their own row in
+-- video_call_participants. Direct calls keep filling the callee columns; group calls leave them
+-- empty. Every member of the conversation can see its calls, so someone who missed the ring
+-- can still join while the call is going.
+
+ALTER TABLE video_calls ALTER COLUMN callee_user_id DROP NOT NULL;
+ALTER TABLE video_calls ALTER COLUMN callee_profile_universe_id DROP NOT NULL;
+
+CREATE TABLE IF NOT EXISTS video_call_participants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    call_id UUID NOT NULL REFERENCES video_calls(id) ON DELETE CASCADE,
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    profile_universe_id UUID NOT NULL REFERENCES profile_universes(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'ringing'
+        CHECK (status IN ('ringing', 'joined', 'declined', 'missed', 'left')),
+    invited_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    joined_at TIMESTAMPTZ,
+    left_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (call_id, profile_universe_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_call_participants_user_ringing
+    ON video_call_participants(user_id)
+    WHERE status = 'ringing';
+
+DROP TRIGGER IF EXISTS update_video_call_participants_updated_at ON video_call_participants;
+CREATE TRIGGER update_video_call_participants_updated_at
+    BEFORE UPDATE ON video_call_participants
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE video_call_participants ENABLE ROW LEVEL SECURITY;
+
+-- Policy: conversation members see who is in (or being rung into) its calls
+DROP POLICY IF EXISTS "Participants can view video call participants" ON video_call_participants;
+CREATE POLICY "Participants can view video call participants"
+    ON video_call_participants FOR SELECT
+    USING (is_conversation_participant(conversation_id));
+
+-- Policy: conversation members see its calls, not just the caller and callee
+DROP POLICY IF EXISTS "Participants can view conversation video calls" ON video_calls;
+CREATE POLICY "Participants can view conversation video calls"
+    ON video_calls FOR SELECT
+    USING (is_conversation_participant(conversation_id));
+
+-- Writes go through the functions below so call and participant states stay in step
+
+-- Settle a call after someone declines or leaves: it ends once nobody is left in it, and a call
+-- nobody ever answered is rejected or missed
+CREATE OR REPLACE FUNCTION settle_video_call(p_call_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_joined INTEGER;
+    v_ringing INTEGER;
+    v_answered BOOLEAN;
+    v_any_declined BOOLEAN;
+BEGIN
+    SELECT
+        COUNT(*) FILTER (WHERE status = 'joined'),
+        COUNT(*) FILTER (WHERE status = 'ringing'),
+        COUNT(*) FILTER (WHERE joined_at IS NOT NULL AND profile_universe_id <> vc.caller_profile_universe_id) > 0,
+        COUNT(*) FILTER (WHERE status = 'declined') > 0
+    INTO v_joined, v_ringing, v_answered, v_any_declined
+    FROM video_call_participants vcp
+    JOIN video_calls vc ON vc.id = vcp.call_id
+    WHERE vcp.call_id = p_call_id;
+
+    IF NOT v_answered AND v_ringing = 0 THEN
+        -- Everyone invited turned it down or let it ring out
+        UPDATE video_calls
+        SET status = CASE WHEN v_any_declined THEN 'rejected' ELSE 'missed' END,
+            ended_at = NOW(),
+            end_reason = CASE WHEN v_any_declined THEN 'rejected' ELSE 'timeout' END
+        WHERE id = p_call_id
+          AND status IN ('initiating', 'ringing');
+    ELSIF v_joined = 0 THEN
+        UPDATE video_calls
+        SET status = 'ended',
+            ended_at = NOW(),
+            end_reason = COALESCE(end_reason, 'ended')
+        WHERE id = p_call_id
+          AND status IN ('initiating', 'ringing', 'accepted');
+
+        UPDATE video_call_participants
+        SET status = 'missed'
+        WHERE call_id = p_call_id
+          AND status = 'ringing';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION settle_video_call(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Start a call in a conversation and ring every other member; joins the call already going on
+-- in the conversation instead of starting a second one
+CREATE OR REPLACE FUNCTION start_video_call(
+    p_conversation_id UUID,
+    p_actor_universe_id UUID
+)
+RETURNS UUID AS $$
+DECLARE
+    v_call_id UUID;
+    v_conversation_type TEXT;
+    v_callee_user_id UUID;
+    v_callee_universe_id UUID;
+BEGIN
+    PERFORM get_actor_conversation_role(p_conversation_id, p_actor_universe_id);
+
+    SELECT id INTO v_call_id
+    FROM video_calls
+    WHERE conversation_id = p_conversation_id
+      AND status IN ('initiating', 'ringing', 'accepted')
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_call_id IS NOT NULL THEN
+        PERFORM join_video_call(v_call_id);
+        RETURN v_call_id;
+    END IF;
+
+    SELECT type INTO v_conversation_type FROM conversations WHERE id = p_conversation_id;
+
+    -- Direct calls keep their callee on the call row, as before group calls
+    IF v_conversation_type = 'direct' THEN
+        SELECT pu.user_id, cp.profile_universe_id INTO v_callee_user_id, v_callee_universe_id
+        FROM conversation_participants cp
+        JOIN profile_universes pu ON pu.id = cp.profile_universe_id
+        WHERE cp.conversation_id = p_conversation_id
+          AND cp.profile_universe_id <> p_actor_universe_id
+          AND cp.left_at IS NULL
+        LIMIT 1;
+    END IF;
+
+    INSERT INTO video_calls (
+        conversation_id,
+        room_name,
+        caller_user_id,
+        caller_profile_universe_id,
+        callee_user_id,
+        callee_profile_universe_id,
+        status
+    ) VALUES (
+        p_conversation_id,
+        'conversation_' || p_conversation_id::TEXT,
+        auth.uid(),
+        p_actor_universe_id,
+        v_callee_user_id,
+        v_callee_universe_id,
+        'ringing'
+    ) RETURNING id INTO v_call_id;
+
+    INSERT INTO video_call_participants (
+        call_id,
+        conversation_id,
+        user_id,
+        profile_universe_id,
+        status,
+        joined_at
+    )
+    SELECT
+        v_call_id,
+        p_conversation_id,
+        pu.user_id,
+        cp.profile_universe_id,
+        CASE WHEN cp.profile_universe_id = p_actor_universe_id THEN 'joined' ELSE 'ringing' END,
+        CASE WHEN cp.profile_universe_id = p_actor_universe_id THEN NOW() END
+    FROM conversation_participants cp
+    JOIN profile_universes pu ON pu.id = cp.profile_universe_id
+    WHERE cp.conversation_id = p_conversation_id
+      AND cp.left_at IS NULL;
+
+    RETURN v_call_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Answer a ringing call, or join one that is already going on
+CREATE OR REPLACE FUNCTION join_video_call(p_call_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_call RECORD;
+    v_universe_id UUID;
+BEGIN
+    SELECT * INTO v_call
+    FROM video_calls
+    WHERE id = p_call_id
+      AND status IN ('initiating', 'ringing', 'accepted')
+    FOR UPDATE;
+
+    IF v_call.id IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    -- The universe that was rung, or for late joiners the caller's membership
+    SELECT vcp.profile_universe_id INTO v_universe_id
+    FROM video_call_participants vcp
+    WHERE vcp.call_id = p_call_id
+      AND vcp.user_id = auth.uid()
+    LIMIT 1;
+
+    IF v_universe_id IS NULL THEN
+        SELECT cp.profile_universe_id INTO v_universe_id
+        FROM conversation_participants cp
+        JOIN profile_universes pu ON pu.id = cp.profile_universe_id
+        WHERE cp.conversation_id = v_call.conversation_id
+          AND pu.user_id = auth.uid()
+          AND cp.left_at IS NULL
+        ORDER BY cp.joined_at
+        LIMIT 1;
+    END IF;
+
+    IF v_universe_id IS NULL OR NOT is_conversation_participant(v_call.conversation_id) THEN
+        RAISE EXCEPTION 'Not a participant in this conversation';
+    END IF;
+
+    INSERT INTO video_call_participants (
+        call_id,
+        conversation_id,
+        user_id,
+        profile_universe_id,
+        status,
+        joined_at
+    ) VALUES (
+        p_call_id,
+        v_call.conversation_id,
+        auth.uid(),
+        v_universe_id,
+        'joined',
+        NOW()
+    )
+    ON CONFLICT (call_id, profile_universe_id) DO UPDATE
+    SET status = 'joined',
+        joined_at = COALESCE(video_call_participants.joined_at, NOW()),
+        left_at = NULL;
+
+    IF v_call.status <> 'accepted' AND v_universe_id <> v_call.caller_profile_universe_id THEN
+        UPDATE video_calls
+        SET status = 'accepted',
+            accepted_at = NOW()
+        WHERE id = p_call_id;
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Turn down a ringing call ('declined'), or let it ring out (p_reason = 'missed')
+CREATE OR REPLACE FUNCTION decline_video_call(p_call_id UUID, p_reason TEXT DEFAULT 'declined')
+RETURNS BOOLEAN AS $$
+BEGIN
+    UPDATE video_call_participants
+    SET status = CASE WHEN p_reason = 'missed' THEN 'missed' ELSE 'declined' END
+    WHERE call_id = p_call_id
+      AND user_id = auth.uid()
+      AND status = 'ringing';
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    PERFORM settle_video_call(p_call_id);
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hang up; the call ends when the last participant leaves
+CREATE OR REPLACE FUNCTION leave_video_call(p_call_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+    UPDATE video_call_participants
+    SET status = 'left',
+        left_at = NOW()
+    WHERE call_id = p_call_id
+      AND user_id = auth.uid()
+      AND status = 'joined';
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    PERFORM settle_video_call(p_call_id);
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Ringing participants time out individually; settle the calls that leaves unanswered
+CREATE OR REPLACE FUNCTION mark_missed_calls()
+RETURNS VOID AS $$
+DECLARE
+    v_call_id UUID;
+BEGIN
+    FOR v_call_id IN
+        UPDATE video_call_participants
+        SET status = 'missed'
+        WHERE status = 'ringing'
+          AND invited_at < NOW() - INTERVAL '30 seconds'
+        RETURNING call_id
+    LOOP
+        PERFORM settle_video_call(v_call_id);
+    END LOOP;
+
+    -- Calls from before participants were tracked
+    UPDATE video_calls vc
+    SET status = 'missed',
+        ended_at = NOW(),
+        end_reason = 'timeout'
+    WHERE vc.status = 'ringing'
+      AND vc.created_at < NOW() - INTERVAL '30 seconds'
+      AND NOT EXISTS (SELECT 1 FROM video_call_participants vcp WHERE vcp.call_id = vc.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A global sweep: run on a schedule (e.g. pg_cron), not by clients
+REVOKE ALL ON FUNCTION mark_missed_calls() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND tablename = 'video_calls'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE video_calls;
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND tablename = 'video_call_participants'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE video_call_participants;
+    END IF;
+END $$;